@@ -3,6 +3,7 @@ import { render, screen, fireEvent, waitFor, act } from '@testing-library/react'
 import Home from './page';
 import * as socketClient from '../lib/socketClient';
 import * as userStorage from '../lib/userStorage';
+import type { Room } from '../types';
 
 // Mock dependencies
 vi.mock('../lib/socketClient', () => ({
@@ -100,7 +101,7 @@ describe('Home Page', () => {
   test('should successfully create demo room when user has valid name', async () => {
     vi.mocked(userStorage.getUserName).mockReturnValue('Test User');
     vi.mocked(userStorage.getUserId).mockReturnValue('test-user-id');
-    vi.mocked(socketClient.createRoom).mockResolvedValue(undefined);
+    vi.mocked(socketClient.createRoom).mockResolvedValue({ room: {} as Room });
 
     render(<Home />);
 
@@ -116,7 +117,6 @@ describe('Home Page', () => {
       true,
       8,
       'Test User',
-      'test-user-id',
       true
     );
 
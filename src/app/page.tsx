@@ -13,8 +13,14 @@ import { RoomList } from '../features/room-list/components/RoomList';
 import { Button } from '../components/ui/Button';
 import type { Room } from '../types';
 import { createRoom } from '../lib/socketClient';
-import { getUserName, getUserId } from '../lib/userStorage';
+import { getUserName } from '../lib/userStorage';
 import { ToastProvider, useToast } from '../contexts/ToastContext';
+import { createLogger } from '../lib/logger';
+
+/**
+ * Log of demo room failures
+ */
+const log = createLogger('home');
 
 function HomeContent() {
   const router = useRouter();
@@ -27,7 +33,6 @@ function HomeContent() {
 
   const handleCreateDemoRoom = async () => {
     const userName = getUserName();
-    const userId = getUserId();
     
     if (!userName) {
       showWarning('ユーザー名を設定してください');
@@ -37,11 +42,11 @@ function HomeContent() {
     try {
       // Create demo room with mock quiz data using Socket.io
       const demoRoomName = '🎯 デモルーム (サンプルクイズ付き)';
-      await createRoom(demoRoomName, true, 8, userName, userId, true);
+      await createRoom(demoRoomName, true, 8, userName, true);
       
       // Note: Navigation will be handled by RoomList component's onRoomCreated event
     } catch (error) {
-      console.error('Failed to create demo room:', error);
+      log.error('Failed to create demo room', { error });
       showError('デモルームの作成に失敗しました');
     }
   };
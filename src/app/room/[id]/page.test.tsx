@@ -6,9 +6,10 @@
  */
 
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { render, screen, waitFor } from '@testing-library/react';
+import { render, screen, waitFor, act } from '@testing-library/react';
 import { useParams, useRouter } from 'next/navigation';
 import RoomPage from './page';
+import { ErrorCode, RemovalCode } from '@/types/socket';
 
 // Mock Next.js navigation
 const mockSearchParams = { get: vi.fn() };
@@ -27,8 +28,8 @@ vi.mock('next/navigation', () => ({
 vi.mock('@/lib/socketClient', () => ({
   getSocket: vi.fn(),
   isConnected: vi.fn(),
-  joinRoom: vi.fn(),
-  leaveRoom: vi.fn(),
+  joinRoom: vi.fn(() => Promise.resolve()),
+  leaveRoom: vi.fn(() => Promise.resolve()),
 }));
 
 // Mock user storage
@@ -231,7 +232,7 @@ describe('RoomPage', () => {
     });
 
     // Verify that joinRoom was called when user is host but no stored room data
-    expect(joinRoom).toHaveBeenCalledWith('test-room-id', 'test-user-id', 'Test User');
+    expect(joinRoom).toHaveBeenCalledWith('test-room-id', 'Test User');
   });
 
   it('should call joinRoom when user is not in the room yet', async () => {
@@ -298,7 +299,98 @@ describe('RoomPage', () => {
     });
 
     // Verify that joinRoom was called
-    expect(joinRoom).toHaveBeenCalledWith('test-room-id', 'test-user-id', 'Test User');
+    expect(joinRoom).toHaveBeenCalledWith('test-room-id', 'Test User');
+  });
+
+  it('should rejoin the room when the socket reconnects', async () => {
+    const { joinRoom, getSocket, isConnected } = await import('@/lib/socketClient');
+    const { getUserName } = await import('@/lib/userStorage');
+    
+    Object.defineProperty(window, 'location', {
+      value: {
+        search: '',
+      },
+      writable: true,
+    });
+    
+    (isConnected as unknown as ReturnType<typeof vi.fn>).mockReturnValue(true);
+    (getSocket as unknown as ReturnType<typeof vi.fn>).mockReturnValue(mockSocket);
+    (getUserName as unknown as ReturnType<typeof vi.fn>).mockReturnValue('Test User');
+
+    const handlers: Record<string, (data?: Record<string, unknown>) => void> = {};
+    mockSocket.on.mockImplementation((event: string, handler: (data?: Record<string, unknown>) => void) => {
+      handlers[event] = handler;
+    });
+
+    render(<RoomPage />);
+
+    act(() => {
+      handlers['room:joined']?.({
+        room: { id: 'test-room-id', name: 'Test Room', hostId: 'other-user-id', users: [], isPublic: true, maxPlayers: 8, quizzes: [] },
+        user: { id: 'test-user-id', name: 'Test User', isHost: false },
+      });
+    });
+    (joinRoom as unknown as ReturnType<typeof vi.fn>).mockClear();
+
+    act(() => {
+      handlers['connect']?.();
+    });
+
+    expect(joinRoom).toHaveBeenCalledWith('test-room-id', 'Test User');
+  });
+
+  it('should show the reason and not leave again when removed from the room', async () => {
+    const { leaveRoom, getSocket, isConnected } = await import('@/lib/socketClient');
+    const { getUserName } = await import('@/lib/userStorage');
+
+    (isConnected as unknown as ReturnType<typeof vi.fn>).mockReturnValue(true);
+    (getSocket as unknown as ReturnType<typeof vi.fn>).mockReturnValue(mockSocket);
+    (getUserName as unknown as ReturnType<typeof vi.fn>).mockReturnValue('Test User');
+
+    const handlers: Record<string, (data?: Record<string, unknown>) => void> = {};
+    mockSocket.on.mockImplementation((event: string, handler: (data?: Record<string, unknown>) => void) => {
+      handlers[event] = handler;
+    });
+
+    const { unmount } = render(<RoomPage />);
+
+    act(() => {
+      handlers['room:joined']?.({
+        room: { id: 'test-room-id', name: 'Test Room', hostId: 'other-user-id', users: [], isPublic: true, maxPlayers: 8, quizzes: [] },
+        user: { id: 'test-user-id', name: 'Test User', isHost: false },
+      });
+    });
+
+    act(() => {
+      handlers['room:kicked']?.({ roomId: 'test-room-id', reason: 'You were removed from the room by an operator' });
+    });
+
+    expect(screen.getByText('You were removed from the room by an operator')).toBeInTheDocument();
+
+    unmount();
+    expect(leaveRoom).not.toHaveBeenCalled();
+  });
+
+  it('should explain a removal by the host in the browser language', async () => {
+    const { getSocket, isConnected } = await import('@/lib/socketClient');
+    const { getUserName } = await import('@/lib/userStorage');
+
+    (isConnected as unknown as ReturnType<typeof vi.fn>).mockReturnValue(true);
+    (getSocket as unknown as ReturnType<typeof vi.fn>).mockReturnValue(mockSocket);
+    (getUserName as unknown as ReturnType<typeof vi.fn>).mockReturnValue('Test User');
+
+    const handlers: Record<string, (data?: Record<string, unknown>) => void> = {};
+    mockSocket.on.mockImplementation((event: string, handler: (data?: Record<string, unknown>) => void) => {
+      handlers[event] = handler;
+    });
+
+    render(<RoomPage />);
+
+    act(() => {
+      handlers['room:kicked']?.({ roomId: 'test-room-id', reason: 'The host banned you from the room', code: RemovalCode.BannedByHost });
+    });
+
+    expect(screen.getByText('The host banned you from the room.')).toBeInTheDocument();
   });
 
   it('should redirect to home if user name is not set', async () => {
@@ -502,7 +594,26 @@ describe('RoomPage', () => {
     }
 
     await waitFor(() => {
-      expect(screen.getByText('Room not found')).toBeInTheDocument();
+      expect(screen.getByText('This room no longer exists.')).toBeInTheDocument();
+    });
+  });
+
+  it('should show why the server refused the join', async () => {
+    const { getSocket, isConnected, joinRoom } = await import('@/lib/socketClient');
+    const { getUserName, getUserId } = await import('@/lib/userStorage');
+    
+    (isConnected as unknown as ReturnType<typeof vi.fn>).mockReturnValue(true);
+    (getSocket as unknown as ReturnType<typeof vi.fn>).mockReturnValue(mockSocket);
+    (getUserName as unknown as ReturnType<typeof vi.fn>).mockReturnValue('Test User');
+    (getUserId as unknown as ReturnType<typeof vi.fn>).mockReturnValue('test-user-id');
+    (joinRoom as unknown as ReturnType<typeof vi.fn>).mockRejectedValueOnce(
+      Object.assign(new Error('Room is full'), { name: 'SocketCommandError', reason: 'rejected', code: ErrorCode.RoomFull })
+    );
+
+    render(<RoomPage />);
+
+    await waitFor(() => {
+      expect(screen.getByText('This room is full.')).toBeInTheDocument();
     });
   });
 
@@ -611,7 +722,7 @@ describe('RoomPage', () => {
     render(<RoomPage />);
 
     await waitFor(() => {
-      expect(screen.getByText('Socket not initialized')).toBeInTheDocument();
+      expect(screen.getByText('Not connected to server. Please refresh the page.')).toBeInTheDocument();
       expect(screen.getByText('Back to Home')).toBeInTheDocument();
     });
   });
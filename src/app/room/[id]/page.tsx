@@ -12,9 +12,18 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { useParams, useRouter } from 'next/navigation';
 import { Room } from '@/features/room/components/Room';
-import type { Room as RoomType, User } from '@/types';
+import { useServerNotice } from '@/features/room/hooks/useServerNotice';
+import type { Room as RoomType, User, GameSession, Score } from '@/types';
+import { ErrorCode, type RemovalCode } from '@/types/socket';
 import { getUserName, getUserId } from '@/lib/userStorage';
 import { getSocket, isConnected, joinRoom, leaveRoom } from '@/lib/socketClient';
+import { describeCommandError, describeRemoval, getConnectionErrorMessage, getErrorMessage } from '@/lib/errorMessages';
+import { createLogger } from '@/lib/logger';
+
+/**
+ * Log of joining, rejoining and leaving the room
+ */
+const log = createLogger('roomPage');
 
 /**
  * Room page component
@@ -22,6 +31,8 @@ import { getSocket, isConnected, joinRoom, leaveRoom } from '@/lib/socketClient'
 export default function RoomPage() {
   const [room, setRoom] = useState<RoomType | null>(null);
   const [currentUser, setCurrentUser] = useState<User | null>(null);
+  const [session, setSession] = useState<GameSession | undefined>(undefined);
+  const [scores, setScores] = useState<Score[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const hasJoinedRef = useRef(false);
@@ -31,6 +42,7 @@ export default function RoomPage() {
   const resolvedParams = useParams();
   const roomId = resolvedParams.id as string;
   const socketRef = useRef<ReturnType<typeof getSocket> | null>(null);
+  const { notice, dismiss: dismissNotice } = useServerNotice(isConnected());
 
   // Initialize socket and check if already in room
   useEffect(() => {
@@ -43,14 +55,14 @@ export default function RoomPage() {
       return;
     }
     if (!isConnected()) {
-      setError('Not connected to server. Please refresh the page.');
+      setError(getConnectionErrorMessage());
       setLoading(false);
       return;
     }
     const socket = getSocket();
     socketRef.current = socket;
     if (!socket) {
-      setError('Socket not initialized');
+      setError(getConnectionErrorMessage());
       setLoading(false);
       return;
     }
@@ -72,7 +84,7 @@ export default function RoomPage() {
       try {
         const roomData = JSON.parse(storedRoomData);
         if (roomData.id === roomId) {
-          console.log('Using stored room data for fresh room creation:', { roomId: roomData.id, hostName: roomData.users[0]?.name });
+          log.debug('Using stored room data for fresh room creation', { roomId: roomData.id, hostName: roomData.users[0]?.name });
           setRoom(roomData);
           setCurrentUser(roomData.users[0]);
           setLoading(false);
@@ -82,18 +94,20 @@ export default function RoomPage() {
           sessionStorage.removeItem('createdRoom');
         }
       } catch (error) {
-        console.error('Error parsing stored room data:', error);
+        log.error('Error parsing stored room data', { error });
         sessionStorage.removeItem('createdRoom');
       }
     }
 
     // room:joined handler
-    const handleRoomJoined = (data: { room: RoomType; user: User }) => {
+    const handleRoomJoined = (data: { room: RoomType; user: User; session?: GameSession; scores?: Score[] }) => {
       if (data.room && data.user) {
-        console.log('Received room:joined event:', { roomId: data.room.id, userId: data.user.id, userName: data.user.name, isHost: data.user.isHost });
+        log.debug('Received room:joined event', { roomId: data.room.id, userId: data.user.id, userName: data.user.name, isHost: data.user.isHost });
       }
       setRoom(data.room);
       setCurrentUser(data.user);
+      setSession(data.session);
+      setScores(data.scores ?? []);
       setLoading(false);
       hasJoinedRef.current = true;
     };
@@ -115,7 +129,15 @@ export default function RoomPage() {
 
     // room:notFound handler
     const handleRoomNotFound = () => {
-      setError('Room not found');
+      setError(getErrorMessage(ErrorCode.RoomNotFound));
+      setLoading(false);
+    };
+
+    // room:closed / room:kicked handler: we're out of the room, so show why and don't leave again
+    const handleRemovedFromRoom = (data: { roomId: string; reason: string; code?: RemovalCode }) => {
+      if (data.roomId !== roomId) return;
+      hasLeftRef.current = true;
+      setError(describeRemoval(data));
       setLoading(false);
     };
 
@@ -129,13 +151,29 @@ export default function RoomPage() {
 
     // room:left handler
     const handleRoomLeft = () => {
-      console.log('Room left successfully');
+      log.debug('Room left successfully');
       hasLeftRef.current = false; // Reset hasLeftRef when successfully left
       
       // Navigate to home page after successfully leaving room
       router.push('/');
     };
 
+    // A refused join (room full, private, gone...) replaces the room with the reason
+    const handleJoinFailed = (error: unknown) => {
+      log.error('Failed to join room', { error });
+      setError(describeCommandError(error));
+      setLoading(false);
+    };
+
+    // Rejoin after a dropped connection; the server keeps our place for a grace period
+    const handleReconnect = () => {
+      if (hasJoinedRef.current && !hasLeftRef.current) {
+        log.info('Reconnected, rejoining room', { roomId });
+        joinRoom(roomId, userName).catch(handleJoinFailed);
+      }
+    };
+
+    socket.on('connect', handleReconnect);
     socket.on('room:joined', handleRoomJoined);
     socket.on('room:alreadyJoined', handleAlreadyJoined);
     socket.on('room:left', handleRoomLeft);
@@ -143,34 +181,30 @@ export default function RoomPage() {
     socket.on('room:userLeft', handleUserLeft);
     socket.on('room:updated', handleRoomUpdated);
     socket.on('room:notFound', handleRoomNotFound);
+    socket.on('room:closed', handleRemovedFromRoom);
+    socket.on('room:kicked', handleRemovedFromRoom);
     
     // Quiz events are now handled by the Room component itself
     // No need to navigate to separate quiz-game page
 
     // If user is already host (from room creation), don't call joinRoom
     // The server should send room:joined event automatically for room creation
-    console.log('=== Room Page Debug ===');
-    console.log('isHost from URL:', isHostValue);
-    console.log('hasJoinedRef.current:', hasJoinedRef.current);
-    console.log('userId:', userId);
-    console.log('userName:', userName);
-    console.log('roomId:', roomId);
-    console.log('storedRoomData exists:', !!storedRoomData);
+    log.debug('Room page mounted', { roomId, userId, isHostFromUrl: isHostValue, hasJoined: hasJoinedRef.current, hasStoredRoomData: Boolean(storedRoomData) });
     
     // Only skip joinRoom if we have stored room data (fresh room creation)
     if (isHostValue && storedRoomData) {
-      console.log('User is host with stored room data - waiting for room:joined event from room creation');
+      log.debug('User is host with stored room data - waiting for room:joined event from room creation');
       // Don't call joinRoom for fresh room creation - they should receive room:joined from room creation
     } else if (!hasJoinedRef.current) {
-      console.log('Calling joinRoom...');
-      joinRoom(roomId, userId, userName);
+      log.debug('Calling joinRoom...');
+      joinRoom(roomId, userName).catch(handleJoinFailed);
     } else {
-      console.log('Skipping joinRoom - already joined');
+      log.debug('Skipping joinRoom - already joined');
     }
-    console.log('=== End Debug ===');
 
     // Clean up on unmount
     return () => {
+      socket.off('connect', handleReconnect);
       socket.off('room:joined', handleRoomJoined);
       socket.off('room:alreadyJoined', handleAlreadyJoined);
       socket.off('room:left', handleRoomLeft);
@@ -178,13 +212,15 @@ export default function RoomPage() {
       socket.off('room:userLeft', handleUserLeft);
       socket.off('room:updated', handleRoomUpdated);
       socket.off('room:notFound', handleRoomNotFound);
+      socket.off('room:closed', handleRemovedFromRoom);
+      socket.off('room:kicked', handleRemovedFromRoom);
       // Quiz events are now handled by Room component
       
       // Only leave room on actual component unmount, not on re-renders or Fast Refresh
       // Check if this is a fresh room creation or if already left
       if (!isFreshRoomCreationRef.current && !hasLeftRef.current && hasJoinedRef.current) {
         hasLeftRef.current = true;
-        leaveRoom();
+        leaveRoom().catch(error => log.error('Failed to leave room', { error }));
       }
     };
   }, [roomId, router]); // Remove room?.users from dependencies to prevent re-renders
@@ -192,11 +228,11 @@ export default function RoomPage() {
   // Handle room leave
   const handleRoomLeave = () => {
     if (hasLeftRef.current) {
-      console.log('Already left room, skipping duplicate leaveRoom call');
+      log.debug('Already left room, skipping duplicate leaveRoom call');
       return;
     }
     hasLeftRef.current = true;
-    leaveRoom();
+    leaveRoom().catch(error => log.error('Failed to leave room', { error }));
     // Note: Navigation will happen in handleRoomLeft after receiving room:left event
   };
 
@@ -250,9 +286,19 @@ export default function RoomPage() {
   return (
     <div className="min-h-screen bg-gradient-to-br from-pink-50 via-purple-50 to-blue-50">
       <div className="container mx-auto px-4 py-8">
+        {notice && (
+          <div role="status" className="mb-4 p-3 bg-blue-50 border border-blue-200 rounded-lg flex items-center justify-between gap-2">
+            <span className="text-sm text-blue-800">{notice}</span>
+            <button onClick={dismissNotice} className="text-sm text-blue-700 hover:text-blue-900">
+              Dismiss
+            </button>
+          </div>
+        )}
         <Room
           room={room}
-          currentUser={currentUser}
+          currentUser={room.users.find(user => user.id === currentUser.id) ?? currentUser}
+          session={session}
+          scores={scores}
           onLeave={handleRoomLeave}
         />
       </div>
@@ -11,9 +11,7 @@ describe('useChat', () => {
     vi.clearAllMocks();
     // Mock the socket client functions
     vi.spyOn(socketClientModule, 'getSocket').mockReturnValue(null);
-    vi.spyOn(socketClientModule, 'sendChatMessage').mockImplementation(() => {
-      throw new Error('Socket not connected');
-    });
+    vi.spyOn(socketClientModule, 'sendChatMessage').mockRejectedValue(new Error('Socket not connected'));
   });
 
   test('should initialize with empty messages', () => {
@@ -22,11 +20,11 @@ describe('useChat', () => {
     expect(result.current.messages).toEqual([]);
   });
 
-  test('should show error message when socket fails', () => {
+  test('should show error message when socket fails', async () => {
     const { result } = renderHook(() => useChat());
     
-    act(() => {
-      result.current.sendMessage('Hello world', 'user1', 'User 1');
+    await act(async () => {
+      result.current.sendMessage('Hello world');
     });
     
     expect(result.current.messages).toHaveLength(1);
@@ -56,23 +54,23 @@ describe('useChat', () => {
     });
   });
 
-  test('should not add empty messages', () => {
+  test('should not add empty messages', async () => {
     const { result } = renderHook(() => useChat());
     
-    act(() => {
-      result.current.sendMessage('', 'user1', 'User 1');
-      result.current.sendMessage('   ', 'user1', 'User 1');
+    await act(async () => {
+      result.current.sendMessage('');
+      result.current.sendMessage('   ');
     });
     
     expect(result.current.messages).toHaveLength(0);
   });
 
-  test('should add multiple messages in order', () => {
+  test('should add multiple messages in order', async () => {
     const { result } = renderHook(() => useChat());
     
-    act(() => {
-      result.current.sendMessage('First message', 'user1', 'User 1');
-      result.current.sendMessage('Second message', 'user2', 'User 2');
+    await act(async () => {
+      await result.current.sendMessage('First message');
+      await result.current.sendMessage('Second message');
       result.current.addSystemMessage('System announcement');
     });
     
@@ -82,12 +80,12 @@ describe('useChat', () => {
     expect(result.current.messages[2].message).toBe('System announcement');
   });
 
-  test('should clear all messages', () => {
+  test('should clear all messages', async () => {
     const { result } = renderHook(() => useChat());
     
-    act(() => {
-      result.current.sendMessage('Message 1', 'user1', 'User 1');
-      result.current.sendMessage('Message 2', 'user2', 'User 2');
+    await act(async () => {
+      result.current.sendMessage('Message 1');
+      result.current.sendMessage('Message 2');
     });
     
     expect(result.current.messages).toHaveLength(2);
@@ -111,14 +109,14 @@ describe('useChat', () => {
     });
   });
 
-  test('should handle max messages limit', () => {
+  test('should handle max messages limit', async () => {
     const { result } = renderHook(() => useChat({ maxMessages: 3 }));
     
-    act(() => {
-      result.current.sendMessage('Message 1', 'user1', 'User 1');
-      result.current.sendMessage('Message 2', 'user1', 'User 1');
-      result.current.sendMessage('Message 3', 'user1', 'User 1');
-      result.current.sendMessage('Message 4', 'user1', 'User 1');
+    await act(async () => {
+      result.current.sendMessage('Message 1');
+      result.current.sendMessage('Message 2');
+      result.current.sendMessage('Message 3');
+      result.current.sendMessage('Message 4');
     });
     
     expect(result.current.messages).toHaveLength(3);
@@ -127,14 +125,14 @@ describe('useChat', () => {
     expect(result.current.messages[2].message).toBe('Failed to send message. Please check your connection and try again.');
   });
 
-  test('should provide message count', () => {
+  test('should provide message count', async () => {
     const { result } = renderHook(() => useChat());
     
     expect(result.current.messageCount).toBe(0);
     
-    act(() => {
-      result.current.sendMessage('Message 1', 'user1', 'User 1');
-      result.current.sendMessage('Message 2', 'user1', 'User 1');
+    await act(async () => {
+      result.current.sendMessage('Message 1');
+      result.current.sendMessage('Message 2');
     });
     
     expect(result.current.messageCount).toBe(2);
@@ -158,7 +156,7 @@ describe('useChat', () => {
     expect(result.current.messages[0].timestamp).toBe(customTimestamp);
   });
 
-  test('should add user message when socket is connected', () => {
+  test('should add user message when socket is connected', async () => {
     // Mock successful socket connection
     const mockSocket = {
       on: vi.fn(),
@@ -166,18 +164,16 @@ describe('useChat', () => {
       emit: vi.fn(),
     };
     vi.spyOn(socketClientModule, 'getSocket').mockReturnValue(mockSocket as any);
-    vi.spyOn(socketClientModule, 'sendChatMessage').mockImplementation(() => {
-      // Simulate successful message sending
-    });
+    vi.spyOn(socketClientModule, 'sendChatMessage').mockResolvedValue(undefined);
 
     const { result } = renderHook(() => useChat());
     
-    act(() => {
-      result.current.sendMessage('Hello world', 'user1', 'User 1');
+    await act(async () => {
+      result.current.sendMessage('Hello world');
     });
     
     // When socket connection is successful, no error message should be added
     expect(result.current.messages).toHaveLength(0);
-    expect(socketClientModule.sendChatMessage).toHaveBeenCalledWith('Hello world', 'user1', 'User 1');
+    expect(socketClientModule.sendChatMessage).toHaveBeenCalledWith('Hello world');
   });
 });
\ No newline at end of file
@@ -3,6 +3,12 @@
  */
 import { useState, useCallback, useEffect } from 'react';
 import { getSocket, sendChatMessage } from '@/lib/socketClient';
+import { createLogger } from '@/lib/logger';
+
+/**
+ * Log of chat failures and malformed messages
+ */
+const log = createLogger('useChat');
 
 /**
  * Generate a unique message ID with timestamp and random entropy
@@ -28,7 +34,7 @@ export interface UseChatOptions {
 export interface UseChatReturn {
   messages: ChatMessage[];
   messageCount: number;
-  sendMessage: (message: string, userId: string, userName: string) => void;
+  sendMessage: (message: string) => Promise<void>;
   addSystemMessage: (message: string) => void;
   addMessage: (message: ChatMessage) => void;
   clearMessages: () => void;
@@ -62,14 +68,14 @@ export function useChat(options: UseChatOptions = {}): UseChatReturn {
     });
   }, [addMessage]);
 
-  const sendMessage = useCallback((message: string, userId: string, userName: string) => {
+  const sendMessage = useCallback(async (message: string) => {
     if (!message.trim()) return;
 
     try {
       // Send message via Socket.io
-      sendChatMessage(message.trim(), userId, userName);
+      await sendChatMessage(message.trim());
     } catch (error) {
-      console.error('Failed to send chat message:', error);
+      log.error('Failed to send chat message', { error });
       // Show error to user instead of silent fallback
       addSystemMessage('Failed to send message. Please check your connection and try again.');
     }
@@ -101,7 +107,7 @@ export function useChat(options: UseChatOptions = {}): UseChatReturn {
     const handleChatMessage = (data: { message: string; userId: string; userName: string; timestamp: number }) => {
       // Validate incoming data
       if (!data.message || !data.userId || !data.userName || !data.timestamp) {
-        console.warn('Invalid chat message data received:', data);
+        log.warn('Invalid chat message data received', { data });
         return;
       }
 
@@ -32,6 +32,7 @@ describe('QuizCreator Component', () => {
   const mockOnQuizCreated = vi.fn();
   const mockUpdateField = vi.fn();
   const mockSetQuizType = vi.fn();
+  const mockSetChoice = vi.fn();
   const mockSetImageFromUrl = vi.fn();
   const mockSetImageFromFile = vi.fn();
   const mockSetErrors = vi.fn();
@@ -51,6 +52,7 @@ describe('QuizCreator Component', () => {
     isSubmitting: false,
     updateField: mockUpdateField,
     setQuizType: mockSetQuizType,
+    setChoice: mockSetChoice,
     setImageFromUrl: mockSetImageFromUrl,
     setImageFromFile: mockSetImageFromFile,
     setErrors: mockSetErrors,
@@ -189,6 +191,21 @@ describe('QuizCreator Component', () => {
     expect(mockSetImageFromUrl).toHaveBeenCalledWith('https://example.com/image.jpg');
   });
 
+  test('updates a choice for choice quiz', async () => {
+    const user = userEvent.setup();
+    vi.mocked(useQuizForm.useQuizForm).mockReturnValue({
+      ...defaultUseQuizFormReturn,
+      formData: { ...defaultFormData, type: 'choice', choices: ['', '', '', ''] },
+    });
+
+    render(<QuizCreator isOpen={true} onClose={mockOnClose} onQuizCreated={mockOnQuizCreated} />);
+
+    const choiceInput = screen.getByPlaceholderText('Option 2...');
+    await user.type(choiceInput, 'T');
+
+    expect(mockSetChoice).toHaveBeenCalledWith(1, 'T');
+  });
+
   test('shows image preview for URL type', () => {
     vi.mocked(useQuizForm.useQuizForm).mockReturnValue({
       ...defaultUseQuizFormReturn,
@@ -10,7 +10,7 @@ import Image from 'next/image';
 import { Card, CardHeader, CardContent } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
 import { Modal } from '@/components/ui/Modal';
-import type { Quiz } from '@/types';
+import type { Quiz, QuizType } from '@/types';
 import { addQuiz } from '@/lib/socketClient';
 import { useQuizForm } from '../hooks/useQuizForm';
 
@@ -18,8 +18,8 @@ import { useQuizForm } from '../hooks/useQuizForm';
  * Quiz type selector component
  */
 interface QuizTypeSelectorProps {
-  selectedType: 'text' | 'image';
-  onTypeChange: (type: 'text' | 'image') => void;
+  selectedType: QuizType;
+  onTypeChange: (type: QuizType) => void;
 }
 
 function QuizTypeSelector({ selectedType, onTypeChange }: QuizTypeSelectorProps) {
@@ -45,6 +45,14 @@ function QuizTypeSelector({ selectedType, onTypeChange }: QuizTypeSelectorProps)
           title="Image Quiz"
           description="Anime character questions"
         />
+        <TypeButton
+          type="choice"
+          isSelected={selectedType === 'choice'}
+          onClick={() => onTypeChange('choice')}
+          icon="🔢"
+          title="Choice Quiz"
+          description="Everyone picks an option"
+        />
       </div>
     </div>
   );
@@ -54,7 +62,7 @@ function QuizTypeSelector({ selectedType, onTypeChange }: QuizTypeSelectorProps)
  * Quiz type button
  */
 interface TypeButtonProps {
-  type: 'text' | 'image';
+  type: QuizType;
   isSelected: boolean;
   onClick: () => void;
   icon: string;
@@ -235,9 +243,10 @@ function ImageInput({ onUrlChange, onFileChange, error }: ImageInputProps) {
  */
 interface QuizPreviewProps {
   formData: {
-    type: 'text' | 'image';
+    type: QuizType;
     question: string;
     answer: string;
+    choices?: string[];
     image?: { type: 'url' | 'upload'; data: string };
   };
 }
@@ -275,6 +284,12 @@ function QuizPreview({ formData }: QuizPreviewProps) {
               </div>
             </div>
           )}
+          {formData.type === 'choice' && formData.choices && (
+            <div>
+              <span className="text-sm text-gray-600">Choices:</span>
+              <p className="text-gray-800">{formData.choices.filter(choice => choice.trim()).join(' / ')}</p>
+            </div>
+          )}
           <div>
             <span className="text-sm text-gray-600">Answer:</span>
             <p className="text-gray-800">{formData.answer}</p>
@@ -305,6 +320,7 @@ export function QuizCreator({ isOpen, onClose, onQuizCreated }: QuizCreatorProps
     isSubmitting,
     updateField,
     setQuizType,
+    setChoice,
     setImageFromUrl,
     setImageFromFile,
     reset,
@@ -321,7 +337,17 @@ export function QuizCreator({ isOpen, onClose, onQuizCreated }: QuizCreatorProps
       question: data.question.trim(),
       answer: data.answer.trim(),
       ...(data.image && { image: data.image }),
+      ...(data.type === 'choice' && {
+        choices: (data.choices ?? []).map(choice => choice.trim()).filter(Boolean),
+      }),
     };
+    const acceptedAnswers = (data.acceptedAnswers ?? '')
+      .split(',')
+      .map(alternate => alternate.trim())
+      .filter(Boolean);
+    if (acceptedAnswers.length > 0) {
+      quiz.acceptedAnswers = acceptedAnswers;
+    }
 
     await addQuiz(quiz);
     onQuizCreated?.(quiz);
@@ -371,6 +397,25 @@ export function QuizCreator({ isOpen, onClose, onQuizCreated }: QuizCreatorProps
           />
         )}
 
+        {/* Choice Inputs for Choice Quiz */}
+        {formData.type === 'choice' && (
+          <div className="space-y-2">
+            {(formData.choices ?? []).map((choice, index) => (
+              <FormInput
+                key={index}
+                id={`choice-${index}`}
+                label={`Choice ${index + 1}`}
+                value={choice}
+                onChange={(value) => setChoice(index, value)}
+                placeholder={`Option ${index + 1}...`}
+              />
+            ))}
+            {errors.choices && (
+              <p className="text-sm text-red-600">{errors.choices}</p>
+            )}
+          </div>
+        )}
+
         {/* Answer Input */}
         <FormInput
           id="answer"
@@ -381,6 +426,15 @@ export function QuizCreator({ isOpen, onClose, onQuizCreated }: QuizCreatorProps
           error={errors.answer}
         />
 
+        {/* Alternate Answers Input */}
+        <FormInput
+          id="acceptedAnswers"
+          label="Alternate Answers (optional)"
+          value={formData.acceptedAnswers ?? ''}
+          onChange={(value) => updateField('acceptedAnswers', value)}
+          placeholder="Other accepted answers, separated by commas..."
+        />
+
         {/* Preview */}
         <QuizPreview formData={formData} />
 
@@ -48,6 +48,58 @@ describe('useQuizForm', () => {
     expect(result.current.formData.type).toBe('image');
   });
 
+  test('should start a choice quiz with four empty choices', () => {
+    const { result } = renderHook(() => useQuizForm());
+    
+    act(() => {
+      result.current.setQuizType('choice');
+    });
+    
+    expect(result.current.formData.choices).toEqual(['', '', '', '']);
+    
+    act(() => {
+      result.current.setChoice(1, 'Tokyo');
+    });
+    
+    expect(result.current.formData.choices).toEqual(['', 'Tokyo', '', '']);
+  });
+
+  test('should require the answer of a choice quiz to match a choice', () => {
+    const { result } = renderHook(() => useQuizForm());
+    
+    act(() => {
+      result.current.setQuizType('choice');
+      result.current.updateField('question', 'Capital of Japan?');
+      result.current.updateField('answer', 'Nagoya');
+    });
+    
+    act(() => {
+      result.current.setChoice(0, 'Osaka');
+    });
+    
+    act(() => {
+      expect(result.current.validate()).toBe(false);
+    });
+    expect(result.current.errors.choices).toBe('At least two choices are required');
+    
+    act(() => {
+      result.current.setChoice(1, 'Tokyo');
+    });
+    
+    act(() => {
+      expect(result.current.validate()).toBe(false);
+    });
+    expect(result.current.errors.answer).toBe('Answer must match one of the choices');
+    
+    act(() => {
+      result.current.updateField('answer', 'Tokyo');
+    });
+    
+    act(() => {
+      expect(result.current.validate()).toBe(true);
+    });
+  });
+
   test('should clear error when field is updated', () => {
     const { result } = renderHook(() => useQuizForm());
     
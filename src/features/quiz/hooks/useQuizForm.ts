@@ -2,21 +2,33 @@
  * Hook for managing quiz form state
  */
 import { useState, useCallback } from 'react';
-import type { ImageResource } from '@/types';
+import type { ImageResource, QuizType } from '@/types';
+import { createLogger } from '@/lib/logger';
+
+/**
+ * Log of quiz submission failures
+ */
+const log = createLogger('useQuizForm');
+
+/** Number of option inputs shown for a new choice quiz */
+const DEFAULT_CHOICE_COUNT = 4;
 
 export interface QuizFormData {
-  type: 'text' | 'image';
+  type: QuizType;
   question: string;
   answer: string;
+  acceptedAnswers?: string;
   image?: ImageResource;
+  choices?: string[];
 }
 
 export interface UseQuizFormReturn {
   formData: QuizFormData;
   errors: Record<string, string>;
   isSubmitting: boolean;
-  updateField: (field: keyof QuizFormData, value: string) => void;
-  setQuizType: (type: 'text' | 'image') => void;
+  updateField: (field: 'question' | 'answer' | 'acceptedAnswers', value: string) => void;
+  setQuizType: (type: QuizType) => void;
+  setChoice: (index: number, value: string) => void;
   setImageFromUrl: (url: string) => void;
   setImageFromFile: (base64Data: string) => void;
   setErrors: (errors: Record<string, string>) => void;
@@ -36,7 +48,7 @@ export function useQuizForm(): UseQuizFormReturn {
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [isSubmitting, setIsSubmitting] = useState(false);
 
-  const updateField = useCallback((field: keyof QuizFormData, value: string) => {
+  const updateField = useCallback((field: 'question' | 'answer' | 'acceptedAnswers', value: string) => {
     setFormData(prev => ({ ...prev, [field]: value }));
     
     // Clear error when user starts typing
@@ -49,17 +61,34 @@ export function useQuizForm(): UseQuizFormReturn {
     }
   }, [errors]);
 
-  const setQuizType = useCallback((type: 'text' | 'image') => {
+  const setQuizType = useCallback((type: QuizType) => {
     setFormData(prev => {
-      if (type === 'text') {
-        // eslint-disable-next-line @typescript-eslint/no-unused-vars
-        const { image: _, ...rest } = prev;
-        return { ...rest, type };
+      const { image, choices, ...rest } = prev;
+      if (type === 'image') {
+        return { ...rest, ...(image && { image }), type };
+      }
+      if (type === 'choice') {
+        return { ...rest, choices: choices ?? Array(DEFAULT_CHOICE_COUNT).fill(''), type };
       }
-      return { ...prev, type };
+      return { ...rest, type };
     });
   }, []);
 
+  const setChoice = useCallback((index: number, value: string) => {
+    setFormData(prev => ({
+      ...prev,
+      choices: (prev.choices ?? []).map((choice, i) => (i === index ? value : choice)),
+    }));
+    
+    if (errors.choices) {
+      setErrors(prev => {
+        const newErrors = { ...prev };
+        delete newErrors.choices;
+        return newErrors;
+      });
+    }
+  }, [errors]);
+
   const setImageFromUrl = useCallback((url: string) => {
     setFormData(prev => {
       if (url.trim()) {
@@ -93,6 +122,15 @@ export function useQuizForm(): UseQuizFormReturn {
       newErrors.image = 'Image is required for image quiz';
     }
 
+    if (formData.type === 'choice') {
+      const choices = (formData.choices ?? []).map(choice => choice.trim()).filter(Boolean);
+      if (choices.length < 2) {
+        newErrors.choices = 'At least two choices are required';
+      } else if (formData.answer.trim() && !choices.includes(formData.answer.trim())) {
+        newErrors.answer = 'Answer must match one of the choices';
+      }
+    }
+
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   }, [formData]);
@@ -111,7 +149,7 @@ export function useQuizForm(): UseQuizFormReturn {
     try {
       await onSubmit(formData);
     } catch (error) {
-      console.error('Failed to create quiz:', error);
+      log.error('Failed to create quiz', { error });
       setErrors({ submit: 'Failed to create quiz. Please try again.' });
     } finally {
       setIsSubmitting(false);
@@ -124,6 +162,7 @@ export function useQuizForm(): UseQuizFormReturn {
     isSubmitting,
     updateField,
     setQuizType,
+    setChoice,
     setImageFromUrl,
     setImageFromFile,
     setErrors,
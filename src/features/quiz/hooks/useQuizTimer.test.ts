@@ -187,4 +187,47 @@ describe('useQuizTimer', () => {
     
     // No assertions needed, just ensuring no errors
   });
-});
\ No newline at end of file
+
+  test('should follow a deadline instead of counting down locally', () => {
+    vi.setSystemTime(new Date(100_000));
+    const onExpire = vi.fn();
+    const { result } = renderHook(() => useQuizTimer(30, { deadline: 105_000, onExpire }));
+    
+    expect(result.current.timeLeft).toBe(5);
+    
+    // Remaining time is derived from the clock, even if it jumps
+    act(() => {
+      vi.setSystemTime(new Date(102_100));
+      vi.advanceTimersByTime(250);
+    });
+    
+    expect(result.current.timeLeft).toBe(3);
+    
+    act(() => {
+      vi.advanceTimersByTime(3000);
+    });
+    
+    expect(result.current.timeLeft).toBe(0);
+    expect(result.current.isExpired).toBe(true);
+    expect(onExpire).toHaveBeenCalledTimes(1);
+  });
+
+  test('should restart when the deadline moves', () => {
+    vi.setSystemTime(new Date(100_000));
+    const { result, rerender } = renderHook(
+      ({ deadline }) => useQuizTimer(30, { deadline }),
+      { initialProps: { deadline: 101_000 } }
+    );
+    
+    act(() => {
+      vi.advanceTimersByTime(1000);
+    });
+    
+    expect(result.current.isExpired).toBe(true);
+    
+    rerender({ deadline: 111_000 });
+    
+    expect(result.current.timeLeft).toBe(10);
+    expect(result.current.isExpired).toBe(false);
+  });
+});
@@ -1,11 +1,18 @@
 /**
  * Hook for managing quiz timer
+ * - Counts down locally from initialTime, or
+ * - Follows a server deadline when `deadline` is given
  */
 import { useState, useEffect, useCallback, useRef } from 'react';
 
+/** How often the remaining time is recomputed while following a deadline */
+const DEADLINE_POLL_MS = 250;
+
 export interface UseQuizTimerOptions {
   autoStart?: boolean;
   onExpire?: () => void;
+  /** Deadline (epoch ms, local clock) to follow instead of the local countdown */
+  deadline?: number | null;
 }
 
 export interface UseQuizTimerReturn {
@@ -20,7 +27,7 @@ export function useQuizTimer(
   initialTime: number,
   options: UseQuizTimerOptions = {}
 ): UseQuizTimerReturn {
-  const { autoStart = false, onExpire } = options;
+  const { autoStart = false, onExpire, deadline = null } = options;
   
   const [timeLeft, setTimeLeft] = useState(initialTime);
   const [isRunning, setIsRunning] = useState(autoStart);
@@ -70,6 +77,31 @@ export function useQuizTimer(
     };
   }, [isRunning]);
 
+  // Follow the deadline: remaining time is derived from the clock, not decremented
+  useEffect(() => {
+    if (deadline === null) {
+      return;
+    }
+
+    let expired = false;
+    const update = () => {
+      const remaining = Math.max(0, Math.ceil((deadline - Date.now()) / 1000));
+      setTimeLeft(remaining);
+      if (remaining === 0 && !expired) {
+        expired = true;
+        clearInterval(interval);
+        setIsExpired(true);
+        onExpireRef.current?.();
+      }
+    };
+
+    setIsExpired(false);
+    const interval = setInterval(update, DEADLINE_POLL_MS);
+    update();
+
+    return () => clearInterval(interval);
+  }, [deadline]);
+
   const start = useCallback(() => {
     if (timeLeft > 0) {
       setIsRunning(true);
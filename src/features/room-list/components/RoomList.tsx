@@ -10,23 +10,46 @@ import { useRouter } from 'next/navigation';
 import { Card, CardHeader, CardContent, CardFooter } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
 import { Modal } from '@/components/ui/Modal';
-import type { Room, User } from '@/types';
+import type { Room, RoomSummary, RoomSortKey, RoomStatus, User } from '@/types';
 import { useSocketConnection } from '../../room/hooks/useSocketConnection';
+import { useServerNotice } from '../../room/hooks/useServerNotice';
 import { useRoomList } from '../hooks/useRoomList';
-import { joinRoom, createRoom } from '@/lib/socketClient';
-import { getUserName, setUserName, getUserId } from '@/lib/userStorage';
+import { joinRoom, joinRoomByCode, createRoom, spectateRoom } from '@/lib/socketClient';
+import { describeCommandError } from '@/lib/errorMessages';
+import { getUserName, setUserName } from '@/lib/userStorage';
+import { createLogger } from '@/lib/logger';
+
+/**
+ * Log of rooms created and joined from the lobby
+ */
+const log = createLogger('RoomList');
+
+/**
+ * Rooms shown per lobby page
+ */
+const ROOMS_PER_PAGE = 12;
+
+/**
+ * Labels and badge colors for room statuses
+ */
+const STATUS_BADGES: Record<RoomStatus, { label: string; className: string }> = {
+  waiting: { label: 'Waiting', className: 'bg-green-100 text-green-800' },
+  playing: { label: 'Playing', className: 'bg-yellow-100 text-yellow-800' },
+  finished: { label: 'Finished', className: 'bg-gray-100 text-gray-800' },
+};
 
 /**
  * Room card component
  */
 interface RoomCardProps {
-  room: Room;
-  onJoin: (room: Room) => void;
+  room: RoomSummary;
+  onJoin: (room: RoomSummary) => void;
+  onWatch: (room: RoomSummary) => void;
 }
 
-function RoomCard({ room, onJoin }: RoomCardProps) {
-  const isFull = room.users.length >= room.maxPlayers;
-  const hostName = room.users.find(u => u.id === room.hostId)?.name || 'Unknown';
+function RoomCard({ room, onJoin, onWatch }: RoomCardProps) {
+  const isFull = room.playerCount >= room.maxPlayers;
+  const status = STATUS_BADGES[room.status];
 
   return (
     <Card variant="elevated" className="cursor-pointer">
@@ -35,12 +58,8 @@ function RoomCard({ room, onJoin }: RoomCardProps) {
           <h3 className="font-semibold text-gray-800 truncate">
             {room.name}
           </h3>
-          <span className={`px-2 py-1 text-xs rounded-full ${
-            room.isPublic 
-              ? 'bg-green-100 text-green-800' 
-              : 'bg-gray-100 text-gray-800'
-          }`}>
-            {room.isPublic ? 'Public' : 'Private'}
+          <span className={`px-2 py-1 text-xs rounded-full ${status.className}`}>
+            {status.label}
           </span>
         </div>
       </CardHeader>
@@ -48,26 +67,41 @@ function RoomCard({ room, onJoin }: RoomCardProps) {
         <div className="space-y-2">
           <div className="flex items-center text-sm text-gray-600">
             <span className="mr-2">👥</span>
-            {room.users.length}/{room.maxPlayers} players
+            {room.playerCount}/{room.maxPlayers} players
           </div>
           <div className="flex items-center text-sm text-gray-600">
             <span className="mr-2">🎯</span>
-            {room.quizzes.length} quizzes
+            {room.quizCount} quizzes
           </div>
           <div className="flex items-center text-sm text-gray-600">
             <span className="mr-2">👑</span>
-            Host: {hostName}
+            Host: {room.hostName ?? 'Unknown'}
           </div>
+          {room.tags.length > 0 && (
+            <div className="flex flex-wrap gap-1">
+              {room.tags.map(tag => (
+                <span key={tag} className="px-2 py-0.5 text-xs rounded-full bg-pink-50 text-pink-700">
+                  #{tag}
+                </span>
+              ))}
+            </div>
+          )}
         </div>
       </CardContent>
       <CardFooter>
-        <Button 
-          onClick={() => onJoin(room)}
-          disabled={isFull}
-          className="w-full"
-        >
-          {isFull ? 'Full' : 'Join Room'}
-        </Button>
+        <div className="flex gap-2">
+          <Button 
+            onClick={() => onJoin(room)}
+            disabled={isFull}
+            className="flex-1"
+          >
+            {isFull ? 'Full' : 'Join Room'}
+          </Button>
+          {/* Spectators don't take a player slot, so full rooms can still be watched */}
+          <Button variant="secondary" onClick={() => onWatch(room)}>
+            Watch
+          </Button>
+        </div>
       </CardFooter>
     </Card>
   );
@@ -79,7 +113,7 @@ function RoomCard({ room, onJoin }: RoomCardProps) {
 interface CreateRoomModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onCreateRoom: (name: string, isPublic: boolean, maxPlayers: number, userName: string) => void;
+  onCreateRoom: (name: string, isPublic: boolean, maxPlayers: number, userName: string, password?: string) => void;
   initialUserName: string;
 }
 
@@ -87,6 +121,7 @@ function CreateRoomModal({ isOpen, onClose, onCreateRoom, initialUserName }: Cre
   const [name, setName] = useState('');
   const [isPublic, setIsPublic] = useState(true);
   const [maxPlayers, setMaxPlayers] = useState(8);
+  const [password, setPassword] = useState('');
   const [userName, setUserNameState] = useState(initialUserName);
 
   // Update userName when initialUserName changes
@@ -96,11 +131,12 @@ function CreateRoomModal({ isOpen, onClose, onCreateRoom, initialUserName }: Cre
 
   const handleSubmit = () => {
     if (name.trim() && userName.trim()) {
-      onCreateRoom(name, isPublic, maxPlayers, userName);
+      onCreateRoom(name, isPublic, maxPlayers, userName, !isPublic && password ? password : undefined);
       // Reset form
       setName('');
       setIsPublic(true);
       setMaxPlayers(8);
+      setPassword('');
     }
   };
 
@@ -152,6 +188,21 @@ function CreateRoomModal({ isOpen, onClose, onCreateRoom, initialUserName }: Cre
             Public room (visible to everyone)
           </label>
         </div>
+
+        {!isPublic && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Password (optional)
+            </label>
+            <input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-pink-500 focus:border-transparent"
+              placeholder="Leave empty for code-only access..."
+            />
+          </div>
+        )}
         
         <div>
           <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -188,9 +239,10 @@ interface JoinRoomModalProps {
   onJoinRoom: (userName: string) => void;
   roomName: string;
   initialUserName: string;
+  asSpectator?: boolean;
 }
 
-function JoinRoomModal({ isOpen, onClose, onJoinRoom, roomName, initialUserName }: JoinRoomModalProps) {
+function JoinRoomModal({ isOpen, onClose, onJoinRoom, roomName, initialUserName, asSpectator = false }: JoinRoomModalProps) {
   const [userName, setUserNameState] = useState(initialUserName);
 
   // Update userName when initialUserName changes
@@ -208,7 +260,7 @@ function JoinRoomModal({ isOpen, onClose, onJoinRoom, roomName, initialUserName
     <Modal
       isOpen={isOpen}
       onClose={onClose}
-      title={`Join ${roomName}`}
+      title={asSpectator ? `Watch ${roomName}` : `Join ${roomName}`}
       size="sm"
     >
       <div className="space-y-4">
@@ -230,6 +282,93 @@ function JoinRoomModal({ isOpen, onClose, onJoinRoom, roomName, initialUserName
             Cancel
           </Button>
           <Button onClick={handleSubmit} disabled={!userName.trim()}>
+            {asSpectator ? 'Watch Room' : 'Join Room'}
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
+
+/**
+ * Join by code modal component
+ */
+interface JoinByCodeModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onJoinByCode: (code: string, userName: string, password?: string) => void;
+  initialUserName: string;
+}
+
+function JoinByCodeModal({ isOpen, onClose, onJoinByCode, initialUserName }: JoinByCodeModalProps) {
+  const [code, setCode] = useState('');
+  const [password, setPassword] = useState('');
+  const [userName, setUserNameState] = useState(initialUserName);
+
+  // Update userName when initialUserName changes
+  useEffect(() => {
+    setUserNameState(initialUserName);
+  }, [initialUserName]);
+
+  const handleSubmit = () => {
+    if (code.trim() && userName.trim()) {
+      onJoinByCode(code.trim(), userName, password || undefined);
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Join with Code"
+      size="sm"
+    >
+      <div className="space-y-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Join Code
+          </label>
+          <input
+            type="text"
+            value={code}
+            onChange={(e) => setCode(e.target.value.toUpperCase())}
+            maxLength={6}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg font-mono tracking-widest focus:ring-2 focus:ring-pink-500 focus:border-transparent"
+            placeholder="ABC234"
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Password (if the room has one)
+          </label>
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-pink-500 focus:border-transparent"
+            placeholder="Enter password..."
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Your Name
+          </label>
+          <input
+            type="text"
+            value={userName}
+            onChange={(e) => setUserNameState(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-pink-500 focus:border-transparent"
+            placeholder="Enter your name..."
+          />
+        </div>
+
+        <div className="flex gap-3 pt-4">
+          <Button variant="ghost" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={!code.trim() || !userName.trim()}>
             Join Room
           </Button>
         </div>
@@ -281,12 +420,18 @@ export function RoomList({ onRoomJoined, className }: RoomListProps) {
   const router = useRouter();
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [showJoinModal, setShowJoinModal] = useState(false);
-  const [selectedRoom, setSelectedRoom] = useState<Room | null>(null);
+  const [showJoinByCodeModal, setShowJoinByCodeModal] = useState(false);
+  const [selectedRoom, setSelectedRoom] = useState<RoomSummary | null>(null);
+  const [isSpectating, setIsSpectating] = useState(false);
+  const [search, setSearch] = useState('');
+  const [sortBy, setSortBy] = useState<RoomSortKey>('name');
+  const [page, setPage] = useState(1);
   const [userName, setUserNameState] = useState('');
+  const [commandError, setCommandError] = useState<string | null>(null);
 
   // Memoize callback functions to prevent infinite re-renders
   const handleRoomCreated = useCallback((data: { room: Room }) => {
-    console.log('Room created:', data.room.id);
+    log.debug('Room created', { roomId: data.room.id });
     setShowCreateModal(false);
     
     // Store room data for the room page
@@ -299,10 +444,11 @@ export function RoomList({ onRoomJoined, className }: RoomListProps) {
   }, [router]);
 
   const handleRoomJoined = useCallback((data: { room: Room; user: User }) => {
-    console.log('Room joined:', data.room.id);
+    log.debug('Room joined', { roomId: data.room.id });
     
     // Close the join modal
     setShowJoinModal(false);
+    setShowJoinByCodeModal(false);
     setSelectedRoom(null);
     
     // Navigate to room page
@@ -324,15 +470,23 @@ export function RoomList({ onRoomJoined, className }: RoomListProps) {
     onRoomJoined: handleRoomJoined,
   });
 
-  // Get current user ID for filtering
-  const currentUserId = getUserId();
-  
-  const { rooms, loading, error, refresh } = useRoomList(isConnected, {
+  const { rooms, total, loading, error, refresh } = useRoomList(isConnected, {
     autoFetch: true,
-    filter: (room) => room.isPublic || room.hostId === currentUserId, // Show public rooms OR user's own private rooms
-    sortBy: 'name',
-    sortOrder: 'asc',
+    search,
+    sortBy,
+    sortOrder: sortBy === 'name' ? 'asc' : 'desc',
+    page,
+    pageSize: ROOMS_PER_PAGE,
   });
+  const pageCount = Math.max(1, Math.ceil(total / ROOMS_PER_PAGE));
+  const { notice, dismiss: dismissNotice } = useServerNotice(isConnected);
+
+  // Step back when rooms closing empties the last page
+  useEffect(() => {
+    if (page > pageCount) {
+      setPage(pageCount);
+    }
+  }, [page, pageCount]);
 
   // Load saved user name on mount
   useEffect(() => {
@@ -342,12 +496,17 @@ export function RoomList({ onRoomJoined, className }: RoomListProps) {
     }
   }, []);
 
+  // Show why a create/join command was refused
+  const handleCommandError = (err: unknown) => {
+    setCommandError(describeCommandError(err));
+  };
+
   // Handle room creation
-  const handleCreateRoom = (name: string, isPublic: boolean, maxPlayers: number, userName: string) => {
+  const handleCreateRoom = (name: string, isPublic: boolean, maxPlayers: number, userName: string, password?: string) => {
     setUserNameState(userName);
     setUserName(userName);
-    const userId = getUserId();
-    createRoom(name, isPublic, maxPlayers, userName, userId);
+    setCommandError(null);
+    createRoom(name, isPublic, maxPlayers, userName, false, password).catch(handleCommandError);
   };
 
   // Handle room join
@@ -356,15 +515,34 @@ export function RoomList({ onRoomJoined, className }: RoomListProps) {
     
     setUserNameState(userName);
     setUserName(userName);
-    const userId = getUserId();
     
-    joinRoom(selectedRoom.id, userId, userName);
+    setCommandError(null);
+    const join = isSpectating ? spectateRoom(selectedRoom.id, userName) : joinRoom(selectedRoom.id, userName);
+    join.catch(handleCommandError);
+    // Modal will be closed in handleRoomJoined on success
+  };
+
+  // Handle joining a private room by its code
+  const handleJoinByCode = (code: string, userName: string, password?: string) => {
+    setUserNameState(userName);
+    setUserName(userName);
+
+    setCommandError(null);
+    joinRoomByCode(code, userName, password).catch(handleCommandError);
     // Modal will be closed in handleRoomJoined on success
   };
 
   // Open join modal for a room
-  const openJoinModal = (room: Room) => {
+  const openJoinModal = (room: RoomSummary) => {
+    setSelectedRoom(room);
+    setIsSpectating(false);
+    setShowJoinModal(true);
+  };
+
+  // Open join modal to watch a room as a spectator
+  const openWatchModal = (room: RoomSummary) => {
     setSelectedRoom(room);
+    setIsSpectating(true);
     setShowJoinModal(true);
   };
 
@@ -392,9 +570,14 @@ export function RoomList({ onRoomJoined, className }: RoomListProps) {
         <h1 className="text-3xl font-bold bg-gradient-to-r from-pink-500 to-purple-600 bg-clip-text text-transparent">
           Quiz World
         </h1>
-        <Button onClick={() => setShowCreateModal(true)} disabled={!isConnected}>
-          Create Room
-        </Button>
+        <div className="flex gap-2">
+          <Button variant="secondary" onClick={() => setShowJoinByCodeModal(true)} disabled={!isConnected}>
+            Join with Code
+          </Button>
+          <Button onClick={() => setShowCreateModal(true)} disabled={!isConnected}>
+            Create Room
+          </Button>
+        </div>
       </div>
 
       {/* Connection Status */}
@@ -410,10 +593,20 @@ export function RoomList({ onRoomJoined, className }: RoomListProps) {
         </div>
       )}
 
+      {/* Operator Notice */}
+      {notice && (
+        <div role="status" className="mb-4 p-3 bg-blue-50 border border-blue-200 rounded-lg flex items-center justify-between gap-2">
+          <span className="text-sm text-blue-800">{notice}</span>
+          <Button variant="ghost" size="sm" onClick={dismissNotice}>
+            Dismiss
+          </Button>
+        </div>
+      )}
+
       {/* Error State */}
-      {error && (
+      {(error || commandError) && (
         <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg">
-          <span className="text-sm text-red-800">{error}</span>
+          <span className="text-sm text-red-800">{error || commandError}</span>
         </div>
       )}
 
@@ -432,20 +625,63 @@ export function RoomList({ onRoomJoined, className }: RoomListProps) {
           </Button>
         </div>
 
+        <div className="flex flex-col gap-2 sm:flex-row">
+          <input
+            type="search"
+            value={search}
+            onChange={(e) => {
+              setSearch(e.target.value);
+              setPage(1);
+            }}
+            className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-pink-500 focus:border-transparent"
+            placeholder="Search by room, host or tag..."
+            aria-label="Search rooms"
+          />
+          <select
+            value={sortBy}
+            onChange={(e) => {
+              setSortBy(e.target.value as RoomSortKey);
+              setPage(1);
+            }}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-pink-500 focus:border-transparent"
+            aria-label="Sort rooms"
+          >
+            <option value="name">Name</option>
+            <option value="playerCount">Most players</option>
+            <option value="createdAt">Newest</option>
+          </select>
+        </div>
+
         {loading ? (
           <div className="text-center py-8">
             <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-pink-500 mx-auto"></div>
             <p className="mt-2 text-gray-600">Loading rooms...</p>
           </div>
+        ) : rooms.length === 0 && search ? (
+          <p className="text-center py-8 text-gray-600">No rooms match your search.</p>
         ) : rooms.length === 0 ? (
           <EmptyState onCreateRoom={() => setShowCreateModal(true)} />
         ) : (
           <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
             {rooms.map((room) => (
-              <RoomCard key={room.id} room={room} onJoin={openJoinModal} />
+              <RoomCard key={room.id} room={room} onJoin={openJoinModal} onWatch={openWatchModal} />
             ))}
           </div>
         )}
+
+        {pageCount > 1 && (
+          <div className="flex items-center justify-center gap-3">
+            <Button variant="ghost" size="sm" onClick={() => setPage(page - 1)} disabled={page <= 1}>
+              Previous
+            </Button>
+            <span className="text-sm text-gray-600">
+              Page {page} of {pageCount}
+            </span>
+            <Button variant="ghost" size="sm" onClick={() => setPage(page + 1)} disabled={page >= pageCount}>
+              Next
+            </Button>
+          </div>
+        )}
       </div>
 
       {/* Modals */}
@@ -462,6 +698,14 @@ export function RoomList({ onRoomJoined, className }: RoomListProps) {
         onJoinRoom={handleJoinRoom}
         roomName={selectedRoom?.name || ''}
         initialUserName={userName}
+        asSpectator={isSpectating}
+      />
+
+      <JoinByCodeModal
+        isOpen={showJoinByCodeModal}
+        onClose={() => setShowJoinByCodeModal(false)}
+        onJoinByCode={handleJoinByCode}
+        initialUserName={userName}
       />
     </div>
   );
@@ -1,47 +1,27 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
-import { getSocket, requestRoomList } from '@/lib/socketClient';
-import type { Room } from '@/types';
+import { getSocket, subscribeLobby, unsubscribeLobby, requestRoomList } from '@/lib/socketClient';
+import { getErrorMessage, describeCommandError } from '@/lib/errorMessages';
+import type { RoomSummary, RoomListQuery, RoomListPage, RoomSortKey } from '@/types';
+import type { CommandError } from '@/types/socket';
+import { createLogger } from '@/lib/logger';
+
+/**
+ * Log of room list refresh failures
+ */
+const log = createLogger('useRoomList');
 
 export interface UseRoomListOptions {
   autoFetch?: boolean;
-  filter?: (room: Room) => boolean;
-  sortBy?: 'name' | 'playerCount' | 'createdAt';
+  search?: string;
+  sortBy?: RoomSortKey;
   sortOrder?: 'asc' | 'desc';
+  page?: number;
+  pageSize?: number;
 }
 
-/**
- * Sorts rooms based on the specified criteria
- * @param rooms - The rooms to sort
- * @param sortBy - The sorting criteria
- * @param sortOrder - The sorting order (asc/desc)
- * @returns Sorted rooms array
- */
-const sortRooms = (rooms: Room[], sortBy?: string, sortOrder: 'asc' | 'desc' = 'asc'): Room[] => {
-  if (!sortBy) return rooms;
-  
-  return [...rooms].sort((a, b) => {
-    let compareValue = 0;
-    
-    switch (sortBy) {
-      case 'name':
-        compareValue = a.name.localeCompare(b.name);
-        break;
-      case 'playerCount':
-        compareValue = a.users.length - b.users.length;
-        break;
-      case 'createdAt':
-        compareValue = a.createdAt - b.createdAt;
-        break;
-      default:
-        return 0;
-    }
-    
-    return sortOrder === 'asc' ? compareValue : -compareValue;
-  });
-};
-
 export interface UseRoomListReturn {
-  rooms: Room[];
+  rooms: RoomSummary[];
+  total: number;
   loading: boolean;
   error: string | null;
   refresh: () => void;
@@ -53,16 +33,39 @@ export function useRoomList(
 ): UseRoomListReturn {
   const {
     autoFetch = true,
-    filter,
+    search,
     sortBy,
-    sortOrder = 'asc'
+    sortOrder,
+    page,
+    pageSize
   } = options;
 
-  const [rooms, setRooms] = useState<Room[]>([]);
+  const [rooms, setRooms] = useState<RoomSummary[]>([]);
+  const [total, setTotal] = useState(0);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const hasFetchedRef = useRef(false);
 
+  // Search, sorting and paging all happen on the server
+  const queryRef = useRef<RoomListQuery>({});
+  queryRef.current = { search: search || undefined, sortBy, sortOrder, page, pageSize };
+  const queryKey = JSON.stringify(queryRef.current);
+  const fetchedQueryKeyRef = useRef<string | null>(null);
+
+  // Only the latest request may update the list
+  const requestIdRef = useRef(0);
+
+  const fetchPage = useCallback((command: (query: RoomListQuery) => Promise<RoomListPage>) => {
+    const requestId = ++requestIdRef.current;
+    return command(queryRef.current).then((result) => {
+      if (requestId !== requestIdRef.current) return;
+      setRooms(result.rooms);
+      setTotal(result.total);
+      setLoading(false);
+      setError(null);
+    });
+  }, []);
+
   // Refresh function
   const refresh = useCallback(() => {
     if (!isConnected) {
@@ -72,14 +75,14 @@ export function useRoomList(
 
     setLoading(true);
     setError(null);
-    
-    try {
-      requestRoomList();
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to fetch rooms');
+    fetchedQueryKeyRef.current = JSON.stringify(queryRef.current);
+
+    // Subscribing again is harmless and answers with a fresh page
+    fetchPage(subscribeLobby).catch((err: unknown) => {
+      setError(describeCommandError(err));
       setLoading(false);
-    }
-  }, [isConnected]);
+    });
+  }, [isConnected, fetchPage]);
 
   // Auto-fetch on connection
   useEffect(() => {
@@ -89,82 +92,72 @@ export function useRoomList(
     }
   }, [isConnected, autoFetch, refresh]);
 
+  // Fetch the matching page whenever the search, sorting or page changes
+  useEffect(() => {
+    if (hasFetchedRef.current && fetchedQueryKeyRef.current !== queryKey) {
+      refresh();
+    }
+  }, [queryKey, refresh]);
+
   // Set up socket event listeners
   useEffect(() => {
     const socket = getSocket();
     if (!socket) return;
 
-    const handleRoomList = (data: { rooms: Room[] }) => {
-      let processedRooms = [...data.rooms];
-
-      // Apply filter if provided
-      if (filter) {
-        processedRooms = processedRooms.filter(filter);
-      }
-
-      // Apply sorting if specified
-      processedRooms = sortRooms(processedRooms, sortBy, sortOrder);
-
-      setRooms(processedRooms);
+    // Only room list failures belong here; other commands report their own errors
+    const handleError = (data: CommandError) => {
+      if (data.event !== 'room:list' && data.event !== 'lobby:subscribe') return;
+      setError(getErrorMessage(data.code));
       setLoading(false);
-      setError(null);
     };
 
-    const handleError = (data: { message: string }) => {
-      setError(data.message);
-      setLoading(false);
-    };
-
-    // Handle individual room updates
-    const handleRoomCreated = (data: { room: Room }) => {
-      setRooms(prevRooms => {
-        // Apply filter to new room
-        if (filter && !filter(data.room)) {
-          return prevRooms;
-        }
-
-        const newRooms = [...prevRooms, data.room];
-        
-        // Re-sort if needed
-        return sortRooms(newRooms, sortBy, sortOrder);
+    // Rooms coming and going shift the pages, so fetch the current page again
+    const refetchPage = () => {
+      fetchPage(requestRoomList).catch((err: unknown) => {
+        log.error('Failed to refresh room list', { error: err });
       });
     };
 
-    const handleRoomUpdated = (data: { room: Room }) => {
-      setRooms(prevRooms => {
-        let newRooms = prevRooms.map(room => 
-          room.id === data.room.id ? data.room : room
-        );
-
-        // Re-apply filter
-        if (filter) {
-          newRooms = newRooms.filter(filter);
-        }
+    const handleRoomChanged = (data: { room: RoomSummary }) => {
+      setRooms(prevRooms => prevRooms.map(room => room.id === data.room.id ? data.room : room));
+    };
 
-        // Re-sort if needed
-        return sortRooms(newRooms, sortBy, sortOrder);
-      });
+    const handleRoomRemoved = (data: { roomId: string }) => {
+      setRooms(prevRooms => prevRooms.filter(room => room.id !== data.roomId));
+      refetchPage();
     };
 
     // Subscribe to events
-    socket.on('room:list', handleRoomList);
     socket.on('error', handleError);
-    socket.on('room:created', handleRoomCreated);
-    socket.on('room:updated', handleRoomUpdated);
+    socket.on('lobby:roomAdded', refetchPage);
+    socket.on('lobby:roomChanged', handleRoomChanged);
+    socket.on('lobby:roomRemoved', handleRoomRemoved);
 
     // Cleanup
     return () => {
-      socket.off('room:list', handleRoomList);
       socket.off('error', handleError);
-      socket.off('room:created', handleRoomCreated);
-      socket.off('room:updated', handleRoomUpdated);
+      socket.off('lobby:roomAdded', refetchPage);
+      socket.off('lobby:roomChanged', handleRoomChanged);
+      socket.off('lobby:roomRemoved', handleRoomRemoved);
+    };
+  }, [fetchPage]);
+
+  // Leave the lobby feed on unmount
+  useEffect(() => {
+    return () => {
+      if (hasFetchedRef.current) {
+        unsubscribeLobby().catch(() => {
+          // Nothing to undo when the connection is already gone
+        });
+      }
     };
-  }, [filter, sortBy, sortOrder]);
+  }, []);
 
   // Reset state on disconnect
   useEffect(() => {
     if (!isConnected) {
       setRooms([]);
+      setTotal(0);
       setLoading(false);
       setError(null);
       hasFetchedRef.current = false;
@@ -173,8 +166,9 @@ export function useRoomList(
 
   return {
     rooms,
+    total,
     loading,
     error,
     refresh
   };
-}
\ No newline at end of file
+}
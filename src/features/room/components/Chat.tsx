@@ -15,8 +15,6 @@ import { useChat } from '@/features/chat/hooks/useChat';
  */
 interface ChatProps {
   roomName: string;
-  currentUserId: string;
-  currentUserName: string;
 }
 
 /**
@@ -62,13 +60,13 @@ function ChatMessage({ message }: ChatMessageProps) {
 /**
  * Chat component using useChat hook - optimized for sidebar
  */
-export function Chat({ roomName, currentUserId, currentUserName }: ChatProps) {
+export function Chat({ roomName }: ChatProps) {
   const [newMessage, setNewMessage] = useState('');
   const { messages, sendMessage } = useChat({ roomName, maxMessages: 100 });
 
   const handleSendMessage = () => {
     if (!newMessage.trim()) return;
-    sendMessage(newMessage, currentUserId, currentUserName);
+    sendMessage(newMessage);
     setNewMessage('');
   };
 
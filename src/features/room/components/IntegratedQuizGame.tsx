@@ -2,12 +2,15 @@
  * Integrated Quiz Game component for Quiz World application
  * - Embedded quiz game within room layout
  * - Handles buzz-in, answer submission, and scoring
+ * - Shows choices and the per-choice pick distribution for choice quizzes
+ * - Shows the countdown to the server deadline
  * - Provides host controls and game state management
  */
 
 import React from 'react';
 import { Card, CardContent } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
+import { useQuizTimer } from '@/features/quiz/hooks/useQuizTimer';
 import type { Quiz, User, Score } from '@/types';
 
 /**
@@ -20,6 +23,8 @@ interface IntegratedQuizGameProps {
   gameState: 'waiting' | 'active' | 'answered' | 'finished';
   scores: Score[];
   showAnswer: boolean;
+  choiceDistribution?: number[] | null;
+  deadline?: number | null;
   onEndQuiz: () => void;
   onNextQuiz: () => void;
   isLastQuiz: boolean; // 追加
@@ -35,10 +40,14 @@ export function IntegratedQuizGame({
   gameState,
   scores,
   showAnswer,
+  choiceDistribution = null,
+  deadline = null,
   onEndQuiz,
   onNextQuiz,
   isLastQuiz,
 }: IntegratedQuizGameProps) {
+  const totalPicks = choiceDistribution?.reduce((sum, count) => sum + count, 0) ?? 0;
+  const { timeLeft } = useQuizTimer(0, { deadline });
 
   const handleBackToLobby = () => {
     onEndQuiz();
@@ -108,8 +117,42 @@ export function IntegratedQuizGame({
             <p className="text-gray-600">
               Type: {quiz.type}
             </p>
+            {deadline !== null && (
+              <p className={`mt-2 text-lg font-bold ${timeLeft <= 5 ? 'text-red-600' : 'text-gray-800'}`} data-testid="quiz-countdown">
+                ⏱️ {timeLeft}s
+              </p>
+            )}
           </div>
 
+          {/* Choices - counts appear once the server has scored the picks */}
+          {quiz.type === 'choice' && quiz.choices && (
+            <div className="space-y-2 max-w-md mx-auto mb-6" data-testid="choice-list">
+              {quiz.choices.map((choice, index) => {
+                const count = choiceDistribution?.[index];
+                const isCorrectChoice = showAnswer && choice === quiz.answer;
+                return (
+                  <div
+                    key={index}
+                    className={`relative overflow-hidden rounded-lg border px-4 py-2 ${
+                      isCorrectChoice ? 'border-green-300 bg-green-50' : 'border-gray-200 bg-white'
+                    }`}
+                  >
+                    {count !== undefined && totalPicks > 0 && (
+                      <div
+                        className="absolute inset-y-0 left-0 bg-purple-100"
+                        style={{ width: `${(count / totalPicks) * 100}%` }}
+                      />
+                    )}
+                    <div className="relative flex justify-between text-sm font-medium text-gray-800">
+                      <span>{isCorrectChoice && '✅ '}{choice}</span>
+                      {count !== undefined && <span>{count}</span>}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
           {/* Buzzed Users Display - Now integrated into PlayerList */}
 
         {/* Answer Reveal */}
@@ -2,13 +2,17 @@
  * Player List component for Quiz World application
  * - Displays list of players in the room
  * - Shows host crown and current user indicator
+ * - Greys out players who are away while they may still reconnect
+ * - Lists spectators separately; the host can move them into free player slots
  * - Displays buzz order, answers, and scores for each player
- * - Provides Make Host functionality for host users
+ * - Shows each buzz's delay behind the first one, using server receive times
+ * - Provides Make Host, Kick and Ban actions for host users
  */
 
 import React from 'react';
 import { Card, CardHeader, CardContent } from '@/components/ui/Card';
-import type { User, Score } from '@/types';
+import { Button } from '@/components/ui/Button';
+import type { User, Score, BuzzEntry } from '@/types';
 
 /**
  * Player status information for quiz game
@@ -16,6 +20,7 @@ import type { User, Score } from '@/types';
 interface PlayerStatus {
   userId: string;
   buzzOrder?: number;
+  buzzDelayMs?: number;
   answer?: string;
   score?: number;
   isAnswering?: boolean;
@@ -41,10 +46,52 @@ interface PlayerListProps {
   currentUserId: string;
   scores?: Score[];
   buzzedUsers?: User[];
+  buzzQueue?: BuzzEntry[];
   buzzedUser?: User | null;
   answer?: string;
   hasAnswered?: boolean;
   recentJudgments?: PlayerJudgment[];
+  isHost?: boolean;
+  maxPlayers?: number;
+  onPromoteSpectator?: (userId: string) => void;
+  onTransferHost?: (userId: string) => void;
+  onKick?: (userId: string) => void;
+  onBan?: (userId: string) => void;
+}
+
+/**
+ * Host actions for another member of the room
+ */
+interface MemberActionsProps {
+  user: User;
+  onTransferHost?: (userId: string) => void;
+  onKick?: (userId: string) => void;
+  onBan?: (userId: string) => void;
+}
+
+/**
+ * Make Host (players only), Kick and Ban buttons shown to the host
+ */
+function MemberActions({ user, onTransferHost, onKick, onBan }: MemberActionsProps) {
+  return (
+    <div className="flex items-center gap-1">
+      {onTransferHost && !user.isSpectator && (
+        <Button size="sm" variant="ghost" onClick={() => onTransferHost(user.id)}>
+          Make Host
+        </Button>
+      )}
+      {onKick && (
+        <Button size="sm" variant="ghost" onClick={() => onKick(user.id)}>
+          Kick
+        </Button>
+      )}
+      {onBan && (
+        <Button size="sm" variant="danger" onClick={() => onBan(user.id)}>
+          Ban
+        </Button>
+      )}
+    </div>
+  );
 }
 
 /**
@@ -54,19 +101,21 @@ interface PlayerItemProps {
   user: User;
   isCurrentUser: boolean;
   status: PlayerStatus;
+  actions?: React.ReactNode;
 }
 
 /**
  * Individual player item component - improved design with better spacing
  */
-function PlayerItem({ user, isCurrentUser, status }: PlayerItemProps) {
+function PlayerItem({ user, isCurrentUser, status, actions }: PlayerItemProps) {
   return (
     <div
       className={`p-4 rounded-lg border transition-all duration-200 ${
         isCurrentUser
           ? 'bg-gradient-to-r from-pink-50 to-purple-50 border-pink-200 shadow-sm'
           : 'bg-white hover:bg-gray-50 border-gray-200 hover:border-gray-300'
-      }`}
+      } ${user.isAway ? 'opacity-50 grayscale' : ''}`}
+      data-testid={user.isAway ? 'player-away' : undefined}
     >
       {/* Main player info row */}
       <div className="flex items-center justify-between mb-2">
@@ -84,7 +133,13 @@ function PlayerItem({ user, isCurrentUser, status }: PlayerItemProps) {
               You
             </span>
           )}
+          {user.isAway && (
+            <span className="text-xs bg-gray-200 text-gray-600 px-2 py-1 rounded-full font-medium">
+              Away
+            </span>
+          )}
         </div>
+        {actions}
       </div>
       
       {/* Status information row */}
@@ -94,6 +149,9 @@ function PlayerItem({ user, isCurrentUser, status }: PlayerItemProps) {
           {status.buzzOrder && (
             <span className="text-xs bg-yellow-100 text-yellow-800 px-2 py-1 rounded-full border border-yellow-200 font-medium">
               🔔 #{status.buzzOrder}
+              {status.buzzDelayMs !== undefined && status.buzzDelayMs > 0 && (
+                <> +{(status.buzzDelayMs / 1000).toFixed(2)}s</>
+              )}
             </span>
           )}
           
@@ -147,12 +205,27 @@ export function PlayerList({
   currentUserId, 
   scores = [], 
   buzzedUsers = [], 
+  buzzQueue = [], 
   buzzedUser = null, 
   answer = '', 
   hasAnswered = false, 
-  recentJudgments = []
+  recentJudgments = [],
+  isHost = false,
+  maxPlayers,
+  onPromoteSpectator,
+  onTransferHost,
+  onKick,
+  onBan,
 }: PlayerListProps) {
-  
+  const players = users.filter(user => !user.isSpectator);
+  const spectators = users.filter(user => user.isSpectator);
+  const hasFreeSlot = maxPlayers === undefined || players.length < maxPlayers;
+
+  // The host moderates everyone but themselves
+  const renderActions = (user: User) => (isHost && !user.isHost
+    ? <MemberActions user={user} onTransferHost={onTransferHost} onKick={onKick} onBan={onBan} />
+    : null);
+
   // Create player status map
   const getPlayerStatus = (user: User): PlayerStatus => {
     const status: PlayerStatus = { userId: user.id };
@@ -162,6 +235,12 @@ export function PlayerList({
     if (buzzIndex !== -1) {
       status.buzzOrder = buzzIndex + 1;
     }
+
+    // Delay behind the winning buzz, measured on the server
+    const buzzEntry = buzzQueue.find(entry => entry.userId === user.id);
+    if (buzzEntry) {
+      status.buzzDelayMs = buzzEntry.receivedAt - buzzQueue[0].receivedAt;
+    }
     
     // Check if this player is currently answering
     status.isAnswering = buzzedUser?.id === user.id;
@@ -194,21 +273,60 @@ export function PlayerList({
         <div className="flex items-center justify-between">
           <h2 className="text-xl font-bold text-gray-800">Players</h2>
           <span className="text-sm text-gray-500 bg-gray-100 px-2 py-1 rounded-full">
-            {users.length}
+            {players.length}
           </span>
         </div>
       </CardHeader>
       <CardContent>
         <div className="space-y-3">
-          {users.map((user) => (
+          {players.map((user) => (
             <PlayerItem
               key={user.id}
               user={user}
               isCurrentUser={user.id === currentUserId}
               status={getPlayerStatus(user)}
+              actions={renderActions(user)}
             />
           ))}
         </div>
+
+        {spectators.length > 0 && (
+          <div className="mt-4 pt-4 border-t border-gray-100" data-testid="spectator-list">
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="text-sm font-semibold text-gray-600">Spectators</h3>
+              <span className="text-xs text-gray-500 bg-gray-100 px-2 py-0.5 rounded-full">
+                {spectators.length}
+              </span>
+            </div>
+            <ul className="space-y-2">
+              {spectators.map((user) => (
+                <li key={user.id} className={`flex items-center justify-between text-sm text-gray-700 ${user.isAway ? 'opacity-50' : ''}`}>
+                  <span>
+                    👀 {user.name}
+                    {user.id === currentUserId && (
+                      <span className="ml-2 text-xs bg-pink-200 text-pink-800 px-2 py-0.5 rounded-full font-medium">
+                        You
+                      </span>
+                    )}
+                  </span>
+                  <div className="flex items-center gap-1">
+                    {isHost && onPromoteSpectator && (
+                      <Button
+                        size="sm"
+                        variant="secondary"
+                        onClick={() => onPromoteSpectator(user.id)}
+                        disabled={!hasFreeSlot}
+                      >
+                        Make Player
+                      </Button>
+                    )}
+                    {renderActions(user)}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
       </CardContent>
     </Card>
   );
@@ -2,12 +2,13 @@
  * Quiz Management component for Quiz World application
  * - Displays list of available quizzes
  * - Provides quiz creation and starting functionality
+ * - Lets the host load a saved deck or save the current quizzes as a deck
  * - Host-only access for quiz management
  */
 
-import React from 'react';
+import React, { useState } from 'react';
 import { Button } from '@/components/ui/Button';
-import type { Quiz } from '@/types';
+import type { Quiz, QuizDeck } from '@/types';
 
 /**
  * Quiz management component props
@@ -16,6 +17,11 @@ interface QuizManagementProps {
   quizzes: Quiz[];
   onStartQuiz: () => void; // 引数なしに修正
   onCreateQuiz: () => void;
+  decks?: QuizDeck[];
+  deckError?: string | null;
+  onLoadDeck?: (deckId: string) => void;
+  onSaveDeck?: (title: string) => void;
+  onDeleteDeck?: (deckId: string) => void;
 }
 
 /**
@@ -41,23 +47,112 @@ function QuizItem({ quiz }: QuizItemProps) {
   );
 }
 
+/**
+ * Deck picker props
+ */
+interface DeckPickerProps {
+  decks: QuizDeck[];
+  error?: string | null;
+  canSave: boolean;
+  onLoadDeck: (deckId: string) => void;
+  onSaveDeck?: (title: string) => void;
+  onDeleteDeck?: (deckId: string) => void;
+}
+
+/**
+ * Deck picker component - loading a deck replaces the room's quizzes
+ */
+function DeckPicker({ decks, error, canSave, onLoadDeck, onSaveDeck, onDeleteDeck }: DeckPickerProps) {
+  const [title, setTitle] = useState('');
+
+  const handleSave = () => {
+    if (title.trim() && onSaveDeck) {
+      onSaveDeck(title.trim());
+      setTitle('');
+    }
+  };
+
+  return (
+    <div className="space-y-2 border-t border-gray-200 pt-4" data-testid="deck-picker">
+      <h4 className="font-semibold text-gray-800">Quiz Decks</h4>
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg" role="alert">
+          <span className="text-sm text-red-800">{error}</span>
+        </div>
+      )}
+      {decks.length === 0 && (
+        <p className="text-sm text-gray-600">No decks saved yet</p>
+      )}
+      {decks.map((deck) => (
+        <div key={deck.id} className="flex items-center justify-between p-3 border border-gray-200 rounded-lg">
+          <div>
+            <h5 className="font-medium text-gray-800">{deck.title}</h5>
+            <p className="text-sm text-gray-600">
+              {deck.quizzes.length} quizzes
+              {deck.tags.length > 0 && ` • ${deck.tags.map(tag => `#${tag}`).join(' ')}`}
+            </p>
+          </div>
+          <div className="flex gap-2">
+            {onDeleteDeck && deck.ownerId !== undefined && (
+              <Button variant="ghost" size="sm" onClick={() => onDeleteDeck(deck.id)}>
+                Delete
+              </Button>
+            )}
+            <Button size="sm" onClick={() => onLoadDeck(deck.id)}>
+              Load
+            </Button>
+          </div>
+        </div>
+      ))}
+      {canSave && onSaveDeck && (
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-pink-500 focus:border-transparent"
+            placeholder="Deck title..."
+          />
+          <Button variant="secondary" onClick={handleSave} disabled={!title.trim()}>
+            Save as Deck
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
+
 /**
  * Quiz management modal content
  */
-export function QuizManagement({ quizzes, onStartQuiz, onCreateQuiz }: QuizManagementProps) {
+export function QuizManagement({ quizzes, onStartQuiz, onCreateQuiz, decks = [], deckError, onLoadDeck, onSaveDeck, onDeleteDeck }: QuizManagementProps) {
+  const deckPicker = onLoadDeck && (
+    <DeckPicker
+      decks={decks}
+      error={deckError}
+      canSave={quizzes.length > 0}
+      onLoadDeck={onLoadDeck}
+      onSaveDeck={onSaveDeck}
+      onDeleteDeck={onDeleteDeck}
+    />
+  );
+
   if (quizzes.length === 0) {
     return (
-      <div className="text-center py-8">
-        <div className="text-4xl mb-4">📝</div>
-        <h3 className="text-lg font-semibold text-gray-800 mb-2">
-          No quizzes available
-        </h3>
-        <p className="text-gray-600 mb-4">
-          Create some quizzes to start the game!
-        </p>
-        <Button onClick={onCreateQuiz}>
-          Create Quiz
-        </Button>
+      <div>
+        <div className="text-center py-8">
+          <div className="text-4xl mb-4">📝</div>
+          <h3 className="text-lg font-semibold text-gray-800 mb-2">
+            No quizzes available
+          </h3>
+          <p className="text-gray-600 mb-4">
+            Create some quizzes to start the game!
+          </p>
+          <Button onClick={onCreateQuiz}>
+            Create Quiz
+          </Button>
+        </div>
+        {deckPicker}
       </div>
     );
   }
@@ -74,6 +169,7 @@ export function QuizManagement({ quizzes, onStartQuiz, onCreateQuiz }: QuizManag
       <Button onClick={onCreateQuiz}>
         Create Quiz
       </Button>
+      {deckPicker}
     </div>
   );
 } 
\ No newline at end of file
@@ -24,10 +24,15 @@ const mockSocket = {
 };
 
 vi.mock('@/lib/socketClient', () => ({
-  leaveRoom: vi.fn(),
-  transferHost: vi.fn(),
-  startQuiz: vi.fn(),
-  addQuiz: vi.fn(),
+  leaveRoom: vi.fn(() => Promise.resolve()),
+  transferHost: vi.fn(() => Promise.resolve()),
+  promoteSpectator: vi.fn(() => Promise.resolve()),
+  kickUser: vi.fn(() => Promise.resolve()),
+  banUser: vi.fn(() => Promise.resolve()),
+  startQuiz: vi.fn(() => Promise.resolve()),
+  addQuiz: vi.fn(() => Promise.resolve()),
+  endQuiz: vi.fn(() => Promise.resolve()),
+  requestDeckList: vi.fn(() => Promise.resolve({ decks: [] })),
   getSocket: vi.fn(() => mockSocket),
 }));
 
@@ -188,9 +193,70 @@ describe('Room Component', () => {
       expect(screen.getByText('Regular User')).toBeInTheDocument();
     });
 
+    it('should grey out players who are away', () => {
+      const roomWithAwayUser = {
+        ...mockRoom,
+        users: mockRoom.users.map(user => user.isHost ? user : { ...user, isAway: true }),
+      };
+      render(<Room room={roomWithAwayUser} currentUser={mockCurrentUser} onLeave={mockOnLeave} />);
+
+      const awayPlayers = screen.getAllByTestId('player-away');
+      expect(awayPlayers).toHaveLength(1);
+      expect(awayPlayers[0]).toHaveTextContent('Regular User');
+      expect(awayPlayers[0]).toHaveTextContent('Away');
+      expect(awayPlayers[0]).toHaveClass('opacity-50');
+    });
 
+    it('should list spectators separately and let the host make them players', async () => {
+      const { promoteSpectator } = await import('@/lib/socketClient');
+      const roomWithSpectator = {
+        ...mockRoom,
+        users: [...mockRoom.users, { id: 'spectator-id', name: 'Watcher', isHost: false, isSpectator: true }],
+      };
+      render(<Room room={roomWithSpectator} currentUser={mockCurrentUser} onLeave={mockOnLeave} />);
 
+      expect(screen.getByTestId('spectator-list')).toHaveTextContent('Watcher');
+      fireEvent.click(screen.getByText('Make Player'));
+
+      expect(promoteSpectator).toHaveBeenCalledWith('spectator-id');
+    });
+
+    it('should not offer promotion to non-host users', () => {
+      const roomWithSpectator = {
+        ...mockRoom,
+        users: [...mockRoom.users, { id: 'spectator-id', name: 'Watcher', isHost: false, isSpectator: true }],
+      };
+      const regularUser = { id: 'regular-user-id', name: 'Regular User', isHost: false };
+      render(<Room room={roomWithSpectator} currentUser={regularUser} onLeave={mockOnLeave} />);
 
+      expect(screen.getByTestId('spectator-list')).toHaveTextContent('Watcher');
+      expect(screen.queryByText('Make Player')).not.toBeInTheDocument();
+    });
+
+    it('should let the host make another player host, kick or ban them', async () => {
+      const { transferHost, kickUser, banUser } = await import('@/lib/socketClient');
+      render(<Room room={mockRoom} currentUser={mockCurrentUser} onLeave={mockOnLeave} />);
+
+      // Only the other player gets actions, never the host themselves
+      expect(screen.getAllByText('Kick')).toHaveLength(1);
+
+      fireEvent.click(screen.getByText('Make Host'));
+      fireEvent.click(screen.getByText('Kick'));
+      fireEvent.click(screen.getByText('Ban'));
+
+      expect(transferHost).toHaveBeenCalledWith('regular-user-id');
+      expect(kickUser).toHaveBeenCalledWith('regular-user-id');
+      expect(banUser).toHaveBeenCalledWith('regular-user-id');
+    });
+
+    it('should not show moderation actions to non-host users', () => {
+      const regularUser = { id: 'regular-user-id', name: 'Regular User', isHost: false };
+      render(<Room room={mockRoom} currentUser={regularUser} onLeave={mockOnLeave} />);
+
+      expect(screen.queryByText('Make Host')).not.toBeInTheDocument();
+      expect(screen.queryByText('Kick')).not.toBeInTheDocument();
+      expect(screen.queryByText('Ban')).not.toBeInTheDocument();
+    });
   });
 
   describe('Chat Functionality', () => {
@@ -224,7 +290,7 @@ describe('Room Component', () => {
       fireEvent.change(messageInput, { target: { value: 'Test message' } });
       fireEvent.click(sendButton);
 
-      expect(mockSendMessage).toHaveBeenCalledWith('Test message', 'test-user-id', 'Test User');
+      expect(mockSendMessage).toHaveBeenCalledWith('Test message');
     });
 
     it('should send message when Enter key is pressed', async () => {
@@ -242,7 +308,7 @@ describe('Room Component', () => {
 
       await user.type(messageInput, 'Test message{enter}');
 
-      expect(mockSendMessage).toHaveBeenCalledWith('Test message', 'test-user-id', 'Test User');
+      expect(mockSendMessage).toHaveBeenCalledWith('Test message');
     });
   });
 
@@ -643,6 +709,7 @@ describe('Room Component', () => {
     });
 
     it('should emit quiz:end event when ending quiz', async () => {
+      const { endQuiz } = await import('@/lib/socketClient');
       render(<Room room={mockRoom} currentUser={mockCurrentUser} onLeave={mockOnLeave} />);
 
       // Start a quiz first
@@ -670,7 +737,7 @@ describe('Room Component', () => {
       });
 
       // Verify quiz:ended event was emitted
-      expect(mockSocket.emit).toHaveBeenCalledWith('quiz:ended');
+      expect(endQuiz).toHaveBeenCalled();
     });
   });
 
@@ -802,7 +869,7 @@ describe('Room Component', () => {
       render(<Room room={mockRoom} currentUser={mockCurrentUser} onLeave={mockOnLeave} />);
 
       // No error should be visible initially
-      expect(screen.queryByText('Failed to start quiz. Please try again.')).not.toBeInTheDocument();
+      expect(screen.queryByText('Something went wrong on the server. Please try again.')).not.toBeInTheDocument();
     });
 
     it('should display error message when quiz creation fails', async () => {
@@ -823,7 +890,7 @@ describe('Room Component', () => {
       fireEvent.click(createQuizButton);
 
       // Error message should be displayed
-      expect(screen.getByText('Failed to add quiz. Please try again.')).toBeInTheDocument();
+      expect(screen.getByText('Something went wrong on the server. Please try again.')).toBeInTheDocument();
     });
 
     it('should auto-clear quiz creation error after 5 seconds', async () => {
@@ -844,7 +911,7 @@ describe('Room Component', () => {
       fireEvent.click(createQuizButton);
 
       // Error should be visible
-      expect(screen.getByText('Failed to add quiz. Please try again.')).toBeInTheDocument();
+      expect(screen.getByText('Something went wrong on the server. Please try again.')).toBeInTheDocument();
 
       // Fast forward 5 seconds
       act(() => {
@@ -852,7 +919,7 @@ describe('Room Component', () => {
       });
 
       // Error should be cleared
-      expect(screen.queryByText('Failed to add quiz. Please try again.')).not.toBeInTheDocument();
+      expect(screen.queryByText('Something went wrong on the server. Please try again.')).not.toBeInTheDocument();
     });
   });
 
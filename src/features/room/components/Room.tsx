@@ -16,8 +16,9 @@ import { Chat } from './Chat';
 import { GameStatus } from './GameStatus';
 import { IntegratedQuizGame } from './IntegratedQuizGame';
 import { QuizManagement } from './QuizManagement';
-import type { Room, User } from '@/types';
+import type { Room, User, GameSession, Score } from '@/types';
 import { useRoomGame } from '../hooks/useRoomGame';
+import { useQuizDecks } from '../hooks/useQuizDecks';
 
 /**
  * Room component interface
@@ -25,6 +26,8 @@ import { useRoomGame } from '../hooks/useRoomGame';
 interface RoomProps {
   room: Room;
   currentUser: User;
+  session?: GameSession;
+  scores?: Score[];
   onLeave?: () => void;
   className?: string;
 }
@@ -32,7 +35,7 @@ interface RoomProps {
 /**
  * Main Room component
  */
-export function Room({ room, currentUser, onLeave, className }: RoomProps) {
+export function Room({ room, currentUser, session, scores: initialScores, onLeave, className }: RoomProps) {
   const {
     showQuizModal, setShowQuizModal,
     showQuizCreator, setShowQuizCreator,
@@ -45,11 +48,15 @@ export function Room({ room, currentUser, onLeave, className }: RoomProps) {
     scores,
     buzzedUser,
     buzzedUsers,
+    buzzQueue,
     answer, setAnswer,
     hasAnswered,
     showAnswer,
     recentJudgments,
-    isHost, currentUserName, currentUserId,
+    selectedChoice,
+    choiceDistribution,
+    questionDeadline,
+    isHost, isSpectator, currentUserId,
     handleLeaveRoom,
     handleStartQuiz,
     handleEndQuiz,
@@ -58,15 +65,28 @@ export function Room({ room, currentUser, onLeave, className }: RoomProps) {
     handleQuizCreated,
     handleBuzzInUser,
     handleSubmitAnswer,
+    handleSubmitChoice,
     handleShowAnswer,
     handleJudgeAnswer,
-  } = useRoomGame(room, currentUser, onLeave);
+    handleOverrideJudgment,
+    handleToggleAutoJudge,
+    handlePromoteSpectator,
+    handleTransferHost,
+    handleKickUser,
+    handleBanUser,
+  } = useRoomGame(room, currentUser, onLeave, { session, scores: initialScores });
+  const { decks, error: deckError, saveDeck, deleteDeck, loadDeck } = useQuizDecks(showQuizModal && isHost);
+
+  // A judged question stays on screen until the host moves on
+  const isQuizInProgress = gameState === 'quiz-active' || gameState === 'quiz-answered';
+  const autoJudgment = recentJudgments.find(judgment => judgment.isAuto);
+  const isChoiceQuiz = currentQuiz?.type === 'choice';
 
   /**
    * Determine what to show in the game area
    */
   const renderGameArea = () => {
-    if (gameState === 'quiz-active' && currentQuiz) {
+    if (isQuizInProgress && currentQuiz) {
       return (
         <IntegratedQuizGame
           quiz={currentQuiz}
@@ -75,6 +95,8 @@ export function Room({ room, currentUser, onLeave, className }: RoomProps) {
           gameState={quizGameState}
           scores={scores}
           showAnswer={showAnswer}
+          choiceDistribution={choiceDistribution}
+          deadline={questionDeadline}
           onEndQuiz={handleEndQuiz}
           onNextQuiz={handleNextQuiz}
           isLastQuiz={currentQuizIndex === roomQuizzes.length - 1}
@@ -114,6 +136,7 @@ export function Room({ room, currentUser, onLeave, className }: RoomProps) {
         room={room}
         isHost={isHost}
         onManageQuizzes={() => setShowQuizModal(true)}
+        onToggleAutoJudge={handleToggleAutoJudge}
         onLeave={handleLeaveRoom}
       />
 
@@ -140,18 +163,21 @@ export function Room({ room, currentUser, onLeave, className }: RoomProps) {
             currentUserId={currentUserId}
             scores={scores}
             buzzedUsers={buzzedUsers}
+            buzzQueue={buzzQueue}
             buzzedUser={buzzedUser}
             answer={answer}
             hasAnswered={hasAnswered}
             recentJudgments={recentJudgments}
+            isHost={isHost}
+            maxPlayers={room.maxPlayers}
+            onPromoteSpectator={handlePromoteSpectator}
+            onTransferHost={handleTransferHost}
+            onKick={handleKickUser}
+            onBan={handleBanUser}
           />
           
           {/* Chat - in sidebar */}
-          <Chat
-            roomName={room.name}
-            currentUserId={currentUserId}
-            currentUserName={currentUserName}
-          />
+          <Chat roomName={room.name} />
         </div>
 
         {/* Game Area - takes up 3/5 of the width */}
@@ -161,13 +187,45 @@ export function Room({ room, currentUser, onLeave, className }: RoomProps) {
       </div>
 
       {/* Buzz and Answer Section - outside of quiz game */}
-      {(gameState === 'quiz-active') && currentQuiz && (
+      {isQuizInProgress && currentQuiz && (
         <div className="mt-1 lg:ml-[calc(40%+1.5rem)]">
           <Card variant="gradient">
             <CardContent>
               <div className="py-2">
-                {/* Buzz Button - Only for non-host users */}
-                {!buzzedUser && quizGameState === 'active' && !isHost && (
+                {/* Spectators watch without buzzing or answering */}
+                {isSpectator && quizGameState === 'active' && (
+                  <div className="text-center mb-2 text-sm text-gray-600">
+                    👀 You are watching this game
+                  </div>
+                )}
+
+                {/* Choice Picker - Only for players */}
+                {isChoiceQuiz && quizGameState === 'active' && !isHost && !isSpectator && (
+                  <div className="mb-2">
+                    <div className="grid grid-cols-2 gap-2 max-w-md mx-auto">
+                      {currentQuiz.choices?.map((choice, index) => (
+                        <Button
+                          key={index}
+                          size="md"
+                          variant={selectedChoice === index ? 'primary' : 'secondary'}
+                          onClick={() => handleSubmitChoice(index)}
+                          disabled={selectedChoice !== null}
+                          className="text-sm py-2"
+                        >
+                          {choice}
+                        </Button>
+                      ))}
+                    </div>
+                    {selectedChoice !== null && (
+                      <div className="text-center mt-2 text-sm text-gray-600">
+                        Waiting for time to run out...
+                      </div>
+                    )}
+                  </div>
+                )}
+
+                {/* Buzz Button - Only for players */}
+                {!isChoiceQuiz && !buzzedUser && quizGameState === 'active' && !isHost && !isSpectator && (
                   <div className="text-center mb-2">
                     <Button
                       size="md"
@@ -267,6 +325,23 @@ export function Room({ room, currentUser, onLeave, className }: RoomProps) {
                   </div>
                 )}
 
+                {/* Auto-judge Override - Host only */}
+                {isHost && autoJudgment && (
+                  <div className="text-center mb-3">
+                    <span className="text-sm font-medium text-gray-800">
+                      Auto-judged {autoJudgment.isCorrect ? 'correct' : 'incorrect'}: &quot;{autoJudgment.answer}&quot;
+                    </span>
+                    <Button
+                      size="sm"
+                      variant="secondary"
+                      onClick={() => handleOverrideJudgment(autoJudgment.userId, !autoJudgment.isCorrect)}
+                      className="ml-2 px-3 py-1 text-sm"
+                    >
+                      Mark {autoJudgment.isCorrect ? 'Incorrect' : 'Correct'}
+                    </Button>
+                  </div>
+                )}
+
                 {/* Show Answer Button for Host */}
                 {isHost && hasAnswered && !showAnswer && (
                   <div className="text-center mb-3">
@@ -302,6 +377,11 @@ export function Room({ room, currentUser, onLeave, className }: RoomProps) {
           quizzes={roomQuizzes}
           onStartQuiz={handleStartQuiz}
           onCreateQuiz={handleOpenQuizCreator}
+          decks={decks}
+          deckError={deckError}
+          onLoadDeck={loadDeck}
+          onSaveDeck={(title) => saveDeck(title, roomQuizzes)}
+          onDeleteDeck={deleteDeck}
         />
       </Modal>
 
@@ -1,7 +1,9 @@
 /**
  * Room Header component for Quiz World application
  * - Displays room name, player count, and visibility
+ * - Shows the join code of private rooms so members can share it
  * - Shows Manage Quizzes button for host users
+ * - Lets the host toggle automatic answer judging
  * - Provides Leave Room functionality
  */
 
@@ -16,13 +18,14 @@ interface RoomHeaderProps {
   room: Room;
   isHost: boolean;
   onManageQuizzes: () => void;
+  onToggleAutoJudge?: () => void;
   onLeave: () => void;
 }
 
 /**
  * Room header component
  */
-export function RoomHeader({ room, isHost, onManageQuizzes, onLeave }: RoomHeaderProps) {
+export function RoomHeader({ room, isHost, onManageQuizzes, onToggleAutoJudge, onLeave }: RoomHeaderProps) {
   return (
     <div className="flex items-center justify-between mb-6">
       <div>
@@ -30,9 +33,21 @@ export function RoomHeader({ room, isHost, onManageQuizzes, onLeave }: RoomHeade
         <p className="text-gray-600">
           {room.users.length}/{room.maxPlayers} players
           {room.isPublic && ' • Public Room'}
+          {room.joinCode && (
+            <>
+              {' • Join code: '}
+              <span className="font-mono font-bold text-gray-800" data-testid="room-join-code">{room.joinCode}</span>
+              {room.hasPassword && ' 🔒'}
+            </>
+          )}
         </p>
       </div>
       <div className="flex gap-2">
+        {isHost && onToggleAutoJudge && (
+          <Button variant="secondary" onClick={onToggleAutoJudge}>
+            Auto-judge: {room.autoJudge?.enabled ? 'On' : 'Off'}
+          </Button>
+        )}
         {isHost && (
           <Button variant="secondary" onClick={onManageQuizzes}>
             Manage Quizzes
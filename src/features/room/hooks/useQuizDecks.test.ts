@@ -0,0 +1,160 @@
+/**
+ * Tests for useQuizDecks hook
+ */
+import { describe, test, expect, beforeEach, afterEach, vi } from 'vitest';
+import { renderHook, act, waitFor } from '@testing-library/react';
+import { useQuizDecks } from './useQuizDecks';
+import * as socketClient from '@/lib/socketClient';
+import type { Quiz, QuizDeck } from '@/types';
+import type { Socket } from 'socket.io-client';
+import { ErrorCode } from '@/types/socket';
+
+// Mock socket client
+vi.mock('@/lib/socketClient', () => ({
+  getSocket: vi.fn(),
+  requestDeckList: vi.fn(),
+  createDeck: vi.fn(),
+  deleteDeck: vi.fn(),
+  loadDeck: vi.fn(),
+}));
+
+/**
+ * Builds the error a rejected command fails with
+ */
+const rejected = (code: ErrorCode) =>
+  Object.assign(new Error('Rejected'), { name: 'SocketCommandError', reason: 'rejected', code });
+
+const mockQuiz: Quiz = { id: 'quiz-1', type: 'text', question: 'Q1', answer: 'A1' };
+
+const mockDeck: QuizDeck = {
+  id: 'deck-1',
+  title: 'My Deck',
+  description: '',
+  tags: [],
+  quizzes: [mockQuiz],
+  ownerId: 'user-1',
+  createdAt: 1000,
+  updatedAt: 1000,
+};
+
+describe('useQuizDecks', () => {
+  let mockSocket: {
+    on: ReturnType<typeof vi.fn>;
+    off: ReturnType<typeof vi.fn>;
+    emit: ReturnType<typeof vi.fn>;
+  };
+
+  const getHandler = (event: string) =>
+    mockSocket.on.mock.calls.find(([name]) => name === event)?.[1];
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockSocket = {
+      on: vi.fn(),
+      off: vi.fn(),
+      emit: vi.fn(),
+    };
+    vi.mocked(socketClient.getSocket).mockReturnValue(mockSocket as unknown as Socket);
+    vi.mocked(socketClient.requestDeckList).mockResolvedValue({ decks: [] });
+    vi.mocked(socketClient.createDeck).mockResolvedValue({ deck: mockDeck });
+    vi.mocked(socketClient.deleteDeck).mockResolvedValue(undefined);
+    vi.mocked(socketClient.loadDeck).mockResolvedValue(undefined);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  test('有効時にデッキ一覧を要求する', () => {
+    renderHook(() => useQuizDecks(true));
+
+    expect(socketClient.requestDeckList).toHaveBeenCalled();
+  });
+
+  test('無効時はデッキ一覧を要求しない', () => {
+    renderHook(() => useQuizDecks(false));
+
+    expect(socketClient.requestDeckList).not.toHaveBeenCalled();
+    expect(mockSocket.on).not.toHaveBeenCalled();
+  });
+
+  test('deck:list / deck:saved / deck:deleted で一覧を更新する', () => {
+    const { result } = renderHook(() => useQuizDecks(true));
+
+    act(() => {
+      getHandler('deck:list')({ decks: [mockDeck] });
+    });
+    expect(result.current.decks).toEqual([mockDeck]);
+
+    const renamed = { ...mockDeck, title: 'Renamed' };
+    act(() => {
+      getHandler('deck:saved')({ deck: renamed });
+    });
+    expect(result.current.decks).toEqual([renamed]);
+
+    act(() => {
+      getHandler('deck:deleted')({ deckId: 'deck-1' });
+    });
+    expect(result.current.decks).toEqual([]);
+  });
+
+  test('保存・読み込み・削除をサーバーに送信する', () => {
+    const { result } = renderHook(() => useQuizDecks(true));
+
+    act(() => {
+      result.current.saveDeck(' My Deck ', [mockQuiz]);
+      result.current.loadDeck('deck-1');
+      result.current.deleteDeck('deck-1');
+    });
+
+    expect(socketClient.createDeck).toHaveBeenCalledWith({ title: 'My Deck', quizzes: [mockQuiz] });
+    expect(socketClient.loadDeck).toHaveBeenCalledWith('deck-1');
+    expect(socketClient.deleteDeck).toHaveBeenCalledWith('deck-1');
+  });
+
+  test('タイトルやクイズが空の場合は保存しない', () => {
+    const { result } = renderHook(() => useQuizDecks(true));
+
+    act(() => {
+      result.current.saveDeck('  ', [mockQuiz]);
+      result.current.saveDeck('My Deck', []);
+    });
+
+    expect(socketClient.createDeck).not.toHaveBeenCalled();
+  });
+
+  test('アンマウント時にリスナーを解除する', () => {
+    const { unmount } = renderHook(() => useQuizDecks(true));
+
+    unmount();
+
+    expect(mockSocket.off).toHaveBeenCalledWith('deck:list', expect.any(Function));
+    expect(mockSocket.off).toHaveBeenCalledWith('deck:saved', expect.any(Function));
+    expect(mockSocket.off).toHaveBeenCalledWith('deck:deleted', expect.any(Function));
+  });
+
+  test('失敗したコマンドのエラーを表示用の文言で保持する', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.mocked(socketClient.loadDeck).mockRejectedValue(rejected(ErrorCode.NotHost));
+    const { result } = renderHook(() => useQuizDecks(true));
+
+    act(() => {
+      result.current.loadDeck('deck-1');
+    });
+
+    await waitFor(() => expect(result.current.error).toBe('Only the host can do that.'));
+  });
+
+  test('一覧の取得に失敗した場合もエラーを保持し、次のコマンドでクリアする', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.mocked(socketClient.requestDeckList).mockRejectedValue(rejected(ErrorCode.Internal));
+    const { result } = renderHook(() => useQuizDecks(true));
+
+    await waitFor(() => expect(result.current.error).toBe('Something went wrong on the server. Please try again.'));
+
+    act(() => {
+      result.current.saveDeck('My Deck', [mockQuiz]);
+    });
+    expect(result.current.error).toBeNull();
+  });
+});
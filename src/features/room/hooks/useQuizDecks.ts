@@ -0,0 +1,97 @@
+/**
+ * Hook for listing, saving and loading quiz decks
+ */
+import { useState, useCallback, useEffect } from 'react';
+import {
+  getSocket,
+  requestDeckList,
+  createDeck,
+  deleteDeck as deleteDeckCommand,
+  loadDeck as loadDeckCommand,
+} from '@/lib/socketClient';
+import type { Quiz, QuizDeck } from '@/types';
+import { describeCommandError } from '@/lib/errorMessages';
+import { createLogger } from '@/lib/logger';
+
+/**
+ * Log of deck command failures
+ */
+const log = createLogger('useQuizDecks');
+
+export interface UseQuizDecksReturn {
+  decks: QuizDeck[];
+  /** Localized message of the last failed deck command (null once a command is sent again) */
+  error: string | null;
+  refresh: () => void;
+  saveDeck: (title: string, quizzes: Quiz[]) => void;
+  deleteDeck: (deckId: string) => void;
+  loadDeck: (deckId: string) => void;
+}
+
+/**
+ * Keeps the deck list in sync with the server
+ * @param enabled - Fetch and listen only while true (e.g. while the deck picker is open)
+ */
+export function useQuizDecks(enabled: boolean = true): UseQuizDecksReturn {
+  const [decks, setDecks] = useState<QuizDeck[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Send a deck command, showing its failure to the host
+   */
+  const runCommand = useCallback((command: () => Promise<unknown>, failure: string) => {
+    setError(null);
+    command().catch(error => {
+      log.error(failure, { error });
+      setError(describeCommandError(error));
+    });
+  }, []);
+
+  const refresh = useCallback(() => {
+    runCommand(requestDeckList, 'Failed to list decks');
+  }, [runCommand]);
+
+  useEffect(() => {
+    const socket = getSocket();
+    if (!socket || !enabled) return;
+
+    const handleDeckList = (data: { decks: QuizDeck[] }) => {
+      setDecks(data.decks);
+    };
+    const handleDeckSaved = (data: { deck: QuizDeck }) => {
+      setDecks(prev => {
+        const others = prev.filter(deck => deck.id !== data.deck.id);
+        return [...others, data.deck];
+      });
+    };
+    const handleDeckDeleted = (data: { deckId: string }) => {
+      setDecks(prev => prev.filter(deck => deck.id !== data.deckId));
+    };
+
+    socket.on('deck:list', handleDeckList);
+    socket.on('deck:saved', handleDeckSaved);
+    socket.on('deck:deleted', handleDeckDeleted);
+    runCommand(requestDeckList, 'Failed to list decks');
+
+    return () => {
+      socket.off('deck:list', handleDeckList);
+      socket.off('deck:saved', handleDeckSaved);
+      socket.off('deck:deleted', handleDeckDeleted);
+    };
+  }, [enabled, runCommand]);
+
+  const saveDeck = useCallback((title: string, quizzes: Quiz[]) => {
+    if (!title.trim() || quizzes.length === 0) return;
+    runCommand(() => createDeck({ title: title.trim(), quizzes }), 'Failed to save deck');
+  }, [runCommand]);
+
+  const deleteDeck = useCallback((deckId: string) => {
+    runCommand(() => deleteDeckCommand(deckId), 'Failed to delete deck');
+  }, [runCommand]);
+
+  const loadDeck = useCallback((deckId: string) => {
+    runCommand(() => loadDeckCommand(deckId), 'Failed to load deck');
+  }, [runCommand]);
+
+  return { decks, error, refresh, saveDeck, deleteDeck, loadDeck };
+}
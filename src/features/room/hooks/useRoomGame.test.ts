@@ -25,11 +25,18 @@ import { useRoomGame } from './useRoomGame';
 import * as socketClient from '@/lib/socketClient';
 import * as userStorage from '@/lib/userStorage';
 import type { Room, User, Quiz } from '@/types';
+import { ErrorCode } from '@/types/socket';
 
 // モックの設定
 vi.mock('@/lib/socketClient');
 vi.mock('@/lib/userStorage');
 
+/**
+ * サーバーに拒否されたコマンドが返すエラーを作る
+ */
+const rejected = (code: ErrorCode) =>
+  Object.assign(new Error('Rejected'), { name: 'SocketCommandError', reason: 'rejected', code });
+
 describe('useRoomGame', () => {
   let mockSocket: any;
   let mockRoom: Room;
@@ -72,6 +79,9 @@ describe('useRoomGame', () => {
     // モック関数の設定
     vi.mocked(socketClient.getSocket).mockReturnValue(mockSocket);
     vi.mocked(socketClient.startQuiz).mockResolvedValue(undefined);
+    vi.mocked(socketClient.submitBuzzAnswer).mockResolvedValue(undefined);
+    vi.mocked(socketClient.judgeAnswer).mockResolvedValue(undefined);
+    vi.mocked(socketClient.revealAnswer).mockResolvedValue(undefined);
     vi.mocked(userStorage.getUserName).mockReturnValue('Host User');
     vi.mocked(userStorage.getUserId).mockReturnValue('user-1');
   });
@@ -129,7 +139,7 @@ describe('useRoomGame', () => {
 
     it('should handle startQuiz failure properly', async () => {
       // startQuizが失敗するように設定
-      vi.mocked(socketClient.startQuiz).mockRejectedValue(new Error('Network error'));
+      vi.mocked(socketClient.startQuiz).mockRejectedValue(rejected(ErrorCode.NotHost));
 
       const { result } = renderHook(() => useRoomGame(mockRoom, mockCurrentUser));
 
@@ -139,7 +149,7 @@ describe('useRoomGame', () => {
       });
 
       // エラーが設定されることを確認
-      expect(result.current.error).toBe('Failed to start quiz. Please try again.');
+      expect(result.current.error).toBe('Only the host can do that.');
       // モーダルは閉じられないことを確認
       expect(result.current.showQuizModal).toBe(false); // 初期値のまま
     });
@@ -185,6 +195,189 @@ describe('useRoomGame', () => {
       expect(result.current.recentJudgments).toEqual([]);
     });
 
+    it('should render the server session snapshot from game:state', () => {
+      const { result } = renderHook(() => useRoomGame(mockRoom, mockCurrentUser));
+
+      const gameStateHandler = mockSocket.on.mock.calls.find(
+        (call: any) => call[0] === 'game:state'
+      )?.[1];
+
+      expect(gameStateHandler).toBeDefined();
+
+      act(() => {
+        gameStateHandler({
+          session: {
+            phase: 'quiz-active',
+            currentQuizIndex: 0,
+            currentQuizId: 'quiz-1',
+            buzzQueue: [{ userId: 'user-2', receivedAt: 1000 }],
+            pendingAnswer: { userId: 'user-2', answer: 'Test Answer' },
+            judgments: [],
+            answerRevealed: false,
+            choiceSubmissions: [],
+            choiceDistribution: null,
+            deadline: null,
+            timeLimit: null,
+          },
+        });
+      });
+
+      expect(result.current.gameState).toBe('quiz-active');
+      expect(result.current.currentQuiz).toEqual(mockQuiz);
+      expect(result.current.quizGameState).toBe('answered');
+      expect(result.current.buzzedUser).toEqual(mockRoom.users[1]);
+      expect(result.current.answer).toBe('Test Answer');
+      expect(result.current.hasAnswered).toBe(true);
+
+      // 判定後はクイズが閉じられ、判定結果が反映される
+      act(() => {
+        gameStateHandler({
+          session: {
+            phase: 'quiz-answered',
+            currentQuizIndex: 0,
+            currentQuizId: 'quiz-1',
+            buzzQueue: [],
+            pendingAnswer: null,
+            judgments: [{ userId: 'user-2', answer: 'Test Answer', isCorrect: true, score: 10, timestamp: 1 }],
+            answerRevealed: true,
+            choiceSubmissions: [],
+            choiceDistribution: null,
+            deadline: null,
+            timeLimit: null,
+          },
+        });
+      });
+
+      expect(result.current.gameState).toBe('quiz-answered');
+      expect(result.current.quizGameState).toBe('finished');
+      expect(result.current.buzzedUsers).toEqual([]);
+      expect(result.current.showAnswer).toBe(true);
+      expect(result.current.recentJudgments).toEqual([
+        { userId: 'user-2', answer: 'Test Answer', isCorrect: true, timestamp: 1 },
+      ]);
+    });
+
+    it('should follow the server buzz order from game:buzzResolved', () => {
+      const { result } = renderHook(() => useRoomGame(mockRoom, mockCurrentUser));
+
+      const buzzResolvedHandler = mockSocket.on.mock.calls.find(
+        (call: any) => call[0] === 'game:buzzResolved'
+      )?.[1];
+
+      expect(buzzResolvedHandler).toBeDefined();
+
+      // クライアント側の受信順に関わらず、サーバーのキュー順で勝者が決まる
+      act(() => {
+        buzzResolvedHandler({
+          winnerId: 'user-2',
+          queue: [
+            { userId: 'user-2', receivedAt: 1000 },
+            { userId: 'user-1', receivedAt: 1040 },
+          ],
+        });
+      });
+
+      expect(result.current.buzzedUser).toEqual(mockRoom.users[1]);
+      expect(result.current.buzzedUsers).toEqual([mockRoom.users[1], mockRoom.users[0]]);
+      expect(result.current.buzzQueue[1].receivedAt).toBe(1040);
+    });
+
+    it('should fill in the redacted answer when quiz:revealAnswer arrives', () => {
+      const { result } = renderHook(() => useRoomGame(mockRoom, mockCurrentUser));
+
+      const quizStartedHandler = mockSocket.on.mock.calls.find(
+        (call: any) => call[0] === 'quiz:started'
+      )?.[1];
+      const revealAnswerHandler = mockSocket.on.mock.calls.find(
+        (call: any) => call[0] === 'quiz:revealAnswer'
+      )?.[1];
+
+      // 非ホストには正解が空文字で届く
+      act(() => {
+        quizStartedHandler({ quiz: { ...mockQuiz, answer: '' } });
+      });
+
+      expect(result.current.currentQuiz?.answer).toBe('');
+
+      act(() => {
+        revealAnswerHandler({ quizId: 'quiz-1', answer: 'Test Answer' });
+      });
+
+      expect(result.current.showAnswer).toBe(true);
+      expect(result.current.currentQuiz?.answer).toBe('Test Answer');
+    });
+
+    it('should follow the server countdown from quiz:tick', () => {
+      vi.spyOn(Date, 'now').mockReturnValue(50_000);
+      const { result } = renderHook(() => useRoomGame(mockRoom, mockCurrentUser));
+
+      const quizTickHandler = mockSocket.on.mock.calls.find(
+        (call: any) => call[0] === 'quiz:tick'
+      )?.[1];
+
+      expect(quizTickHandler).toBeDefined();
+
+      // サーバー時計が2秒進んでいても、ローカル時計基準の締め切りに換算される
+      act(() => {
+        quizTickHandler({ remainingMs: 10_000, deadline: 62_000 });
+      });
+
+      expect(result.current.questionDeadline).toBe(60_000);
+
+      act(() => {
+        quizTickHandler({ remainingMs: 0, deadline: 62_000 });
+      });
+
+      expect(result.current.questionDeadline).toBeNull();
+      vi.mocked(Date.now).mockRestore();
+    });
+
+    it('should render server scores from game:score without accumulating judgments locally', () => {
+      const { result } = renderHook(() => useRoomGame(mockRoom, mockCurrentUser));
+
+      const quizJudgedHandler = mockSocket.on.mock.calls.find(
+        (call: any) => call[0] === 'quiz:judged'
+      )?.[1];
+      const gameScoreHandler = mockSocket.on.mock.calls.find(
+        (call: any) => call[0] === 'game:score'
+      )?.[1];
+
+      act(() => {
+        quizJudgedHandler({ userId: 'user-2', isCorrect: true, score: 10 });
+      });
+
+      expect(result.current.scores).toEqual([]);
+
+      act(() => {
+        gameScoreHandler({ scores: [{ userId: 'user-2', score: 30 }] });
+      });
+
+      expect(result.current.scores).toEqual([{ userId: 'user-2', score: 30 }]);
+    });
+
+    it('should apply the session and scores received with room:joined', () => {
+      const { result } = renderHook(() => useRoomGame(mockRoom, mockCurrentUser, undefined, {
+        session: {
+          phase: 'quiz-active',
+          currentQuizIndex: 0,
+          currentQuizId: 'quiz-1',
+          buzzQueue: [],
+          pendingAnswer: null,
+          judgments: [],
+          answerRevealed: false,
+          choiceSubmissions: [],
+          choiceDistribution: null,
+          deadline: null,
+          timeLimit: null,
+        },
+        scores: [{ userId: 'user-2', score: 20 }],
+      }));
+
+      expect(result.current.gameState).toBe('quiz-active');
+      expect(result.current.currentQuiz).toEqual(mockQuiz);
+      expect(result.current.scores).toEqual([{ userId: 'user-2', score: 20 }]);
+    });
+
     it('should properly clean up socket listeners on unmount', () => {
       const { unmount } = renderHook(() => useRoomGame(mockRoom, mockCurrentUser));
 
@@ -318,7 +511,7 @@ describe('useRoomGame', () => {
   });
 
   describe('handleSubmitAnswer', () => {
-    it('should prevent duplicate answer submissions when hasAnswered is true', () => {
+    it('should prevent duplicate answer submissions when hasAnswered is true', async () => {
       const { result } = renderHook(() => useRoomGame(mockRoom, mockCurrentUser));
 
       // Set up initial state with an answer
@@ -331,32 +524,29 @@ describe('useRoomGame', () => {
       expect(result.current.answer).toBe('test answer');
 
       // First submission should work
-      act(() => {
-        result.current.handleSubmitAnswer();
+      await act(async () => {
+        await result.current.handleSubmitAnswer();
       });
 
-      // Verify socket emission occurred
-      expect(mockSocket.emit).toHaveBeenCalledWith('game:answer', {
-        user: mockCurrentUser,
-        answer: 'test answer'
-      });
+      // Verify the answer was sent
+      expect(socketClient.submitBuzzAnswer).toHaveBeenCalledWith('test answer');
 
       // hasAnswered should be set to true
       expect(result.current.hasAnswered).toBe(true);
 
       // Clear mock to test duplicate prevention
-      mockSocket.emit.mockClear();
+      vi.mocked(socketClient.submitBuzzAnswer).mockClear();
 
       // Second submission should be prevented
-      act(() => {
-        result.current.handleSubmitAnswer();
+      await act(async () => {
+        await result.current.handleSubmitAnswer();
       });
 
-      // Socket emission should NOT occur for duplicate submission
-      expect(mockSocket.emit).not.toHaveBeenCalled();
+      // The answer should NOT be sent again
+      expect(socketClient.submitBuzzAnswer).not.toHaveBeenCalled();
     });
 
-    it('should allow submission when hasAnswered is false', () => {
+    it('should allow submission when hasAnswered is false', async () => {
       const { result } = renderHook(() => useRoomGame(mockRoom, mockCurrentUser));
 
       // Set up answer
@@ -367,17 +557,14 @@ describe('useRoomGame', () => {
       expect(result.current.hasAnswered).toBe(false);
 
       // Submission should work
-      act(() => {
-        result.current.handleSubmitAnswer();
+      await act(async () => {
+        await result.current.handleSubmitAnswer();
       });
 
-      expect(mockSocket.emit).toHaveBeenCalledWith('game:answer', {
-        user: mockCurrentUser,
-        answer: 'valid answer'
-      });
+      expect(socketClient.submitBuzzAnswer).toHaveBeenCalledWith('valid answer');
     });
 
-    it('should not submit empty or whitespace-only answers', () => {
+    it('should not submit empty or whitespace-only answers', async () => {
       const { result } = renderHook(() => useRoomGame(mockRoom, mockCurrentUser));
 
       // Test empty answer
@@ -385,172 +572,134 @@ describe('useRoomGame', () => {
         result.current.setAnswer('');
       });
 
-      act(() => {
-        result.current.handleSubmitAnswer();
+      await act(async () => {
+        await result.current.handleSubmitAnswer();
       });
 
-      expect(mockSocket.emit).not.toHaveBeenCalled();
+      expect(socketClient.submitBuzzAnswer).not.toHaveBeenCalled();
 
       // Test whitespace-only answer
       act(() => {
         result.current.setAnswer('   ');
       });
 
-      act(() => {
-        result.current.handleSubmitAnswer();
+      await act(async () => {
+        await result.current.handleSubmitAnswer();
       });
 
-      expect(mockSocket.emit).not.toHaveBeenCalled();
+      expect(socketClient.submitBuzzAnswer).not.toHaveBeenCalled();
     });
 
-    it('should handle socket connection failure gracefully', () => {
-      // Mock socket as null to simulate connection failure
-      vi.mocked(socketClient.getSocket).mockReturnValue(null);
-      
+    it('should allow resubmission when the server rejects the answer', async () => {
+      vi.mocked(socketClient.submitBuzzAnswer).mockRejectedValueOnce(
+        Object.assign(new Error('Socket not connected'), { name: 'SocketCommandError', reason: 'disconnected' })
+      );
+
       const { result } = renderHook(() => useRoomGame(mockRoom, mockCurrentUser));
 
       act(() => {
         result.current.setAnswer('test answer');
       });
 
-      expect(result.current.hasAnswered).toBe(false);
-
-      // Should not crash when socket is null
-      act(() => {
-        result.current.handleSubmitAnswer();
+      // Should not crash when the command fails
+      await act(async () => {
+        await result.current.handleSubmitAnswer();
       });
 
-      // hasAnswered should remain false since no socket emission occurred
+      // hasAnswered should be reset so the player can try again
       expect(result.current.hasAnswered).toBe(false);
-      
-      // Restore mock socket for subsequent tests
-      vi.mocked(socketClient.getSocket).mockReturnValue(mockSocket);
+      expect(result.current.error).toBe('Not connected to server. Please check your connection.');
     });
   });
 
   describe('handleJudgeAnswer', () => {
-    it('should handle socket emit errors gracefully without state corruption', () => {
-      const { result } = renderHook(() => useRoomGame(mockRoom, mockCurrentUser));
-
-      // Set up game state with a buzzed user
-      const user1 = { id: 'user-1', name: 'User 1', isHost: false };
+    const buzzIn = (user: User) => {
       const gameBuzzHandler = mockSocket.on.mock.calls.find(
         (call: any) => call[0] === 'game:buzz'
       )?.[1];
 
       act(() => {
-        gameBuzzHandler({ user: user1 });
+        gameBuzzHandler({ user });
       });
+    };
+
+    it('should not reveal the answer when the judgment is rejected', async () => {
+      const { result } = renderHook(() => useRoomGame(mockRoom, mockCurrentUser));
+
+      // Set up game state with a buzzed user
+      const user1 = { id: 'user-1', name: 'User 1', isHost: false };
+      buzzIn(user1);
 
       expect(result.current.buzzedUser).toEqual(user1);
       
-      // Mock socket.emit to throw error on first call
-      mockSocket.emit.mockImplementationOnce(() => {
-        throw new Error('Network error');
-      });
+      vi.mocked(socketClient.judgeAnswer).mockRejectedValueOnce(new Error('Network error'));
 
       // Should handle the error gracefully
-      expect(() => {
-        act(() => {
-          result.current.handleJudgeAnswer(true);
-        });
-      }).not.toThrow();
-
-      // State should be consistent - if first emit fails, second should not execute
-      // Currently this will fail because there's no error handling
-      expect(mockSocket.emit).toHaveBeenCalledTimes(1); // Only first call attempted
-      expect(mockSocket.emit).toHaveBeenCalledWith('quiz:judge', { 
-        userId: user1.id, 
-        isCorrect: true 
+      await act(async () => {
+        await result.current.handleJudgeAnswer(true);
       });
+
+      // If the judgment fails, the answer should not be revealed
+      expect(socketClient.judgeAnswer).toHaveBeenCalledWith(user1.id, true);
+      expect(socketClient.revealAnswer).not.toHaveBeenCalled();
     });
 
-    it('should execute both socket emits successfully when no errors occur', () => {
+    it('should judge then reveal the answer when no errors occur', async () => {
       const { result } = renderHook(() => useRoomGame(mockRoom, mockCurrentUser));
 
       // Set up game state with a buzzed user
       const user1 = { id: 'user-1', name: 'User 1', isHost: false };
-      const gameBuzzHandler = mockSocket.on.mock.calls.find(
-        (call: any) => call[0] === 'game:buzz'
-      )?.[1];
+      buzzIn(user1);
 
-      act(() => {
-        gameBuzzHandler({ user: user1 });
-      });
-
-      mockSocket.emit.mockClear();
-
-      // Should execute both emits successfully
-      act(() => {
-        result.current.handleJudgeAnswer(true);
+      await act(async () => {
+        await result.current.handleJudgeAnswer(true);
       });
 
-      expect(mockSocket.emit).toHaveBeenCalledTimes(2);
-      expect(mockSocket.emit).toHaveBeenNthCalledWith(1, 'quiz:judge', { 
-        userId: user1.id, 
-        isCorrect: true 
-      });
-      expect(mockSocket.emit).toHaveBeenNthCalledWith(2, 'quiz:revealAnswer');
+      expect(socketClient.judgeAnswer).toHaveBeenCalledWith(user1.id, true);
+      expect(socketClient.revealAnswer).toHaveBeenCalledTimes(1);
     });
 
-    it('should not execute socket emits when no buzzed user exists', () => {
+    it('should not send commands when no buzzed user exists', async () => {
       const { result } = renderHook(() => useRoomGame(mockRoom, mockCurrentUser));
 
       // Ensure no buzzed user
       expect(result.current.buzzedUser).toBe(null);
 
-      mockSocket.emit.mockClear();
-
-      // Should not execute any socket emits
-      act(() => {
-        result.current.handleJudgeAnswer(true);
+      await act(async () => {
+        await result.current.handleJudgeAnswer(true);
       });
 
-      expect(mockSocket.emit).not.toHaveBeenCalled();
+      expect(socketClient.judgeAnswer).not.toHaveBeenCalled();
+      expect(socketClient.revealAnswer).not.toHaveBeenCalled();
     });
 
-    it('should maintain consistent state even when socket emits fail', () => {
+    it('should maintain consistent state even when commands fail', async () => {
       const { result } = renderHook(() => useRoomGame(mockRoom, mockCurrentUser));
 
       // Set up game state with a buzzed user
       const user1 = { id: 'user-1', name: 'User 1', isHost: false };
-      const gameBuzzHandler = mockSocket.on.mock.calls.find(
-        (call: any) => call[0] === 'game:buzz'
-      )?.[1];
-
-      act(() => {
-        gameBuzzHandler({ user: user1 });
-      });
+      buzzIn(user1);
 
       expect(result.current.buzzedUser).toEqual(user1);
       
-      // Clear mocks and set up answer submission
-      mockSocket.emit.mockClear();
-      
       act(() => {
         result.current.setAnswer('test answer');
       });
       
-      act(() => {
-        result.current.handleSubmitAnswer();
+      await act(async () => {
+        await result.current.handleSubmitAnswer();
       });
 
       expect(result.current.hasAnswered).toBe(true);
       expect(result.current.answer).toBe('test answer');
 
-      // Mock socket.emit to always throw errors
-      mockSocket.emit.mockImplementation(() => {
-        throw new Error('Network error');
-      });
+      vi.mocked(socketClient.judgeAnswer).mockRejectedValueOnce(new Error('Network error'));
 
-      // Should handle errors gracefully and maintain state consistency
-      expect(() => {
-        act(() => {
-          result.current.handleJudgeAnswer(true);
-        });
-      }).not.toThrow();
+      await act(async () => {
+        await result.current.handleJudgeAnswer(true);
+      });
 
-      // State should be properly reset even if socket emits fail
+      // State should be properly reset even if the commands fail
       expect(result.current.buzzedUsers).toEqual([]);
       expect(result.current.hasAnswered).toBe(false);
       expect(result.current.answer).toBe('');
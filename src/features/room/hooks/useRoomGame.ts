@@ -16,42 +16,95 @@
  * - Error handling: Provides user feedback for failed operations
  * - UI state management: Controls modal visibility and form states
  * - Buzz system: Uses single buzzedUsers array, buzzedUser derived from first element
+ * - game:buzzResolved: Server-ordered buzz queue decides the winner so every screen agrees
+ * - Auto-judge: Server judges answers when room.autoJudge is enabled; host can override via quiz:judge
+ * - Choice quizzes: Players pick once via game:choice; the server scores every pick at timeout
+ * - quiz:tick: Server countdown; questionDeadline follows the server deadline on the local clock
+ * - quiz:revealAnswer: Non-hosts receive quizzes without answers; the answer arrives only with the reveal
+ * - game:state: Server session snapshot is authoritative and overwrites local game state
+ * - game:score: Scores are owned by the server; the hook only renders the latest totals
+ * - initialState: Session and scores delivered with room:joined are applied on mount
+ * - Spectators: isSpectator hides playing controls; the host can promote spectators into free player slots
+ * - Moderation: the host can hand over the host role, kick members, or ban them from rejoining
  * 
  * DEPENDENCIES:
  * - @/lib/socketClient: Real-time communication with server
  * - @/lib/userStorage: User session persistence
- * - @/types: Type definitions for Room, User, Quiz, Score
+ * - @/types: Type definitions for Room, User, Quiz, Score, GameSession
  */
-import { useState, useEffect, useRef, useCallback } from 'react';
-import type { Room, User, Quiz, Score } from '@/types';
-import { leaveRoom, addQuiz, getSocket, startQuiz } from '@/lib/socketClient';
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import type { Room, User, Quiz, Score, GamePhase, GameSession, BuzzEntry } from '@/types';
+import {
+  leaveRoom,
+  addQuiz,
+  getSocket,
+  startQuiz,
+  nextQuiz,
+  endQuiz,
+  revealAnswer,
+  buzzIn,
+  submitBuzzAnswer,
+  submitChoice,
+  judgeAnswer,
+  updateRoom,
+  promoteSpectator,
+  transferHost,
+  kickUser,
+  banUser,
+} from '@/lib/socketClient';
 import { getUserName, getUserId } from '@/lib/userStorage';
+import { describeCommandError } from '@/lib/errorMessages';
+import { createLogger } from '@/lib/logger';
 
-export function useRoomGame(room: Room, currentUser: User, onLeave?: () => void) {
+/**
+ * Log of game command failures
+ */
+const log = createLogger('useRoomGame');
+
+export interface UseRoomGameInitialState {
+  session?: GameSession;
+  scores?: Score[];
+}
+
+export function useRoomGame(
+  room: Room,
+  currentUser: User,
+  onLeave?: () => void,
+  initialState: UseRoomGameInitialState = {}
+) {
   // State
   const [showQuizModal, setShowQuizModal] = useState(false);
   const [showQuizCreator, setShowQuizCreator] = useState(false);
   const [roomQuizzes, setRoomQuizzes] = useState(room.quizzes);
   const [error, setError] = useState<string | null>(null);
-  const [gameState, setGameState] = useState<'lobby' | 'quiz-active' | 'quiz-answered' | 'quiz-finished'>('lobby');
+  const [gameState, setGameState] = useState<GamePhase>('lobby');
   const [currentQuizIndex, setCurrentQuizIndex] = useState<number>(0);
   const [currentQuiz, setCurrentQuiz] = useState<Quiz | null>(null);
+  // 非ホストには正解が伏せられて届くため、quiz:revealAnswerで受け取った正解を保持する
+  const [revealedAnswer, setRevealedAnswer] = useState<{ quizId: string; answer: string } | null>(null);
   const [quizGameState, setQuizGameState] = useState<'waiting' | 'active' | 'answered' | 'finished'>('waiting');
-  const [scores, setScores] = useState<Score[]>([]);
+  const [scores, setScores] = useState<Score[]>(initialState.scores ?? []);
   const [buzzedUsers, setBuzzedUsers] = useState<User[]>([]);
+  const [buzzQueue, setBuzzQueue] = useState<BuzzEntry[]>([]);
   
   // buzzedUserを配列から派生させる
   const buzzedUser = buzzedUsers[0] || null;
   const [answer, setAnswer] = useState('');
   const [hasAnswered, setHasAnswered] = useState(false);
   const [showAnswer, setShowAnswer] = useState(false);
-  const [recentJudgments, setRecentJudgments] = useState<{ userId: string; answer: string; isCorrect: boolean; timestamp: number }[]>([]);
+  const [recentJudgments, setRecentJudgments] = useState<{ userId: string; answer: string; isCorrect: boolean; timestamp: number; isAuto?: boolean }[]>([]);
+  const [selectedChoice, setSelectedChoice] = useState<number | null>(null);
+  const [choiceDistribution, setChoiceDistribution] = useState<number[] | null>(null);
+  // 締め切り時刻（ローカル時計基準）。quiz:tickでサーバーとの時計ずれを補正する
+  const [questionDeadline, setQuestionDeadline] = useState<number | null>(null);
+  const clockOffsetRef = useRef(0);
 
   // useRefを使用してstale closure問題を解決
   const answerRef = useRef(answer);
   answerRef.current = answer;
 
   const isHost = currentUser.isHost;
+  const isSpectator = Boolean(currentUser.isSpectator);
   const currentUserName = getUserName() || currentUser.name;
   const currentUserId = getUserId();
 
@@ -67,6 +120,50 @@ export function useRoomGame(room: Room, currentUser: User, onLeave?: () => void)
     setShowAnswer(false);
   }, []);
 
+  // サーバーが受信順に並べたバズキューを反映する
+  const applyBuzzQueue = useCallback((queue: BuzzEntry[]) => {
+    setBuzzQueue(queue);
+    setBuzzedUsers(queue
+      .map(entry => room.users.find(u => u.id === entry.userId))
+      .filter((u): u is User => Boolean(u)));
+  }, [room.users]);
+
+  // サーバーのセッションスナップショットで状態を上書きする
+  const applyGameSession = useCallback((session: GameSession) => {
+    setGameState(session.phase);
+    setCurrentQuiz(roomQuizzes.find(q => q.id === session.currentQuizId) ?? null);
+    if (session.currentQuizIndex !== -1) setCurrentQuizIndex(session.currentQuizIndex);
+    setQuizGameState(
+      session.phase === 'lobby' ? 'waiting'
+        : session.phase === 'quiz-active' ? (session.pendingAnswer ? 'answered' : 'active')
+        : 'finished'
+    );
+    applyBuzzQueue(session.buzzQueue);
+    if (session.pendingAnswer) {
+      setAnswer(session.pendingAnswer.answer);
+      setHasAnswered(true);
+    } else if (session.phase !== 'quiz-active') {
+      setAnswer('');
+      setHasAnswered(false);
+    }
+    setShowAnswer(session.answerRevealed);
+    setRecentJudgments(session.judgments.map(({ userId, answer, isCorrect, timestamp, isAuto }) => ({ userId, answer, isCorrect, timestamp, isAuto })));
+    setSelectedChoice(session.choiceSubmissions.find(submission => submission.userId === currentUser.id)?.choiceIndex ?? null);
+    setChoiceDistribution(session.choiceDistribution);
+    setQuestionDeadline(session.phase === 'quiz-active' && session.deadline !== null
+      ? session.deadline + clockOffsetRef.current
+      : null);
+  }, [roomQuizzes, applyBuzzQueue, currentUser.id]);
+
+  // room:joinedで受け取ったセッションを初回のみ反映する
+  const initialSessionRef = useRef(initialState.session);
+  useEffect(() => {
+    if (initialSessionRef.current) {
+      applyGameSession(initialSessionRef.current);
+      initialSessionRef.current = undefined;
+    }
+  }, [applyGameSession]);
+
   // ソケットイベントハンドラー群
   const createSocketEventHandlers = useCallback(() => {
     const handleQuizAdded = (data: { quiz: Quiz }) => {
@@ -88,14 +185,18 @@ export function useRoomGame(room: Room, currentUser: User, onLeave?: () => void)
       setGameState('quiz-active');
       setQuizGameState('active');
       setBuzzedUsers([]);
+      setBuzzQueue([]);
       handleResetAnswerForm();
       setRecentJudgments([]);
+      setSelectedChoice(null);
+      setChoiceDistribution(null);
     };
 
     const handleQuizEnded = () => {
       setGameState('quiz-finished');
       setQuizGameState('finished');
       setBuzzedUsers([]);
+      setBuzzQueue([]);
       handleResetAnswerForm();
     };
 
@@ -109,6 +210,10 @@ export function useRoomGame(room: Room, currentUser: User, onLeave?: () => void)
       });
     };
 
+    const handleBuzzResolved = (data: { winnerId: string; queue: BuzzEntry[] }) => {
+      applyBuzzQueue(data.queue);
+    };
+
     const handleAnswerSubmitted = (data: { user: User, answer: string }) => {
       setQuizGameState('answered');
       setHasAnswered(true);
@@ -135,23 +240,26 @@ export function useRoomGame(room: Room, currentUser: User, onLeave?: () => void)
           timestamp: Date.now()
         }];
       });
-      setScores(prev => {
-        const existingScoreIndex = prev.findIndex(score => score.userId === data.userId);
-        if (existingScoreIndex !== -1) {
-          const newScores = [...prev];
-          newScores[existingScoreIndex] = { ...newScores[existingScoreIndex], score: newScores[existingScoreIndex].score + data.score };
-          return newScores;
-        } else {
-          return [...prev, { userId: data.userId, score: data.score }];
-        }
-      });
       setBuzzedUsers([]);
+      setBuzzQueue([]);
       setHasAnswered(false);
       setAnswer('');
       setQuizGameState('finished');
     };
 
-    const handleRevealAnswer = () => setShowAnswer(true);
+    const handleRevealAnswer = (data: { quizId: string; answer: string }) => {
+      setRevealedAnswer(data);
+      setShowAnswer(true);
+    };
+
+    const handleQuizTick = (data: { remainingMs: number; deadline: number }) => {
+      clockOffsetRef.current = Date.now() + data.remainingMs - data.deadline;
+      setQuestionDeadline(data.remainingMs > 0 ? data.deadline + clockOffsetRef.current : null);
+    };
+
+    const handleGameState = (data: { session: GameSession }) => {
+      applyGameSession(data.session);
+    };
 
     return {
       handleQuizAdded,
@@ -159,12 +267,15 @@ export function useRoomGame(room: Room, currentUser: User, onLeave?: () => void)
       handleQuizStarted,
       handleQuizEnded,
       handleBuzzIn,
+      handleBuzzResolved,
       handleAnswerSubmitted,
       handleScoreUpdate,
       handleQuizJudged,
       handleRevealAnswer,
+      handleQuizTick,
+      handleGameState,
     };
-  }, [room.users, roomQuizzes, handleResetAnswerForm]);
+  }, [room.users, roomQuizzes, handleResetAnswerForm, applyGameSession, applyBuzzQueue]);
 
   // ソケットイベント登録
   useEffect(() => {
@@ -179,10 +290,13 @@ export function useRoomGame(room: Room, currentUser: User, onLeave?: () => void)
     socket.on('quiz:started', handlers.handleQuizStarted);
     socket.on('quiz:ended', handlers.handleQuizEnded);
     socket.on('game:buzz', handlers.handleBuzzIn);
+    socket.on('game:buzzResolved', handlers.handleBuzzResolved);
     socket.on('game:answer', handlers.handleAnswerSubmitted);
     socket.on('game:score', handlers.handleScoreUpdate);
     socket.on('quiz:judged', handlers.handleQuizJudged);
     socket.on('quiz:revealAnswer', handlers.handleRevealAnswer);
+    socket.on('quiz:tick', handlers.handleQuizTick);
+    socket.on('game:state', handlers.handleGameState);
 
     // クリーンアップ
     return () => {
@@ -191,16 +305,23 @@ export function useRoomGame(room: Room, currentUser: User, onLeave?: () => void)
       socket.off('quiz:started', handlers.handleQuizStarted);
       socket.off('quiz:ended', handlers.handleQuizEnded);
       socket.off('game:buzz', handlers.handleBuzzIn);
+      socket.off('game:buzzResolved', handlers.handleBuzzResolved);
       socket.off('game:answer', handlers.handleAnswerSubmitted);
       socket.off('game:score', handlers.handleScoreUpdate);
       socket.off('quiz:judged', handlers.handleQuizJudged);
       socket.off('quiz:revealAnswer', handlers.handleRevealAnswer);
+      socket.off('quiz:tick', handlers.handleQuizTick);
+      socket.off('game:state', handlers.handleGameState);
     };
   }, [createSocketEventHandlers]);
 
   // ハンドラ群
+  const showError = (message: string) => {
+    setError(message);
+    setTimeout(() => setError(null), 5000);
+  };
   const handleLeaveRoom = () => {
-    leaveRoom();
+    leaveRoom().catch(error => log.error('Failed to leave room', { error }));
     onLeave?.();
   };
   const handleStartQuiz = async () => {
@@ -209,9 +330,8 @@ export function useRoomGame(room: Room, currentUser: User, onLeave?: () => void)
       await startQuiz(roomQuizzes[0].id);
       setError(null);
       setShowQuizModal(false);
-    } catch {
-      setError('Failed to start quiz. Please try again.');
-      setTimeout(() => setError(null), 5000);
+    } catch (error) {
+      showError(describeCommandError(error));
     }
   };
   const handleEndQuiz = () => {
@@ -220,23 +340,15 @@ export function useRoomGame(room: Room, currentUser: User, onLeave?: () => void)
     setCurrentQuiz(null);
     setCurrentQuizIndex(0);
     setBuzzedUsers([]);
-    const socket = getSocket();
-    if (socket) {
-      socket.emit('quiz:ended');
-    }
+    setBuzzQueue([]);
+    endQuiz().catch(error => log.error('Failed to end quiz', { error }));
   };
-  const handleNextQuiz = () => {
-    const nextIndex = currentQuizIndex + 1;
-    if (nextIndex < roomQuizzes.length) {
-      const socket = getSocket();
-      if (socket) {
-        socket.emit('quiz:start', { quizId: roomQuizzes[nextIndex].id });
-      }
-    } else {
-      setGameState('quiz-finished');
-      setQuizGameState('finished');
-      setCurrentQuiz(null);
-      setBuzzedUsers([]);
+  // 次の問題への進行はサーバーが判断し、game:stateで反映される
+  const handleNextQuiz = async () => {
+    try {
+      await nextQuiz();
+    } catch (error) {
+      showError(describeCommandError(error));
     }
   };
   const handleOpenQuizCreator = () => {
@@ -247,15 +359,13 @@ export function useRoomGame(room: Room, currentUser: User, onLeave?: () => void)
     try {
       await addQuiz(quiz);
       setShowQuizCreator(false);
-    } catch {
-      setError('Failed to add quiz. Please try again.');
-      setTimeout(() => setError(null), 5000);
+    } catch (error) {
+      showError(describeCommandError(error));
     }
   };
   const handleBuzzInUser = () => {
-    const socket = getSocket();
-    if (socket && !buzzedUser) {
-      socket.emit('game:buzz', { user: currentUser });
+    if (!buzzedUser) {
+      buzzIn().catch(error => log.error('Failed to buzz in', { error }));
     }
   };
   /**
@@ -264,32 +374,45 @@ export function useRoomGame(room: Room, currentUser: User, onLeave?: () => void)
    * VALIDATION RULES:
    * - Returns early if user has already answered (hasAnswered === true)
    * - Requires non-empty answer after trimming whitespace
-   * - Requires active socket connection
    * 
    * SIDE EFFECTS:
-   * - Emits 'game:answer' socket event with user and trimmed answer
+   * - Sends the trimmed answer via submitBuzzAnswer ('game:answer')
    * - Sets hasAnswered to true to prevent duplicate submissions
-   * - Handles socket errors gracefully with logging
+   * - Resets hasAnswered and shows an error if the server rejects the answer
    */
-  const handleSubmitAnswer = () => {
+  const handleSubmitAnswer = async () => {
     // Prevent duplicate submissions
     if (hasAnswered) {
       return;
     }
     
-    if (answer.trim()) {
-      const socket = getSocket();
-      if (socket) {
-        const submittedAnswer = answer.trim();
-        try {
-          socket.emit('game:answer', { user: currentUser, answer: submittedAnswer });
-          setHasAnswered(true);
-        } catch (error) {
-          console.error('Failed to emit game:answer:', error);
-        }
+    const submittedAnswer = answer.trim();
+    if (submittedAnswer) {
+      setHasAnswered(true);
+      try {
+        await submitBuzzAnswer(submittedAnswer);
+      } catch (error) {
+        log.error('Failed to submit answer', { error });
+        setHasAnswered(false);
+        showError(describeCommandError(error));
       }
     }
   };
+  // 選択式クイズ: 回答は1回のみ、採点はサーバーのタイムアウト時に行われる
+  const handleSubmitChoice = async (choiceIndex: number) => {
+    if (selectedChoice !== null) {
+      return;
+    }
+
+    setSelectedChoice(choiceIndex);
+    try {
+      await submitChoice(choiceIndex);
+    } catch (error) {
+      log.error('Failed to submit choice', { error });
+      setSelectedChoice(null);
+      showError(describeCommandError(error));
+    }
+  };
   const handleShowAnswer = () => {
     setShowAnswer(true);
   };
@@ -297,44 +420,102 @@ export function useRoomGame(room: Room, currentUser: User, onLeave?: () => void)
    * Handles quiz answer judgment with error handling
    * 
    * RESPONSIBILITIES:
-   * - Emits quiz:judge event with user judgment
-   * - Emits quiz:revealAnswer event only if judge succeeds
-   * - Performs state cleanup regardless of emit results
+   * - Sends the judgment via judgeAnswer ('quiz:judge')
+   * - Reveals the answer ('quiz:revealAnswer') only after the judgment is acknowledged
+   * - Performs state cleanup immediately, regardless of the command results
    * - Logs errors for debugging without throwing
-   * 
-   * ERROR HANDLING:
-   * - Uses nested try-catch blocks for independent error handling
-   * - Continues with second emit only if first succeeds
-   * - Always performs state cleanup to prevent UI inconsistencies
    */
-  const handleJudgeAnswer = (isCorrect: boolean) => {
-    if (buzzedUser) {
-      const socket = getSocket();
-      if (socket) {
-        let judgeSuccess = false;
-        try {
-          socket.emit('quiz:judge', { userId: buzzedUser.id, isCorrect });
-          judgeSuccess = true;
-        } catch (judgeError) {
-          console.error('Failed to emit quiz:judge:', judgeError);
-        }
-        
-        // Only execute second emit if first one succeeds
-        if (judgeSuccess) {
-          try {
-            socket.emit('quiz:revealAnswer');
-          } catch (revealError) {
-            console.error('Failed to emit quiz:revealAnswer:', revealError);
-          }
-        }
-      }
-      // Always perform state cleanup to prevent UI inconsistencies
-      setBuzzedUsers([]);
-      setHasAnswered(false);
-      setAnswer('');
+  const handleJudgeAnswer = async (isCorrect: boolean) => {
+    if (!buzzedUser) {
+      return;
+    }
+
+    // Always perform state cleanup to prevent UI inconsistencies
+    setBuzzedUsers([]);
+    setBuzzQueue([]);
+    setHasAnswered(false);
+    setAnswer('');
+
+    try {
+      await judgeAnswer(buzzedUser.id, isCorrect);
+    } catch (judgeError) {
+      log.error('Failed to judge answer', { error: judgeError });
+      return;
+    }
+
+    try {
+      await revealAnswer();
+    } catch (revealError) {
+      log.error('Failed to reveal answer', { error: revealError });
+    }
+  };
+
+  // サーバーの自動判定結果をホストが上書きする
+  const handleOverrideJudgment = async (userId: string, isCorrect: boolean) => {
+    try {
+      await judgeAnswer(userId, isCorrect);
+    } catch (error) {
+      showError(describeCommandError(error));
+    }
+  };
+
+  // 自動判定のオン/オフを切り替える（許容誤差は既存設定を引き継ぐ）
+  const handleToggleAutoJudge = async () => {
+    try {
+      await updateRoom({
+        autoJudge: {
+          enabled: !room.autoJudge?.enabled,
+          tolerance: room.autoJudge?.tolerance ?? 1,
+        },
+      });
+    } catch (error) {
+      showError(describeCommandError(error));
+    }
+  };
+
+  // 観戦者を空いているプレイヤー枠に移す（ホストのみ）
+  const handlePromoteSpectator = async (userId: string) => {
+    try {
+      await promoteSpectator(userId);
+    } catch (error) {
+      showError(describeCommandError(error));
+    }
+  };
+
+  // ホスト権限を他のメンバーに渡す
+  const handleTransferHost = async (userId: string) => {
+    try {
+      await transferHost(userId);
+    } catch (error) {
+      showError(describeCommandError(error));
+    }
+  };
+
+  // メンバーをルームから退出させる（再参加は可能）
+  const handleKickUser = async (userId: string) => {
+    try {
+      await kickUser(userId);
+    } catch (error) {
+      showError(describeCommandError(error));
     }
   };
 
+  // メンバーを退出させ、再参加も禁止する
+  const handleBanUser = async (userId: string) => {
+    try {
+      await banUser(userId);
+    } catch (error) {
+      showError(describeCommandError(error));
+    }
+  };
+
+  // 公開済みの正解を現在のクイズに合成する
+  const currentQuizWithAnswer = useMemo(() => (
+    currentQuiz && revealedAnswer?.quizId === currentQuiz.id
+      ? { ...currentQuiz, answer: revealedAnswer.answer }
+      : currentQuiz
+  ), [currentQuiz, revealedAnswer]);
+
   return {
     // state
     showQuizModal, setShowQuizModal,
@@ -343,16 +524,20 @@ export function useRoomGame(room: Room, currentUser: User, onLeave?: () => void)
     error, setError,
     gameState,
     currentQuizIndex,
-    currentQuiz,
+    currentQuiz: currentQuizWithAnswer,
     quizGameState,
     scores,
     buzzedUser,
     buzzedUsers,
+    buzzQueue,
     answer, setAnswer,
     hasAnswered,
     showAnswer,
     recentJudgments,
-    isHost, currentUserName, currentUserId,
+    selectedChoice,
+    choiceDistribution,
+    questionDeadline,
+    isHost, isSpectator, currentUserName, currentUserId,
     // handlers
     handleLeaveRoom,
     handleStartQuiz,
@@ -362,7 +547,14 @@ export function useRoomGame(room: Room, currentUser: User, onLeave?: () => void)
     handleQuizCreated,
     handleBuzzInUser,
     handleSubmitAnswer,
+    handleSubmitChoice,
     handleShowAnswer,
     handleJudgeAnswer,
+    handleOverrideJudgment,
+    handleToggleAutoJudge,
+    handlePromoteSpectator,
+    handleTransferHost,
+    handleKickUser,
+    handleBanUser,
   };
 } 
\ No newline at end of file
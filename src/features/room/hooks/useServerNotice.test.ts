@@ -0,0 +1,63 @@
+/**
+ * Tests for useServerNotice hook
+ */
+import { describe, test, expect, beforeEach, vi } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { useServerNotice } from './useServerNotice';
+import * as socketClientModule from '@/lib/socketClient';
+
+describe('useServerNotice', () => {
+  const handlers: Record<string, (data: { message: string }) => void> = {};
+  const mockSocket = {
+    on: vi.fn((event: string, handler: (data: { message: string }) => void) => {
+      handlers[event] = handler;
+    }),
+    off: vi.fn(),
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(socketClientModule, 'getSocket').mockReturnValue(
+      mockSocket as unknown as ReturnType<typeof socketClientModule.getSocket>
+    );
+  });
+
+  test('接続前は購読しない', () => {
+    const { result } = renderHook(() => useServerNotice(false));
+
+    expect(result.current.notice).toBeNull();
+    expect(mockSocket.on).not.toHaveBeenCalled();
+  });
+
+  test('最新のお知らせを表示し、閉じられる', () => {
+    const { result } = renderHook(() => useServerNotice(true));
+
+    act(() => {
+      handlers['server:notice']({ message: 'Maintenance in 10 minutes' });
+    });
+    expect(result.current.notice).toBe('Maintenance in 10 minutes');
+
+    act(() => {
+      result.current.dismiss();
+    });
+    expect(result.current.notice).toBeNull();
+  });
+
+  test('サーバー再起動の通知も表示する', () => {
+    const { result } = renderHook(() => useServerNotice(true));
+
+    act(() => {
+      handlers['server:shuttingDown']({ message: 'The server is restarting' });
+    });
+    expect(result.current.notice).toBe('The server is restarting');
+  });
+
+  test('アンマウント時に購読を解除する', () => {
+    const { unmount } = renderHook(() => useServerNotice(true));
+
+    unmount();
+
+    expect(mockSocket.off).toHaveBeenCalledWith('server:notice', handlers['server:notice']);
+    expect(mockSocket.off).toHaveBeenCalledWith('server:shuttingDown', handlers['server:shuttingDown']);
+  });
+});
@@ -0,0 +1,43 @@
+/**
+ * Server notice hook
+ * Keeps the latest operator notice (e.g. planned maintenance) or restart warning until dismissed
+ */
+import { useState, useEffect, useCallback } from 'react';
+import { getSocket } from '@/lib/socketClient';
+
+interface UseServerNoticeReturn {
+  notice: string | null;
+  dismiss: () => void;
+}
+
+/**
+ * Custom hook for showing operator notices
+ * @param isConnected - Whether the socket is connected (listening starts once it is)
+ * @returns The latest notice and a way to dismiss it
+ */
+export function useServerNotice(isConnected: boolean): UseServerNoticeReturn {
+  const [notice, setNotice] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isConnected) return;
+    const socket = getSocket();
+    if (!socket) return;
+
+    const handleNotice = (data: { message: string }) => {
+      setNotice(data.message);
+    };
+
+    socket.on('server:notice', handleNotice);
+    socket.on('server:shuttingDown', handleNotice);
+    return () => {
+      socket.off('server:notice', handleNotice);
+      socket.off('server:shuttingDown', handleNotice);
+    };
+  }, [isConnected]);
+
+  const dismiss = useCallback(() => {
+    setNotice(null);
+  }, []);
+
+  return { notice, dismiss };
+}
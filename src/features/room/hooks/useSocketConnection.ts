@@ -4,6 +4,12 @@
  */
 import { useEffect, useState, useRef } from 'react';
 import { initializeSocketClient, type ConnectionState } from '../../../lib/socketClient';
+import { createLogger } from '../../../lib/logger';
+
+/**
+ * Log of connection failures
+ */
+const log = createLogger('useSocketConnection');
 
 interface UseSocketConnectionOptions {
   reconnection?: boolean;
@@ -51,7 +57,7 @@ export function useSocketConnection(
           },
         });
       } catch (error) {
-        console.error('Failed to initialize socket connection:', error);
+        log.error('Failed to initialize socket connection', { error });
         if (isMountedRef.current) {
           setConnectionState('error');
         }
@@ -0,0 +1,67 @@
+import { describe, test, expect } from 'vitest';
+import { normalizeAnswer, levenshteinDistance, isAnswerCorrect } from './answerMatcher';
+import type { Quiz } from '../types';
+
+describe('Answer Matcher', () => {
+  const quiz: Quiz = {
+    id: 'quiz-1',
+    type: 'text',
+    question: 'What is the capital of Japan?',
+    answer: 'Tokyo',
+    acceptedAnswers: ['とうきょう', '東京'],
+  };
+
+  describe('normalizeAnswer', () => {
+    test('should ignore case and whitespace', () => {
+      expect(normalizeAnswer('  New   York ')).toBe('newyork');
+    });
+
+    test('should fold full-width characters to half-width', () => {
+      expect(normalizeAnswer('ＴＯＫＹＯ　１２３')).toBe('tokyo123');
+    });
+
+    test('should fold katakana to hiragana', () => {
+      expect(normalizeAnswer('トウキョウ')).toBe('とうきょう');
+    });
+
+    test('should fold half-width katakana to hiragana', () => {
+      expect(normalizeAnswer('ﾄｳｷｮｳ')).toBe('とうきょう');
+    });
+  });
+
+  describe('levenshteinDistance', () => {
+    test('should count single-character edits', () => {
+      expect(levenshteinDistance('kitten', 'sitting')).toBe(3);
+      expect(levenshteinDistance('tokyo', 'tokyo')).toBe(0);
+      expect(levenshteinDistance('', 'abc')).toBe(3);
+    });
+  });
+
+  describe('isAnswerCorrect', () => {
+    test('should accept the main answer after normalization', () => {
+      expect(isAnswerCorrect(quiz, ' tokyo ')).toBe(true);
+    });
+
+    test('should accept alternate answers', () => {
+      expect(isAnswerCorrect(quiz, '東京')).toBe(true);
+      expect(isAnswerCorrect(quiz, 'トウキョウ')).toBe(true);
+    });
+
+    test('should reject wrong and empty answers', () => {
+      expect(isAnswerCorrect(quiz, 'Kyoto')).toBe(false);
+      expect(isAnswerCorrect(quiz, '   ')).toBe(false);
+    });
+
+    test('should accept small typos within the tolerance', () => {
+      expect(isAnswerCorrect(quiz, 'Tokio')).toBe(false);
+      expect(isAnswerCorrect(quiz, 'Tokio', 1)).toBe(true);
+      expect(isAnswerCorrect(quiz, 'Tokai', 1)).toBe(false);
+    });
+
+    test('should require an exact match for short answers', () => {
+      const shortQuiz: Quiz = { id: 'quiz-2', type: 'text', question: '1 + 1?', answer: '2' };
+      expect(isAnswerCorrect(shortQuiz, '3', 1)).toBe(false);
+      expect(isAnswerCorrect(shortQuiz, '２', 1)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * Answer matching for Quiz World application
+ * - Normalizes answers (case, whitespace, full-width/half-width, hiragana/katakana)
+ * - Accepts the main answer or any alternate answer on the quiz
+ * - Optional Levenshtein tolerance for small typos
+ */
+
+import type { Quiz } from '../types';
+
+const KATAKANA_START = 0x30a1;
+const KATAKANA_END = 0x30f6;
+const KATAKANA_TO_HIRAGANA_OFFSET = 0x60;
+
+/**
+ * Normalizes an answer for comparison
+ * - NFKC folds full-width alphanumerics and half-width katakana
+ * - Katakana is folded to hiragana
+ * - Case and all whitespace are ignored
+ * @param answer - Raw answer text
+ * @returns Normalized answer
+ */
+export function normalizeAnswer(answer: string): string {
+  return Array.from(answer.normalize('NFKC').toLowerCase().replace(/\s+/g, ''))
+    .map(char => {
+      const code = char.charCodeAt(0);
+      return code >= KATAKANA_START && code <= KATAKANA_END
+        ? String.fromCharCode(code - KATAKANA_TO_HIRAGANA_OFFSET)
+        : char;
+    })
+    .join('');
+}
+
+/**
+ * Computes the Levenshtein edit distance between two strings
+ * @param a - First string
+ * @param b - Second string
+ * @returns Number of single-character edits needed to turn a into b
+ */
+export function levenshteinDistance(a: string, b: string): number {
+  const source = Array.from(a);
+  const target = Array.from(b);
+  let previous = Array.from({ length: target.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= source.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= target.length; j++) {
+      const cost = source[i - 1] === target[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+
+  return previous[target.length];
+}
+
+/**
+ * Checks a submitted answer against a quiz's accepted answers
+ * Tolerance only applies to answers longer than twice the tolerance,
+ * so short answers still need an exact (normalized) match.
+ * @param quiz - Quiz being answered
+ * @param answer - Submitted answer
+ * @param tolerance - Maximum edit distance to accept (default: 0)
+ * @returns True if the answer matches the main or an alternate answer
+ */
+export function isAnswerCorrect(quiz: Quiz, answer: string, tolerance: number = 0): boolean {
+  const submitted = normalizeAnswer(answer);
+  if (!submitted) {
+    return false;
+  }
+
+  return [quiz.answer, ...(quiz.acceptedAnswers ?? [])]
+    .map(normalizeAnswer)
+    .filter(expected => expected.length > 0)
+    .some(expected => {
+      if (expected === submitted) {
+        return true;
+      }
+      const allowed = Array.from(expected).length > tolerance * 2 ? tolerance : 0;
+      return allowed > 0 && levenshteinDistance(expected, submitted) <= allowed;
+    });
+}
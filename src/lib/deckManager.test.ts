@@ -0,0 +1,143 @@
+import { describe, test, expect, beforeEach } from 'vitest';
+import {
+  createDeck,
+  updateDeck,
+  deleteDeck,
+  getDeck,
+  listDecks,
+  copyDeckQuizzes,
+  resetDeckState,
+  setDeckStore,
+  DEMO_DECK_ID,
+} from './deckManager';
+import { createMemoryDeckStore } from './deckStore';
+import { mockQuizzes } from '../data/mockQuizzes';
+import type { Quiz } from '../types';
+
+describe('Deck Manager', () => {
+  const quizzes: Quiz[] = [
+    { id: 'quiz-1', type: 'text', question: 'Q1', answer: 'A1' },
+    { id: 'quiz-2', type: 'text', question: 'Q2', answer: 'A2' },
+  ];
+
+  beforeEach(() => {
+    resetDeckState();
+  });
+
+  describe('built-in decks', () => {
+    test('should include the demo deck built from the sample quizzes', () => {
+      const demoDeck = getDeck(DEMO_DECK_ID);
+
+      expect(demoDeck).not.toBeNull();
+      expect(demoDeck?.ownerId).toBeUndefined();
+      expect(demoDeck?.quizzes).toEqual(mockQuizzes);
+    });
+
+    test('should not be editable or deletable', () => {
+      expect(updateDeck(DEMO_DECK_ID, 'user-1', { title: 'Mine' })).toBeNull();
+      expect(deleteDeck(DEMO_DECK_ID, 'user-1')).toBe(false);
+      expect(getDeck(DEMO_DECK_ID)?.title).not.toBe('Mine');
+    });
+  });
+
+  describe('createDeck', () => {
+    test('should create a deck owned by the user', () => {
+      const deck = createDeck('user-1', { title: 'My Deck', tags: ['trivia'], quizzes });
+
+      expect(deck.ownerId).toBe('user-1');
+      expect(deck.title).toBe('My Deck');
+      expect(deck.description).toBe('');
+      expect(deck.tags).toEqual(['trivia']);
+      expect(deck.quizzes).toEqual(quizzes);
+      expect(getDeck(deck.id)).toBe(deck);
+    });
+  });
+
+  describe('updateDeck', () => {
+    test('should update the deck for its owner', () => {
+      const deck = createDeck('user-1', { title: 'My Deck', quizzes });
+
+      const updated = updateDeck(deck.id, 'user-1', { title: 'Renamed', quizzes: [quizzes[1]] });
+
+      expect(updated?.title).toBe('Renamed');
+      expect(updated?.quizzes).toEqual([quizzes[1]]);
+    });
+
+    test('should reject updates from other users', () => {
+      const deck = createDeck('user-1', { title: 'My Deck', quizzes });
+
+      expect(updateDeck(deck.id, 'user-2', { title: 'Stolen' })).toBeNull();
+      expect(getDeck(deck.id)?.title).toBe('My Deck');
+    });
+
+    test('should return null for a non-existent deck', () => {
+      expect(updateDeck('non-existent', 'user-1', { title: 'X' })).toBeNull();
+    });
+  });
+
+  describe('deleteDeck', () => {
+    test('should delete the deck for its owner only', () => {
+      const deck = createDeck('user-1', { title: 'My Deck', quizzes });
+
+      expect(deleteDeck(deck.id, 'user-2')).toBe(false);
+      expect(deleteDeck(deck.id, 'user-1')).toBe(true);
+      expect(getDeck(deck.id)).toBeNull();
+    });
+  });
+
+  describe('listDecks', () => {
+    test('should list built-in decks and the user\'s own decks only', () => {
+      const own = createDeck('user-1', { title: 'Mine', quizzes });
+      createDeck('user-2', { title: 'Theirs', quizzes });
+
+      const ids = listDecks('user-1').map(deck => deck.id);
+
+      expect(ids).toEqual([DEMO_DECK_ID, own.id]);
+    });
+
+    test('should list only built-in decks without a user', () => {
+      createDeck('user-1', { title: 'Mine', quizzes });
+
+      expect(listDecks().map(deck => deck.id)).toEqual([DEMO_DECK_ID]);
+    });
+  });
+
+  describe('copyDeckQuizzes', () => {
+    test('should copy quizzes in order with fresh IDs', () => {
+      const deck = createDeck('user-1', { title: 'My Deck', quizzes });
+
+      const copies = copyDeckQuizzes(deck);
+
+      expect(copies.map(quiz => quiz.question)).toEqual(['Q1', 'Q2']);
+      expect(copies.map(quiz => quiz.id)).not.toContain('quiz-1');
+      expect(new Set(copies.map(quiz => quiz.id)).size).toBe(2);
+    });
+  });
+
+  describe('Deck persistence', () => {
+    test('should write user deck changes through to the store', () => {
+      const store = createMemoryDeckStore();
+      setDeckStore(store);
+
+      const deck = createDeck('user-1', { title: 'My Deck', quizzes });
+      updateDeck(deck.id, 'user-1', { title: 'Renamed Deck' });
+      const removed = createDeck('user-1', { title: 'Removed', quizzes });
+      deleteDeck(removed.id, 'user-1');
+
+      expect(store.load().map(stored => stored.title)).toEqual(['Renamed Deck']);
+    });
+
+    test('should restore user decks alongside the built-in ones', () => {
+      const store = createMemoryDeckStore();
+      setDeckStore(store);
+      const deck = createDeck('user-1', { title: 'My Deck', quizzes });
+
+      // Simulate a restart
+      resetDeckState();
+      expect(setDeckStore(store)).toBe(1);
+
+      expect(getDeck(deck.id)?.title).toBe('My Deck');
+      expect(listDecks('user-1').map(listed => listed.id)).toEqual([DEMO_DECK_ID, deck.id]);
+    });
+  });
+});
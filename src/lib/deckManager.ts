@@ -0,0 +1,194 @@
+/**
+ * Quiz deck management for Quiz World application
+ * - Deck creation, update, deletion and listing
+ * - Built-in decks shipped with the app (read-only)
+ * - Copying a deck's quizzes for use in a room
+ * - Write-through persistence of user decks via a pluggable DeckStore
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import type { Quiz, QuizDeck } from '../types';
+import { mockQuizzes } from '../data/mockQuizzes';
+import { createMemoryDeckStore, type DeckStore } from './deckStore';
+
+/**
+ * ID of the built-in deck used for demo rooms
+ */
+export const DEMO_DECK_ID = 'demo';
+
+/**
+ * Creates the decks that ship with the app
+ * @returns Built-in decks, which have no owner
+ */
+function createBuiltInDecks(): QuizDeck[] {
+  return [
+    {
+      id: DEMO_DECK_ID,
+      title: 'デモデッキ',
+      description: '一般常識・プログラミング・地理のサンプルクイズ',
+      tags: ['demo', 'general'],
+      quizzes: mockQuizzes.map(quiz => ({ ...quiz })),
+      createdAt: 0,
+      updatedAt: 0,
+    },
+  ];
+}
+
+/**
+ * Working set of decks, keyed by deck ID; every change to a user deck is also written to deckStore
+ */
+const decks = new Map<string, QuizDeck>(createBuiltInDecks().map(deck => [deck.id, deck]));
+
+/**
+ * Where user decks are persisted
+ */
+let deckStore: DeckStore = createMemoryDeckStore();
+
+/**
+ * Editable deck properties
+ */
+export type DeckInput = {
+  title: string;
+  description?: string;
+  tags?: string[];
+  quizzes: Quiz[];
+};
+
+/**
+ * Creates a new deck owned by a user
+ * @param ownerId - ID of the user creating the deck
+ * @param input - Deck properties
+ * @returns The created deck
+ */
+export function createDeck(ownerId: string, input: DeckInput): QuizDeck {
+  const now = Date.now();
+  const deck: QuizDeck = {
+    id: uuidv4(),
+    title: input.title,
+    description: input.description ?? '',
+    tags: input.tags ?? [],
+    quizzes: input.quizzes.map(quiz => ({ ...quiz })),
+    ownerId,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  decks.set(deck.id, deck);
+  deckStore.save(deck);
+  return deck;
+}
+
+/**
+ * Updates a deck owned by a user
+ * @param deckId - Deck ID
+ * @param ownerId - ID of the user making the change
+ * @param updates - Properties to update
+ * @returns The updated deck if successful, null if the deck doesn't exist or belongs to someone else
+ */
+export function updateDeck(deckId: string, ownerId: string, updates: Partial<DeckInput>): QuizDeck | null {
+  const deck = decks.get(deckId);
+  if (!deck || deck.ownerId !== ownerId) {
+    return null;
+  }
+
+  if (updates.title !== undefined) {
+    deck.title = updates.title;
+  }
+  if (updates.description !== undefined) {
+    deck.description = updates.description;
+  }
+  if (updates.tags !== undefined) {
+    deck.tags = updates.tags;
+  }
+  if (updates.quizzes !== undefined) {
+    deck.quizzes = updates.quizzes.map(quiz => ({ ...quiz }));
+  }
+  deck.updatedAt = Date.now();
+
+  deckStore.save(deck);
+  return deck;
+}
+
+/**
+ * Deletes a deck owned by a user
+ * @param deckId - Deck ID
+ * @param ownerId - ID of the user deleting the deck
+ * @returns True if the deck was deleted, false if it doesn't exist or belongs to someone else
+ */
+export function deleteDeck(deckId: string, ownerId: string): boolean {
+  const deck = decks.get(deckId);
+  if (!deck || deck.ownerId !== ownerId) {
+    return false;
+  }
+  decks.delete(deckId);
+  deckStore.delete(deckId);
+  return true;
+}
+
+/**
+ * Gets a deck by ID
+ * @param deckId - Deck ID
+ * @returns The deck if it exists, null otherwise
+ */
+export function getDeck(deckId: string): QuizDeck | null {
+  return decks.get(deckId) || null;
+}
+
+/**
+ * Lists the decks a user can use: built-in decks first, then their own, newest first
+ * Other users' decks are never listed because they contain answers.
+ * @param ownerId - ID of the user listing decks
+ * @returns Array of decks
+ */
+export function listDecks(ownerId?: string): QuizDeck[] {
+  const all = Array.from(decks.values());
+  const builtIn = all.filter(deck => deck.ownerId === undefined);
+  const owned = all
+    .filter(deck => ownerId !== undefined && deck.ownerId === ownerId)
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+  return [...builtIn, ...owned];
+}
+
+/**
+ * Copies a deck's quizzes with fresh IDs so the copies can be edited in a room independently
+ * @param deck - Deck to copy from
+ * @returns New quizzes in deck order
+ */
+export function copyDeckQuizzes(deck: QuizDeck): Quiz[] {
+  return deck.quizzes.map(quiz => ({ ...quiz, id: uuidv4() }));
+}
+
+/**
+ * Installs a deck store and restores the user decks it holds
+ * @param store - Store to read from and write through to
+ * @returns Number of decks restored
+ */
+export function setDeckStore(store: DeckStore): number {
+  resetDeckState();
+  deckStore = store;
+
+  const stored = store.load();
+  for (const deck of stored) {
+    decks.set(deck.id, deck);
+  }
+  return stored.length;
+}
+
+/**
+ * Waits until every deck change so far has reached the store (e.g. before the process exits)
+ * @returns Resolves once the store has written everything
+ */
+export function flushDeckStore(): Promise<void> {
+  return deckStore.flush();
+}
+
+/**
+ * Resets all decks to the built-in set (for testing purposes)
+ */
+export function resetDeckState(): void {
+  decks.clear();
+  for (const deck of createBuiltInDecks()) {
+    decks.set(deck.id, deck);
+  }
+  deckStore = createMemoryDeckStore();
+}
@@ -0,0 +1,61 @@
+import { describe, test, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createMemoryDeckStore, createFileDeckStore } from './deckStore';
+import { StoreFileError } from './recordStore';
+import type { QuizDeck } from '../types';
+
+describe('Deck Store', () => {
+  const deck: QuizDeck = {
+    id: 'deck-1',
+    title: 'Stored Deck',
+    description: '',
+    tags: [],
+    quizzes: [{ id: 'quiz-1', type: 'text', question: 'Q1', answer: 'A1' }],
+    ownerId: 'user-1',
+    createdAt: 1000,
+    updatedAt: 1000,
+  };
+
+  describe('createMemoryDeckStore', () => {
+    test('should save, load and delete decks', () => {
+      const store = createMemoryDeckStore();
+
+      store.save(deck);
+      expect(store.load()).toEqual([deck]);
+
+      store.delete('deck-1');
+      expect(store.load()).toEqual([]);
+    });
+  });
+
+  describe('createFileDeckStore', () => {
+    let tempDir: string;
+    let filePath: string;
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'quiz-world-'));
+      filePath = path.join(tempDir, 'data', 'decks.json');
+    });
+
+    afterEach(() => {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    test('should keep decks across store instances', async () => {
+      const store = createFileDeckStore(filePath);
+      store.save(deck);
+      await store.flush();
+
+      expect(createFileDeckStore(filePath).load()).toEqual([deck]);
+    });
+
+    test('should reject a file whose records are not decks', () => {
+      fs.mkdirSync(path.dirname(filePath));
+      fs.writeFileSync(filePath, JSON.stringify([{ id: 'deck-1', title: 'No quizzes' }]));
+
+      expect(() => createFileDeckStore(filePath)).toThrow(StoreFileError);
+    });
+  });
+});
@@ -0,0 +1,41 @@
+/**
+ * Deck persistence for Quiz World application
+ * - DeckStore interface that deckManager writes user decks through
+ * - In-memory store (default) and JSON file store for surviving restarts
+ */
+
+import type { QuizDeck } from '../types';
+import { createFileRecordStore, createMemoryRecordStore, type RecordShape, type RecordStore } from './recordStore';
+
+/**
+ * Storage backend for user decks, keyed by deck ID (built-in decks are never stored)
+ */
+export type DeckStore = RecordStore<QuizDeck>;
+
+/**
+ * Decks are keyed by their ID
+ */
+const DECK_SHAPE: RecordShape<QuizDeck> = {
+  getId: deck => deck.id,
+  isRecord: (value): value is QuizDeck =>
+    typeof value === 'object' && value !== null && typeof (value as QuizDeck).id === 'string' && Array.isArray((value as QuizDeck).quizzes),
+};
+
+/**
+ * Creates a store that keeps decks in a Map (lost when the process exits)
+ * @returns An in-memory deck store
+ */
+export function createMemoryDeckStore(): DeckStore {
+  return createMemoryRecordStore(DECK_SHAPE);
+}
+
+/**
+ * Creates a store that keeps decks in a JSON file
+ * @param filePath - Path of the JSON file; created on first write if missing
+ * @param writeDelayMs - How long to wait after a change before writing
+ * @returns A file-backed deck store
+ * @throws StoreFileError if the file exists but is corrupt
+ */
+export function createFileDeckStore(filePath: string, writeDelayMs?: number): DeckStore {
+  return createFileRecordStore(filePath, DECK_SHAPE, writeDelayMs);
+}
@@ -0,0 +1,62 @@
+import { describe, test, expect, vi, afterEach } from 'vitest';
+import { getLocale, getErrorMessage, describeCommandError, describeRemoval, getConnectionErrorMessage } from './errorMessages';
+import { SocketCommandError } from './socketClient';
+import { ErrorCode, RemovalCode } from '../types/socket';
+
+describe('Error Messages', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  test('should have a message for every error code in every locale', () => {
+    for (const code of Object.values(ErrorCode)) {
+      expect(getErrorMessage(code, 'en')).toBeTruthy();
+      expect(getErrorMessage(code, 'ja')).toBeTruthy();
+    }
+  });
+
+  test('should pick Japanese for Japanese browsers only', () => {
+    vi.stubGlobal('navigator', { language: 'ja-JP' });
+    expect(getLocale()).toBe('ja');
+
+    vi.stubGlobal('navigator', { language: 'en-US' });
+    expect(getLocale()).toBe('en');
+  });
+
+  test('should describe rejected commands by their error code', () => {
+    const error = new SocketCommandError('Room is full', 'rejected', 'room:join', {
+      code: ErrorCode.RoomFull,
+      message: 'Room is full',
+      event: 'room:join',
+      requestId: 'request-1',
+    });
+
+    expect(describeCommandError(error, 'en')).toBe('This room is full.');
+    expect(describeCommandError(error, 'ja')).toBe('このルームは満員です。');
+  });
+
+  test('should describe commands that got no answer', () => {
+    expect(describeCommandError(new SocketCommandError('Server did not respond', 'timeout', 'room:list'), 'en'))
+      .toBe('The server did not respond. Please try again.');
+    expect(describeCommandError(new SocketCommandError('Socket not connected', 'disconnected', 'room:list'), 'en'))
+      .toBe('Not connected to server. Please check your connection.');
+  });
+
+  test('should localize the missing connection message', () => {
+    expect(getConnectionErrorMessage('en')).toBe('Not connected to server. Please refresh the page.');
+    expect(getConnectionErrorMessage('ja')).toBe('サーバーに接続されていません。ページを再読み込みしてください。');
+  });
+
+  test('should fall back to a generic message for other errors', () => {
+    expect(describeCommandError(new Error('boom'), 'en')).toBe('Something went wrong on the server. Please try again.');
+    expect(describeCommandError('boom', 'en')).toBe('Something went wrong on the server. Please try again.');
+  });
+
+  test('should localize removals by the host and pass other reasons through', () => {
+    expect(describeRemoval({ reason: 'The host banned you from the room', code: RemovalCode.BannedByHost }, 'ja'))
+      .toBe('ホストによりルームから追放されました。');
+    expect(describeRemoval({ reason: 'The host removed you from the room', code: RemovalCode.KickedByHost }, 'en'))
+      .toBe('The host removed you from the room.');
+    expect(describeRemoval({ reason: 'Cheating' }, 'ja')).toBe('Cheating');
+  });
+});
@@ -0,0 +1,169 @@
+/**
+ * Localized error messages for Quiz World application
+ * - Maps server error codes and client-side command failures to user-facing text
+ * - Explains why the host removed the user from a room
+ * - Tells the user when the page has no server connection to work with
+ * - Picks Japanese or English from the browser language
+ */
+
+import { ErrorCode, RemovalCode } from '../types/socket';
+import type { SocketCommandError, CommandFailureReason } from './socketClient';
+
+/**
+ * Supported display languages
+ */
+export type Locale = 'en' | 'ja';
+
+/**
+ * User-facing text for every server error code
+ */
+const ERROR_CODE_MESSAGES: Record<Locale, Record<ErrorCode, string>> = {
+  en: {
+    [ErrorCode.InvalidPayload]: 'Some of the details you entered are invalid.',
+    [ErrorCode.NotInRoom]: 'You are not in a room.',
+    [ErrorCode.NoSession]: 'Your session has expired. Please reload the page.',
+    [ErrorCode.RoomNotFound]: 'This room no longer exists.',
+    [ErrorCode.RoomFull]: 'This room is full.',
+    [ErrorCode.RoomPrivate]: 'This room is private. Ask the host for its join code.',
+    [ErrorCode.InvalidJoinCode]: 'No room matches that join code.',
+    [ErrorCode.WrongPassword]: 'Incorrect room password.',
+    [ErrorCode.UserBanned]: 'The host has banned you from this room.',
+    [ErrorCode.NotHost]: 'Only the host can do that.',
+    [ErrorCode.NotDeckOwner]: 'Only the owner of this deck can change it.',
+    [ErrorCode.UserNotFound]: 'You are no longer in this room.',
+    [ErrorCode.QuizNotFound]: 'That quiz no longer exists.',
+    [ErrorCode.DeckNotFound]: 'That deck no longer exists.',
+    [ErrorCode.QuizInProgress]: 'Wait until the current quiz has ended.',
+    [ErrorCode.NoQuizInProgress]: 'No quiz is in progress.',
+    [ErrorCode.NotAccepted]: 'That is not possible right now.',
+    [ErrorCode.AlreadyBuzzed]: 'You have already buzzed for this quiz.',
+    [ErrorCode.SpectatorCannotPlay]: 'Spectators can watch and chat, but not play.',
+    [ErrorCode.ServerShuttingDown]: 'The server is restarting. Please try again in a moment.',
+    [ErrorCode.Internal]: 'Something went wrong on the server. Please try again.',
+  },
+  ja: {
+    [ErrorCode.InvalidPayload]: '入力内容に誤りがあります。',
+    [ErrorCode.NotInRoom]: 'ルームに参加していません。',
+    [ErrorCode.NoSession]: 'セッションが切れました。ページを再読み込みしてください。',
+    [ErrorCode.RoomNotFound]: 'このルームは存在しません。',
+    [ErrorCode.RoomFull]: 'このルームは満員です。',
+    [ErrorCode.RoomPrivate]: 'このルームは非公開です。ホストに参加コードを確認してください。',
+    [ErrorCode.InvalidJoinCode]: 'この参加コードのルームは見つかりません。',
+    [ErrorCode.WrongPassword]: 'ルームのパスワードが違います。',
+    [ErrorCode.UserBanned]: 'ホストによりこのルームへの参加を禁止されています。',
+    [ErrorCode.NotHost]: 'この操作はホストのみ行えます。',
+    [ErrorCode.NotDeckOwner]: 'このデッキは作成者のみ変更できます。',
+    [ErrorCode.UserNotFound]: 'このルームから退出しています。',
+    [ErrorCode.QuizNotFound]: 'このクイズは存在しません。',
+    [ErrorCode.DeckNotFound]: 'このデッキは存在しません。',
+    [ErrorCode.QuizInProgress]: '現在のクイズが終わるまでお待ちください。',
+    [ErrorCode.NoQuizInProgress]: '進行中のクイズはありません。',
+    [ErrorCode.NotAccepted]: '現在この操作はできません。',
+    [ErrorCode.AlreadyBuzzed]: 'この問題ではすでに早押ししています。',
+    [ErrorCode.SpectatorCannotPlay]: '観戦者はチャットのみ参加でき、回答はできません。',
+    [ErrorCode.ServerShuttingDown]: 'サーバーを再起動しています。しばらくしてからもう一度お試しください。',
+    [ErrorCode.Internal]: 'サーバーでエラーが発生しました。もう一度お試しください。',
+  },
+};
+
+/**
+ * User-facing text for commands that never got a server verdict
+ */
+const FAILURE_MESSAGES: Record<Locale, Record<Exclude<CommandFailureReason, 'rejected'>, string>> = {
+  en: {
+    timeout: 'The server did not respond. Please try again.',
+    disconnected: 'Not connected to server. Please check your connection.',
+  },
+  ja: {
+    timeout: 'サーバーから応答がありません。もう一度お試しください。',
+    disconnected: 'サーバーに接続されていません。接続を確認してください。',
+  },
+};
+
+/**
+ * User-facing text for a page opened without a server connection
+ */
+const CONNECTION_MESSAGES: Record<Locale, string> = {
+  en: 'Not connected to server. Please refresh the page.',
+  ja: 'サーバーに接続されていません。ページを再読み込みしてください。',
+};
+
+/**
+ * User-facing text for every reason the host can remove a member
+ */
+const REMOVAL_MESSAGES: Record<Locale, Record<RemovalCode, string>> = {
+  en: {
+    [RemovalCode.KickedByHost]: 'The host removed you from the room.',
+    [RemovalCode.BannedByHost]: 'The host banned you from the room.',
+  },
+  ja: {
+    [RemovalCode.KickedByHost]: 'ホストによりルームから退出させられました。',
+    [RemovalCode.BannedByHost]: 'ホストによりルームから追放されました。',
+  },
+};
+
+/**
+ * Detect the display language from the browser
+ * @returns 'ja' for Japanese browsers, 'en' otherwise (and on the server)
+ */
+export function getLocale(): Locale {
+  if (typeof navigator !== 'undefined' && navigator.language?.toLowerCase().startsWith('ja')) {
+    return 'ja';
+  }
+  return 'en';
+}
+
+/**
+ * Get the user-facing text for a server error code
+ * @param code - Error code from the server
+ * @param locale - Display language (defaults to the browser's)
+ * @returns Localized message
+ */
+export function getErrorMessage(code: ErrorCode, locale: Locale = getLocale()): string {
+  return ERROR_CODE_MESSAGES[locale][code] ?? ERROR_CODE_MESSAGES[locale][ErrorCode.Internal];
+}
+
+/**
+ * Tell command failures apart from other errors without loading the socket client
+ * @param error - Value to check
+ */
+function isSocketCommandError(error: unknown): error is SocketCommandError {
+  return error instanceof Error && error.name === 'SocketCommandError';
+}
+
+/**
+ * Get the user-facing text for a failed command
+ * @param error - Whatever the command's promise rejected with
+ * @param locale - Display language (defaults to the browser's)
+ * @returns Localized message
+ */
+export function describeCommandError(error: unknown, locale: Locale = getLocale()): string {
+  if (isSocketCommandError(error)) {
+    if (error.reason !== 'rejected') {
+      return FAILURE_MESSAGES[locale][error.reason];
+    }
+    if (error.code) {
+      return getErrorMessage(error.code, locale);
+    }
+  }
+  return getErrorMessage(ErrorCode.Internal, locale);
+}
+
+/**
+ * Get the user-facing text for a removal from a room
+ * @param removal - The room:kicked payload
+ * @param locale - Display language (defaults to the browser's)
+ * @returns Localized message for host removals, the server's reason otherwise
+ */
+export function describeRemoval(removal: { reason: string; code?: RemovalCode }, locale: Locale = getLocale()): string {
+  return removal.code ? REMOVAL_MESSAGES[locale][removal.code] : removal.reason;
+}
+
+/**
+ * Get the user-facing text for a page that has no server connection
+ * @param locale - Display language (defaults to the browser's)
+ * @returns Localized message
+ */
+export function getConnectionErrorMessage(locale: Locale = getLocale()): string {
+  return CONNECTION_MESSAGES[locale];
+}
@@ -0,0 +1,67 @@
+import { describe, test, expect } from 'vitest';
+import { createLobbyFeed } from './lobbyFeed';
+import type { Room, RoomSummary } from '../types';
+
+const makeRoom = (overrides: Partial<Room> = {}): Room => ({
+  id: 'room-1',
+  name: 'Quiz Room',
+  hostId: 'host-1',
+  users: [{ id: 'host-1', name: 'Host', isHost: true }],
+  isPublic: true,
+  maxPlayers: 8,
+  createdAt: 1000,
+  quizzes: [],
+  ...overrides,
+});
+
+const summarize = (room: Room): RoomSummary => ({
+  id: room.id,
+  name: room.name,
+  hostName: 'Host',
+  playerCount: room.users.length,
+  maxPlayers: room.maxPlayers,
+  quizCount: room.quizzes.length,
+  status: 'waiting',
+  tags: room.tags ?? [],
+});
+
+describe('Lobby Feed', () => {
+  test('should announce new public rooms as added', () => {
+    const feed = createLobbyFeed(summarize);
+    const room = makeRoom();
+
+    expect(feed.apply({ type: 'saved', room })).toEqual({ type: 'added', room: summarize(room) });
+  });
+
+  test('should announce rooms the lobby already lists as changed', () => {
+    const feed = createLobbyFeed(summarize, [makeRoom()]);
+    const room = makeRoom({ name: 'Renamed Room' });
+
+    expect(feed.apply({ type: 'saved', room })).toEqual({ type: 'changed', room: summarize(room) });
+  });
+
+  test('should skip saves that leave the summary unchanged', () => {
+    const room = makeRoom();
+    const feed = createLobbyFeed(summarize, [room]);
+
+    expect(feed.apply({ type: 'saved', room: { ...room, autoJudge: { enabled: true, tolerance: 1 } } })).toBeNull();
+  });
+
+  test('should ignore private rooms until they become public', () => {
+    const feed = createLobbyFeed(summarize);
+    const room = makeRoom({ isPublic: false });
+
+    expect(feed.apply({ type: 'saved', room })).toBeNull();
+    expect(feed.apply({ type: 'deleted', roomId: room.id })).toBeNull();
+    expect(feed.apply({ type: 'saved', room: { ...room, isPublic: true } })).toMatchObject({ type: 'added' });
+  });
+
+  test('should remove rooms that are made private or deleted', () => {
+    const feed = createLobbyFeed(summarize, [makeRoom(), makeRoom({ id: 'room-2' })]);
+
+    expect(feed.apply({ type: 'saved', room: makeRoom({ isPublic: false }) }))
+      .toEqual({ type: 'removed', roomId: 'room-1' });
+    expect(feed.apply({ type: 'deleted', roomId: 'room-2' }))
+      .toEqual({ type: 'removed', roomId: 'room-2' });
+  });
+});
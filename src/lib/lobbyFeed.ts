@@ -0,0 +1,60 @@
+/**
+ * Lobby feed for Quiz World application
+ * - Turns room changes into the deltas lobby subscribers need
+ * - Tracks which public rooms the lobby currently shows
+ * - Skips changes the lobby can't see (scores, answers, private rooms)
+ */
+
+import type { Room, RoomSummary } from '../types';
+import type { RoomChange } from './roomManager';
+
+/**
+ * A change to the lobby's room list
+ */
+export type LobbyDelta =
+  | { type: 'added'; room: RoomSummary }
+  | { type: 'changed'; room: RoomSummary }
+  | { type: 'removed'; roomId: string };
+
+/**
+ * Converts room changes into lobby deltas
+ */
+export interface LobbyFeed {
+  /** Returns the delta a room change causes, or null if the lobby doesn't see it */
+  apply(change: RoomChange): LobbyDelta | null;
+}
+
+/**
+ * Creates a lobby feed
+ * @param summarize - Describes a room the way the lobby shows it
+ * @param initialRooms - Public rooms that already exist when the feed starts
+ * @returns A lobby feed
+ */
+export function createLobbyFeed(summarize: (room: Room) => RoomSummary, initialRooms: Room[] = []): LobbyFeed {
+  // Serialized summaries of the listed rooms, to tell real changes from noise
+  const listed = new Map<string, string>(initialRooms.map(room => [room.id, JSON.stringify(summarize(room))]));
+
+  return {
+    apply: (change) => {
+      if (change.type === 'deleted') {
+        return listed.delete(change.roomId) ? { type: 'removed', roomId: change.roomId } : null;
+      }
+
+      const { room } = change;
+      const previousKey = listed.get(room.id);
+
+      // Rooms made private leave the lobby
+      if (!room.isPublic) {
+        return listed.delete(room.id) ? { type: 'removed', roomId: room.id } : null;
+      }
+
+      const summary = summarize(room);
+      const key = JSON.stringify(summary);
+      if (previousKey === key) {
+        return null;
+      }
+      listed.set(room.id, key);
+      return previousKey === undefined ? { type: 'added', room: summary } : { type: 'changed', room: summary };
+    },
+  };
+}
@@ -0,0 +1,121 @@
+import { describe, test, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createLogger, configureLogger } from './logger';
+import type { Quiz } from '../types';
+
+describe('Logger', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'debug').mockImplementation(() => {});
+    vi.spyOn(console, 'info').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    configureLogger({ level: 'debug', format: 'json' });
+  });
+
+  afterEach(() => {
+    configureLogger({ level: 'warn', format: 'pretty' });
+    vi.restoreAllMocks();
+  });
+
+  const lastEntry = (sink: 'debug' | 'info' | 'warn' | 'error') =>
+    JSON.parse(vi.mocked(console[sink]).mock.calls.at(-1)?.[0] as string);
+
+  test('should write JSON lines with level, namespace and fields', () => {
+    createLogger('socket').info('Room created', { roomId: 'room-1' });
+
+    expect(lastEntry('info')).toEqual({
+      time: expect.any(String),
+      level: 'info',
+      namespace: 'socket',
+      msg: 'Room created',
+      roomId: 'room-1',
+    });
+  });
+
+  test('should skip entries below the configured level', () => {
+    configureLogger({ level: 'warn' });
+    const log = createLogger('socket');
+
+    log.debug('noise');
+    log.info('noise');
+    log.warn('kept');
+
+    expect(console.debug).not.toHaveBeenCalled();
+    expect(console.info).not.toHaveBeenCalled();
+    expect(console.warn).toHaveBeenCalledTimes(1);
+  });
+
+  test('should write nothing when silent', () => {
+    configureLogger({ level: 'silent' });
+
+    createLogger('socket').error('Failed');
+
+    expect(console.error).not.toHaveBeenCalled();
+  });
+
+  test('should carry correlation fields through child loggers', () => {
+    const log = createLogger('socket', { socketId: 'socket-1' }).child({ roomId: 'room-1', userId: 'user-1' });
+
+    log.warn('Command rejected', { requestId: 'req-1' });
+
+    expect(lastEntry('warn')).toMatchObject({
+      namespace: 'socket',
+      socketId: 'socket-1',
+      roomId: 'room-1',
+      userId: 'user-1',
+      requestId: 'req-1',
+    });
+  });
+
+  test('should redact chat text, answers and secrets at any depth', () => {
+    createLogger('socket').debug('Payload', {
+      chatMessage: 'my secret plan',
+      answer: 'Tokyo',
+      request: { name: 'Room', password: 'hunter2', quizzes: [{ acceptedAnswers: ['Tokyo'] }] },
+    });
+
+    const entry = lastEntry('debug');
+    expect(entry.chatMessage).toBe('[redacted]');
+    expect(entry.answer).toBe('[redacted]');
+    expect(entry.request).toEqual({ name: 'Room', password: '[redacted]', quizzes: [{ acceptedAnswers: '[redacted]' }] });
+    expect(JSON.stringify(entry)).not.toContain('Tokyo');
+  });
+
+  test('should redact every answer of a full quiz', () => {
+    const quiz: Quiz = {
+      id: 'quiz-1',
+      type: 'text',
+      question: 'What is the capital of Japan?',
+      answer: 'Tokyo',
+      acceptedAnswers: ['Tōkyō', 'Edo'],
+    };
+
+    createLogger('socket').info('Quiz added', { quiz });
+
+    const entry = lastEntry('info');
+    expect(entry.quiz).toEqual({
+      id: 'quiz-1',
+      type: 'text',
+      question: 'What is the capital of Japan?',
+      answer: '[redacted]',
+      acceptedAnswers: '[redacted]',
+    });
+    expect(JSON.stringify(entry)).not.toMatch(/Tokyo|Tōkyō|Edo/);
+  });
+
+  test('should write errors with their message and stack', () => {
+    createLogger('socket').error('Error joining room', { error: new Error('boom') });
+
+    expect(lastEntry('error').error).toMatchObject({ name: 'Error', message: 'boom', stack: expect.any(String) });
+  });
+
+  test('should prefix the namespace in pretty format', () => {
+    configureLogger({ format: 'pretty' });
+    const log = createLogger('userStorage');
+
+    log.info('Loaded user data', { storage: 'cookie' });
+    log.info('Cleared');
+
+    expect(console.info).toHaveBeenCalledWith('[userStorage] Loaded user data', { storage: 'cookie' });
+    expect(console.info).toHaveBeenCalledWith('[userStorage] Cleared');
+  });
+});
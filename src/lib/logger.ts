@@ -0,0 +1,178 @@
+/**
+ * Logging for Quiz World application
+ * - Leveled loggers with a namespace per module
+ * - Correlation fields (roomId, userId, socketId, requestId...) carried by child loggers
+ * - Chat text, answers and secrets are redacted before anything is written
+ * - JSON lines on the server, readable console output in the browser
+ *
+ * Configured by environment variables:
+ * - LOG_LEVEL (NEXT_PUBLIC_LOG_LEVEL in the browser): debug, info, warn, error or silent
+ * - LOG_FORMAT: json or pretty (defaults to json on the server and pretty in the browser)
+ */
+
+/**
+ * Severity of a log entry; 'silent' as a threshold turns logging off
+ */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent';
+
+/**
+ * How entries are written
+ */
+export type LogFormat = 'json' | 'pretty';
+
+/**
+ * Structured data attached to an entry
+ */
+export type LogFields = Record<string, unknown>;
+
+/**
+ * Writes log entries for one module
+ */
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+  /** Returns a logger that adds the given fields to every entry */
+  child(fields: LogFields): Logger;
+}
+
+/**
+ * Fields whose values never reach the log (chat text, answers and secrets)
+ */
+export const REDACTED_FIELDS = new Set([
+  'answer',
+  'acceptedAnswers',
+  'chatMessage',
+  'password',
+  'joinCode',
+  'sessionToken',
+]);
+
+/**
+ * Written in place of a redacted value
+ */
+const REDACTED = '[redacted]';
+
+/**
+ * Nested objects deeper than this are summarized instead of written out
+ */
+const MAX_DEPTH = 5;
+
+const LEVEL_ORDER: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40, silent: 100 };
+
+const isBrowser = typeof window !== 'undefined';
+
+/**
+ * Parse a level from configuration
+ * @param value - Configured value
+ * @returns The level, or null if the value isn't one
+ */
+function parseLevel(value: string | undefined): LogLevel | null {
+  const level = value?.trim().toLowerCase();
+  return level && Object.prototype.hasOwnProperty.call(LEVEL_ORDER, level) ? (level as LogLevel) : null;
+}
+
+/**
+ * Default threshold: quiet under test, everything in development, info and up otherwise
+ */
+function defaultLevel(): LogLevel {
+  // Written out in full so Next.js can inline the public variable into the client bundle
+  const configured = parseLevel(process.env.NEXT_PUBLIC_LOG_LEVEL) ?? parseLevel(process.env.LOG_LEVEL);
+  if (configured) {
+    return configured;
+  }
+  if (process.env.NODE_ENV === 'test') {
+    return 'warn';
+  }
+  return process.env.NODE_ENV === 'production' ? 'info' : 'debug';
+}
+
+/**
+ * Default format: JSON lines for log collectors on the server, readable in the browser console
+ */
+function defaultFormat(): LogFormat {
+  const configured = process.env.LOG_FORMAT;
+  if (configured === 'json' || configured === 'pretty') {
+    return configured;
+  }
+  return isBrowser ? 'pretty' : 'json';
+}
+
+let threshold: LogLevel = defaultLevel();
+let format: LogFormat = defaultFormat();
+
+/**
+ * Override the level and format picked from the environment
+ * @param options - Settings to change
+ */
+export function configureLogger(options: { level?: LogLevel; format?: LogFormat }) {
+  threshold = options.level ?? threshold;
+  format = options.format ?? format;
+}
+
+/**
+ * Copy a value for logging, redacting sensitive fields and flattening errors
+ * @param value - Value to copy
+ * @param depth - Current nesting depth
+ * @returns A JSON-safe copy
+ */
+function sanitize(value: unknown, depth = 0): unknown {
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message, stack: value.stack };
+  }
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+  if (depth >= MAX_DEPTH) {
+    return Array.isArray(value) ? '[Array]' : '[Object]';
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => sanitize(item, depth + 1));
+  }
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => [key, REDACTED_FIELDS.has(key) ? REDACTED : sanitize(item, depth + 1)])
+  );
+}
+
+/**
+ * Write one entry in the configured format
+ * @param level - Entry level
+ * @param namespace - Module that wrote it
+ * @param message - What happened
+ * @param fields - Context and correlation fields
+ */
+function write(level: Exclude<LogLevel, 'silent'>, namespace: string, message: string, fields: LogFields) {
+  if (LEVEL_ORDER[level] < LEVEL_ORDER[threshold]) {
+    return;
+  }
+
+  const data = sanitize(fields) as LogFields;
+  const sink = level === 'debug' ? console.debug : level === 'info' ? console.info : level === 'warn' ? console.warn : console.error;
+
+  if (format === 'json') {
+    sink(JSON.stringify({ time: new Date().toISOString(), level, namespace, msg: message, ...data }));
+    return;
+  }
+  if (Object.keys(data).length === 0) {
+    sink(`[${namespace}] ${message}`);
+  } else {
+    sink(`[${namespace}] ${message}`, data);
+  }
+}
+
+/**
+ * Create a logger for a module
+ * @param namespace - Module name shown with every entry (e.g. 'socket', 'roomManager')
+ * @param fields - Fields added to every entry
+ * @returns A logger
+ */
+export function createLogger(namespace: string, fields: LogFields = {}): Logger {
+  return {
+    debug: (message, extra) => write('debug', namespace, message, { ...fields, ...extra }),
+    info: (message, extra) => write('info', namespace, message, { ...fields, ...extra }),
+    warn: (message, extra) => write('warn', namespace, message, { ...fields, ...extra }),
+    error: (message, extra) => write('error', namespace, message, { ...fields, ...extra }),
+    child: (extra) => createLogger(namespace, { ...fields, ...extra }),
+  };
+}
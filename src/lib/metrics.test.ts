@@ -0,0 +1,74 @@
+import { describe, test, expect } from 'vitest';
+import { createMetricsRegistry } from './metrics';
+
+describe('Metrics Registry', () => {
+  test('should render counters by label', () => {
+    const registry = createMetricsRegistry();
+    const events = registry.counter('events_total', 'Events received', ['event']);
+
+    events.inc({ event: 'room:join' });
+    events.inc({ event: 'room:join' });
+    events.inc({ event: 'chat:message' }, 3);
+
+    expect(registry.render()).toBe([
+      '# HELP events_total Events received',
+      '# TYPE events_total counter',
+      'events_total{event="room:join"} 2',
+      'events_total{event="chat:message"} 3',
+      '',
+    ].join('\n'));
+  });
+
+  test('should escape label values', () => {
+    const registry = createMetricsRegistry();
+    registry.counter('odd_total', 'Odd labels', ['value']).inc({ value: 'a "quoted"\\path\nline' });
+
+    expect(registry.render()).toContain('odd_total{value="a \\"quoted\\"\\\\path\\nline"} 1');
+  });
+
+  test('should render gauges that are set or collected', () => {
+    const registry = createMetricsRegistry();
+    const sockets = registry.gauge('sockets', 'Connected sockets');
+    let rooms = 2;
+    registry.gauge('rooms', 'Active rooms', () => rooms);
+
+    sockets.inc();
+    sockets.inc();
+    sockets.dec();
+    rooms = 5;
+
+    const output = registry.render();
+    expect(output).toContain('# TYPE sockets gauge\nsockets 1\n');
+    expect(output).toContain('# TYPE rooms gauge\nrooms 5\n');
+
+    sockets.set(7);
+    expect(registry.render()).toContain('sockets 7\n');
+  });
+
+  test('should render cumulative histogram buckets', () => {
+    const registry = createMetricsRegistry();
+    const latency = registry.histogram('latency_seconds', 'Handler latency', ['event'], [0.1, 0.5]);
+
+    latency.observe({ event: 'quiz:start' }, 0.05);
+    latency.observe({ event: 'quiz:start' }, 0.2);
+    latency.observe({ event: 'quiz:start' }, 2);
+
+    expect(registry.render()).toBe([
+      '# HELP latency_seconds Handler latency',
+      '# TYPE latency_seconds histogram',
+      'latency_seconds_bucket{event="quiz:start",le="0.1"} 1',
+      'latency_seconds_bucket{event="quiz:start",le="0.5"} 2',
+      'latency_seconds_bucket{event="quiz:start",le="+Inf"} 3',
+      'latency_seconds_sum{event="quiz:start"} 2.25',
+      'latency_seconds_count{event="quiz:start"} 3',
+      '',
+    ].join('\n'));
+  });
+
+  test('should refuse to define a metric twice', () => {
+    const registry = createMetricsRegistry();
+    registry.counter('events_total', 'Events received');
+
+    expect(() => registry.gauge('events_total', 'Again')).toThrow('Metric events_total is already defined');
+  });
+});
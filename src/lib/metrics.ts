@@ -0,0 +1,179 @@
+/**
+ * In-process metrics for Quiz World application
+ * - Counters, gauges and histograms with optional labels
+ * - Renders everything in the Prometheus text exposition format
+ */
+
+/**
+ * Content type of the rendered metrics
+ */
+export const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+/**
+ * Histogram buckets suited to socket handlers, which usually finish in well under a millisecond (seconds)
+ */
+export const DEFAULT_LATENCY_BUCKETS = [0.0005, 0.001, 0.0025, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1];
+
+/**
+ * Label values of one series, keyed by label name
+ */
+export type Labels = Record<string, string>;
+
+/**
+ * A value that only goes up
+ */
+export interface Counter {
+  /** Adds to the series with the given labels */
+  inc(labels?: Labels, value?: number): void;
+}
+
+/**
+ * A value that goes up and down
+ */
+export interface Gauge {
+  /** Replaces the value */
+  set(value: number): void;
+  /** Adds to the value */
+  inc(value?: number): void;
+  /** Subtracts from the value */
+  dec(value?: number): void;
+}
+
+/**
+ * A distribution of observed values
+ */
+export interface Histogram {
+  /** Records one observation in the series with the given labels */
+  observe(labels: Labels, value: number): void;
+}
+
+/**
+ * A set of metrics rendered together
+ */
+export interface MetricsRegistry {
+  /** Defines a counter */
+  counter(name: string, help: string, labelNames?: string[]): Counter;
+  /** Defines a gauge; with collect, the value is read whenever the metrics are rendered */
+  gauge(name: string, help: string, collect?: () => number): Gauge;
+  /** Defines a histogram */
+  histogram(name: string, help: string, labelNames?: string[], buckets?: number[]): Histogram;
+  /** Renders every metric in the Prometheus text format */
+  render(): string;
+}
+
+/**
+ * Escapes a label value for the text format
+ * @param value - Label value
+ * @returns The escaped value
+ */
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+/**
+ * Formats a label set, e.g. {event="room:join"}
+ * @param labels - Label names and values, in output order
+ * @returns The formatted labels, or an empty string when there are none
+ */
+function formatLabels(labels: Array<[string, string]>): string {
+  if (labels.length === 0) {
+    return '';
+  }
+  return `{${labels.map(([name, value]) => `${name}="${escapeLabelValue(value)}"`).join(',')}}`;
+}
+
+/**
+ * Orders a series' label values by the metric's label names
+ * @param labelNames - The metric's label names
+ * @param labels - The series' labels
+ * @returns Label names paired with their values (missing labels read as empty)
+ */
+function pairLabels(labelNames: string[], labels: Labels = {}): Array<[string, string]> {
+  return labelNames.map(name => [name, labels[name] ?? '']);
+}
+
+/**
+ * Creates an empty metrics registry
+ * @returns A metrics registry
+ */
+export function createMetricsRegistry(): MetricsRegistry {
+  // Each metric renders its own HELP, TYPE and sample lines
+  const renderers: Array<() => string[]> = [];
+  const names = new Set<string>();
+
+  const define = (name: string, help: string, type: string, samples: () => string[]) => {
+    if (names.has(name)) {
+      throw new Error(`Metric ${name} is already defined`);
+    }
+    names.add(name);
+    renderers.push(() => [`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`, ...samples()]);
+  };
+
+  return {
+    counter: (name, help, labelNames = []) => {
+      const series = new Map<string, { labels: Array<[string, string]>; value: number }>();
+      define(name, help, 'counter', () =>
+        Array.from(series.values()).map(({ labels, value }) => `${name}${formatLabels(labels)} ${value}`)
+      );
+
+      return {
+        inc: (labels, value = 1) => {
+          const paired = pairLabels(labelNames, labels);
+          const key = JSON.stringify(paired);
+          const entry = series.get(key) ?? { labels: paired, value: 0 };
+          entry.value += value;
+          series.set(key, entry);
+        },
+      };
+    },
+
+    gauge: (name, help, collect) => {
+      let current = 0;
+      define(name, help, 'gauge', () => [`${name} ${collect ? collect() : current}`]);
+
+      return {
+        set: (value) => {
+          current = value;
+        },
+        inc: (value = 1) => {
+          current += value;
+        },
+        dec: (value = 1) => {
+          current -= value;
+        },
+      };
+    },
+
+    histogram: (name, help, labelNames = [], buckets = DEFAULT_LATENCY_BUCKETS) => {
+      const bounds = [...buckets].sort((a, b) => a - b);
+      const series = new Map<string, { labels: Array<[string, string]>; counts: number[]; sum: number; count: number }>();
+      define(name, help, 'histogram', () =>
+        Array.from(series.values()).flatMap(({ labels, counts, sum, count }) => [
+          ...bounds.map((bound, i) => `${name}_bucket${formatLabels([...labels, ['le', String(bound)]])} ${counts[i]}`),
+          `${name}_bucket${formatLabels([...labels, ['le', '+Inf']])} ${count}`,
+          `${name}_sum${formatLabels(labels)} ${sum}`,
+          `${name}_count${formatLabels(labels)} ${count}`,
+        ])
+      );
+
+      return {
+        observe: (labels, value) => {
+          const paired = pairLabels(labelNames, labels);
+          const key = JSON.stringify(paired);
+          const entry = series.get(key) ?? { labels: paired, counts: bounds.map(() => 0), sum: 0, count: 0 };
+          // Buckets are cumulative: an observation counts towards every bound it fits under
+          bounds.forEach((bound, i) => {
+            if (value <= bound) {
+              entry.counts[i] += 1;
+            }
+          });
+          entry.sum += value;
+          entry.count += 1;
+          series.set(key, entry);
+        },
+      };
+    },
+
+    render: () => `${renderers.flatMap(render => render()).join('\n')}\n`,
+  };
+}
@@ -0,0 +1,26 @@
+import { describe, test, expect } from 'vitest';
+import { hashPassword, verifyPassword } from './passwordHash';
+
+describe('Password Hash', () => {
+  test('should not contain the password', () => {
+    expect(hashPassword('hunter2')).not.toContain('hunter2');
+  });
+
+  test('should salt every hash', () => {
+    expect(hashPassword('hunter2')).not.toBe(hashPassword('hunter2'));
+  });
+
+  test('should verify the password it was made from', () => {
+    const hash = hashPassword('hunter2');
+
+    expect(verifyPassword('hunter2', hash)).toBe(true);
+    expect(verifyPassword('hunter3', hash)).toBe(false);
+    expect(verifyPassword('', hash)).toBe(false);
+  });
+
+  test('should reject malformed hashes', () => {
+    expect(verifyPassword('hunter2', '')).toBe(false);
+    expect(verifyPassword('hunter2', 'hunter2')).toBe(false);
+    expect(verifyPassword('hunter2', 'salt.')).toBe(false);
+  });
+});
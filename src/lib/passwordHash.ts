@@ -0,0 +1,40 @@
+/**
+ * Room password hashing for Quiz World application
+ * - Passwords are kept as salted scrypt hashes, never as the text the host typed
+ * - Hashes are plain strings, so they can be stored alongside the room
+ */
+
+import { randomBytes, scryptSync, timingSafeEqual } from 'crypto';
+
+/**
+ * Length in bytes of the derived key
+ */
+const KEY_LENGTH = 32;
+
+/**
+ * Hashes a password with a fresh random salt
+ * @param password - Password to hash
+ * @returns Hash in the form "<salt>.<key>", both hex encoded
+ */
+export function hashPassword(password: string): string {
+  const salt = randomBytes(16).toString('hex');
+  const key = scryptSync(password, salt, KEY_LENGTH).toString('hex');
+  return `${salt}.${key}`;
+}
+
+/**
+ * Checks a password against a hash made by hashPassword
+ * @param password - Password supplied by the user
+ * @param hash - Stored hash
+ * @returns True when the password matches; false for a wrong password or a malformed hash
+ */
+export function verifyPassword(password: string, hash: string): boolean {
+  const [salt, key] = hash.split('.');
+  if (!salt || !key) {
+    return false;
+  }
+
+  const expected = Buffer.from(key, 'hex');
+  const actual = scryptSync(password, salt, KEY_LENGTH);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
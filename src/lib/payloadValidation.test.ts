@@ -0,0 +1,226 @@
+import { describe, test, expect } from 'vitest';
+import { validatePayload, PAYLOAD_LIMITS } from './payloadValidation';
+import type { ClientToServerEvents } from '../types/socket';
+import type { Quiz } from '../types';
+
+describe('Payload Validation', () => {
+  const textQuiz: Quiz = { id: 'quiz-1', type: 'text', question: 'Q1', answer: 'A1' };
+  const choiceQuiz: Quiz = { id: 'quiz-2', type: 'choice', question: 'Q2', answer: 'B', choices: ['A', 'B'] };
+
+  const expectValid = (event: keyof ClientToServerEvents, data: unknown) => {
+    const result = validatePayload(event, data);
+    expect(result).toEqual({ ok: true, value: expect.anything() });
+    return result.ok ? result.value : undefined;
+  };
+
+  const expectInvalid = (event: keyof ClientToServerEvents, data: unknown, field: string) => {
+    const result = validatePayload(event, data);
+    expect(result).toEqual({ ok: false, field, message: expect.stringContaining(`Invalid ${event} payload`) });
+  };
+
+  describe('common rules', () => {
+    test('should reject payloads that are not objects', () => {
+      expectInvalid('room:join', null, 'payload');
+      expectInvalid('room:join', 'room-1', 'payload');
+      expectInvalid('room:join', ['room-1'], 'payload');
+    });
+
+    test('should drop unknown fields', () => {
+      expect(expectValid('quiz:remove', { quizId: 'quiz-1', extra: 'ignored' })).toEqual({ quizId: 'quiz-1' });
+    });
+
+    test('should trim strings and leave absent optional fields absent', () => {
+      expect(expectValid('room:update', { name: '  New Name  ' })).toEqual({ name: 'New Name' });
+    });
+
+    test('should accept events without a payload', () => {
+      const events: Array<keyof ClientToServerEvents> = [
+        'room:leave', 'quiz:next', 'quiz:ended', 'quiz:revealAnswer', 'deck:list', 'game:buzz',
+      ];
+      for (const event of events) {
+        expect(validatePayload(event, undefined)).toEqual({ ok: true, value: undefined });
+      }
+    });
+  });
+
+  describe('room:create', () => {
+    test('should accept a valid room', () => {
+      expectValid('room:create', { name: 'Room', isPublic: false, maxPlayers: 4, userName: 'Host', password: 'secret' });
+    });
+
+    test('should reject a missing or too long name', () => {
+      expectInvalid('room:create', { name: '   ', isPublic: true }, 'name');
+      expectInvalid('room:create', { name: 'x'.repeat(PAYLOAD_LIMITS.ROOM_NAME_MAX_LENGTH + 1), isPublic: true }, 'name');
+    });
+
+    test('should reject maxPlayers out of range', () => {
+      expectInvalid('room:create', { name: 'Room', isPublic: true, maxPlayers: 1 }, 'maxPlayers');
+      expectInvalid('room:create', { name: 'Room', isPublic: true, maxPlayers: 1000 }, 'maxPlayers');
+      expectInvalid('room:create', { name: 'Room', isPublic: true, maxPlayers: 4.5 }, 'maxPlayers');
+    });
+
+    test('should reject a non-boolean isPublic', () => {
+      expectInvalid('room:create', { name: 'Room', isPublic: 'yes' }, 'isPublic');
+    });
+  });
+
+  describe('room:join / room:joinByCode', () => {
+    test('should accept valid joins', () => {
+      expectValid('room:join', { roomId: 'room-1', userName: 'Alice', joinCode: 'ABC234' });
+      expectValid('room:joinByCode', { code: 'ABC234', userName: 'Alice' });
+      expectValid('room:join', { roomId: 'room-1', userName: 'Alice', asSpectator: true });
+    });
+
+    test('should reject a non-boolean spectator flag', () => {
+      expectInvalid('room:joinByCode', { code: 'ABC234', userName: 'Alice', asSpectator: 'yes' }, 'asSpectator');
+    });
+
+    test('should drop client-supplied user IDs', () => {
+      expect(expectValid('room:join', { roomId: 'room-1', userId: 'user-2', userName: 'Alice' })).toEqual({ roomId: 'room-1', userName: 'Alice' });
+    });
+
+    test('should reject a too long user name', () => {
+      expectInvalid('room:join', { roomId: 'room-1', userName: 'x'.repeat(PAYLOAD_LIMITS.USER_NAME_MAX_LENGTH + 1) }, 'userName');
+    });
+
+    test('should reject an empty join code', () => {
+      expectInvalid('room:joinByCode', { code: '', userName: 'Alice' }, 'code');
+    });
+  });
+
+  describe('host:transfer / room:update', () => {
+    test('should require the new host ID', () => {
+      expectValid('host:transfer', { newHostId: 'user-2' });
+      expectInvalid('host:transfer', {}, 'newHostId');
+    });
+
+    test('should require the spectator to promote', () => {
+      expectValid('room:promoteSpectator', { userId: 'user-3' });
+      expectInvalid('room:promoteSpectator', {}, 'userId');
+    });
+
+    test('should require the user to kick or ban', () => {
+      expectValid('room:kick', { userId: 'user-2' });
+      expectValid('room:ban', { userId: 'user-2' });
+      expectInvalid('room:kick', {}, 'userId');
+      expectInvalid('room:ban', { userId: 42 }, 'userId');
+    });
+
+    test('should bound the auto-judge tolerance', () => {
+      expectValid('room:update', { autoJudge: { enabled: true, tolerance: 1 } });
+      expectInvalid('room:update', { autoJudge: { enabled: true, tolerance: 99 } }, 'autoJudge.tolerance');
+    });
+
+    test('should bound room tags', () => {
+      expectValid('room:update', { tags: ['trivia', 'anime'] });
+      expectInvalid('room:update', { tags: [''] }, 'tags.0');
+      expectInvalid('room:update', { tags: Array(PAYLOAD_LIMITS.ROOM_TAGS_MAX + 1).fill('tag') }, 'tags');
+    });
+  });
+
+  describe('room:list / lobby:subscribe', () => {
+    test('should accept an empty or full query', () => {
+      expect(expectValid('room:list', {})).toEqual({});
+      expectValid('lobby:subscribe', { search: ' quiz ', sortBy: 'playerCount', sortOrder: 'desc', page: 2, pageSize: 10 });
+    });
+
+    test('should reject unknown sort fields and out of range pages', () => {
+      expectInvalid('room:list', { sortBy: 'password' }, 'sortBy');
+      expectInvalid('room:list', { page: 0 }, 'page');
+      expectInvalid('lobby:subscribe', { pageSize: PAYLOAD_LIMITS.ROOM_PAGE_SIZE_MAX + 1 }, 'pageSize');
+    });
+  });
+
+  describe('quiz:add', () => {
+    test('should accept text, choice and image quizzes', () => {
+      expectValid('quiz:add', textQuiz);
+      expectValid('quiz:add', choiceQuiz);
+      expectValid('quiz:add', { ...textQuiz, type: 'image', image: { type: 'url', data: 'https://example.com/a.png' } });
+      expectValid('quiz:add', { ...textQuiz, type: 'image', image: { type: 'upload', data: 'aGVsbG8=' } });
+    });
+
+    test('should reject an unknown quiz type', () => {
+      expectInvalid('quiz:add', { ...textQuiz, type: 'essay' }, 'type');
+    });
+
+    test('should reject a missing answer or too long question', () => {
+      expectInvalid('quiz:add', { ...textQuiz, answer: '' }, 'answer');
+      expectInvalid('quiz:add', { ...textQuiz, question: 'x'.repeat(PAYLOAD_LIMITS.QUESTION_MAX_LENGTH + 1) }, 'question');
+    });
+
+    test('should require valid choices for choice quizzes', () => {
+      expectInvalid('quiz:add', { ...choiceQuiz, choices: ['B'] }, 'choices');
+      expectInvalid('quiz:add', { ...choiceQuiz, answer: 'C' }, 'answer');
+      expectInvalid('quiz:add', { ...choiceQuiz, choices: Array(PAYLOAD_LIMITS.CHOICES_MAX + 1).fill('B') }, 'choices');
+    });
+
+    test('should require a reasonable image for image quizzes', () => {
+      expectInvalid('quiz:add', { ...textQuiz, type: 'image' }, 'image');
+      expectInvalid('quiz:add', { ...textQuiz, type: 'image', image: { type: 'url', data: 'javascript:alert(1)' } }, 'image.data');
+      expectInvalid('quiz:add', { ...textQuiz, type: 'image', image: { type: 'file', data: 'x' } }, 'image.type');
+      const tooLarge = 'A'.repeat(Math.ceil((PAYLOAD_LIMITS.IMAGE_UPLOAD_MAX_BYTES * 4) / 3) + 4);
+      expectInvalid('quiz:add', { ...textQuiz, type: 'image', image: { type: 'upload', data: tooLarge } }, 'image.data');
+    });
+
+    test('should validate each accepted answer', () => {
+      expectInvalid('quiz:add', { ...textQuiz, acceptedAnswers: ['ok', 42] }, 'acceptedAnswers.1');
+    });
+  });
+
+  describe('quiz lifecycle events', () => {
+    test('should bound the time limit', () => {
+      expectValid('quiz:start', { quizId: 'quiz-1', timeLimit: 30 });
+      expectInvalid('quiz:start', { quizId: 'quiz-1', timeLimit: 0 }, 'timeLimit');
+      expectInvalid('quiz:start', { quizId: 'quiz-1', timeLimit: 100000 }, 'timeLimit');
+    });
+
+    test('should validate removals and answers', () => {
+      expectInvalid('quiz:remove', { quizId: 42 }, 'quizId');
+      expectValid('quiz:answer', { quizId: 'quiz-1', answer: 'A1' });
+      expectInvalid('quiz:answer', { quizId: 'quiz-1', answer: '' }, 'answer');
+    });
+
+    test('should bound judgment scores', () => {
+      expectValid('quiz:judge', { userId: 'user-1', isCorrect: true, score: 10 });
+      expectInvalid('quiz:judge', { userId: 'user-1', isCorrect: 'true' }, 'isCorrect');
+      expectInvalid('quiz:judge', { userId: 'user-1', isCorrect: true, score: 1e9 }, 'score');
+    });
+  });
+
+  describe('game events', () => {
+    test('should validate buzzes and answers', () => {
+      expect(validatePayload('game:buzz', { user: { id: 'user-2' } })).toEqual({ ok: true, value: undefined });
+      expect(expectValid('game:answer', { user: { id: 'user-2' }, answer: 'A1' })).toEqual({ answer: 'A1' });
+      expectInvalid('game:answer', { answer: 'x'.repeat(PAYLOAD_LIMITS.ANSWER_MAX_LENGTH + 1) }, 'answer');
+    });
+
+    test('should bound the choice index', () => {
+      expectValid('game:choice', { choiceIndex: 0 });
+      expectInvalid('game:choice', { choiceIndex: -1 }, 'choiceIndex');
+      expectInvalid('game:choice', { choiceIndex: PAYLOAD_LIMITS.CHOICES_MAX }, 'choiceIndex');
+    });
+  });
+
+  describe('deck events', () => {
+    test('should validate deck creation and its quizzes', () => {
+      expectValid('deck:create', { title: 'Deck', tags: ['trivia'], quizzes: [textQuiz, choiceQuiz] });
+      expectInvalid('deck:create', { title: '', quizzes: [] }, 'title');
+      expectInvalid('deck:create', { title: 'Deck', quizzes: [textQuiz, { ...textQuiz, type: 'essay' }] }, 'quizzes.1.type');
+    });
+
+    test('should validate deck updates, deletes and loads', () => {
+      expectValid('deck:update', { deckId: 'deck-1', title: 'Renamed' });
+      expectInvalid('deck:update', { deckId: 'deck-1', tags: Array(PAYLOAD_LIMITS.DECK_TAGS_MAX + 1).fill('tag') }, 'tags');
+      expectValid('deck:delete', { deckId: 'deck-1' });
+      expectInvalid('deck:load', {}, 'deckId');
+    });
+  });
+
+  describe('chat:message', () => {
+    test('should bound message length', () => {
+      expect(expectValid('chat:message', { message: 'Hello', userId: 'user-2', userName: 'Bob' })).toEqual({ message: 'Hello' });
+      expectInvalid('chat:message', { message: '' }, 'message');
+      expectInvalid('chat:message', { message: 'x'.repeat(PAYLOAD_LIMITS.CHAT_MESSAGE_MAX_LENGTH + 1) }, 'message');
+    });
+  });
+});
@@ -0,0 +1,362 @@
+/**
+ * Runtime validation of client-to-server socket payloads for Quiz World application
+ * - One validator per ClientToServerEvents event
+ * - Checks types, string lengths, enum values, numeric ranges and image sizes
+ * - Returns a cleaned copy of the payload with unknown fields dropped
+ */
+
+import type { ClientToServerEvents } from '../types/socket';
+import type { Quiz, QuizType, ImageResource, AutoJudgeSettings, RoomListQuery, RoomSortKey } from '../types';
+
+/**
+ * Bounds applied to incoming payloads
+ */
+export const PAYLOAD_LIMITS = {
+  ID_MAX_LENGTH: 100,
+  ROOM_NAME_MAX_LENGTH: 50,
+  USER_NAME_MAX_LENGTH: 30,
+  PASSWORD_MAX_LENGTH: 100,
+  JOIN_CODE_MAX_LENGTH: 10,
+  MIN_PLAYERS: 2,
+  MAX_PLAYERS: 8,
+  QUESTION_MAX_LENGTH: 500,
+  ANSWER_MAX_LENGTH: 200,
+  ACCEPTED_ANSWERS_MAX: 20,
+  CHOICES_MIN: 2,
+  CHOICES_MAX: 8,
+  IMAGE_URL_MAX_LENGTH: 2048,
+  /** Decoded size of an uploaded image; socket.io drops messages over 1 MB */
+  IMAGE_UPLOAD_MAX_BYTES: 512 * 1024,
+  TIME_LIMIT_MIN_SECONDS: 5,
+  TIME_LIMIT_MAX_SECONDS: 600,
+  SCORE_MAX_ABS: 100,
+  AUTO_JUDGE_TOLERANCE_MAX: 5,
+  CHAT_MESSAGE_MAX_LENGTH: 500,
+  DECK_TITLE_MAX_LENGTH: 100,
+  DECK_DESCRIPTION_MAX_LENGTH: 500,
+  DECK_TAG_MAX_LENGTH: 30,
+  DECK_TAGS_MAX: 10,
+  DECK_QUIZZES_MAX: 200,
+  ROOM_TAG_MAX_LENGTH: 30,
+  ROOM_TAGS_MAX: 5,
+  ROOM_SEARCH_MAX_LENGTH: 50,
+  ROOM_PAGE_MAX: 1000,
+  ROOM_PAGE_SIZE_MAX: 50,
+} as const;
+
+/**
+ * Payload type of a client-to-server event (undefined for events that only carry an acknowledgement)
+ */
+export type EventPayload<E extends keyof ClientToServerEvents> =
+  Parameters<ClientToServerEvents[E]> extends [infer Data, unknown] ? Data : undefined;
+
+/**
+ * Outcome of validating a payload
+ * @property field - Dotted path of the first invalid field (e.g. "quizzes.2.answer")
+ */
+export type ValidationResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; field: string; message: string };
+
+/**
+ * Thrown by field checks and turned into a failed ValidationResult by validatePayload
+ */
+class PayloadError extends Error {
+  constructor(readonly field: string, message: string) {
+    super(message);
+  }
+}
+
+/**
+ * Validates one value and returns its cleaned form, throwing PayloadError if invalid
+ */
+type Check<T> = (value: unknown, field: string) => T;
+
+/**
+ * Field name for error messages; the payload itself is reported as "payload"
+ */
+function label(field: string): string {
+  return field || 'payload';
+}
+
+/**
+ * Checks a string, trimmed unless trim is false, with a length range
+ */
+function string({ min = 0, max, trim = true }: { min?: number; max: number; trim?: boolean }): Check<string> {
+  return (value, field) => {
+    if (typeof value !== 'string') {
+      throw new PayloadError(field, `${label(field)} must be a string`);
+    }
+    const result = trim ? value.trim() : value;
+    if (result.length < min) {
+      throw new PayloadError(field, min === 1 ? `${label(field)} is required` : `${label(field)} must be at least ${min} characters`);
+    }
+    if (result.length > max) {
+      throw new PayloadError(field, `${label(field)} must be at most ${max} characters`);
+    }
+    return result;
+  };
+}
+
+/**
+ * Checks a boolean
+ */
+function boolean(): Check<boolean> {
+  return (value, field) => {
+    if (typeof value !== 'boolean') {
+      throw new PayloadError(field, `${label(field)} must be a boolean`);
+    }
+    return value;
+  };
+}
+
+/**
+ * Checks an integer within an inclusive range
+ */
+function integer(min: number, max: number): Check<number> {
+  return (value, field) => {
+    if (typeof value !== 'number' || !Number.isInteger(value)) {
+      throw new PayloadError(field, `${label(field)} must be an integer`);
+    }
+    if (value < min || value > max) {
+      throw new PayloadError(field, `${label(field)} must be between ${min} and ${max}`);
+    }
+    return value;
+  };
+}
+
+/**
+ * Checks that a value is one of a fixed set of strings
+ */
+function oneOf<T extends string>(values: readonly T[]): Check<T> {
+  return (value, field) => {
+    if (!values.includes(value as T)) {
+      throw new PayloadError(field, `${label(field)} must be one of: ${values.join(', ')}`);
+    }
+    return value as T;
+  };
+}
+
+/**
+ * Allows a value to be absent (undefined or null)
+ */
+function optional<T>(check: Check<T>): Check<T | undefined> {
+  return (value, field) => (value === undefined || value === null ? undefined : check(value, field));
+}
+
+/**
+ * Checks an array and each of its items
+ */
+function arrayOf<T>(check: Check<T>, { min = 0, max }: { min?: number; max: number }): Check<T[]> {
+  return (value, field) => {
+    if (!Array.isArray(value)) {
+      throw new PayloadError(field, `${label(field)} must be an array`);
+    }
+    if (value.length < min || value.length > max) {
+      throw new PayloadError(field, `${label(field)} must have between ${min} and ${max} items`);
+    }
+    return value.map((item, index) => check(item, `${field}.${index}`));
+  };
+}
+
+/**
+ * Checks an object field by field, dropping fields not in the shape
+ */
+function object<S extends Record<string, Check<unknown>>>(shape: S): Check<{ [K in keyof S]: ReturnType<S[K]> }> {
+  return (value, field) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      throw new PayloadError(field, `${label(field)} must be an object`);
+    }
+    const input = value as Record<string, unknown>;
+    const result: Record<string, unknown> = {};
+    for (const [key, check] of Object.entries(shape)) {
+      const checked = check(input[key], field ? `${field}.${key}` : key);
+      // Leave absent optional fields absent rather than present-but-undefined
+      if (checked !== undefined) {
+        result[key] = checked;
+      }
+    }
+    return result as { [K in keyof S]: ReturnType<S[K]> };
+  };
+}
+
+/**
+ * Adds a cross-field rule to a check
+ * @param rule - Returns [field, message] when the value is invalid, null otherwise
+ */
+function refine<T>(check: Check<T>, rule: (value: T) => [string, string] | null): Check<T> {
+  return (value, field) => {
+    const result = check(value, field);
+    const problem = rule(result);
+    if (problem) {
+      const [subField, message] = problem;
+      throw new PayloadError(field ? `${field}.${subField}` : subField, message);
+    }
+    return result;
+  };
+}
+
+/**
+ * Accepts events that carry no payload, ignoring whatever was sent
+ */
+const none: Check<undefined> = () => undefined;
+
+const id = string({ min: 1, max: PAYLOAD_LIMITS.ID_MAX_LENGTH });
+const roomName = string({ min: 1, max: PAYLOAD_LIMITS.ROOM_NAME_MAX_LENGTH });
+const userName = string({ min: 1, max: PAYLOAD_LIMITS.USER_NAME_MAX_LENGTH });
+const password = string({ max: PAYLOAD_LIMITS.PASSWORD_MAX_LENGTH, trim: false });
+const joinCode = string({ min: 1, max: PAYLOAD_LIMITS.JOIN_CODE_MAX_LENGTH });
+const answerText = string({ min: 1, max: PAYLOAD_LIMITS.ANSWER_MAX_LENGTH });
+
+const autoJudge: Check<AutoJudgeSettings> = object({
+  enabled: boolean(),
+  tolerance: integer(0, PAYLOAD_LIMITS.AUTO_JUDGE_TOLERANCE_MAX),
+});
+
+const image: Check<ImageResource> = refine(
+  object({
+    type: oneOf(['upload', 'url'] as const),
+    data: string({ min: 1, max: Number.MAX_SAFE_INTEGER }),
+  }),
+  ({ type, data }) => {
+    if (type === 'url') {
+      if (data.length > PAYLOAD_LIMITS.IMAGE_URL_MAX_LENGTH) {
+        return ['data', `image URL must be at most ${PAYLOAD_LIMITS.IMAGE_URL_MAX_LENGTH} characters`];
+      }
+      return /^https?:\/\//i.test(data) ? null : ['data', 'image URL must start with http:// or https://'];
+    }
+    // Base64 encodes 3 bytes in 4 characters
+    const decodedBytes = Math.floor((data.length * 3) / 4);
+    return decodedBytes > PAYLOAD_LIMITS.IMAGE_UPLOAD_MAX_BYTES
+      ? ['data', `uploaded image must be at most ${PAYLOAD_LIMITS.IMAGE_UPLOAD_MAX_BYTES / 1024} KB`]
+      : null;
+  }
+);
+
+const quiz: Check<Quiz> = refine(
+  object({
+    id,
+    type: oneOf<QuizType>(['text', 'image', 'choice']),
+    question: string({ min: 1, max: PAYLOAD_LIMITS.QUESTION_MAX_LENGTH }),
+    image: optional(image),
+    answer: answerText,
+    acceptedAnswers: optional(arrayOf(answerText, { max: PAYLOAD_LIMITS.ACCEPTED_ANSWERS_MAX })),
+    choices: optional(arrayOf(answerText, { max: PAYLOAD_LIMITS.CHOICES_MAX })),
+  }),
+  (value) => {
+    if (value.type === 'image' && !value.image) {
+      return ['image', 'image quizzes need an image'];
+    }
+    if (value.type === 'choice') {
+      if (!value.choices || value.choices.length < PAYLOAD_LIMITS.CHOICES_MIN) {
+        return ['choices', `choice quizzes need at least ${PAYLOAD_LIMITS.CHOICES_MIN} choices`];
+      }
+      if (!value.choices.includes(value.answer)) {
+        return ['answer', 'answer must be one of the choices'];
+      }
+    }
+    return null;
+  }
+);
+
+const roomListQuery: Check<RoomListQuery> = object({
+  search: optional(string({ max: PAYLOAD_LIMITS.ROOM_SEARCH_MAX_LENGTH })),
+  sortBy: optional(oneOf<RoomSortKey>(['name', 'playerCount', 'createdAt'])),
+  sortOrder: optional(oneOf(['asc', 'desc'] as const)),
+  page: optional(integer(1, PAYLOAD_LIMITS.ROOM_PAGE_MAX)),
+  pageSize: optional(integer(1, PAYLOAD_LIMITS.ROOM_PAGE_SIZE_MAX)),
+});
+
+const deckFields = {
+  description: optional(string({ max: PAYLOAD_LIMITS.DECK_DESCRIPTION_MAX_LENGTH })),
+  tags: optional(arrayOf(string({ min: 1, max: PAYLOAD_LIMITS.DECK_TAG_MAX_LENGTH }), { max: PAYLOAD_LIMITS.DECK_TAGS_MAX })),
+};
+const deckTitle = string({ min: 1, max: PAYLOAD_LIMITS.DECK_TITLE_MAX_LENGTH });
+const deckQuizzes = arrayOf(quiz, { max: PAYLOAD_LIMITS.DECK_QUIZZES_MAX });
+
+/**
+ * Validators for every client-to-server event
+ */
+const validators: { [E in keyof ClientToServerEvents]: Check<EventPayload<E>> } = {
+  'room:create': object({
+    name: roomName,
+    isPublic: boolean(),
+    maxPlayers: optional(integer(PAYLOAD_LIMITS.MIN_PLAYERS, PAYLOAD_LIMITS.MAX_PLAYERS)),
+    userName: optional(userName),
+    isDemo: optional(boolean()),
+    password: optional(password),
+  }),
+  'room:join': object({
+    roomId: id,
+    userName,
+    joinCode: optional(joinCode),
+    password: optional(password),
+    asSpectator: optional(boolean()),
+  }),
+  'room:joinByCode': object({
+    code: joinCode,
+    userName,
+    password: optional(password),
+    asSpectator: optional(boolean()),
+  }),
+  'room:leave': none,
+  'room:list': roomListQuery,
+  'lobby:subscribe': roomListQuery,
+  'lobby:unsubscribe': none,
+  'host:transfer': object({ newHostId: id }),
+  'room:promoteSpectator': object({ userId: id }),
+  'room:kick': object({ userId: id }),
+  'room:ban': object({ userId: id }),
+  'room:update': object({
+    name: optional(roomName),
+    isPublic: optional(boolean()),
+    autoJudge: optional(autoJudge),
+    tags: optional(arrayOf(string({ min: 1, max: PAYLOAD_LIMITS.ROOM_TAG_MAX_LENGTH }), { max: PAYLOAD_LIMITS.ROOM_TAGS_MAX })),
+  }),
+  'quiz:add': quiz,
+  'quiz:remove': object({ quizId: id }),
+  'quiz:start': object({
+    quizId: id,
+    timeLimit: optional(integer(PAYLOAD_LIMITS.TIME_LIMIT_MIN_SECONDS, PAYLOAD_LIMITS.TIME_LIMIT_MAX_SECONDS)),
+  }),
+  'quiz:answer': object({ quizId: id, answer: answerText }),
+  'quiz:judge': object({
+    userId: id,
+    isCorrect: boolean(),
+    score: optional(integer(-PAYLOAD_LIMITS.SCORE_MAX_ABS, PAYLOAD_LIMITS.SCORE_MAX_ABS)),
+  }),
+  'quiz:next': none,
+  'quiz:ended': none,
+  'quiz:revealAnswer': none,
+  'deck:list': none,
+  'deck:create': object({ title: deckTitle, ...deckFields, quizzes: deckQuizzes }),
+  'deck:update': object({ deckId: id, title: optional(deckTitle), ...deckFields, quizzes: optional(deckQuizzes) }),
+  'deck:delete': object({ deckId: id }),
+  'deck:load': object({ deckId: id }),
+  'game:buzz': none,
+  'game:answer': object({ answer: answerText }),
+  'game:choice': object({ choiceIndex: integer(0, PAYLOAD_LIMITS.CHOICES_MAX - 1) }),
+  'chat:message': object({
+    message: string({ min: 1, max: PAYLOAD_LIMITS.CHAT_MESSAGE_MAX_LENGTH }),
+  }),
+};
+
+/**
+ * Validates the payload of a client-to-server event
+ * @param event - Event name
+ * @param data - Payload as received from the client
+ * @returns The cleaned payload, or the first invalid field and why
+ */
+export function validatePayload<E extends keyof ClientToServerEvents>(
+  event: E,
+  data: unknown
+): ValidationResult<EventPayload<E>> {
+  try {
+    return { ok: true, value: validators[event](data, '') };
+  } catch (error) {
+    if (error instanceof PayloadError) {
+      return { ok: false, field: label(error.field), message: `Invalid ${event} payload: ${error.message}` };
+    }
+    throw error;
+  }
+}
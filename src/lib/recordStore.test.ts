@@ -0,0 +1,84 @@
+import { describe, test, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createMemoryRecordStore, createFileRecordStore, StoreFileError, FILE_WRITE_DELAY_MS, type RecordShape } from './recordStore';
+
+type Item = { id: string; name: string };
+
+describe('Record Store', () => {
+  const shape: RecordShape<Item> = {
+    getId: item => item.id,
+    isRecord: (value): value is Item => typeof (value as Item)?.id === 'string',
+  };
+  const record: Item = { id: 'item-1', name: 'Item' };
+
+  describe('createMemoryRecordStore', () => {
+    test('should flush immediately', async () => {
+      const store = createMemoryRecordStore(shape);
+      store.save(record);
+
+      await expect(store.flush()).resolves.toBeUndefined();
+      expect(store.load()).toEqual([record]);
+    });
+  });
+
+  describe('createFileRecordStore', () => {
+    let tempDir: string;
+    let filePath: string;
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'quiz-world-'));
+      filePath = path.join(tempDir, 'data', 'items.json');
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+      vi.restoreAllMocks();
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    test('should write a burst of changes once, after the write delay', async () => {
+      vi.useFakeTimers();
+      const writeFile = vi.spyOn(fs.promises, 'writeFile');
+      const store = createFileRecordStore(filePath, shape);
+
+      store.save(record);
+      store.save({ ...record, name: 'Renamed' });
+      await vi.advanceTimersByTimeAsync(FILE_WRITE_DELAY_MS - 1);
+      expect(writeFile).not.toHaveBeenCalled();
+
+      await vi.advanceTimersByTimeAsync(1);
+      await store.flush();
+      expect(writeFile).toHaveBeenCalledTimes(1);
+      expect(createFileRecordStore(filePath, shape).load()[0].name).toBe('Renamed');
+    });
+
+    test('should reject the flush when the file cannot be written', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      // A file where the store's directory should be makes the write fail
+      fs.writeFileSync(path.join(tempDir, 'data'), '');
+      const store = createFileRecordStore(filePath, shape);
+
+      store.save(record);
+
+      await expect(store.flush()).rejects.toThrow();
+      expect(console.error).toHaveBeenCalledWith('[recordStore] Failed to write store file', expect.objectContaining({ file: filePath }));
+    });
+
+    test('should explain which file is corrupt', () => {
+      fs.mkdirSync(path.dirname(filePath));
+      fs.writeFileSync(filePath, '[{"id": ');
+
+      expect(() => createFileRecordStore(filePath, shape)).toThrow(StoreFileError);
+      expect(() => createFileRecordStore(filePath, shape)).toThrow(`Store file ${filePath} is unreadable`);
+    });
+
+    test('should reject a file that does not hold records', () => {
+      fs.mkdirSync(path.dirname(filePath));
+      fs.writeFileSync(filePath, '{"items": []}');
+
+      expect(() => createFileRecordStore(filePath, shape)).toThrow('expected a list of stored records');
+    });
+  });
+});
@@ -0,0 +1,187 @@
+/**
+ * Keyed record storage for Quiz World application
+ * - RecordStore interface shared by the room and deck stores
+ * - In-memory store and JSON file store with coalesced background writes
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { createLogger } from './logger';
+
+/**
+ * Log of store file writes
+ */
+const log = createLogger('recordStore');
+
+/**
+ * How long the file store waits after a change before writing, so a burst of changes is written once
+ */
+export const FILE_WRITE_DELAY_MS = 200;
+
+/**
+ * Storage backend for records with a string ID
+ * Managers keep their working state in memory and write every change through the store,
+ * then read the store back once when the store is installed.
+ */
+export interface RecordStore<T> {
+  /** Returns every stored record */
+  load(): T[];
+  /** Inserts or replaces a record */
+  save(record: T): void;
+  /** Removes a record */
+  delete(id: string): void;
+  /** Removes every record */
+  clear(): void;
+  /** Resolves once every change so far is written */
+  flush(): Promise<void>;
+}
+
+/**
+ * How a store tells its records apart
+ * @property getId - Returns a record's ID
+ * @property isRecord - Checks that a value read from a file is a record
+ */
+export type RecordShape<T> = {
+  getId: (record: T) => string;
+  isRecord: (value: unknown) => value is T;
+};
+
+/**
+ * Thrown when a store file exists but can't be read as records
+ */
+export class StoreFileError extends Error {
+  readonly filePath: string;
+
+  constructor(filePath: string, reason: string) {
+    super(`Store file ${filePath} is unreadable: ${reason}`);
+    this.name = 'StoreFileError';
+    this.filePath = filePath;
+  }
+}
+
+/**
+ * Copies a record so the store never shares objects with its caller
+ * @param record - Record to copy
+ * @returns A deep copy of the record
+ */
+function copyRecord<T>(record: T): T {
+  return JSON.parse(JSON.stringify(record)) as T;
+}
+
+/**
+ * Creates a store that keeps records in a Map (lost when the process exits)
+ * @param shape - How to identify records
+ * @returns An in-memory store
+ */
+export function createMemoryRecordStore<T>(shape: RecordShape<T>): RecordStore<T> {
+  const records = new Map<string, T>();
+
+  return {
+    load: () => Array.from(records.values()).map(copyRecord),
+    save: (record) => {
+      records.set(shape.getId(record), copyRecord(record));
+    },
+    delete: (id) => {
+      records.delete(id);
+    },
+    clear: () => {
+      records.clear();
+    },
+    flush: () => Promise.resolve(),
+  };
+}
+
+/**
+ * Reads the records kept in a store file
+ * @param filePath - Path of the JSON file
+ * @param shape - How to check records
+ * @returns The stored records (none when the file does not exist)
+ * @throws StoreFileError if the file can't be read or doesn't hold a list of records
+ */
+function readStoreFile<T>(filePath: string, shape: RecordShape<T>): T[] {
+  if (!fs.existsSync(filePath)) {
+    return [];
+  }
+
+  let stored: unknown;
+  try {
+    stored = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  } catch (error) {
+    throw new StoreFileError(filePath, error instanceof Error ? error.message : String(error));
+  }
+  if (!Array.isArray(stored) || !stored.every(shape.isRecord)) {
+    throw new StoreFileError(filePath, 'expected a list of stored records');
+  }
+  return stored;
+}
+
+/**
+ * Creates a store that keeps records in a JSON file
+ * The file is read once. Changes are written in the background, coalesced so a burst of
+ * changes costs one write, which suits a single server process.
+ * @param filePath - Path of the JSON file; created on first write if missing
+ * @param shape - How to identify and check records
+ * @param writeDelayMs - How long to wait after a change before writing
+ * @returns A file-backed store
+ * @throws StoreFileError if the file exists but is corrupt
+ */
+export function createFileRecordStore<T>(filePath: string, shape: RecordShape<T>, writeDelayMs: number = FILE_WRITE_DELAY_MS): RecordStore<T> {
+  const records = new Map<string, T>();
+  for (const record of readStoreFile(filePath, shape)) {
+    records.set(shape.getId(record), record);
+  }
+
+  let writeTimer: ReturnType<typeof setTimeout> | null = null;
+  let hasUnwrittenChanges = false;
+  let lastWrite: Promise<void> = Promise.resolve();
+
+  // Write to a temporary file first so a crash mid-write never leaves a truncated file
+  const write = async () => {
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    const tempPath = `${filePath}.tmp`;
+    await fs.promises.writeFile(tempPath, JSON.stringify(Array.from(records.values()), null, 2));
+    await fs.promises.rename(tempPath, filePath);
+  };
+
+  // Writes run one after another, each with the records as they are when it starts.
+  // A failed write is logged, and also rejects the flush that asked for it.
+  const flush = () => {
+    if (writeTimer) {
+      clearTimeout(writeTimer);
+      writeTimer = null;
+    }
+    if (!hasUnwrittenChanges) {
+      return lastWrite;
+    }
+    hasUnwrittenChanges = false;
+    const written = lastWrite.then(write);
+    lastWrite = written.catch((error: unknown) => log.error('Failed to write store file', { error, file: filePath }));
+    return written;
+  };
+
+  const scheduleWrite = () => {
+    hasUnwrittenChanges = true;
+    if (!writeTimer) {
+      // Nobody waits on a background write, and its failure is already logged
+      writeTimer = setTimeout(() => flush().catch(() => {}), writeDelayMs);
+    }
+  };
+
+  return {
+    load: () => Array.from(records.values()).map(copyRecord),
+    save: (record) => {
+      records.set(shape.getId(record), copyRecord(record));
+      scheduleWrite();
+    },
+    delete: (id) => {
+      if (records.delete(id)) {
+        scheduleWrite();
+      }
+    },
+    clear: () => {
+      records.clear();
+      scheduleWrite();
+    },
+    flush,
+  };
+}
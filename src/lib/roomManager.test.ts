@@ -1,19 +1,56 @@
-import { describe, test, expect, beforeEach, vi } from 'vitest';
+import { describe, test, expect, beforeEach, afterEach, vi } from 'vitest';
 import {
   createRoom,
   createRoomWithHost,
   joinRoom,
   leaveRoom,
+  setUserAway,
   transferHost,
   updateRoom,
   getPublicRooms,
+  getAllRooms,
+  deleteRoom,
+  listPublicRooms,
+  toRoomSummary,
   getRoom,
   getUser,
   cleanupAbandonedRooms,
   getEmptyRoomsCount,
   getEmptyRoomsInfo,
+  touchRoom,
+  getIdleRoomIds,
   resetRoomState,
+  getGameSession,
+  startQuizSession,
+  advanceQuizSession,
+  recordBuzz,
+  recordAnswer,
+  recordChoice,
+  closeChoiceQuiz,
+  expireQuizSession,
+  recordJudgment,
+  overrideJudgment,
+  revealQuizAnswer,
+  endQuizSession,
+  getScores,
+  addScore,
+  setRoomPassword,
+  findRoomByJoinCode,
+  isJoinCodeValid,
+  isRoomPasswordValid,
+  addQuizToRoom,
+  removeQuizFromRoom,
+  promoteSpectator,
+  hasRoomFor,
+  banUser,
+  isUserBanned,
+  setRoomStore,
+  snapshotRooms,
+  configureRooms,
+  setRoomChangeListener,
 } from './roomManager';
+import type { RoomChange } from './roomManager';
+import { createMemoryRoomStore } from './roomStore';
 import type { Room, User } from '../types';
 
 describe('Room Manager', () => {
@@ -45,6 +82,16 @@ describe('Room Manager', () => {
       const room = createRoom('Default Room', true, undefined, 'Bob');
       expect(room.maxPlayers).toBe(8);
     });
+
+    test('should use the configured default maxPlayers', () => {
+      configureRooms({ defaultMaxPlayers: 5 });
+
+      expect(createRoom('Configured Room', true, undefined, 'Bob').maxPlayers).toBe(5);
+      expect(createRoom('Chosen Room', true, 3, 'Bob').maxPlayers).toBe(3);
+
+      resetRoomState();
+      expect(createRoom('Default Room', true, undefined, 'Bob').maxPlayers).toBe(8);
+    });
   });
 
   describe('createRoomWithHost', () => {
@@ -244,6 +291,30 @@ describe('Room Manager', () => {
       }
     });
 
+    test('should keep the room when a user who joined it empty leaves last', () => {
+      leaveRoom(testRoom.id, testUser.id);
+      const newcomer = joinRoom(testRoom.id, 'Newcomer')!;
+      
+      // Whoever finds the room empty hosts it
+      expect(newcomer.user.isHost).toBe(true);
+      expect(newcomer.room.hostId).toBe(newcomer.user.id);
+      
+      const result = leaveRoom(testRoom.id, newcomer.user.id);
+      expect(result).not.toBeNull();
+      expect(getRoom(testRoom.id)).not.toBeNull();
+    });
+
+    test('should prefer a connected user as the new host', () => {
+      const awayUser = joinRoom(testRoom.id, 'Away User')!;
+      const presentUser = joinRoom(testRoom.id, 'Present User')!;
+      setUserAway(testRoom.id, awayUser.user.id, true);
+      
+      const updatedRoom = leaveRoom(testRoom.id, testUser.id);
+      
+      expect(updatedRoom?.hostId).toBe(presentUser.user.id);
+      expect(getUser(testRoom.id, awayUser.user.id)?.isHost).toBe(false);
+    });
+
     test('should return null for non-existent room', () => {
       const result = leaveRoom('non-existent-id', 'user-id');
       expect(result).toBeNull();
@@ -255,6 +326,33 @@ describe('Room Manager', () => {
     });
   });
 
+  describe('setUserAway', () => {
+    test('should mark a user away and back without removing them', () => {
+      const player = joinRoom(testRoom.id, 'Player')!;
+      addScore(testRoom.id, player.user.id, 10);
+      
+      const awayRoom = setUserAway(testRoom.id, player.user.id, true);
+      expect(awayRoom?.users).toHaveLength(2);
+      expect(getUser(testRoom.id, player.user.id)?.isAway).toBe(true);
+      
+      setUserAway(testRoom.id, player.user.id, false);
+      expect(getUser(testRoom.id, player.user.id)).toEqual({ id: player.user.id, name: 'Player', isHost: false });
+      expect(getScores(testRoom.id)).toEqual([{ userId: player.user.id, score: 10 }]);
+    });
+
+    test('should keep the host role while the host is away', () => {
+      setUserAway(testRoom.id, testUser.id, true);
+      
+      expect(getRoom(testRoom.id)?.hostId).toBe(testUser.id);
+      expect(getUser(testRoom.id, testUser.id)?.isHost).toBe(true);
+    });
+
+    test('should return null for a non-existent room or user', () => {
+      expect(setUserAway('non-existent-id', testUser.id, true)).toBeNull();
+      expect(setUserAway(testRoom.id, 'non-existent-user', true)).toBeNull();
+    });
+  });
+
   describe('transferHost', () => {
     test('should transfer host role to another user', () => {
       const newUser = joinRoom(testRoom.id, 'New Host');
@@ -280,6 +378,103 @@ describe('Room Manager', () => {
       const result = transferHost(testRoom.id, 'non-existent-user');
       expect(result).toBeNull();
     });
+
+    test('should not make a spectator the host', () => {
+      const spectator = joinRoom(testRoom.id, 'Watcher', undefined, true);
+
+      expect(transferHost(testRoom.id, spectator!.user.id)).toBeNull();
+      expect(getRoom(testRoom.id)?.hostId).toBe(testUser.id);
+    });
+  });
+
+  describe('Bans', () => {
+    test('should keep a banned user out of the room', () => {
+      const player = joinRoom(testRoom.id, 'Troll', 'troll-id')!.user;
+      leaveRoom(testRoom.id, player.id);
+
+      const room = banUser(testRoom.id, player.id);
+
+      expect(room?.bannedUserIds).toEqual(['troll-id']);
+      expect(isUserBanned(testRoom.id, 'troll-id')).toBe(true);
+      expect(joinRoom(testRoom.id, 'Troll', 'troll-id')).toBeNull();
+      expect(joinRoom(testRoom.id, 'Troll', 'troll-id', true)).toBeNull();
+      expect(joinRoom(testRoom.id, 'Someone Else', 'other-id')).not.toBeNull();
+    });
+
+    test('should record each ban once', () => {
+      banUser(testRoom.id, 'troll-id');
+      banUser(testRoom.id, 'troll-id');
+
+      expect(getRoom(testRoom.id)?.bannedUserIds).toEqual(['troll-id']);
+    });
+
+    test('should return null for a non-existent room', () => {
+      expect(banUser('non-existent-id', 'troll-id')).toBeNull();
+      expect(isUserBanned('non-existent-id', 'troll-id')).toBe(false);
+    });
+  });
+
+  describe('Spectators', () => {
+    test('should join without taking a player slot', () => {
+      for (let i = 1; i < testRoom.maxPlayers; i++) {
+        joinRoom(testRoom.id, `User ${i}`);
+      }
+      expect(hasRoomFor(testRoom)).toBe(false);
+
+      const result = joinRoom(testRoom.id, 'Watcher', undefined, true);
+
+      expect(result?.user.isSpectator).toBe(true);
+      expect(result?.user.isHost).toBe(false);
+      expect(toRoomSummary(testRoom).playerCount).toBe(testRoom.maxPlayers);
+    });
+
+    test('should cap spectators separately', () => {
+      const room = createRoom('Small Gallery', true, 4, 'Host');
+      room.maxSpectators = 1;
+
+      expect(joinRoom(room.id, 'Watcher 1', undefined, true)).not.toBeNull();
+      expect(joinRoom(room.id, 'Watcher 2', undefined, true)).toBeNull();
+      expect(joinRoom(room.id, 'Player')).not.toBeNull();
+    });
+
+    test('should not let a spectator take over a room without players', () => {
+      leaveRoom(testRoom.id, testUser.id);
+      const spectator = joinRoom(testRoom.id, 'Watcher', undefined, true);
+      const player = joinRoom(testRoom.id, 'Player');
+
+      expect(spectator?.user.isHost).toBe(false);
+      expect(player?.user.isHost).toBe(true);
+      expect(getRoom(testRoom.id)?.hostId).toBe(player?.user.id);
+    });
+
+    test('should pass the host role to a player, never a spectator', () => {
+      joinRoom(testRoom.id, 'Watcher', undefined, true);
+      const player = joinRoom(testRoom.id, 'Player');
+
+      leaveRoom(testRoom.id, testUser.id);
+
+      expect(getRoom(testRoom.id)?.hostId).toBe(player?.user.id);
+    });
+
+    test('should promote a spectator while a player slot is free', () => {
+      const spectator = joinRoom(testRoom.id, 'Watcher', undefined, true)!.user;
+
+      const room = promoteSpectator(testRoom.id, spectator.id);
+
+      expect(room?.users.find(user => user.id === spectator.id)?.isSpectator).toBeUndefined();
+      expect(toRoomSummary(room!).playerCount).toBe(2);
+    });
+
+    test('should not promote into a full room or promote a player', () => {
+      const spectator = joinRoom(testRoom.id, 'Watcher', undefined, true)!.user;
+      for (let i = 1; i < testRoom.maxPlayers; i++) {
+        joinRoom(testRoom.id, `User ${i}`);
+      }
+
+      expect(promoteSpectator(testRoom.id, spectator.id)).toBeNull();
+      expect(promoteSpectator(testRoom.id, testUser.id)).toBeNull();
+      expect(promoteSpectator('non-existent-id', spectator.id)).toBeNull();
+    });
   });
 
   describe('updateRoom', () => {
@@ -311,6 +506,11 @@ describe('Room Manager', () => {
       }
     });
 
+    test('should update auto-judge settings', () => {
+      const updatedRoom = updateRoom(testRoom.id, { autoJudge: { enabled: true, tolerance: 1 } });
+      expect(updatedRoom?.autoJudge).toEqual({ enabled: true, tolerance: 1 });
+    });
+
     test('should return null for non-existent room', () => {
       const result = updateRoom('non-existent-id', { name: 'Test' });
       expect(result).toBeNull();
@@ -330,6 +530,194 @@ describe('Room Manager', () => {
     });
   });
 
+  describe('Room summaries', () => {
+    beforeEach(() => {
+      resetRoomState();
+    });
+
+    test('should describe a room the way the lobby shows it', () => {
+      const room = createRoom('Summary Room', true, 6, 'Host');
+      joinRoom(room.id, 'Player');
+      addQuizToRoom(room.id, { id: 'quiz-1', type: 'text', question: 'Q1', answer: 'A1' });
+      updateRoom(room.id, { tags: ['anime'] });
+
+      expect(toRoomSummary(room)).toEqual({
+        id: room.id,
+        name: 'Summary Room',
+        hostName: 'Host',
+        playerCount: 2,
+        maxPlayers: 6,
+        quizCount: 1,
+        status: 'waiting',
+        tags: ['anime'],
+      });
+    });
+
+    test('should report whether the room is playing', () => {
+      const room = createRoom('Summary Room', true, 6, 'Host');
+      addQuizToRoom(room.id, { id: 'quiz-1', type: 'text', question: 'Q1', answer: 'A1' });
+
+      startQuizSession(room.id, 'quiz-1');
+      expect(toRoomSummary(room).status).toBe('playing');
+
+      advanceQuizSession(room.id);
+      expect(toRoomSummary(room).status).toBe('finished');
+
+      endQuizSession(room.id);
+      expect(toRoomSummary(room).status).toBe('waiting');
+    });
+
+    test('should leave out quizzes, join codes and private rooms', () => {
+      createRoom('Private Room', false, 8, 'Host');
+      const room = createRoom('Public Room', true, 8, 'Host');
+      addQuizToRoom(room.id, { id: 'quiz-1', type: 'text', question: 'Q1', answer: 'Secret' });
+
+      const page = listPublicRooms();
+      expect(page.rooms.map(summary => summary.name)).toEqual(['Public Room']);
+      expect(JSON.stringify(page)).not.toContain('Secret');
+    });
+  });
+
+  describe('listPublicRooms', () => {
+    beforeEach(() => {
+      resetRoomState();
+      const alpha = createRoom('Alpha Trivia', true, 8, 'Alice');
+      const beta = createRoom('Beta Quiz', true, 8, 'Bob');
+      const gamma = createRoom('Gamma Night', true, 8, 'Carol');
+      joinRoom(beta.id, 'Player 1');
+      joinRoom(beta.id, 'Player 2');
+      joinRoom(gamma.id, 'Player 3');
+      updateRoom(gamma.id, { tags: ['Anime'] });
+      // Creation order decides createdAt ties, so make it explicit
+      alpha.createdAt = 1000;
+      beta.createdAt = 2000;
+      gamma.createdAt = 3000;
+    });
+
+    test('should list rooms oldest first by default', () => {
+      const page = listPublicRooms();
+
+      expect(page.rooms.map(room => room.name)).toEqual(['Alpha Trivia', 'Beta Quiz', 'Gamma Night']);
+      expect(page).toMatchObject({ total: 3, page: 1, pageSize: 12 });
+    });
+
+    test('should search names, host names and tags case-insensitively', () => {
+      expect(listPublicRooms({ search: 'trivia' }).rooms.map(room => room.name)).toEqual(['Alpha Trivia']);
+      expect(listPublicRooms({ search: 'BOB' }).rooms.map(room => room.name)).toEqual(['Beta Quiz']);
+      expect(listPublicRooms({ search: ' anime ' }).rooms.map(room => room.name)).toEqual(['Gamma Night']);
+      expect(listPublicRooms({ search: 'nothing' })).toMatchObject({ rooms: [], total: 0 });
+    });
+
+    test('should sort by name, player count or creation time', () => {
+      expect(listPublicRooms({ sortBy: 'name', sortOrder: 'desc' }).rooms.map(room => room.name))
+        .toEqual(['Gamma Night', 'Beta Quiz', 'Alpha Trivia']);
+      expect(listPublicRooms({ sortBy: 'playerCount', sortOrder: 'desc' }).rooms.map(room => room.playerCount))
+        .toEqual([3, 2, 1]);
+      expect(listPublicRooms({ sortBy: 'createdAt', sortOrder: 'desc' }).rooms[0].name).toBe('Gamma Night');
+    });
+
+    test('should page the results and count every match', () => {
+      const page = listPublicRooms({ page: 2, pageSize: 2 });
+
+      expect(page.rooms.map(room => room.name)).toEqual(['Gamma Night']);
+      expect(page).toMatchObject({ total: 3, page: 2, pageSize: 2 });
+      expect(listPublicRooms({ page: 3, pageSize: 2 }).rooms).toEqual([]);
+    });
+  });
+
+  describe('Private room access', () => {
+    test('should give private rooms a six-character join code', () => {
+      const privateRoom = createRoom('Private Room', false, 8, 'Private Host');
+      
+      expect(privateRoom.joinCode).toMatch(/^[A-HJ-NP-Z2-9]{6}$/);
+      expect(testRoom.joinCode).toBeUndefined();
+    });
+
+    test('should find a room by its join code regardless of case', () => {
+      const privateRoom = createRoom('Private Room', false, 8, 'Private Host');
+      
+      expect(findRoomByJoinCode(privateRoom.joinCode!.toLowerCase())).toBe(privateRoom);
+      expect(findRoomByJoinCode('')).toBeNull();
+      expect(findRoomByJoinCode('ZZZZZZ')).toBeNull();
+    });
+
+    test('should require the join code for private rooms only', () => {
+      const privateRoom = createRoom('Private Room', false, 8, 'Private Host');
+      
+      expect(isJoinCodeValid(testRoom.id)).toBe(true);
+      expect(isJoinCodeValid(privateRoom.id)).toBe(false);
+      expect(isJoinCodeValid(privateRoom.id, 'WRONG1')).toBe(false);
+      expect(isJoinCodeValid(privateRoom.id, privateRoom.joinCode)).toBe(true);
+      expect(isJoinCodeValid('non-existent')).toBe(false);
+    });
+
+    test('should add and remove the join code when visibility changes', () => {
+      updateRoom(testRoom.id, { isPublic: false });
+      const code = testRoom.joinCode;
+      expect(code).toBeDefined();
+      
+      updateRoom(testRoom.id, { name: 'Renamed', isPublic: false });
+      expect(testRoom.joinCode).toBe(code);
+      
+      updateRoom(testRoom.id, { isPublic: true });
+      expect(testRoom.joinCode).toBeUndefined();
+    });
+
+    test('should check the room password without exposing it', () => {
+      const privateRoom = createRoom('Private Room', false, 8, 'Private Host');
+      expect(isRoomPasswordValid(privateRoom.id)).toBe(true);
+      
+      setRoomPassword(privateRoom.id, 'hunter2');
+      expect(privateRoom.hasPassword).toBe(true);
+      expect(JSON.stringify(privateRoom)).not.toContain('hunter2');
+      expect(isRoomPasswordValid(privateRoom.id)).toBe(false);
+      expect(isRoomPasswordValid(privateRoom.id, 'wrong')).toBe(false);
+      expect(isRoomPasswordValid(privateRoom.id, 'hunter2')).toBe(true);
+      
+      setRoomPassword(privateRoom.id, '');
+      expect(privateRoom.hasPassword).toBeUndefined();
+      expect(isRoomPasswordValid(privateRoom.id)).toBe(true);
+    });
+
+    test('should drop the password when a private room becomes public', () => {
+      const privateRoom = createRoom('Private Room', false, 8, 'Private Host');
+      setRoomPassword(privateRoom.id, 'hunter2');
+
+      updateRoom(privateRoom.id, { isPublic: true });
+
+      expect(privateRoom.hasPassword).toBeUndefined();
+      expect(isRoomPasswordValid(privateRoom.id)).toBe(true);
+    });
+
+    test('should return null when setting a password on a non-existent room', () => {
+      expect(setRoomPassword('non-existent', 'hunter2')).toBeNull();
+    });
+  });
+
+  describe('getAllRooms', () => {
+    test('should include private rooms', () => {
+      const privateRoom = createRoom('Private Room', false, 8, 'Private Host');
+
+      const ids = getAllRooms().map(room => room.id);
+      expect(ids).toContain(testRoom.id);
+      expect(ids).toContain(privateRoom.id);
+    });
+  });
+
+  describe('deleteRoom', () => {
+    test('should remove the room and its game state', () => {
+      addScore(testRoom.id, testUser.id, 10);
+
+      expect(deleteRoom(testRoom.id)).toBe(true);
+      expect(getRoom(testRoom.id)).toBeNull();
+      expect(getScores(testRoom.id)).toEqual([]);
+    });
+
+    test('should return false for non-existent room', () => {
+      expect(deleteRoom('non-existent-id')).toBe(false);
+    });
+  });
+
   describe('getRoom', () => {
     test('should return room by ID', () => {
       const room = getRoom(testRoom.id);
@@ -447,6 +835,15 @@ describe('Room Manager', () => {
       expect(getEmptyRoomsCount()).toBe(0);
     });
 
+    test('should clear tracking when anyone joins an empty room', () => {
+      const room = createRoom('Test Room', true, 8, 'Host User');
+      leaveRoom(room.id, room.hostId);
+      
+      joinRoom(room.id, 'Newcomer');
+      
+      expect(getEmptyRoomsCount()).toBe(0);
+    });
+
     test('should not track room when non-host user leaves empty room', () => {
       const room = createRoom('Test Room', true, 8, 'Host User');
       const nonHost = joinRoom(room.id, 'Regular User');
@@ -571,4 +968,600 @@ describe('Room Manager', () => {
       vi.restoreAllMocks();
     });
   });
-}); 
\ No newline at end of file
+
+  describe('Idle rooms', () => {
+    const baseTime = 1000000000000;
+
+    beforeEach(() => {
+      resetRoomState();
+      vi.spyOn(Date, 'now').mockReturnValue(baseTime);
+    });
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    test('should report occupied rooms without recent activity', () => {
+      const idleRoom = createRoom('Idle Room', true, 8, 'Host');
+      const busyRoom = createRoom('Busy Room', true, 8, 'Host');
+      
+      vi.mocked(Date.now).mockReturnValue(baseTime + 50 * 60 * 1000);
+      touchRoom(busyRoom.id);
+      vi.mocked(Date.now).mockReturnValue(baseTime + 61 * 60 * 1000);
+      
+      expect(getIdleRoomIds(60 * 60 * 1000)).toEqual([idleRoom.id]);
+    });
+
+    test('should count room changes as activity', () => {
+      const room = createRoom('Room', true, 8, 'Host');
+      
+      vi.mocked(Date.now).mockReturnValue(baseTime + 50 * 60 * 1000);
+      joinRoom(room.id, 'Player');
+      vi.mocked(Date.now).mockReturnValue(baseTime + 61 * 60 * 1000);
+      
+      expect(getIdleRoomIds(60 * 60 * 1000)).toEqual([]);
+    });
+
+    test('should leave empty rooms to the abandoned room cleanup', () => {
+      const room = createRoom('Room', true, 8, 'Host');
+      leaveRoom(room.id, room.hostId);
+      
+      vi.mocked(Date.now).mockReturnValue(baseTime + 61 * 60 * 1000);
+      
+      expect(getIdleRoomIds(60 * 60 * 1000)).toEqual([]);
+    });
+  });
+
+  describe('Game Session', () => {
+    let room: Room;
+    let playerId: string;
+    let otherPlayerId: string;
+
+    beforeEach(() => {
+      resetRoomState();
+      room = createRoom('Session Room', true, 8, 'Host User');
+      room.quizzes.push(
+        { id: 'quiz-1', type: 'text', question: 'Q1?', answer: 'A1' },
+        { id: 'quiz-2', type: 'text', question: 'Q2?', answer: 'A2' },
+      );
+      playerId = joinRoom(room.id, 'Player')!.user.id;
+      otherPlayerId = joinRoom(room.id, 'Other Player')!.user.id;
+    });
+
+    test('should start in the lobby phase', () => {
+      const session = getGameSession(room.id);
+
+      expect(session?.phase).toBe('lobby');
+      expect(session?.currentQuizId).toBeNull();
+      expect(session?.currentQuizIndex).toBe(-1);
+    });
+
+    test('should return null for a non-existent room', () => {
+      expect(getGameSession('non-existent-id')).toBeNull();
+      expect(startQuizSession('non-existent-id', 'quiz-1')).toBeNull();
+    });
+
+    test('should open a quiz when started', () => {
+      const session = startQuizSession(room.id, 'quiz-2');
+
+      expect(session?.phase).toBe('quiz-active');
+      expect(session?.currentQuizId).toBe('quiz-2');
+      expect(session?.currentQuizIndex).toBe(1);
+    });
+
+    test('should reject starting an unknown quiz', () => {
+      expect(startQuizSession(room.id, 'unknown-quiz')).toBeNull();
+      expect(getGameSession(room.id)?.phase).toBe('lobby');
+    });
+
+    test('should reject buzzes outside of an active quiz', () => {
+      expect(recordBuzz(room.id, playerId)).toBeNull();
+    });
+
+    test('should reject buzzes from spectators', () => {
+      const spectator = joinRoom(room.id, 'Watcher', undefined, true)!.user;
+      startQuizSession(room.id, 'quiz-1');
+
+      expect(recordBuzz(room.id, spectator.id)).toBeNull();
+    });
+
+    test('should queue buzzes in arrival order and ignore duplicates', () => {
+      startQuizSession(room.id, 'quiz-1');
+
+      recordBuzz(room.id, otherPlayerId, 1000);
+      recordBuzz(room.id, playerId, 1005);
+
+      expect(recordBuzz(room.id, otherPlayerId, 1010)).toBeNull();
+      expect(getGameSession(room.id)?.buzzQueue).toEqual([
+        { userId: otherPlayerId, receivedAt: 1000 },
+        { userId: playerId, receivedAt: 1005 },
+      ]);
+    });
+
+    test('should stamp buzzes with the server receive time by default', () => {
+      startQuizSession(room.id, 'quiz-1');
+      const before = Date.now();
+
+      const session = recordBuzz(room.id, playerId);
+
+      expect(session?.buzzQueue[0].userId).toBe(playerId);
+      expect(session?.buzzQueue[0].receivedAt).toBeGreaterThanOrEqual(before);
+    });
+
+    test('should lock out further buzzes once the quiz is judged', () => {
+      startQuizSession(room.id, 'quiz-1');
+      recordBuzz(room.id, playerId);
+      recordAnswer(room.id, playerId, 'A1');
+      recordJudgment(room.id, playerId, true, 10);
+
+      expect(recordBuzz(room.id, otherPlayerId)).toBeNull();
+    });
+
+    test('should set a deadline when started with a time limit', () => {
+      const before = Date.now();
+
+      const session = startQuizSession(room.id, 'quiz-1', 30);
+
+      expect(session?.deadline).toBeGreaterThanOrEqual(before + 30_000);
+      expect(startQuizSession(room.id, 'quiz-2')?.deadline).toBeNull();
+    });
+
+    test('should reject buzzes received after the deadline', () => {
+      const session = startQuizSession(room.id, 'quiz-1', 30)!;
+
+      expect(recordBuzz(room.id, playerId, session.deadline! + 1)).toBeNull();
+      expect(recordBuzz(room.id, playerId, session.deadline!)).not.toBeNull();
+    });
+
+    test('should close the quiz and reveal the answer when time expires', () => {
+      startQuizSession(room.id, 'quiz-1', 30);
+      recordBuzz(room.id, playerId);
+
+      const session = expireQuizSession(room.id);
+
+      expect(session?.phase).toBe('quiz-answered');
+      expect(session?.answerRevealed).toBe(true);
+      expect(session?.buzzQueue).toEqual([]);
+      expect(expireQuizSession(room.id)).toBeNull();
+    });
+
+    test('should keep an answer awaiting judgment open when time expires', () => {
+      startQuizSession(room.id, 'quiz-1', 30);
+      recordBuzz(room.id, playerId);
+      recordAnswer(room.id, playerId, 'A1');
+
+      const session = expireQuizSession(room.id);
+
+      expect(session?.phase).toBe('quiz-active');
+      expect(session?.pendingAnswer).toEqual({ userId: playerId, answer: 'A1' });
+      expect(recordJudgment(room.id, playerId, true, 10)).not.toBeNull();
+    });
+
+    test('should reject buzzes from the host', () => {
+      startQuizSession(room.id, 'quiz-1');
+      expect(recordBuzz(room.id, room.hostId)).toBeNull();
+    });
+
+    test('should reject buzzes from users not in the room', () => {
+      startQuizSession(room.id, 'quiz-1');
+      expect(recordBuzz(room.id, 'stranger')).toBeNull();
+    });
+
+    test('should reject an answer before a buzz', () => {
+      startQuizSession(room.id, 'quiz-1');
+      expect(recordAnswer(room.id, playerId, 'A1')).toBeNull();
+    });
+
+    test('should only accept an answer from the first buzzer', () => {
+      startQuizSession(room.id, 'quiz-1');
+      recordBuzz(room.id, playerId);
+      recordBuzz(room.id, otherPlayerId);
+
+      expect(recordAnswer(room.id, otherPlayerId, 'A1')).toBeNull();
+
+      const session = recordAnswer(room.id, playerId, 'A1');
+      expect(session?.pendingAnswer).toEqual({ userId: playerId, answer: 'A1' });
+    });
+
+    test('should close the quiz when the pending answer is judged', () => {
+      startQuizSession(room.id, 'quiz-1');
+      recordBuzz(room.id, playerId);
+      recordAnswer(room.id, playerId, 'A1');
+
+      const session = recordJudgment(room.id, playerId, true, 10);
+
+      expect(session?.phase).toBe('quiz-answered');
+      expect(session?.pendingAnswer).toBeNull();
+      expect(session?.judgments).toEqual([
+        expect.objectContaining({ userId: playerId, answer: 'A1', isCorrect: true, score: 10 }),
+      ]);
+    });
+
+    test('should let the host override an automatic judgment', () => {
+      startQuizSession(room.id, 'quiz-1');
+      recordBuzz(room.id, playerId);
+      recordAnswer(room.id, playerId, 'A1?');
+      recordJudgment(room.id, playerId, false, 0, true);
+
+      const result = overrideJudgment(room.id, playerId, true, 10);
+
+      expect(result?.scoreDelta).toBe(10);
+      expect(result?.session.judgments).toEqual([
+        expect.objectContaining({ userId: playerId, isCorrect: true, score: 10, isAuto: false }),
+      ]);
+    });
+
+    test('should not override a judgment made by the host', () => {
+      startQuizSession(room.id, 'quiz-1');
+      recordBuzz(room.id, playerId);
+      recordAnswer(room.id, playerId, 'A1');
+      recordJudgment(room.id, playerId, true, 10);
+
+      expect(overrideJudgment(room.id, playerId, false, 0)).toBeNull();
+    });
+
+    test('should reject a judgment without a pending answer', () => {
+      startQuizSession(room.id, 'quiz-1');
+      expect(recordJudgment(room.id, playerId, true, 10)).toBeNull();
+    });
+
+    test('should reveal the answer only while a quiz is being played', () => {
+      expect(revealQuizAnswer(room.id)).toBeNull();
+
+      startQuizSession(room.id, 'quiz-1');
+      expect(revealQuizAnswer(room.id)?.answerRevealed).toBe(true);
+    });
+
+    test('should advance to the next quiz and finish after the last one', () => {
+      startQuizSession(room.id, 'quiz-1');
+      revealQuizAnswer(room.id);
+
+      const next = advanceQuizSession(room.id);
+      expect(next?.phase).toBe('quiz-active');
+      expect(next?.currentQuizId).toBe('quiz-2');
+      expect(next?.answerRevealed).toBe(false);
+
+      const finished = advanceQuizSession(room.id);
+      expect(finished?.phase).toBe('quiz-finished');
+    });
+
+    test('should keep the time limit the game was started with', () => {
+      startQuizSession(room.id, 'quiz-1', 45);
+
+      const next = advanceQuizSession(room.id);
+
+      expect(next?.timeLimit).toBe(45);
+      expect(next?.deadline).toBeGreaterThan(Date.now() + 44_000);
+    });
+
+    test('should not advance from the lobby', () => {
+      expect(advanceQuizSession(room.id)).toBeNull();
+    });
+
+    test('should return to the lobby when ended', () => {
+      startQuizSession(room.id, 'quiz-1');
+      recordBuzz(room.id, playerId);
+
+      const session = endQuizSession(room.id);
+
+      expect(session?.phase).toBe('lobby');
+      expect(session?.buzzQueue).toEqual([]);
+    });
+
+    test('should drop a leaving user from the buzz queue', () => {
+      startQuizSession(room.id, 'quiz-1');
+      recordBuzz(room.id, playerId);
+      recordAnswer(room.id, playerId, 'A1');
+      recordBuzz(room.id, otherPlayerId);
+
+      leaveRoom(room.id, playerId);
+
+      const session = getGameSession(room.id);
+      expect(session?.buzzQueue.map(entry => entry.userId)).toEqual([otherPlayerId]);
+      expect(session?.pendingAnswer).toBeNull();
+    });
+  });
+
+  describe('Choice Quiz', () => {
+    let room: Room;
+    let playerId: string;
+    let otherPlayerId: string;
+
+    beforeEach(() => {
+      resetRoomState();
+      room = createRoom('Choice Room', true, 8, 'Host User');
+      room.quizzes.push(
+        { id: 'choice-1', type: 'choice', question: 'Capital of Japan?', answer: 'Tokyo', choices: ['Osaka', 'Tokyo', 'Kyoto'] },
+        { id: 'text-1', type: 'text', question: 'Q1?', answer: 'A1' },
+      );
+      playerId = joinRoom(room.id, 'Player')!.user.id;
+      otherPlayerId = joinRoom(room.id, 'Other Player')!.user.id;
+    });
+
+    test('should record one pick per player', () => {
+      startQuizSession(room.id, 'choice-1');
+
+      recordChoice(room.id, playerId, 1, 1000);
+
+      expect(recordChoice(room.id, playerId, 0)).toBeNull();
+      expect(getGameSession(room.id)?.choiceSubmissions).toEqual([
+        { userId: playerId, choiceIndex: 1, receivedAt: 1000 },
+      ]);
+    });
+
+    test('should reject picks outside the choices', () => {
+      startQuizSession(room.id, 'choice-1');
+
+      expect(recordChoice(room.id, playerId, 3)).toBeNull();
+      expect(recordChoice(room.id, playerId, -1)).toBeNull();
+      expect(recordChoice(room.id, playerId, 0.5)).toBeNull();
+    });
+
+    test('should reject picks from the host', () => {
+      startQuizSession(room.id, 'choice-1');
+      expect(recordChoice(room.id, room.hostId, 1)).toBeNull();
+    });
+
+    test('should reject picks for non-choice quizzes', () => {
+      startQuizSession(room.id, 'text-1');
+      expect(recordChoice(room.id, playerId, 0)).toBeNull();
+    });
+
+    test('should reject buzzes for choice quizzes', () => {
+      startQuizSession(room.id, 'choice-1');
+      expect(recordBuzz(room.id, playerId)).toBeNull();
+    });
+
+    test('should score every pick and store the distribution when closed', () => {
+      startQuizSession(room.id, 'choice-1');
+      recordChoice(room.id, playerId, 1);
+      recordChoice(room.id, otherPlayerId, 0);
+
+      const session = closeChoiceQuiz(room.id);
+
+      expect(session?.phase).toBe('quiz-answered');
+      expect(session?.answerRevealed).toBe(true);
+      expect(session?.choiceDistribution).toEqual([1, 1, 0]);
+      expect(session?.judgments).toEqual([
+        expect.objectContaining({ userId: playerId, answer: 'Tokyo', isCorrect: true, score: 10 }),
+        expect.objectContaining({ userId: otherPlayerId, answer: 'Osaka', isCorrect: false, score: 0 }),
+      ]);
+    });
+
+    test('should score picks when time expires', () => {
+      startQuizSession(room.id, 'choice-1', 30);
+      recordChoice(room.id, playerId, 1);
+
+      const session = expireQuizSession(room.id);
+
+      expect(session?.choiceDistribution).toEqual([0, 1, 0]);
+      expect(session?.judgments).toHaveLength(1);
+    });
+
+    test('should not close a quiz twice', () => {
+      startQuizSession(room.id, 'choice-1');
+      closeChoiceQuiz(room.id);
+
+      expect(closeChoiceQuiz(room.id)).toBeNull();
+    });
+
+    test('should clear picks when the next quiz starts', () => {
+      startQuizSession(room.id, 'choice-1');
+      recordChoice(room.id, playerId, 1);
+      closeChoiceQuiz(room.id);
+
+      const session = advanceQuizSession(room.id);
+
+      expect(session?.choiceSubmissions).toEqual([]);
+      expect(session?.choiceDistribution).toBeNull();
+    });
+  });
+
+  describe('Scoreboard', () => {
+    let room: Room;
+    let playerId: string;
+
+    beforeEach(() => {
+      resetRoomState();
+      room = createRoom('Score Room', true, 8, 'Host User');
+      room.quizzes.push({ id: 'quiz-1', type: 'text', question: 'Q1?', answer: 'A1' });
+      playerId = joinRoom(room.id, 'Player')!.user.id;
+    });
+
+    test('should start with an empty scoreboard', () => {
+      expect(getScores(room.id)).toEqual([]);
+    });
+
+    test('should accumulate points per user', () => {
+      addScore(room.id, playerId, 10);
+      addScore(room.id, playerId, 5);
+      addScore(room.id, room.hostId, 0);
+
+      expect(getScores(room.id)).toEqual([
+        { userId: playerId, score: 15 },
+        { userId: room.hostId, score: 0 },
+      ]);
+    });
+
+    test('should return null for a non-existent room', () => {
+      expect(addScore('non-existent-id', playerId, 10)).toBeNull();
+      expect(getScores('non-existent-id')).toEqual([]);
+    });
+
+    test('should keep scores between quizzes of the same game', () => {
+      startQuizSession(room.id, 'quiz-1');
+      addScore(room.id, playerId, 10);
+
+      startQuizSession(room.id, 'quiz-1');
+
+      expect(getScores(room.id)).toEqual([{ userId: playerId, score: 10 }]);
+    });
+
+    test('should clear scores when a new game starts from the lobby', () => {
+      startQuizSession(room.id, 'quiz-1');
+      addScore(room.id, playerId, 10);
+      endQuizSession(room.id);
+
+      startQuizSession(room.id, 'quiz-1');
+
+      expect(getScores(room.id)).toEqual([]);
+    });
+  });
+
+  describe('Quiz set', () => {
+    const quiz = { id: 'quiz-1', type: 'text' as const, question: 'Q1', answer: 'A1' };
+
+    test('should add and remove quizzes', () => {
+      expect(addQuizToRoom(testRoom.id, quiz)?.quizzes).toEqual([quiz]);
+      expect(removeQuizFromRoom(testRoom.id, 'quiz-1')?.quizzes).toEqual([]);
+    });
+
+    test('should return null for a non-existent room or quiz', () => {
+      expect(addQuizToRoom('non-existent-id', quiz)).toBeNull();
+      expect(removeQuizFromRoom(testRoom.id, 'non-existent-quiz')).toBeNull();
+    });
+  });
+
+  describe('Room persistence', () => {
+    test('should write room changes through to the store', () => {
+      const store = createMemoryRoomStore();
+      setRoomStore(store);
+
+      const room = createRoom('Stored Room', false, 8, 'Host');
+      setRoomPassword(room.id, 'hunter2');
+      addQuizToRoom(room.id, { id: 'quiz-1', type: 'text', question: 'Q1', answer: 'A1' });
+      addScore(room.id, room.hostId, 5);
+
+      const [record] = store.load();
+      expect(record.room.name).toBe('Stored Room');
+      expect(record.room.quizzes).toHaveLength(1);
+      expect(record.scores).toEqual([{ userId: room.hostId, score: 5 }]);
+      expect(record.passwordHash).toEqual(expect.any(String));
+      expect(record.passwordHash).not.toContain('hunter2');
+    });
+
+    test('should restore rooms, scores and passwords from the store', () => {
+      const store = createMemoryRoomStore();
+      setRoomStore(store);
+      const room = createRoom('Stored Room', false, 8, 'Host');
+      const player = joinRoom(room.id, 'Player')!.user;
+      setRoomPassword(room.id, 'hunter2');
+      addScore(room.id, player.id, 10);
+
+      // Simulate a restart
+      resetRoomState();
+      expect(setRoomStore(store)).toBe(1);
+
+      const restored = getRoom(room.id)!;
+      expect(restored.name).toBe('Stored Room');
+      expect(restored.joinCode).toBe(room.joinCode);
+      expect(getScores(room.id)).toEqual([{ userId: player.id, score: 10 }]);
+      expect(isRoomPasswordValid(room.id, 'hunter2')).toBe(true);
+      expect(isRoomPasswordValid(room.id, 'wrong')).toBe(false);
+      expect(getGameSession(room.id)?.phase).toBe('lobby');
+    });
+
+    test('should restore the host as away and keep the host role for them', () => {
+      const store = createMemoryRoomStore();
+      setRoomStore(store);
+      const room = createRoom('Stored Room', true, 8, 'Host');
+      joinRoom(room.id, 'Player');
+
+      resetRoomState();
+      setRoomStore(store);
+
+      expect(getRoom(room.id)?.users).toEqual([expect.objectContaining({ id: room.hostId, isHost: true, isAway: true })]);
+      expect(getEmptyRoomsCount()).toBe(0);
+
+      const stranger = joinRoom(room.id, 'Stranger');
+      expect(stranger?.user.isHost).toBe(false);
+      expect(getRoom(room.id)?.hostId).toBe(room.hostId);
+
+      const result = joinRoom(room.id, 'Host', room.hostId);
+      expect(result?.user.isHost).toBe(true);
+    });
+
+    test('should restore rooms without their host empty', () => {
+      const store = createMemoryRoomStore();
+      setRoomStore(store);
+      const room = createRoom('Stored Room', true, 8, 'Host');
+      leaveRoom(room.id, room.hostId);
+
+      resetRoomState();
+      setRoomStore(store);
+
+      expect(getRoom(room.id)?.users).toEqual([]);
+      expect(getEmptyRoomsCount()).toBe(1);
+    });
+
+    test('should remove cleaned up rooms from the store', () => {
+      const store = createMemoryRoomStore();
+      setRoomStore(store);
+      const room = createRoom('Stored Room', true, 8, 'Host');
+      leaveRoom(room.id, room.hostId);
+
+      cleanupAbandonedRooms(-1);
+
+      expect(store.load()).toEqual([]);
+    });
+
+    test('should snapshot in-memory rooms into a store for the next start', () => {
+      const room = createRoom('Snapshot Room', true, 8, 'Host');
+      addScore(room.id, room.hostId, 20);
+      const snapshot = createMemoryRoomStore();
+      snapshot.save({ room: { ...room, id: 'stale-room' }, scores: [] });
+
+      expect(snapshotRooms(snapshot)).toBe(getAllRooms().length);
+      const snapshotIds = snapshot.load().map(record => record.room.id);
+      expect(snapshotIds).toContain(room.id);
+      expect(snapshotIds).not.toContain('stale-room');
+
+      resetRoomState();
+      setRoomStore(snapshot);
+      expect(getRoom(room.id)?.name).toBe('Snapshot Room');
+      expect(getScores(room.id)).toEqual([{ userId: room.hostId, score: 20 }]);
+    });
+  });
+
+  describe('Room change listener', () => {
+    afterEach(() => {
+      setRoomChangeListener(null);
+    });
+
+    test('should report saved and deleted rooms', () => {
+      const changes: RoomChange[] = [];
+      setRoomChangeListener(change => changes.push(change));
+
+      const room = createRoom('Watched Room', true, 8, 'Host');
+      leaveRoom(room.id, room.hostId);
+      cleanupAbandonedRooms(-1);
+
+      expect(changes[0]).toMatchObject({ type: 'saved', room: { id: room.id } });
+      expect(changes.at(-1)).toEqual({ type: 'deleted', roomId: room.id });
+    });
+
+    test('should report rooms that start or stop playing', () => {
+      const room = createRoom('Watched Room', true, 8, 'Host');
+      addQuizToRoom(room.id, { id: 'quiz-1', type: 'text', question: 'Q1', answer: 'A1' });
+      const listener = vi.fn();
+      setRoomChangeListener(listener);
+
+      startQuizSession(room.id, 'quiz-1');
+      expect(listener).toHaveBeenLastCalledWith({ type: 'saved', room });
+
+      listener.mockClear();
+      endQuizSession(room.id);
+      expect(listener).toHaveBeenCalledWith({ type: 'saved', room });
+    });
+
+    test('should stop reporting once cleared', () => {
+      const listener = vi.fn();
+      setRoomChangeListener(listener);
+      setRoomChangeListener(null);
+
+      createRoom('Quiet Room', true, 8, 'Host');
+
+      expect(listener).not.toHaveBeenCalled();
+    });
+  });
+});
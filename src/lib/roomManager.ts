@@ -3,14 +3,27 @@
  * - Room creation, joining, leaving
  * - User management within rooms
  * - Host transfer functionality
+ * - Server-authoritative quiz session state
+ * - Per-room scoreboard
+ * - Join codes and passwords for private rooms
+ * - Write-through persistence via a pluggable RoomStore
+ * - Searchable, paged room summaries for the lobby
  */
 
 import { v4 as uuidv4 } from 'uuid';
-import type { Room, User } from '../types';
-import { getRandomQuizzes } from '../data/mockQuizzes';
+import type { Room, User, Quiz, GameSession, Score, AutoJudgeSettings, RoomSummary, RoomStatus, RoomListQuery, RoomListPage } from '../types';
+import { getDeck, copyDeckQuizzes, DEMO_DECK_ID } from './deckManager';
+import { createMemoryRoomStore, type RoomStore, type StoredRoom } from './roomStore';
+import { hashPassword, verifyPassword } from './passwordHash';
+import { createLogger } from './logger';
 
 /**
- * In-memory storage for rooms (in production, this would be a database)
+ * Log of room changes
+ */
+const log = createLogger('roomManager');
+
+/**
+ * Working set of rooms; every change is also written to roomStore
  */
 const rooms = new Map<string, Room>();
 
@@ -19,18 +32,163 @@ const rooms = new Map<string, Room>();
  */
 const emptyRoomTimestamps = new Map<string, number>();
 
+/**
+ * When each room last saw activity (a change or a command from a member), for idle cleanup
+ */
+const roomActivity = new Map<string, number>();
+
+/**
+ * Quiz session state for each room, keyed by room ID
+ */
+const gameSessions = new Map<string, GameSession>();
+
+/**
+ * Scoreboard for each room, keyed by room ID
+ */
+const roomScores = new Map<string, Score[]>();
+
+/**
+ * Salted hashes of the join passwords for rooms that have one, keyed by room ID (never sent to clients)
+ */
+const roomPasswords = new Map<string, string>();
+
+/**
+ * Where rooms are persisted; game sessions are not persisted and restart in the lobby
+ */
+let roomStore: RoomStore = createMemoryRoomStore();
+
+/**
+ * A room was written (created or changed), started or stopped playing, or was removed
+ */
+export type RoomChange = { type: 'saved'; room: Room } | { type: 'deleted'; roomId: string };
+
+/**
+ * Told about every room change, e.g. to keep the lobby up to date
+ */
+let roomChangeListener: ((change: RoomChange) => void) | null = null;
+
+/**
+ * Room defaults the server can override with configureRooms
+ * @property defaultMaxPlayers - Player cap of rooms created without one
+ * @property defaultMaxSpectators - Spectator cap of new rooms
+ * @property correctAnswerScore - Points for a correct pick in a choice quiz
+ * @property maxEmptyMs - How long cleanupAbandonedRooms lets a room stay empty
+ */
+export type RoomSettings = {
+  defaultMaxPlayers: number;
+  defaultMaxSpectators: number;
+  correctAnswerScore: number;
+  maxEmptyMs: number;
+};
+
+/**
+ * Room defaults used until the server configures its own
+ */
+export const DEFAULT_ROOM_SETTINGS: RoomSettings = {
+  defaultMaxPlayers: 8,
+  defaultMaxSpectators: 20,
+  correctAnswerScore: 10,
+  maxEmptyMs: 30 * 60 * 1000,
+};
+
+/**
+ * Room defaults in effect
+ */
+let roomSettings: RoomSettings = { ...DEFAULT_ROOM_SETTINGS };
+
+/**
+ * Collects everything stored about a room
+ * @param room - Room to store
+ * @returns The room's store record
+ */
+function toStoredRoom(room: Room): StoredRoom {
+  return {
+    room,
+    scores: roomScores.get(room.id) || [],
+    passwordHash: roomPasswords.get(room.id),
+    emptySince: emptyRoomTimestamps.get(room.id),
+  };
+}
+
+/**
+ * Writes a room's current state to the store
+ * @param roomId - Room ID
+ */
+function persistRoom(roomId: string): void {
+  const room = rooms.get(roomId);
+  if (!room) {
+    return;
+  }
+  roomStore.save(toStoredRoom(room));
+  roomActivity.set(roomId, Date.now());
+  roomChangeListener?.({ type: 'saved', room });
+}
+
+/**
+ * Tells the room change listener about a change that isn't persisted, such as the game phase
+ * @param roomId - Room ID
+ */
+function announceRoom(roomId: string): void {
+  const room = rooms.get(roomId);
+  if (room) {
+    roomActivity.set(roomId, Date.now());
+    roomChangeListener?.({ type: 'saved', room });
+  }
+}
+
+/**
+ * Removes a room and everything tracked for it, including its stored copy
+ * @param roomId - Room ID
+ */
+function deleteRoomState(roomId: string): void {
+  rooms.delete(roomId);
+  emptyRoomTimestamps.delete(roomId);
+  roomActivity.delete(roomId);
+  gameSessions.delete(roomId);
+  roomScores.delete(roomId);
+  roomPasswords.delete(roomId);
+  roomStore.delete(roomId);
+  roomChangeListener?.({ type: 'deleted', roomId });
+}
+
+/**
+ * Characters used in join codes, leaving out look-alikes such as 0/O and 1/I
+ */
+const JOIN_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+/**
+ * Number of characters in a join code
+ */
+const JOIN_CODE_LENGTH = 6;
+
+/**
+ * Generates a join code that no other room is using
+ * @returns A short, human-friendly join code
+ */
+function generateJoinCode(): string {
+  const inUse = new Set(Array.from(rooms.values()).map(room => room.joinCode));
+  let code: string;
+  do {
+    code = Array.from(
+      { length: JOIN_CODE_LENGTH },
+      () => JOIN_CODE_ALPHABET[Math.floor(Math.random() * JOIN_CODE_ALPHABET.length)]
+    ).join('');
+  } while (inUse.has(code));
+  return code;
+}
+
 /**
  * Creates a new room with the specified parameters
  * @param name - Room name
  * @param isPublic - Whether the room is public
- * @param maxPlayers - Maximum number of players (default: 8)
+ * @param maxPlayers - Maximum number of players (default: the configured default)
  * @param hostName - Name of the host user
  * @returns The created room
  */
 export function createRoom(
   name: string,
   isPublic: boolean,
-  maxPlayers: number = 8,
+  maxPlayers: number = roomSettings.defaultMaxPlayers,
   hostName: string
 ): Room {
   const roomId = uuidv4();
@@ -50,10 +208,16 @@ export function createRoom(
     quizzes: [],
     hostId,
     maxPlayers,
+    maxSpectators: roomSettings.defaultMaxSpectators,
     createdAt: Date.now(),
   };
 
+  if (!isPublic) {
+    room.joinCode = generateJoinCode();
+  }
+
   rooms.set(roomId, room);
+  persistRoom(roomId);
   return room;
 }
 
@@ -61,7 +225,7 @@ export function createRoom(
  * Creates a new room with a specific host user ID
  * @param name - Room name
  * @param isPublic - Whether the room is public
- * @param maxPlayers - Maximum number of players (default: 8)
+ * @param maxPlayers - Maximum number of players (default: the configured default)
  * @param hostName - Name of the host user
  * @param hostId - Specific host user ID to use
  * @returns The created room
@@ -69,7 +233,7 @@ export function createRoom(
 export function createRoomWithHost(
   name: string,
   isPublic: boolean,
-  maxPlayers: number = 8,
+  maxPlayers: number = roomSettings.defaultMaxPlayers,
   hostName: string,
   hostId: string
 ): Room {
@@ -89,27 +253,58 @@ export function createRoomWithHost(
     quizzes: [],
     hostId,
     maxPlayers,
+    maxSpectators: roomSettings.defaultMaxSpectators,
     createdAt: Date.now(),
   };
 
+  if (!isPublic) {
+    room.joinCode = generateJoinCode();
+  }
+
   rooms.set(roomId, room);
+  persistRoom(roomId);
   return room;
 }
 
+/**
+ * Players of a room, leaving out its spectators
+ * @param room - Room
+ * @returns Users who play (and may host)
+ */
+export function getPlayers(room: Room): User[] {
+  return room.users.filter(user => !user.isSpectator);
+}
+
+/**
+ * Whether a room has a free player slot or spectator seat
+ * @param room - Room
+ * @param asSpectator - Check spectator seats instead of player slots
+ * @returns True if one more user of that kind fits
+ */
+export function hasRoomFor(room: Room, asSpectator: boolean = false): boolean {
+  const playerCount = getPlayers(room).length;
+  if (asSpectator) {
+    return room.users.length - playerCount < (room.maxSpectators ?? roomSettings.defaultMaxSpectators);
+  }
+  return playerCount < room.maxPlayers;
+}
+
 /**
  * Joins a user to an existing room
+ * Spectators have their own cap and don't take player slots.
  * @param roomId - Room ID to join
  * @param userName - Name of the user joining
  * @param userId - Optional existing user ID to reuse
+ * @param asSpectator - Join to watch rather than play
  * @returns The room and user if successful, null if room is full or doesn't exist
  */
-export function joinRoom(roomId: string, userName: string, userId?: string): { room: Room; user: User } | null {
+export function joinRoom(roomId: string, userName: string, userId?: string, asSpectator: boolean = false): { room: Room; user: User } | null {
   const room = rooms.get(roomId);
   if (!room) {
     return null;
   }
 
-  if (room.users.length >= room.maxPlayers) {
+  if (userId && isUserBanned(roomId, userId)) {
     return null;
   }
 
@@ -120,31 +315,41 @@ export function joinRoom(roomId: string, userName: string, userId?: string): { r
       // Update user name if it has changed
       if (existingUser.name !== userName) {
         existingUser.name = userName;
+        persistRoom(roomId);
       }
-      console.log(`User ${userName} (${userId}) already exists in room, returning existing user`);
+      log.debug('User already in room', { roomId, userId });
       return { room, user: existingUser };
     }
   }
 
-  // Special handling for original host returning to empty room
-  const isOriginalHostReturning = Boolean(userId && room.hostId === userId && room.users.length === 0);
+  if (!hasRoomFor(room, asSpectator)) {
+    return null;
+  }
+
+  // The first player in a room without players hosts it (usually the original host returning)
+  const isTakingOver = !asSpectator && getPlayers(room).length === 0;
   
   const user: User = {
     id: userId || uuidv4(),
     name: userName,
-    isHost: isOriginalHostReturning, // Restore host status if original host is returning
+    isHost: isTakingOver,
   };
+  if (asSpectator) {
+    user.isSpectator = true;
+  }
 
   room.users.push(user);
+  // The room is in use again, so it is no longer up for cleanup
+  emptyRoomTimestamps.delete(roomId);
   
-  if (isOriginalHostReturning) {
-    // Clear empty room timestamp when host returns
-    emptyRoomTimestamps.delete(roomId);
-    console.log(`Original host ${userName} (${userId}) returned to empty room, restoring host status`);
+  if (isTakingOver) {
+    room.hostId = user.id;
+    log.info('User took over room without players', { roomId, userId: user.id });
   } else {
-    console.log(`New user ${userName} (${user.id}) added to room`);
+    log.debug('User added to room', { roomId, userId: user.id, isSpectator: asSpectator });
   }
-  
+
+  persistRoom(roomId);
   return { room, user };
 }
 
@@ -168,26 +373,57 @@ export function leaveRoom(roomId: string, userId: string): Room | null {
   const isHostLeaving = room.hostId === userId;
   room.users.splice(userIndex, 1);
 
-  // If the host left and there are other users, transfer host to the first user
-  if (isHostLeaving && room.users.length > 0) {
-    room.hostId = room.users[0].id;
-    room.users[0].isHost = true;
+  // Drop the leaving user from the current quiz so nobody waits on them
+  const session = gameSessions.get(roomId);
+  if (session) {
+    session.buzzQueue = session.buzzQueue.filter(entry => entry.userId !== userId);
+    if (session.pendingAnswer?.userId === userId) {
+      session.pendingAnswer = null;
+    }
   }
 
-  // Special handling for host leaving empty room - keep room for host to return
-  if (room.users.length === 0 && isHostLeaving) {
-    // Track when room becomes empty for potential cleanup
-    emptyRoomTimestamps.set(roomId, Date.now());
-    console.log(`Host left empty room ${roomId}, preserving room for potential return`);
-    return room; // Return the empty room instead of deleting it
+  // If the host left, transfer host to the first connected player; spectators never host
+  const players = getPlayers(room);
+  const newHost = players.find(user => !user.isAway) ?? players[0];
+  if (isHostLeaving && newHost) {
+    room.hostId = newHost.id;
+    newHost.isHost = true;
   }
-  
-  // If no users left and it's not a host leaving (edge case), delete the room
+
+  // Keep an empty room so its members can return; cleanup deletes it once abandoned
   if (room.users.length === 0) {
-    rooms.delete(roomId);
+    emptyRoomTimestamps.set(roomId, Date.now());
+    persistRoom(roomId);
+    log.info('Last user left room, keeping it until it is abandoned', { roomId });
+    return room;
+  }
+
+  persistRoom(roomId);
+  return room;
+}
+
+/**
+ * Marks a user as away (disconnected but expected back) or as connected again
+ * Away users keep their place, scores, buzz and host role until they are removed.
+ * @param roomId - Room ID
+ * @param userId - User ID
+ * @param isAway - Whether the user is away
+ * @returns The updated room if successful, null if room or user doesn't exist
+ */
+export function setUserAway(roomId: string, userId: string, isAway: boolean): Room | null {
+  const room = rooms.get(roomId);
+  const user = room?.users.find(u => u.id === userId);
+  if (!room || !user) {
     return null;
   }
 
+  if (isAway) {
+    user.isAway = true;
+  } else {
+    delete user.isAway;
+  }
+
+  persistRoom(roomId);
   return room;
 }
 
@@ -195,7 +431,7 @@ export function leaveRoom(roomId: string, userId: string): Room | null {
  * Transfers host role to another user
  * @param roomId - Room ID
  * @param newHostId - New host user ID
- * @returns The updated room if successful, null if room or user doesn't exist
+ * @returns The updated room if successful, null if room or user doesn't exist or the user is a spectator
  */
 export function transferHost(roomId: string, newHostId: string): Room | null {
   const room = rooms.get(roomId);
@@ -204,7 +440,7 @@ export function transferHost(roomId: string, newHostId: string): Room | null {
   }
 
   const newHost = room.users.find(user => user.id === newHostId);
-  if (!newHost) {
+  if (!newHost || newHost.isSpectator) {
     return null;
   }
 
@@ -218,6 +454,7 @@ export function transferHost(roomId: string, newHostId: string): Room | null {
   newHost.isHost = true;
   room.hostId = newHostId;
 
+  persistRoom(roomId);
   return room;
 }
 
@@ -229,7 +466,7 @@ export function transferHost(roomId: string, newHostId: string): Room | null {
  */
 export function updateRoom(
   roomId: string,
-  updates: { name?: string; isPublic?: boolean }
+  updates: { name?: string; isPublic?: boolean; autoJudge?: AutoJudgeSettings; tags?: string[] }
 ): Room | null {
   const room = rooms.get(roomId);
   if (!room) {
@@ -241,11 +478,157 @@ export function updateRoom(
   }
   if (updates.isPublic !== undefined) {
     room.isPublic = updates.isPublic;
+    // Only private rooms need a code and password; keep an existing code so shared codes stay valid
+    if (room.isPublic) {
+      delete room.joinCode;
+      roomPasswords.delete(roomId);
+      delete room.hasPassword;
+    } else if (!room.joinCode) {
+      room.joinCode = generateJoinCode();
+    }
+  }
+  if (updates.autoJudge !== undefined) {
+    room.autoJudge = updates.autoJudge;
+  }
+  if (updates.tags !== undefined) {
+    room.tags = updates.tags;
+  }
+
+  persistRoom(roomId);
+  return room;
+}
+
+/**
+ * Adds a quiz to the end of a room's quiz set
+ * @param roomId - Room ID
+ * @param quiz - Quiz to add
+ * @returns The updated room if successful, null if room doesn't exist
+ */
+export function addQuizToRoom(roomId: string, quiz: Quiz): Room | null {
+  const room = rooms.get(roomId);
+  if (!room) {
+    return null;
   }
 
+  room.quizzes.push(quiz);
+  persistRoom(roomId);
   return room;
 }
 
+/**
+ * Removes a quiz from a room's quiz set
+ * @param roomId - Room ID
+ * @param quizId - Quiz ID to remove
+ * @returns The updated room if successful, null if room or quiz doesn't exist
+ */
+export function removeQuizFromRoom(roomId: string, quizId: string): Room | null {
+  const room = rooms.get(roomId);
+  if (!room) {
+    return null;
+  }
+
+  const quizIndex = room.quizzes.findIndex(quiz => quiz.id === quizId);
+  if (quizIndex === -1) {
+    return null;
+  }
+
+  room.quizzes.splice(quizIndex, 1);
+  persistRoom(roomId);
+  return room;
+}
+
+/**
+ * Replaces a room's whole quiz set
+ * @param roomId - Room ID
+ * @param quizzes - New quiz set
+ * @returns The updated room if successful, null if room doesn't exist
+ */
+export function setRoomQuizzes(roomId: string, quizzes: Quiz[]): Room | null {
+  const room = rooms.get(roomId);
+  if (!room) {
+    return null;
+  }
+
+  room.quizzes = quizzes;
+  persistRoom(roomId);
+  return room;
+}
+
+/**
+ * Sets or clears the password needed to join a room
+ * @param roomId - Room ID
+ * @param password - New password; an empty value removes the password
+ * @returns The updated room if successful, null if room doesn't exist
+ */
+export function setRoomPassword(roomId: string, password?: string): Room | null {
+  const room = rooms.get(roomId);
+  if (!room) {
+    return null;
+  }
+
+  if (password) {
+    roomPasswords.set(roomId, hashPassword(password));
+    room.hasPassword = true;
+  } else {
+    roomPasswords.delete(roomId);
+    delete room.hasPassword;
+  }
+
+  persistRoom(roomId);
+  return room;
+}
+
+/**
+ * Finds a room by its join code
+ * @param code - Join code, case-insensitive
+ * @returns The room if a room uses the code, null otherwise
+ */
+export function findRoomByJoinCode(code: string): Room | null {
+  const normalized = code.trim().toUpperCase();
+  if (!normalized) {
+    return null;
+  }
+  return Array.from(rooms.values()).find(room => room.joinCode === normalized) || null;
+}
+
+/**
+ * Checks whether a join code lets a new user into a room
+ * @param roomId - Room ID
+ * @param code - Join code supplied by the user
+ * @returns True for public rooms, or when the code matches the private room's code
+ */
+export function isJoinCodeValid(roomId: string, code?: string): boolean {
+  const room = rooms.get(roomId);
+  if (!room) {
+    return false;
+  }
+  if (room.isPublic) {
+    return true;
+  }
+  return Boolean(code && room.joinCode === code.trim().toUpperCase());
+}
+
+/**
+ * Checks a password against the room's password
+ * @param roomId - Room ID
+ * @param password - Password supplied by the user
+ * @returns True when the room has no password or the password matches
+ */
+export function isRoomPasswordValid(roomId: string, password?: string): boolean {
+  const hash = roomPasswords.get(roomId);
+  return hash === undefined || (password !== undefined && verifyPassword(password, hash));
+}
+
+/**
+ * Checks whether the host has banned a user from the room
+ * @param roomId - Room ID
+ * @param userId - User ID
+ * @returns True if the user may not join the room
+ */
+export function isUserBanned(roomId: string, userId: string): boolean {
+  return rooms.get(roomId)?.bannedUserIds?.includes(userId) ?? false;
+}
+
 /**
  * Gets a list of public rooms
  * @returns Array of public rooms
@@ -254,6 +637,95 @@ export function getPublicRooms(): Room[] {
   return Array.from(rooms.values()).filter(room => room.isPublic);
 }
 
+/**
+ * Gets every room, public or private
+ * @returns Array of all rooms
+ */
+export function getAllRooms(): Room[] {
+  return Array.from(rooms.values());
+}
+
+/**
+ * Default number of rooms per lobby page
+ */
+export const DEFAULT_ROOM_PAGE_SIZE = 12;
+
+/**
+ * Describes a room the way the lobby shows it
+ * @param room - Room to describe
+ * @returns The room's summary
+ */
+export function toRoomSummary(room: Room): RoomSummary {
+  return {
+    id: room.id,
+    name: room.name,
+    hostName: room.users.find(user => user.id === room.hostId)?.name ?? null,
+    playerCount: getPlayers(room).length,
+    maxPlayers: room.maxPlayers,
+    quizCount: room.quizzes.length,
+    status: getRoomStatus(room.id),
+    tags: room.tags ?? [],
+  };
+}
+
+/**
+ * Gets whether a room is playing, without creating a session for it
+ * @param roomId - Room ID
+ * @returns The room's lobby status
+ */
+function getRoomStatus(roomId: string): RoomStatus {
+  switch (gameSessions.get(roomId)?.phase) {
+    case 'quiz-active':
+    case 'quiz-answered':
+      return 'playing';
+    case 'quiz-finished':
+      return 'finished';
+    default:
+      return 'waiting';
+  }
+}
+
+/**
+ * Searches, sorts and pages the public rooms
+ * @param query - Search, sort and page options
+ * @returns The requested page of room summaries
+ */
+export function listPublicRooms(query: RoomListQuery = {}): RoomListPage {
+  const { sortBy = 'createdAt', sortOrder = 'asc', page = 1, pageSize = DEFAULT_ROOM_PAGE_SIZE } = query;
+  const search = query.search?.trim().toLowerCase();
+
+  let summaries = getPublicRooms().map(room => ({ room, summary: toRoomSummary(room) }));
+  if (search) {
+    summaries = summaries.filter(({ summary }) =>
+      [summary.name, summary.hostName ?? '', ...summary.tags].some(text => text.toLowerCase().includes(search))
+    );
+  }
+
+  summaries.sort((a, b) => {
+    let compareValue = 0;
+    switch (sortBy) {
+      case 'name':
+        compareValue = a.summary.name.localeCompare(b.summary.name);
+        break;
+      case 'playerCount':
+        compareValue = a.summary.playerCount - b.summary.playerCount;
+        break;
+      case 'createdAt':
+        compareValue = a.room.createdAt - b.room.createdAt;
+        break;
+    }
+    return sortOrder === 'asc' ? compareValue : -compareValue;
+  });
+
+  const start = (page - 1) * pageSize;
+  return {
+    rooms: summaries.slice(start, start + pageSize).map(({ summary }) => summary),
+    total: summaries.length,
+    page,
+    pageSize,
+  };
+}
+
 /**
  * Gets a room by ID
  * @param roomId - Room ID
@@ -263,6 +735,44 @@ export function getRoom(roomId: string): Room | null {
   return rooms.get(roomId) || null;
 }
 
+/**
+ * Moves a spectator into a free player slot
+ * @param roomId - Room ID
+ * @param userId - Spectator's user ID
+ * @returns The updated room if successful, null if the room or spectator doesn't exist or every player slot is taken
+ */
+export function promoteSpectator(roomId: string, userId: string): Room | null {
+  const room = rooms.get(roomId);
+  const spectator = room?.users.find(user => user.id === userId && user.isSpectator);
+  if (!room || !spectator || !hasRoomFor(room)) {
+    return null;
+  }
+
+  delete spectator.isSpectator;
+  persistRoom(roomId);
+  return room;
+}
+
+/**
+ * Bans a user from a room so they can't join it again
+ * The user is not removed here; the caller removes them if they are in the room.
+ * @param roomId - Room ID
+ * @param userId - User ID
+ * @returns The updated room if successful, null if the room doesn't exist
+ */
+export function banUser(roomId: string, userId: string): Room | null {
+  const room = rooms.get(roomId);
+  if (!room) {
+    return null;
+  }
+
+  if (!isUserBanned(roomId, userId)) {
+    room.bannedUserIds = [...(room.bannedUserIds ?? []), userId];
+    persistRoom(roomId);
+  }
+  return room;
+}
+
 /**
  * Gets a user from a room
  * @param roomId - Room ID
@@ -277,20 +787,411 @@ export function getUser(roomId: string, userId: string): User | null {
   return room.users.find(user => user.id === userId) || null;
 }
 
+/**
+ * Creates a session in the lobby phase
+ * @returns A fresh game session
+ */
+function createLobbySession(): GameSession {
+  return {
+    phase: 'lobby',
+    currentQuizIndex: -1,
+    currentQuizId: null,
+    buzzQueue: [],
+    pendingAnswer: null,
+    judgments: [],
+    answerRevealed: false,
+    choiceSubmissions: [],
+    choiceDistribution: null,
+    deadline: null,
+    timeLimit: null,
+  };
+}
+
+/**
+ * Checks whether the current quiz's time limit has passed
+ * @param session - The room's game session
+ * @param now - Timestamp to check against (default: now)
+ * @returns True if the quiz is timed and the deadline has passed
+ */
+function isPastDeadline(session: GameSession, now: number = Date.now()): boolean {
+  return session.deadline !== null && now > session.deadline;
+}
+
+/**
+ * Finds the quiz currently being played in a room
+ * @param room - Room to look in
+ * @param session - The room's game session
+ * @returns The current quiz, or undefined if none is being played
+ */
+function findCurrentQuiz(room: Room, session: GameSession): Quiz | undefined {
+  return room.quizzes.find(quiz => quiz.id === session.currentQuizId);
+}
+
+/**
+ * Gets the quiz session of a room, creating a lobby session if none exists
+ * @param roomId - Room ID
+ * @returns The game session if the room exists, null otherwise
+ */
+export function getGameSession(roomId: string): GameSession | null {
+  if (!rooms.has(roomId)) {
+    return null;
+  }
+
+  let session = gameSessions.get(roomId);
+  if (!session) {
+    session = createLobbySession();
+    gameSessions.set(roomId, session);
+  }
+  return session;
+}
+
+/**
+ * Opens a quiz for buzzing, resetting the buzz queue and judgments
+ * Starting from the lobby or after the last quiz begins a new game and clears the scoreboard
+ * @param roomId - Room ID
+ * @param quizId - Quiz ID to start
+ * @param timeLimit - Seconds until the quiz stops accepting buzzes and answers (untimed if omitted)
+ * @returns The updated session if successful, null if room or quiz doesn't exist
+ */
+export function startQuizSession(roomId: string, quizId: string, timeLimit?: number): GameSession | null {
+  const room = rooms.get(roomId);
+  const session = getGameSession(roomId);
+  if (!room || !session) {
+    return null;
+  }
+
+  const quizIndex = room.quizzes.findIndex(quiz => quiz.id === quizId);
+  if (quizIndex === -1) {
+    return null;
+  }
+
+  if (session.phase === 'lobby' || session.phase === 'quiz-finished') {
+    roomScores.set(roomId, []);
+    persistRoom(roomId);
+  }
+
+  Object.assign(session, createLobbySession(), {
+    phase: 'quiz-active',
+    currentQuizIndex: quizIndex,
+    currentQuizId: quizId,
+    deadline: timeLimit ? Date.now() + timeLimit * 1000 : null,
+    timeLimit: timeLimit || null,
+  });
+  announceRoom(roomId);
+  return session;
+}
+
+/**
+ * Moves the session to the next quiz, or to quiz-finished after the last one
+ * @param roomId - Room ID
+ * @param timeLimit - Time limit in seconds for the next quiz (defaults to the current quiz's time limit)
+ * @returns The updated session if successful, null if no quiz is being played
+ */
+export function advanceQuizSession(roomId: string, timeLimit?: number): GameSession | null {
+  const room = rooms.get(roomId);
+  const session = getGameSession(roomId);
+  if (!room || !session || (session.phase !== 'quiz-active' && session.phase !== 'quiz-answered')) {
+    return null;
+  }
+
+  // Look the quiz up again in case quizzes were removed while it was played
+  const currentIndex = room.quizzes.findIndex(quiz => quiz.id === session.currentQuizId);
+  const nextQuiz = room.quizzes[(currentIndex === -1 ? session.currentQuizIndex : currentIndex) + 1];
+  if (nextQuiz) {
+    return startQuizSession(roomId, nextQuiz.id, timeLimit ?? session.timeLimit ?? undefined);
+  }
+
+  session.phase = 'quiz-finished';
+  session.buzzQueue = [];
+  session.pendingAnswer = null;
+  session.deadline = null;
+  announceRoom(roomId);
+  return session;
+}
+
+/**
+ * Records a buzz for the current (non-choice) quiz
+ * Each player may buzz once per quiz; the queue is ordered by server receive time
+ * @param roomId - Room ID
+ * @param userId - User ID of the buzzing user
+ * @param receivedAt - Server timestamp when the buzz arrived (default: now)
+ * @returns The updated session if accepted, null if out of phase, past the deadline, unknown user, the host or duplicate buzz
+ */
+export function recordBuzz(roomId: string, userId: string, receivedAt: number = Date.now()): GameSession | null {
+  const room = rooms.get(roomId);
+  const session = getGameSession(roomId);
+  // The host runs the quiz, so only other players may take part
+  if (!room || !session || session.phase !== 'quiz-active' || room.hostId === userId || !getPlayers(room).some(user => user.id === userId)) {
+    return null;
+  }
+
+  // Choice quizzes are answered simultaneously, not by buzzing
+  if (findCurrentQuiz(room, session)?.type === 'choice' || isPastDeadline(session, receivedAt)) {
+    return null;
+  }
+
+  if (session.buzzQueue.some(entry => entry.userId === userId)) {
+    return null;
+  }
+
+  session.buzzQueue.push({ userId, receivedAt });
+  return session;
+}
+
+/**
+ * Records a player's pick for the current choice quiz
+ * Each player may pick once per quiz
+ * @param roomId - Room ID
+ * @param userId - User ID of the picking user
+ * @param choiceIndex - Index into the quiz's choices
+ * @param receivedAt - Server timestamp when the pick arrived (default: now)
+ * @returns The updated session if accepted, null if out of phase, past the deadline, the host, not a choice quiz, invalid choice or duplicate pick
+ */
+export function recordChoice(roomId: string, userId: string, choiceIndex: number, receivedAt: number = Date.now()): GameSession | null {
+  const room = rooms.get(roomId);
+  const session = getGameSession(roomId);
+  // The host runs the quiz, so only other players may take part
+  if (!room || !session || session.phase !== 'quiz-active' || room.hostId === userId || !getPlayers(room).some(user => user.id === userId)) {
+    return null;
+  }
+
+  const quiz = findCurrentQuiz(room, session);
+  if (quiz?.type !== 'choice' || !quiz.choices || !Number.isInteger(choiceIndex) || choiceIndex < 0 || choiceIndex >= quiz.choices.length) {
+    return null;
+  }
+
+  if (isPastDeadline(session, receivedAt) || session.choiceSubmissions.some(submission => submission.userId === userId)) {
+    return null;
+  }
+
+  session.choiceSubmissions.push({ userId, choiceIndex, receivedAt });
+  return session;
+}
+
+/**
+ * Scores every pick of the current choice quiz and closes it
+ * Each pick becomes a judgment; the per-choice distribution is stored on the session
+ * @param roomId - Room ID
+ * @param score - Points awarded for a correct pick (default: the configured score)
+ * @returns The updated session if successful, null if no choice quiz is open
+ */
+export function closeChoiceQuiz(roomId: string, score: number = roomSettings.correctAnswerScore): GameSession | null {
+  const room = rooms.get(roomId);
+  const session = getGameSession(roomId);
+  if (!room || !session || session.phase !== 'quiz-active') {
+    return null;
+  }
+
+  const quiz = findCurrentQuiz(room, session);
+  if (quiz?.type !== 'choice' || !quiz.choices) {
+    return null;
+  }
+
+  const choices = quiz.choices;
+  const timestamp = Date.now();
+  session.judgments = session.choiceSubmissions.map(({ userId, choiceIndex }) => {
+    const isCorrect = choices[choiceIndex] === quiz.answer;
+    return {
+      userId,
+      answer: choices[choiceIndex],
+      isCorrect,
+      score: isCorrect ? score : 0,
+      timestamp,
+    };
+  });
+  session.choiceDistribution = choices.map((_, index) =>
+    session.choiceSubmissions.filter(submission => submission.choiceIndex === index).length
+  );
+  session.phase = 'quiz-answered';
+  session.answerRevealed = true;
+  return session;
+}
+
+/**
+ * Closes the current quiz when its time limit runs out
+ * - Choice quizzes are scored as in closeChoiceQuiz
+ * - An answer already awaiting judgment stays open so the host can still judge it
+ * - Otherwise buzzing stops and the correct answer is revealed
+ * @param roomId - Room ID
+ * @returns The updated session if successful, null if no quiz is open
+ */
+export function expireQuizSession(roomId: string): GameSession | null {
+  const room = rooms.get(roomId);
+  const session = getGameSession(roomId);
+  if (!room || !session || session.phase !== 'quiz-active') {
+    return null;
+  }
+
+  if (findCurrentQuiz(room, session)?.type === 'choice') {
+    return closeChoiceQuiz(roomId);
+  }
+
+  if (session.pendingAnswer) {
+    return session;
+  }
+
+  session.buzzQueue = [];
+  session.phase = 'quiz-answered';
+  session.answerRevealed = true;
+  return session;
+}
+
+/**
+ * Records the buzz winner's answer for the current quiz
+ * @param roomId - Room ID
+ * @param userId - User ID of the answering user
+ * @param answer - Submitted answer
+ * @returns The updated session if accepted, null if the user is not first in the buzz queue, an answer is pending or time is up
+ */
+export function recordAnswer(roomId: string, userId: string, answer: string): GameSession | null {
+  const session = getGameSession(roomId);
+  if (!session || session.phase !== 'quiz-active' || session.pendingAnswer || isPastDeadline(session)) {
+    return null;
+  }
+
+  if (session.buzzQueue[0]?.userId !== userId) {
+    return null;
+  }
+
+  session.pendingAnswer = { userId, answer };
+  return session;
+}
+
+/**
+ * Records a judgment of the pending answer and closes the current quiz
+ * @param roomId - Room ID
+ * @param userId - User ID whose answer is judged
+ * @param isCorrect - Whether the answer is correct
+ * @param score - Points awarded
+ * @param isAuto - Whether the server judged the answer automatically (default: false)
+ * @returns The updated session if accepted, null if no answer from that user is pending
+ */
+export function recordJudgment(roomId: string, userId: string, isCorrect: boolean, score: number, isAuto: boolean = false): GameSession | null {
+  const session = getGameSession(roomId);
+  if (!session || session.phase !== 'quiz-active' || session.pendingAnswer?.userId !== userId) {
+    return null;
+  }
+
+  session.judgments.push({
+    userId,
+    answer: session.pendingAnswer.answer,
+    isCorrect,
+    score,
+    timestamp: Date.now(),
+    isAuto,
+  });
+  session.pendingAnswer = null;
+  session.buzzQueue = [];
+  session.phase = 'quiz-answered';
+  return session;
+}
+
+/**
+ * Replaces an automatic judgment of the current quiz with the host's decision
+ * @param roomId - Room ID
+ * @param userId - User ID whose judgment is overridden
+ * @param isCorrect - Whether the answer is correct
+ * @param score - Points awarded
+ * @returns The updated session and the score change to apply, null if there is no automatic judgment to override
+ */
+export function overrideJudgment(
+  roomId: string,
+  userId: string,
+  isCorrect: boolean,
+  score: number
+): { session: GameSession; scoreDelta: number } | null {
+  const session = getGameSession(roomId);
+  if (!session || session.phase !== 'quiz-answered') {
+    return null;
+  }
+
+  const judgment = session.judgments.find(j => j.userId === userId && j.isAuto);
+  if (!judgment) {
+    return null;
+  }
+
+  const scoreDelta = score - judgment.score;
+  Object.assign(judgment, { isCorrect, score, isAuto: false, timestamp: Date.now() });
+  return { session, scoreDelta };
+}
+
+/**
+ * Marks the correct answer of the current quiz as revealed
+ * @param roomId - Room ID
+ * @returns The updated session if successful, null if no quiz is being played
+ */
+export function revealQuizAnswer(roomId: string): GameSession | null {
+  const session = getGameSession(roomId);
+  if (!session || (session.phase !== 'quiz-active' && session.phase !== 'quiz-answered')) {
+    return null;
+  }
+
+  session.answerRevealed = true;
+  return session;
+}
+
+/**
+ * Ends the quiz session and returns the room to the lobby phase
+ * @param roomId - Room ID
+ * @returns The reset session if the room exists, null otherwise
+ */
+export function endQuizSession(roomId: string): GameSession | null {
+  const session = getGameSession(roomId);
+  if (!session) {
+    return null;
+  }
+
+  Object.assign(session, createLobbySession());
+  announceRoom(roomId);
+  return session;
+}
+
+/**
+ * Gets the scoreboard of a room
+ * @param roomId - Room ID
+ * @returns The room's scores (empty if nobody has scored or the room doesn't exist)
+ */
+export function getScores(roomId: string): Score[] {
+  return roomScores.get(roomId) || [];
+}
+
+/**
+ * Adds points to a user's total on the room scoreboard
+ * @param roomId - Room ID
+ * @param userId - User ID
+ * @param points - Points to add
+ * @returns The updated scoreboard if successful, null if the room doesn't exist
+ */
+export function addScore(roomId: string, userId: string, points: number): Score[] | null {
+  if (!rooms.has(roomId)) {
+    return null;
+  }
+
+  const scores = roomScores.get(roomId) || [];
+  const entry = scores.find(score => score.userId === userId);
+  if (entry) {
+    entry.score += points;
+  } else {
+    scores.push({ userId, score: points });
+  }
+  roomScores.set(roomId, scores);
+  persistRoom(roomId);
+  return scores;
+}
+
 /**
  * Cleans up abandoned rooms that have been empty for too long
- * @param maxEmptyDurationMs - Maximum time a room can be empty before cleanup (default: 30 minutes)
+ * @param maxEmptyDurationMs - Maximum time a room can be empty before cleanup (default: the configured window)
  * @returns Number of rooms cleaned up
  */
-export function cleanupAbandonedRooms(maxEmptyDurationMs: number = 30 * 60 * 1000): number {
+export function cleanupAbandonedRooms(maxEmptyDurationMs: number = roomSettings.maxEmptyMs): number {
   const now = Date.now();
   let cleanedCount = 0;
   
   for (const [roomId, timestamp] of emptyRoomTimestamps.entries()) {
     if (now - timestamp > maxEmptyDurationMs) {
-      rooms.delete(roomId);
-      emptyRoomTimestamps.delete(roomId);
-      console.log(`Cleaned up abandoned room ${roomId}`);
+      deleteRoomState(roomId);
+      log.info('Cleaned up abandoned room', { roomId });
       cleanedCount++;
     }
   }
@@ -298,6 +1199,42 @@ export function cleanupAbandonedRooms(maxEmptyDurationMs: number = 30 * 60 * 100
   return cleanedCount;
 }
 
+/**
+ * Deletes a room right away, whoever is still in it
+ * @param roomId - Room ID
+ * @returns True if the room existed
+ */
+export function deleteRoom(roomId: string): boolean {
+  if (!rooms.has(roomId)) {
+    return false;
+  }
+  deleteRoomState(roomId);
+  return true;
+}
+
+/**
+ * Records activity in a room, postponing its idle cleanup
+ * @param roomId - Room ID
+ */
+export function touchRoom(roomId: string): void {
+  if (rooms.has(roomId)) {
+    roomActivity.set(roomId, Date.now());
+  }
+}
+
+/**
+ * Finds occupied rooms that have seen no activity for too long
+ * Empty rooms are left to cleanupAbandonedRooms.
+ * @param maxIdleMs - Maximum time without activity
+ * @returns IDs of the idle rooms
+ */
+export function getIdleRoomIds(maxIdleMs: number): string[] {
+  const now = Date.now();
+  return Array.from(rooms.keys()).filter(roomId =>
+    !emptyRoomTimestamps.has(roomId) && now - (roomActivity.get(roomId) ?? 0) > maxIdleMs
+  );
+}
+
 /**
  * Gets the number of empty rooms being tracked
  * @returns Number of empty rooms
@@ -318,16 +1255,96 @@ export function getEmptyRoomsInfo(): Array<{ roomId: string; emptyDuration: numb
   }));
 }
 
+/**
+ * Installs a room store and restores the rooms it holds
+ * Nobody is connected after a restart. A room's host comes back as an away user, so the host
+ * role stays theirs while they reconnect and nobody who joins first can take the room over.
+ * Rooms that had no host in them come back empty (cleanupAbandonedRooms removes them if nobody returns).
+ * @param store - Store to read from and write through to
+ * @returns Number of rooms restored
+ */
+export function setRoomStore(store: RoomStore): number {
+  rooms.clear();
+  emptyRoomTimestamps.clear();
+  roomActivity.clear();
+  gameSessions.clear();
+  roomScores.clear();
+  roomPasswords.clear();
+  roomStore = store;
+
+  const now = Date.now();
+  const records = store.load();
+  for (const record of records) {
+    const host = record.room.users.find(user => user.id === record.room.hostId && !user.isSpectator);
+    const room: Room = { ...record.room, users: host ? [{ ...host, isHost: true, isAway: true }] : [] };
+    rooms.set(room.id, room);
+    roomScores.set(room.id, record.scores);
+    if (record.passwordHash) {
+      roomPasswords.set(room.id, record.passwordHash);
+    }
+    if (!host) {
+      emptyRoomTimestamps.set(room.id, record.emptySince ?? now);
+    }
+    persistRoom(room.id);
+  }
+
+  return records.length;
+}
+
+/**
+ * Copies every room into another store, replacing what it held (e.g. a snapshot file at shutdown)
+ * @param store - Store to write to
+ * @returns Number of rooms written
+ */
+export function snapshotRooms(store: RoomStore): number {
+  store.clear();
+  for (const room of rooms.values()) {
+    store.save(toStoredRoom(room));
+  }
+  return rooms.size;
+}
+
+/**
+ * Waits until every room change so far has reached the store (e.g. before the process exits)
+ * @returns Resolves once the store has written everything
+ */
+export function flushRoomStore(): Promise<void> {
+  return roomStore.flush();
+}
+
+/**
+ * Overrides room defaults, e.g. from the server configuration
+ * @param settings - Defaults to change
+ */
+export function configureRooms(settings: Partial<RoomSettings>): void {
+  roomSettings = { ...roomSettings, ...settings };
+}
+
+/**
+ * Registers the function told about every room change (replacing any previous one)
+ * @param listener - Change listener, or null to stop listening
+ */
+export function setRoomChangeListener(listener: ((change: RoomChange) => void) | null): void {
+  roomChangeListener = listener;
+}
+
 /**
  * Resets all room state (for testing purposes)
  */
 export function resetRoomState(): void {
   rooms.clear();
   emptyRoomTimestamps.clear();
+  roomActivity.clear();
+  gameSessions.clear();
+  roomScores.clear();
+  roomPasswords.clear();
+  roomStore = createMemoryRoomStore();
+  roomChangeListener = null;
+  roomSettings = { ...DEFAULT_ROOM_SETTINGS };
 }
 
 /**
- * Create a demo room with mock quiz data (for development)
+ * Create a demo room with the built-in demo deck (for development)
  * @param hostName - Name of the host user
  * @param hostId - Host user ID
  * @returns The created demo room
@@ -335,6 +1352,7 @@ export function resetRoomState(): void {
 export function createDemoRoom(hostName: string = 'デモホスト', hostId?: string): Room {
   const roomId = uuidv4();
   const demoHostId = hostId || uuidv4();
+  const demoDeck = getDeck(DEMO_DECK_ID);
   
   const host: User = {
     id: demoHostId,
@@ -347,14 +1365,16 @@ export function createDemoRoom(hostName: string = 'デモホスト', hostId?: st
     name: '🎯 デモルーム (サンプルクイズ付き)',
     isPublic: true,
     users: [host],
-    quizzes: getRandomQuizzes(5), // 5個のランダムなクイズを追加
+    quizzes: demoDeck ? copyDeckQuizzes(demoDeck) : [],
     hostId: demoHostId,
-    maxPlayers: 8,
+    maxPlayers: roomSettings.defaultMaxPlayers,
+    maxSpectators: roomSettings.defaultMaxSpectators,
     createdAt: Date.now(),
   };
 
   rooms.set(roomId, room);
-  console.log(`Demo room created: ${roomId} with ${room.quizzes.length} quizzes`);
+  persistRoom(roomId);
+  log.info('Demo room created', { roomId, quizCount: room.quizzes.length });
   return room;
 }
 
@@ -373,7 +1393,7 @@ export function initializeDemoData(): void {
     if (!existingDemoRoom) {
       // Create demo room with various quiz types
       createDemoRoom();
-      console.log('Demo room initialized for development');
+      log.debug('Demo room initialized for development');
     }
   }
 } 
\ No newline at end of file
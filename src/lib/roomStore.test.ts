@@ -0,0 +1,91 @@
+import { describe, test, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createMemoryRoomStore, createFileRoomStore, type StoredRoom } from './roomStore';
+import { StoreFileError } from './recordStore';
+
+describe('Room Store', () => {
+  const record: StoredRoom = {
+    room: {
+      id: 'room-1',
+      name: 'Stored Room',
+      isPublic: true,
+      users: [],
+      quizzes: [{ id: 'quiz-1', type: 'text', question: 'Q1', answer: 'A1' }],
+      hostId: 'host-1',
+      maxPlayers: 8,
+      createdAt: 1000,
+    },
+    scores: [{ userId: 'player-1', score: 10 }],
+  };
+
+  describe('createMemoryRoomStore', () => {
+    test('should save, load and delete rooms', () => {
+      const store = createMemoryRoomStore();
+
+      store.save(record);
+      expect(store.load()).toEqual([record]);
+
+      store.delete('room-1');
+      expect(store.load()).toEqual([]);
+    });
+
+    test('should not share objects with the caller', () => {
+      const store = createMemoryRoomStore();
+      const room = { ...record.room, quizzes: [] };
+
+      store.save({ room, scores: [] });
+      room.name = 'Changed';
+
+      expect(store.load()[0].room.name).toBe('Stored Room');
+    });
+  });
+
+  describe('createFileRoomStore', () => {
+    let tempDir: string;
+    let filePath: string;
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'quiz-world-'));
+      filePath = path.join(tempDir, 'data', 'rooms.json');
+    });
+
+    afterEach(() => {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    test('should start empty when the file does not exist', () => {
+      expect(createFileRoomStore(filePath).load()).toEqual([]);
+    });
+
+    test('should keep rooms across store instances', async () => {
+      const store = createFileRoomStore(filePath);
+      store.save(record);
+      await store.flush();
+
+      expect(createFileRoomStore(filePath).load()).toEqual([record]);
+    });
+
+    test('should persist deletes and clears', async () => {
+      const store = createFileRoomStore(filePath);
+      store.save(record);
+      store.save({ ...record, room: { ...record.room, id: 'room-2' } });
+
+      store.delete('room-1');
+      await store.flush();
+      expect(createFileRoomStore(filePath).load().map(r => r.room.id)).toEqual(['room-2']);
+
+      store.clear();
+      await store.flush();
+      expect(createFileRoomStore(filePath).load()).toEqual([]);
+    });
+
+    test('should reject a file whose records are not rooms', () => {
+      fs.mkdirSync(path.dirname(filePath));
+      fs.writeFileSync(filePath, JSON.stringify([{ id: 'room-1', name: 'Not a stored room' }]));
+
+      expect(() => createFileRoomStore(filePath)).toThrow(StoreFileError);
+    });
+  });
+});
@@ -0,0 +1,55 @@
+/**
+ * Room persistence for Quiz World application
+ * - RoomStore interface that roomManager writes rooms through
+ * - In-memory store (default) and JSON file store for surviving restarts
+ */
+
+import type { Room, Score } from '../types';
+import { createFileRecordStore, createMemoryRecordStore, type RecordShape, type RecordStore } from './recordStore';
+
+/**
+ * Everything kept about a room between server restarts
+ * @property room - The room, including its quiz set
+ * @property scores - The room's scoreboard
+ * @property passwordHash - Salted hash of the join password, if the room has one
+ * @property emptySince - When the room became empty, if it is empty
+ */
+export type StoredRoom = {
+  room: Room;
+  scores: Score[];
+  passwordHash?: string;
+  emptySince?: number;
+};
+
+/**
+ * Storage backend for rooms, keyed by room ID
+ */
+export type RoomStore = RecordStore<StoredRoom>;
+
+/**
+ * Stored rooms are keyed by their room's ID
+ */
+const STORED_ROOM_SHAPE: RecordShape<StoredRoom> = {
+  getId: record => record.room.id,
+  isRecord: (value): value is StoredRoom =>
+    typeof value === 'object' && value !== null && typeof (value as StoredRoom).room?.id === 'string',
+};
+
+/**
+ * Creates a store that keeps rooms in a Map (lost when the process exits)
+ * @returns An in-memory room store
+ */
+export function createMemoryRoomStore(): RoomStore {
+  return createMemoryRecordStore(STORED_ROOM_SHAPE);
+}
+
+/**
+ * Creates a store that keeps rooms in a JSON file
+ * @param filePath - Path of the JSON file; created on first write if missing
+ * @param writeDelayMs - How long to wait after a change before writing
+ * @returns A file-backed room store
+ * @throws StoreFileError if the file exists but is corrupt
+ */
+export function createFileRoomStore(filePath: string, writeDelayMs?: number): RoomStore {
+  return createFileRecordStore(filePath, STORED_ROOM_SHAPE, writeDelayMs);
+}
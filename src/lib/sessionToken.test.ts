@@ -0,0 +1,53 @@
+import { describe, test, expect, afterEach } from 'vitest';
+import { issueSessionToken, verifySessionToken, resolveSession, setSessionSecret } from './sessionToken';
+
+describe('Session Token', () => {
+  afterEach(() => {
+    setSessionSecret('test-secret');
+  });
+
+  describe('verifySessionToken', () => {
+    test('should return the user ID of an issued token', () => {
+      const token = issueSessionToken('user-1');
+
+      expect(verifySessionToken(token)).toBe('user-1');
+    });
+
+    test('should reject a token whose user ID was changed', () => {
+      const [, signature] = issueSessionToken('user-1').split('.');
+
+      expect(verifySessionToken(`user-2.${signature}`)).toBeNull();
+    });
+
+    test('should reject malformed tokens', () => {
+      expect(verifySessionToken(undefined)).toBeNull();
+      expect(verifySessionToken(42)).toBeNull();
+      expect(verifySessionToken('')).toBeNull();
+      expect(verifySessionToken('user-1')).toBeNull();
+      expect(verifySessionToken('user-1.')).toBeNull();
+      expect(verifySessionToken('.signature')).toBeNull();
+    });
+
+    test('should reject tokens signed with another secret', () => {
+      const token = issueSessionToken('user-1');
+      setSessionSecret('rotated-secret');
+
+      expect(verifySessionToken(token)).toBeNull();
+    });
+  });
+
+  describe('resolveSession', () => {
+    test('should resume the session of a valid token', () => {
+      const token = issueSessionToken('user-1');
+
+      expect(resolveSession(token)).toEqual({ userId: 'user-1', sessionToken: token });
+    });
+
+    test('should start a new session without a valid token', () => {
+      const session = resolveSession('user-1.forged');
+
+      expect(session.userId).not.toBe('user-1');
+      expect(verifySessionToken(session.sessionToken)).toBe(session.userId);
+    });
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * Session tokens for Quiz World application
+ * - The server issues every connecting client a user ID and a signed token for it
+ * - Clients present the token when reconnecting to keep the same user ID
+ * - Tokens are HMAC-signed, so the server needs no session storage to verify them
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+
+/**
+ * Signing key; random unless the server configures one with setSessionSecret
+ */
+let sessionSecret = randomBytes(32).toString('hex');
+
+/**
+ * A user ID together with the token that proves it
+ */
+export type Session = {
+  userId: string;
+  sessionToken: string;
+};
+
+/**
+ * Signs a user ID
+ * @param userId - User ID to sign
+ * @returns Base64url HMAC of the user ID
+ */
+function sign(userId: string): string {
+  return createHmac('sha256', sessionSecret).update(userId).digest('base64url');
+}
+
+/**
+ * Issues a token for a user ID
+ * @param userId - User ID the token proves
+ * @returns Token in the form "<userId>.<signature>"
+ */
+export function issueSessionToken(userId: string): string {
+  return `${userId}.${sign(userId)}`;
+}
+
+/**
+ * Verifies a token and extracts its user ID
+ * @param token - Token presented by a client
+ * @returns The user ID if the token is genuine, null otherwise
+ */
+export function verifySessionToken(token: unknown): string | null {
+  if (typeof token !== 'string') {
+    return null;
+  }
+
+  const separator = token.lastIndexOf('.');
+  if (separator <= 0) {
+    return null;
+  }
+
+  const userId = token.slice(0, separator);
+  const expected = Buffer.from(sign(userId));
+  const actual = Buffer.from(token.slice(separator + 1));
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+  return userId;
+}
+
+/**
+ * Resumes the session a token proves, or starts a new one with a fresh user ID
+ * @param token - Token presented by a client, if any
+ * @returns The session to bind to the socket
+ */
+export function resolveSession(token: unknown): Session {
+  const userId = verifySessionToken(token);
+  if (userId) {
+    return { userId, sessionToken: token as string };
+  }
+  const newUserId = uuidv4();
+  return { userId: newUserId, sessionToken: issueSessionToken(newUserId) };
+}
+
+/**
+ * Replaces the signing key, invalidating every token issued so far
+ * The server sets a configured key at startup so tokens stay valid across restarts.
+ * @param secret - New signing key
+ */
+export function setSessionSecret(secret: string): void {
+  sessionSecret = secret;
+}
@@ -1,6 +1,7 @@
 import { vi, describe, it, expect, beforeEach, afterEach } from 'vitest';
 import * as socketClient from './socketClient';
 import { io } from 'socket.io-client';
+import * as userStorage from './userStorage';
 import type { Quiz, Room, User } from '@/types';
 
 // socket.io-client全体をモックする
@@ -12,7 +13,9 @@ vi.mock('socket.io-client', () => {
     disconnect: vi.fn(),
     connect: vi.fn(),
     connected: false,
+    timeout: vi.fn(),
   };
+  mockSocket.timeout.mockImplementation(() => mockSocket);
   return {
     io: vi.fn(() => mockSocket),
   };
@@ -43,6 +46,7 @@ describe('Socket.io Client', () => {
         reconnection: true,
         reconnectionAttempts: 5,
         reconnectionDelay: 1000,
+        auth: expect.any(Function),
       });
 
       expect(mockSocket.on).toHaveBeenCalledWith('connect', expect.any(Function));
@@ -99,6 +103,27 @@ describe('Socket.io Client', () => {
       expect(listeners.onConnectionStateChange).toHaveBeenCalledWith('disconnected');
     });
 
+    it('should reconnect after the delay announced by a restarting server', () => {
+      vi.useFakeTimers();
+      mockSocket.io = { reconnectionDelay: vi.fn(), reconnectionDelayMax: vi.fn(() => 5000) };
+      socketClient.initializeSocketClient('http://localhost:3002');
+
+      const handlerFor = (event: string) => mockSocket.on.mock.calls.find((call: any[]) => call[0] === event)?.[1];
+      handlerFor('server:shuttingDown')({ message: 'The server is restarting', reconnectAfterMs: 8000 });
+      expect(mockSocket.io.reconnectionDelay).toHaveBeenCalledWith(8000);
+      expect(mockSocket.io.reconnectionDelayMax).toHaveBeenCalledWith(8000);
+
+      mockSocket.connect.mockClear();
+      handlerFor('disconnect')('io server disconnect');
+      vi.advanceTimersByTime(7999);
+      expect(mockSocket.connect).not.toHaveBeenCalled();
+      vi.advanceTimersByTime(1);
+      expect(mockSocket.connect).toHaveBeenCalledTimes(1);
+
+      delete mockSocket.io;
+      vi.useRealTimers();
+    });
+
     it('should handle initialization error', async () => {
       const listeners = {
         onConnectionStateChange: vi.fn(),
@@ -201,8 +226,9 @@ describe('Socket.io Client', () => {
 
       // Test room:list event
       const roomListHandler = mockSocket.on.mock.calls.find((call: any[]) => call[0] === 'room:list')?.[1];
-      roomListHandler?.({ rooms: [mockRoom] });
-      expect(listeners.onRoomList).toHaveBeenCalledWith({ rooms: [mockRoom] });
+      const roomListPage = { rooms: [], total: 0, page: 1, pageSize: 12 };
+      roomListHandler?.(roomListPage);
+      expect(listeners.onRoomList).toHaveBeenCalledWith(roomListPage);
 
       // Test room:updated event
       const roomUpdatedHandler = mockSocket.on.mock.calls.find((call: any[]) => call[0] === 'room:updated')?.[1];
@@ -256,6 +282,22 @@ describe('Socket.io Client', () => {
       errorHandler?.({ message: 'Test error' });
       expect(listeners.onError).toHaveBeenCalledWith({ message: 'Test error' });
     });
+
+    it('should store the session issued by the server and present it when connecting', () => {
+      const setSessionSpy = vi.spyOn(userStorage, 'setSession').mockImplementation(() => {});
+      vi.spyOn(userStorage, 'getSessionToken').mockReturnValue('user-9.signature');
+
+      socketClient.initializeSocketClient('http://test.server');
+
+      const sessionHandler = mockSocket.on.mock.calls.find((call: any[]) => call[0] === 'session:established')?.[1];
+      sessionHandler?.({ userId: 'user-9', sessionToken: 'user-9.signature' });
+      expect(setSessionSpy).toHaveBeenCalledWith('user-9', 'user-9.signature');
+
+      const auth = vi.mocked(io).mock.calls.at(-1)?.[1]?.auth as (cb: (data: object) => void) => void;
+      const cb = vi.fn();
+      auth(cb);
+      expect(cb).toHaveBeenCalledWith({ sessionToken: 'user-9.signature' });
+    });
   });
 
   describe('API Functions', () => {
@@ -270,22 +312,20 @@ describe('Socket.io Client', () => {
       const isPublic = true;
       const maxPlayers = 8;
       const userName = 'Host';
-      const userId = 'user-1';
 
-      socketClient.createRoom(name, isPublic, maxPlayers, userName, userId);
+      socketClient.createRoom(name, isPublic, maxPlayers, userName);
       expect(mockSocket.emit).toHaveBeenCalledWith('room:create', {
         name,
         isPublic,
         maxPlayers,
         userName,
-        userId,
         isDemo: false,
-      });
+      }, expect.any(Function));
     });
 
-    it('createRoom should throw error when not connected', () => {
+    it('createRoom should reject when not connected', async () => {
       mockSocket.connected = false;
-      expect(() => socketClient.createRoom('Test', true)).toThrow('Socket not connected');
+      await expect(socketClient.createRoom('Test', true)).rejects.toThrow('Socket not connected');
     });
 
     it('createRoom should support demo room creation', () => {
@@ -293,144 +333,178 @@ describe('Socket.io Client', () => {
       const isPublic = true;
       const maxPlayers = 8;
       const userName = 'Host';
-      const userId = 'user-1';
       const isDemo = true;
 
-      socketClient.createRoom(name, isPublic, maxPlayers, userName, userId, isDemo);
+      socketClient.createRoom(name, isPublic, maxPlayers, userName, isDemo);
       expect(mockSocket.emit).toHaveBeenCalledWith('room:create', {
         name,
         isPublic,
         maxPlayers,
         userName,
-        userId,
         isDemo: true,
-      });
+      }, expect.any(Function));
     });
 
     it('joinRoom should emit "room:join" event', () => {
       const roomId = 'room-1';
-      const userId = 'user-2';
       const userName = 'Player';
 
-      socketClient.joinRoom(roomId, userId, userName);
+      socketClient.joinRoom(roomId, userName);
       expect(mockSocket.emit).toHaveBeenCalledWith('room:join', {
         roomId,
-        userId,
         userName,
-      });
+      }, expect.any(Function));
     });
 
-    it('joinRoom should throw error when not connected', () => {
+    it('joinRoom should reject when not connected', async () => {
       mockSocket.connected = false;
-      expect(() => socketClient.joinRoom('room1', 'user1', 'User')).toThrow('Socket not connected');
+      await expect(socketClient.joinRoom('room1', 'User')).rejects.toThrow('Socket not connected');
     });
 
     it('joinRoom should work with custom socket argument', () => {
       const customSocket = {
         connected: true,
         emit: vi.fn(),
+        timeout: vi.fn(),
       };
-      socketClient.joinRoom('room1', 'user1', 'User', customSocket as any);
+      customSocket.timeout.mockReturnValue(customSocket);
+      socketClient.joinRoom('room1', 'User', customSocket as any);
       expect(customSocket.emit).toHaveBeenCalledWith('room:join', {
         roomId: 'room1',
-        userId: 'user1',
         userName: 'User',
-      });
+      }, expect.any(Function));
+    });
+
+    it('spectateRoom should emit "room:join" as a spectator', () => {
+      socketClient.spectateRoom('room-1', 'Watcher');
+      expect(mockSocket.emit).toHaveBeenCalledWith('room:join', {
+        roomId: 'room-1',
+        userName: 'Watcher',
+        asSpectator: true,
+      }, expect.any(Function));
+    });
+
+    it('promoteSpectator should emit "room:promoteSpectator" event', () => {
+      socketClient.promoteSpectator('user-3');
+      expect(mockSocket.emit).toHaveBeenCalledWith('room:promoteSpectator', { userId: 'user-3' }, expect.any(Function));
+    });
+
+    it('kickUser and banUser should emit "room:kick" and "room:ban" events', () => {
+      socketClient.kickUser('user-2');
+      socketClient.banUser('user-3');
+      expect(mockSocket.emit).toHaveBeenCalledWith('room:kick', { userId: 'user-2' }, expect.any(Function));
+      expect(mockSocket.emit).toHaveBeenCalledWith('room:ban', { userId: 'user-3' }, expect.any(Function));
     });
 
     it('leaveRoom should emit "room:leave" event', () => {
       socketClient.leaveRoom();
-      expect(mockSocket.emit).toHaveBeenCalledWith('room:leave');
+      expect(mockSocket.emit).toHaveBeenCalledWith('room:leave', expect.any(Function));
     });
 
-    it('leaveRoom should throw error when not connected', () => {
+    it('leaveRoom should reject when not connected', async () => {
       mockSocket.connected = false;
-      expect(() => socketClient.leaveRoom()).toThrow('Socket not connected');
+      await expect(socketClient.leaveRoom()).rejects.toThrow('Socket not connected');
     });
 
     it('requestRoomList should emit "room:list" event', () => {
       socketClient.requestRoomList();
-      expect(mockSocket.emit).toHaveBeenCalledWith('room:list');
+      expect(mockSocket.emit).toHaveBeenCalledWith('room:list', {}, expect.any(Function));
     });
 
-    it('requestRoomList should throw error when not connected', () => {
+    it('requestRoomList should send the search, sort and page options', () => {
+      const query = { search: 'anime', sortBy: 'playerCount' as const, sortOrder: 'desc' as const, page: 2 };
+      socketClient.requestRoomList(query);
+      expect(mockSocket.emit).toHaveBeenCalledWith('room:list', query, expect.any(Function));
+    });
+
+    it('requestRoomList should reject when not connected', async () => {
       mockSocket.connected = false;
-      expect(() => socketClient.requestRoomList()).toThrow('Socket not connected');
+      await expect(socketClient.requestRoomList()).rejects.toThrow('Socket not connected');
+    });
+
+    it('subscribeLobby should emit "lobby:subscribe" event', () => {
+      socketClient.subscribeLobby({ page: 1 });
+      expect(mockSocket.emit).toHaveBeenCalledWith('lobby:subscribe', { page: 1 }, expect.any(Function));
+    });
+
+    it('unsubscribeLobby should emit "lobby:unsubscribe" event', () => {
+      socketClient.unsubscribeLobby();
+      expect(mockSocket.emit).toHaveBeenCalledWith('lobby:unsubscribe', expect.any(Function));
     });
 
     it('transferHost should emit "host:transfer" event', () => {
       const newHostId = 'user-3';
       socketClient.transferHost(newHostId);
-      expect(mockSocket.emit).toHaveBeenCalledWith('host:transfer', { newHostId });
+      expect(mockSocket.emit).toHaveBeenCalledWith('host:transfer', { newHostId }, expect.any(Function));
     });
 
-    it('transferHost should throw error when not connected', () => {
+    it('transferHost should reject when not connected', async () => {
       mockSocket.connected = false;
-      expect(() => socketClient.transferHost('user1')).toThrow('Socket not connected');
+      await expect(socketClient.transferHost('user1')).rejects.toThrow('Socket not connected');
     });
 
     it('updateRoom should emit "room:update" event', () => {
       const updates = { name: 'New Name', isPublic: false };
       socketClient.updateRoom(updates);
-      expect(mockSocket.emit).toHaveBeenCalledWith('room:update', updates);
+      expect(mockSocket.emit).toHaveBeenCalledWith('room:update', updates, expect.any(Function));
     });
 
-    it('updateRoom should throw error when not connected', () => {
+    it('updateRoom should reject when not connected', async () => {
       mockSocket.connected = false;
-      expect(() => socketClient.updateRoom({ name: 'New' })).toThrow('Socket not connected');
+      await expect(socketClient.updateRoom({ name: 'New' })).rejects.toThrow('Socket not connected');
     });
 
     it('addQuiz should emit "quiz:add" event', () => {
       const quiz: Quiz = { id: 'q1', type: 'text', question: 'Q', answer: 'A' };
       socketClient.addQuiz(quiz);
-      expect(mockSocket.emit).toHaveBeenCalledWith('quiz:add', quiz);
+      expect(mockSocket.emit).toHaveBeenCalledWith('quiz:add', quiz, expect.any(Function));
     });
 
-    it('addQuiz should throw error when not connected', () => {
+    it('addQuiz should reject when not connected', async () => {
       mockSocket.connected = false;
       const quiz: Quiz = { id: 'q1', type: 'text', question: 'Q', answer: 'A' };
-      expect(() => socketClient.addQuiz(quiz)).toThrow('Socket not connected');
+      await expect(socketClient.addQuiz(quiz)).rejects.toThrow('Socket not connected');
     });
 
     it('removeQuiz should emit "quiz:remove" event', () => {
       const quizId = 'q1';
       socketClient.removeQuiz(quizId);
-      expect(mockSocket.emit).toHaveBeenCalledWith('quiz:remove', { quizId });
+      expect(mockSocket.emit).toHaveBeenCalledWith('quiz:remove', { quizId }, expect.any(Function));
     });
 
-    it('removeQuiz should throw error when not connected', () => {
+    it('removeQuiz should reject when not connected', async () => {
       mockSocket.connected = false;
-      expect(() => socketClient.removeQuiz('q1')).toThrow('Socket not connected');
+      await expect(socketClient.removeQuiz('q1')).rejects.toThrow('Socket not connected');
     });
 
     it('startQuiz should emit "quiz:start" event', () => {
       const quizId = 'q1';
       const timeLimit = 60;
       socketClient.startQuiz(quizId, timeLimit);
-      expect(mockSocket.emit).toHaveBeenCalledWith('quiz:start', { quizId, timeLimit });
+      expect(mockSocket.emit).toHaveBeenCalledWith('quiz:start', { quizId, timeLimit }, expect.any(Function));
     });
 
     it('startQuiz should emit without timeLimit', () => {
       const quizId = 'q1';
       socketClient.startQuiz(quizId);
-      expect(mockSocket.emit).toHaveBeenCalledWith('quiz:start', { quizId, timeLimit: undefined });
+      expect(mockSocket.emit).toHaveBeenCalledWith('quiz:start', { quizId, timeLimit: undefined }, expect.any(Function));
     });
 
-    it('startQuiz should throw error when not connected', () => {
+    it('startQuiz should reject when not connected', async () => {
       mockSocket.connected = false;
-      expect(() => socketClient.startQuiz('q1')).toThrow('Socket not connected');
+      await expect(socketClient.startQuiz('q1')).rejects.toThrow('Socket not connected');
     });
 
     it('submitAnswer should emit "quiz:answer" event', () => {
       const quizId = 'q1';
       const answer = 'My Answer';
       socketClient.submitAnswer(quizId, answer);
-      expect(mockSocket.emit).toHaveBeenCalledWith('quiz:answer', { quizId, answer });
+      expect(mockSocket.emit).toHaveBeenCalledWith('quiz:answer', { quizId, answer }, expect.any(Function));
     });
 
-    it('submitAnswer should throw error when not connected', () => {
+    it('submitAnswer should reject when not connected', async () => {
       mockSocket.connected = false;
-      expect(() => socketClient.submitAnswer('q1', 'answer')).toThrow('Socket not connected');
+      await expect(socketClient.submitAnswer('q1', 'answer')).rejects.toThrow('Socket not connected');
     });
 
     it('judgeAnswer should emit "quiz:judge" event', () => {
@@ -438,19 +512,67 @@ describe('Socket.io Client', () => {
       const isCorrect = true;
       const score = 100;
       socketClient.judgeAnswer(userId, isCorrect, score);
-      expect(mockSocket.emit).toHaveBeenCalledWith('quiz:judge', { userId, isCorrect, score });
+      expect(mockSocket.emit).toHaveBeenCalledWith('quiz:judge', { userId, isCorrect, score }, expect.any(Function));
     });
 
     it('judgeAnswer should emit without score', () => {
       const userId = 'user1';
       const isCorrect = false;
       socketClient.judgeAnswer(userId, isCorrect);
-      expect(mockSocket.emit).toHaveBeenCalledWith('quiz:judge', { userId, isCorrect, score: undefined });
+      expect(mockSocket.emit).toHaveBeenCalledWith('quiz:judge', { userId, isCorrect, score: undefined }, expect.any(Function));
     });
 
-    it('judgeAnswer should throw error when not connected', () => {
+    it('judgeAnswer should reject when not connected', async () => {
       mockSocket.connected = false;
-      expect(() => socketClient.judgeAnswer('user1', true)).toThrow('Socket not connected');
+      await expect(socketClient.judgeAnswer('user1', true)).rejects.toThrow('Socket not connected');
+    });
+  
+    it('should resolve with the data the server acknowledges', async () => {
+      const page = { rooms: [], total: 0, page: 1, pageSize: 12 };
+      mockSocket.emit.mockImplementationOnce((_event: string, _data: unknown, ack: (err: Error | null, result: unknown) => void) => {
+        ack(null, { ok: true, data: page });
+      });
+
+      await expect(socketClient.requestRoomList()).resolves.toEqual(page);
+      expect(mockSocket.timeout).toHaveBeenCalledWith(10000);
+    });
+
+    it('should reject with the error the server acknowledges', async () => {
+      mockSocket.emit.mockImplementationOnce((_event: string, _data: unknown, ack: (err: Error | null, result: unknown) => void) => {
+        ack(null, { ok: false, error: { message: 'Invalid room:update payload: name is too long', field: 'name' } });
+      });
+
+      const error = await socketClient.updateRoom({ name: 'x' }).catch((err: unknown) => err);
+      expect(error).toBeInstanceOf(socketClient.SocketCommandError);
+      expect(error).toMatchObject({
+        message: 'Invalid room:update payload: name is too long',
+        reason: 'rejected',
+        field: 'name',
+      });
+    });
+
+    it('should reject with a timeout error when the server does not acknowledge', async () => {
+      mockSocket.emit.mockImplementationOnce((_event: string, ack: (err: Error | null) => void) => {
+        ack(new Error('operation has timed out'));
+      });
+
+      await expect(socketClient.buzzIn()).rejects.toMatchObject({
+        name: 'SocketCommandError',
+        reason: 'timeout',
+      });
+    });
+
+    it('should send game and deck commands', () => {
+      const quiz: Quiz = { id: 'q1', type: 'text', question: 'Q', answer: 'A' };
+      socketClient.submitBuzzAnswer('My Answer');
+      socketClient.submitChoice(2);
+      socketClient.createDeck({ title: 'Deck', quizzes: [quiz] });
+      socketClient.loadDeck('deck-1');
+
+      expect(mockSocket.emit).toHaveBeenCalledWith('game:answer', { answer: 'My Answer' }, expect.any(Function));
+      expect(mockSocket.emit).toHaveBeenCalledWith('game:choice', { choiceIndex: 2 }, expect.any(Function));
+      expect(mockSocket.emit).toHaveBeenCalledWith('deck:create', { title: 'Deck', quizzes: [quiz] }, expect.any(Function));
+      expect(mockSocket.emit).toHaveBeenCalledWith('deck:load', { deckId: 'deck-1' }, expect.any(Function));
     });
   });
 
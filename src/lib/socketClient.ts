@@ -3,20 +3,42 @@
  * - Handles connection to Socket.io server
  * - Manages event listeners and connection state
  * - Provides type-safe event handling
+ * - Sends commands that resolve with the server's acknowledgement
  */
 
 import { io, Socket } from 'socket.io-client';
 import type {
   ClientToServerEvents,
   ServerToClientEvents,
+  CommandResult,
+  CommandResponse,
+  CommandError,
+  ErrorCode,
 } from '../types/socket';
-import type { Room, User, Quiz } from '../types';
+import type { Room, User, Quiz, QuizDeck, AutoJudgeSettings, RoomListQuery, RoomListPage } from '../types';
+import { getSessionToken, setSession } from './userStorage';
+import { createLogger } from './logger';
 
 /**
  * Socket.io client instance
  */
 let socket: Socket<ServerToClientEvents, ClientToServerEvents> | null = null;
 
+/**
+ * How long a command waits for the server's acknowledgement (milliseconds)
+ */
+const COMMAND_TIMEOUT_MS = 10000;
+
+/**
+ * Reconnect delay announced by a restarting server (milliseconds), until the restart disconnects us
+ */
+let restartDelayMs: number | null = null;
+
+/**
+ * Log of connection changes and server events
+ */
+const log = createLogger('socketClient');
+
 /**
  * Connection state
  */
@@ -29,7 +51,7 @@ export type EventListeners = {
   onRoomCreated?: (data: { room: Room }) => void;
   onRoomJoined?: (data: { room: Room; user: User }) => void;
   onRoomLeft?: () => void;
-  onRoomList?: (data: { rooms: Room[] }) => void;
+  onRoomList?: (data: RoomListPage) => void;
   onRoomUpdated?: (data: { room: Room }) => void;
   onUserJoined?: (data: { user: User }) => void;
   onUserLeft?: (data: { userId: string }) => void;
@@ -59,7 +81,7 @@ export function initializeSocketClient(
     try {
       // If socket already exists and is connected, just add new listeners
       if (socket && socket.connected) {
-        console.log('Socket already connected, adding new listeners');
+        log.debug('Socket already connected, adding new listeners');
         setupEventListeners(socket, listeners);
         listeners.onConnectionStateChange?.('connected');
         resolve();
@@ -68,7 +90,7 @@ export function initializeSocketClient(
 
       // If socket exists but is disconnected, disconnect and cleanup first
       if (socket) {
-        console.log('Cleaning up existing disconnected socket');
+        log.debug('Cleaning up existing disconnected socket');
         socket.disconnect();
         socket.removeAllListeners();
         socket = null;
@@ -80,6 +102,8 @@ export function initializeSocketClient(
         reconnection: true,
         reconnectionAttempts: 5,
         reconnectionDelay: 1000,
+        // Read on every (re)connection so the latest issued token is presented
+        auth: (cb) => cb({ sessionToken: getSessionToken() }),
       });
 
       // Set up event listeners
@@ -87,18 +111,25 @@ export function initializeSocketClient(
 
       // Handle connection events
       socket.on('connect', () => {
-        console.log('Connected to server');
+        log.info('Connected to server');
         listeners.onConnectionStateChange?.('connected');
         resolve();
       });
 
-      socket.on('disconnect', () => {
-        console.log('Disconnected from server');
+      socket.on('disconnect', (reason) => {
+        log.info('Disconnected from server', { reason });
         listeners.onConnectionStateChange?.('disconnected');
+
+        // A server-side disconnect isn't retried automatically, so come back once the restart is over
+        if (reason === 'io server disconnect' && restartDelayMs !== null) {
+          const delay = restartDelayMs;
+          restartDelayMs = null;
+          setTimeout(() => socket?.connect(), delay);
+        }
       });
 
       socket.on('connect_error', (error) => {
-        console.error('Connection error:', error);
+        log.error('Connection error', { error });
         listeners.onConnectionStateChange?.('error');
         reject(error);
       });
@@ -107,7 +138,7 @@ export function initializeSocketClient(
       listeners.onConnectionStateChange?.('connecting');
       socket.connect();
     } catch (error) {
-      console.error('Failed to initialize socket client:', error);
+      log.error('Failed to initialize socket client', { error });
       listeners.onConnectionStateChange?.('error');
       reject(error);
     }
@@ -123,88 +154,103 @@ function setupEventListeners(
   socket: Socket<ServerToClientEvents, ClientToServerEvents>,
   listeners: EventListeners
 ) {
+  // Session events
+  socket.on('session:established', (data) => {
+    log.debug('Session established', { userId: data.userId });
+    setSession(data.userId, data.sessionToken);
+  });
+
   // Room management events
   socket.on('room:created', (data) => {
-    console.log('Room created:', data.room.id, 'Host:', data.room.users[0]?.name, 'isHost:', data.room.users[0]?.isHost);
+    log.debug('Room created', { roomId: data.room.id });
     listeners.onRoomCreated?.(data);
   });
 
   socket.on('room:joined', (data) => {
-    console.log('Joined room:', data.room.id, 'User:', data.user?.name, 'isHost:', data.user?.isHost);
+    log.debug('Joined room', { roomId: data.room.id, userId: data.user?.id, isHost: data.user?.isHost });
     listeners.onRoomJoined?.(data);
   });
 
   socket.on('room:left', () => {
-    console.log('Left room');
+    log.debug('Left room');
     listeners.onRoomLeft?.();
   });
 
   socket.on('room:list', (data) => {
-    console.log('Room list received:', data.rooms.length, 'rooms');
+    log.debug('Room list received', { count: data.rooms.length, total: data.total });
     listeners.onRoomList?.(data);
   });
 
   socket.on('room:updated', (data) => {
-    console.log('Room updated:', data.room.id);
+    log.debug('Room updated', { roomId: data.room.id });
     listeners.onRoomUpdated?.(data);
   });
 
   socket.on('room:userJoined', (data) => {
-    console.log('User joined:', data.user.name);
+    log.debug('User joined', { userId: data.user.id });
     listeners.onUserJoined?.(data);
   });
 
   socket.on('room:userLeft', (data) => {
-    console.log('User left:', data.userId);
+    log.debug('User left', { userId: data.userId });
     listeners.onUserLeft?.(data);
   });
 
   // Host management events
   socket.on('host:transferred', (data) => {
-    console.log('Host transferred to:', data.newHostId);
+    log.debug('Host transferred', { newHostId: data.newHostId });
     listeners.onHostTransferred?.(data);
   });
 
   // Quiz management events
   socket.on('quiz:added', (data) => {
-    console.log('Quiz added:', data.quiz.id);
+    log.debug('Quiz added', { quizId: data.quiz.id });
     listeners.onQuizAdded?.(data);
   });
 
   socket.on('quiz:removed', (data) => {
-    console.log('Quiz removed:', data.quizId);
+    log.debug('Quiz removed', { quizId: data.quizId });
     listeners.onQuizRemoved?.(data);
   });
 
   socket.on('quiz:started', (data) => {
-    console.log('Quiz started:', data.quiz.id);
+    log.debug('Quiz started', { quizId: data.quiz.id });
     listeners.onQuizStarted?.(data);
   });
 
   socket.on('quiz:answered', (data) => {
-    console.log('Quiz answered by:', data.userId);
+    log.debug('Quiz answered', { userId: data.userId, answer: data.answer });
     listeners.onQuizAnswered?.(data);
   });
 
   socket.on('quiz:judged', (data) => {
-    console.log('Quiz judged for:', data.userId, 'Score:', data.score);
+    log.debug('Quiz judged', { userId: data.userId, isCorrect: data.isCorrect, score: data.score });
     listeners.onQuizJudged?.(data);
   });
 
   socket.on('quiz:ended', (data) => {
-    console.log('Quiz ended, results:', data.results);
+    log.debug('Quiz ended', { results: data.results });
     listeners.onQuizEnded?.(data);
   });
 
+  // Server lifecycle events
+  socket.on('server:shuttingDown', (data) => {
+    log.info('Server shutting down', { reconnectAfterMs: data.reconnectAfterMs });
+    restartDelayMs = data.reconnectAfterMs;
+    // Retries while the server is still down wait at least as long as it asked
+    socket.io.reconnectionDelay(data.reconnectAfterMs);
+    socket.io.reconnectionDelayMax(Math.max(socket.io.reconnectionDelayMax(), data.reconnectAfterMs));
+  });
+
   // Error events
   socket.on('error', (data) => {
-    console.error('Server error:', data.message);
+    log.warn('Server error', { reason: data.message });
     listeners.onError?.(data);
   });
   
   // Chat events
   socket.on('chat:message', (data) => {
-    console.log('Chat message received:', data.message, 'from:', data.userName);
+    log.debug('Chat message received', { userId: data.userId, chatMessage: data.message });
     listeners.onChatMessage?.(data);
   });
 }
@@ -229,120 +275,229 @@ export function isConnected(): boolean {
  * Disconnect from the server
  */
 export function disconnect(): void {
+  restartDelayMs = null;
   if (socket) {
     socket.disconnect();
     socket = null;
   }
 }
 
+/**
+ * Why a command failed
+ * - rejected: the server refused it (see message and field)
+ * - timeout: the server did not acknowledge it in time
+ * - disconnected: there was no connection to send it over
+ */
+export type CommandFailureReason = 'rejected' | 'timeout' | 'disconnected';
+
+/**
+ * Error a command's promise rejects with
+ * Rejected commands carry the server's error code, invalid field and request ID.
+ */
+export class SocketCommandError extends Error {
+  readonly reason: CommandFailureReason;
+  readonly event: keyof ClientToServerEvents;
+  readonly code?: ErrorCode;
+  readonly field?: string;
+  readonly requestId?: string;
+
+  constructor(message: string, reason: CommandFailureReason, event: keyof ClientToServerEvents, serverError?: CommandError) {
+    super(message);
+    this.name = 'SocketCommandError';
+    this.reason = reason;
+    this.event = event;
+    this.code = serverError?.code;
+    this.field = serverError?.field;
+    this.requestId = serverError?.requestId;
+  }
+}
+
+/**
+ * Arguments of a command, without its trailing acknowledgement
+ */
+type CommandArgs<E extends keyof ClientToServerEvents> =
+  Parameters<ClientToServerEvents[E]> extends [...infer Args, unknown] ? Args : never;
+
+/**
+ * Send a command and wait for the server to acknowledge it
+ * @param event - Client-to-server event name
+ * @param args - Command arguments (the acknowledgement is added here)
+ * @param socketToUse - Socket to send over (defaults to the current one)
+ * @returns Promise that resolves with the server's response data or rejects with a SocketCommandError
+ */
+function sendCommand<E extends keyof ClientToServerEvents>(
+  event: E,
+  args: CommandArgs<E>,
+  socketToUse: Socket<ServerToClientEvents, ClientToServerEvents> | null = getSocket()
+): Promise<CommandResponse<E>> {
+  return new Promise((resolve, reject) => {
+    if (!socketToUse?.connected) {
+      reject(new SocketCommandError('Socket not connected', 'disconnected', event));
+      return;
+    }
+
+    const onResult = (err: Error | null, result: CommandResult<CommandResponse<E>>) => {
+      if (err) {
+        reject(new SocketCommandError(`Server did not respond to ${event}`, 'timeout', event));
+      } else if (!result.ok) {
+        reject(new SocketCommandError(result.error.message, 'rejected', event, result.error));
+      } else {
+        resolve(result.data);
+      }
+    };
+
+    // socket.io can't type an emit whose arguments depend on a generic event name
+    const timedSocket = socketToUse.timeout(COMMAND_TIMEOUT_MS) as unknown as {
+      emit: (event: string, ...args: unknown[]) => void;
+    };
+    timedSocket.emit(event, ...args, onResult);
+  });
+}
+
 /**
  * Create a new room
  * @param name - Room name
  * @param isPublic - Whether the room is public
  * @param maxPlayers - Maximum number of players
  * @param userName - User name (host)
- * @param userId - User ID (host)
  * @param isDemo - Whether this is a demo room with mock data
+ * @param password - Optional password for private rooms
+ * @returns Promise that resolves with the created room
  */
-export function createRoom(name: string, isPublic: boolean, maxPlayers: number = 8, userName?: string, userId?: string, isDemo: boolean = false): void {
-  const currentSocket = getSocket();
-  if (!currentSocket?.connected) {
-    throw new Error('Socket not connected');
-  }
-  console.log('Creating room with:', { name, isPublic, maxPlayers, userName, userId, isDemo });
-  currentSocket.emit('room:create', { name, isPublic, maxPlayers, userName, userId, isDemo });
+export function createRoom(name: string, isPublic: boolean, maxPlayers: number = 8, userName?: string, isDemo: boolean = false, password?: string): Promise<{ room: Room }> {
+  log.debug('Creating room', { name, isPublic, maxPlayers, isDemo });
+  return sendCommand('room:create', [{ name, isPublic, maxPlayers, userName, isDemo, password }]);
 }
 
 /**
  * Join an existing room
  * @param roomId - Room ID to join
- * @param userId - User ID
  * @param userName - User name
  * @param socketArg - Optional socket instance for testing
+ * @returns Promise that resolves with the joined room and user
  */
 export function joinRoom(
   roomId: string,
-  userId: string,
   userName: string,
-  socketArg?: import('socket.io-client').Socket<ServerToClientEvents, ClientToServerEvents> | null
-): void {
-  const socketToUse = socketArg ?? getSocket();
-  if (!socketToUse?.connected) {
-    throw new Error('Socket not connected');
-  }
-  
-  console.log('Socket client joining room:', { roomId, userId, userName });
-  socketToUse.emit('room:join', { roomId, userId, userName });
+  socketArg?: Socket<ServerToClientEvents, ClientToServerEvents> | null
+): Promise<{ room: Room; user: User }> {
+  log.debug('Joining room', { roomId });
+  return sendCommand('room:join', [{ roomId, userName }], socketArg ?? getSocket());
+}
+
+/**
+ * Join a room as a spectator, who watches and chats without taking a player slot
+ * @param roomId - Room ID
+ * @param userName - User name
+ * @returns Promise that resolves with the joined room and user
+ */
+export function spectateRoom(roomId: string, userName: string): Promise<{ room: Room; user: User }> {
+  log.debug('Joining room as spectator', { roomId });
+  return sendCommand('room:join', [{ roomId, userName, asSpectator: true }]);
+}
+
+/**
+ * Join a private room by its join code
+ * @param code - Join code shown to the room's members
+ * @param userName - User name
+ * @param password - Room password, if the room has one
+ * @returns Promise that resolves with the joined room and user
+ */
+export function joinRoomByCode(code: string, userName: string, password?: string): Promise<{ room: Room; user: User }> {
+  log.debug('Joining room by code', { joinCode: code });
+  return sendCommand('room:joinByCode', [{ code, userName, password }]);
 }
 
 /**
  * Leave the current room
  */
-export function leaveRoom(): void {
-  const currentSocket = getSocket();
-  if (!currentSocket?.connected) {
-    throw new Error('Socket not connected');
-  }
-  currentSocket.emit('room:leave');
+export function leaveRoom(): Promise<void> {
+  return sendCommand('room:leave', []);
 }
 
 /**
- * Request list of public rooms
+ * Request a page of public rooms
+ * @param query - Search, sort and page options
+ * @returns Promise that resolves with the requested page of room summaries
  */
-export function requestRoomList(): void {
-  const currentSocket = getSocket();
-  if (!currentSocket?.connected) {
-    throw new Error('Socket not connected');
-  }
-  currentSocket.emit('room:list');
+export function requestRoomList(query: RoomListQuery = {}): Promise<RoomListPage> {
+  return sendCommand('room:list', [query]);
+}
+
+/**
+ * Subscribe to the lobby feed
+ * The server answers with a page of public rooms and then pushes lobby:roomAdded,
+ * lobby:roomChanged and lobby:roomRemoved as rooms change.
+ * @param query - Search, sort and page options for the first page
+ * @returns Promise that resolves with the requested page of room summaries
+ */
+export function subscribeLobby(query: RoomListQuery = {}): Promise<RoomListPage> {
+  return sendCommand('lobby:subscribe', [query]);
+}
+
+/**
+ * Stop receiving lobby feed updates
+ */
+export function unsubscribeLobby(): Promise<void> {
+  return sendCommand('lobby:unsubscribe', []);
 }
 
 /**
  * Transfer host role to another user
  * @param newHostId - New host user ID
  */
-export function transferHost(newHostId: string): void {
-  const currentSocket = getSocket();
-  if (!currentSocket?.connected) {
-    throw new Error('Socket not connected');
-  }
-  currentSocket.emit('host:transfer', { newHostId });
+export function transferHost(newHostId: string): Promise<void> {
+  return sendCommand('host:transfer', [{ newHostId }]);
+}
+
+/**
+ * Move a spectator into a free player slot (host only)
+ * @param userId - Spectator's user ID
+ */
+export function promoteSpectator(userId: string): Promise<void> {
+  return sendCommand('room:promoteSpectator', [{ userId }]);
+}
+
+/**
+ * Remove a user from the room (host only); they can join again
+ * @param userId - User ID
+ */
+export function kickUser(userId: string): Promise<void> {
+  return sendCommand('room:kick', [{ userId }]);
+}
+
+/**
+ * Remove a user from the room and stop them from joining again (host only)
+ * @param userId - User ID
+ */
+export function banUser(userId: string): Promise<void> {
+  return sendCommand('room:ban', [{ userId }]);
 }
 
 /**
  * Update room properties
  * @param updates - Properties to update
+ * @returns Promise that resolves with the updated room
  */
-export function updateRoom(updates: { name?: string; isPublic?: boolean }): void {
-  const currentSocket = getSocket();
-  if (!currentSocket?.connected) {
-    throw new Error('Socket not connected');
-  }
-  currentSocket.emit('room:update', updates);
+export function updateRoom(updates: { name?: string; isPublic?: boolean; autoJudge?: AutoJudgeSettings; tags?: string[] }): Promise<{ room: Room }> {
+  return sendCommand('room:update', [updates]);
 }
 
 /**
  * Add a quiz to the room
  * @param quiz - Quiz to add
+ * @returns Promise that resolves with the added quiz
  */
-export function addQuiz(quiz: Quiz): void {
-  const currentSocket = getSocket();
-  if (!currentSocket?.connected) {
-    throw new Error('Socket not connected');
-  }
-  currentSocket.emit('quiz:add', quiz);
+export function addQuiz(quiz: Quiz): Promise<{ quiz: Quiz }> {
+  return sendCommand('quiz:add', [quiz]);
 }
 
 /**
  * Remove a quiz from the room
  * @param quizId - Quiz ID to remove
  */
-export function removeQuiz(quizId: string): void {
-  const currentSocket = getSocket();
-  if (!currentSocket?.connected) {
-    throw new Error('Socket not connected');
-  }
-  currentSocket.emit('quiz:remove', { quizId });
+export function removeQuiz(quizId: string): Promise<void> {
+  return sendCommand('quiz:remove', [{ quizId }]);
 }
 
 /**
@@ -350,12 +505,29 @@ export function removeQuiz(quizId: string): void {
  * @param quizId - Quiz ID to start
  * @param timeLimit - Time limit in seconds
  */
-export function startQuiz(quizId: string, timeLimit?: number): void {
-  const currentSocket = getSocket();
-  if (!currentSocket?.connected) {
-    throw new Error('Socket not connected');
-  }
-  currentSocket.emit('quiz:start', { quizId, timeLimit });
+export function startQuiz(quizId: string, timeLimit?: number): Promise<void> {
+  return sendCommand('quiz:start', [{ quizId, timeLimit }]);
+}
+
+/**
+ * Advance to the next quiz (host only)
+ */
+export function nextQuiz(): Promise<void> {
+  return sendCommand('quiz:next', []);
+}
+
+/**
+ * End the quiz session and return to the lobby (host only)
+ */
+export function endQuiz(): Promise<void> {
+  return sendCommand('quiz:ended', []);
+}
+
+/**
+ * Reveal the correct answer of the current quiz (host only)
+ */
+export function revealAnswer(): Promise<void> {
+  return sendCommand('quiz:revealAnswer', []);
 }
 
 /**
@@ -363,26 +535,39 @@ export function startQuiz(quizId: string, timeLimit?: number): void {
  * @param quizId - Quiz ID
  * @param answer - User's answer
  */
-export function submitAnswer(quizId: string, answer: string): void {
-  const currentSocket = getSocket();
-  if (!currentSocket?.connected) {
-    throw new Error('Socket not connected');
-  }
-  currentSocket.emit('quiz:answer', { quizId, answer });
+export function submitAnswer(quizId: string, answer: string): Promise<void> {
+  return sendCommand('quiz:answer', [{ quizId, answer }]);
+}
+
+/**
+ * Buzz in for the current quiz
+ */
+export function buzzIn(): Promise<void> {
+  return sendCommand('game:buzz', []);
+}
+
+/**
+ * Answer the current quiz after winning the buzz
+ * @param answer - User's answer
+ */
+export function submitBuzzAnswer(answer: string): Promise<void> {
+  return sendCommand('game:answer', [{ answer }]);
+}
+
+/**
+ * Pick a choice in a multiple-choice quiz
+ * @param choiceIndex - Index of the picked choice
+ */
+export function submitChoice(choiceIndex: number): Promise<void> {
+  return sendCommand('game:choice', [{ choiceIndex }]);
 }
 
 /**
  * Send a chat message
  * @param message - Message content
- * @param userId - User ID
- * @param userName - User name
  */
-export function sendChatMessage(message: string, userId: string, userName: string): void {
-  const currentSocket = getSocket();
-  if (!currentSocket?.connected) {
-    throw new Error('Socket not connected');
-  }
-  currentSocket.emit('chat:message', { message, userId, userName });
+export function sendChatMessage(message: string): Promise<void> {
+  return sendCommand('chat:message', [{ message }]);
 }
 
 /**
@@ -391,10 +576,49 @@ export function sendChatMessage(message: string, userId: string, userName: strin
  * @param isCorrect - Whether the answer is correct
  * @param score - Score to award
  */
-export function judgeAnswer(userId: string, isCorrect: boolean, score?: number): void {
-  const currentSocket = getSocket();
-  if (!currentSocket?.connected) {
-    throw new Error('Socket not connected');
-  }
-  currentSocket.emit('quiz:judge', { userId, isCorrect, score });
-} 
\ No newline at end of file
+export function judgeAnswer(userId: string, isCorrect: boolean, score?: number): Promise<void> {
+  return sendCommand('quiz:judge', [{ userId, isCorrect, score }]);
+}
+
+/**
+ * Request the decks available to the current user
+ * @returns Promise that resolves with the decks
+ */
+export function requestDeckList(): Promise<{ decks: QuizDeck[] }> {
+  return sendCommand('deck:list', []);
+}
+
+/**
+ * Save quizzes as a new deck
+ * @param deck - Deck title, optional description and tags, and quizzes
+ * @returns Promise that resolves with the saved deck
+ */
+export function createDeck(deck: { title: string; description?: string; tags?: string[]; quizzes: Quiz[] }): Promise<{ deck: QuizDeck }> {
+  return sendCommand('deck:create', [deck]);
+}
+
+/**
+ * Update one of the current user's decks
+ * @param deckId - Deck ID
+ * @param updates - Properties to update
+ * @returns Promise that resolves with the updated deck
+ */
+export function updateDeck(deckId: string, updates: { title?: string; description?: string; tags?: string[]; quizzes?: Quiz[] }): Promise<{ deck: QuizDeck }> {
+  return sendCommand('deck:update', [{ deckId, ...updates }]);
+}
+
+/**
+ * Delete one of the current user's decks
+ * @param deckId - Deck ID
+ */
+export function deleteDeck(deckId: string): Promise<void> {
+  return sendCommand('deck:delete', [{ deckId }]);
+}
+
+/**
+ * Replace the room's quizzes with a deck (host only)
+ * @param deckId - Deck ID
+ */
+export function loadDeck(deckId: string): Promise<void> {
+  return sendCommand('deck:load', [{ deckId }]);
+}
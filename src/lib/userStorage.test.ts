@@ -5,6 +5,8 @@ import {
   getUserId,
   setUserName,
   setUserWithId,
+  setSession,
+  getSessionToken,
   clearUserData,
   hasUserData,
   resetCache,
@@ -147,6 +149,29 @@ describe('User Storage', () => {
     });
   });
 
+  describe('setSession', () => {
+    test('should return null before a session is issued', () => {
+      expect(getSessionToken()).toBeNull();
+    });
+
+    test('should replace the local user ID and keep the name', () => {
+      setUserWithId('Test User');
+      
+      setSession('server-id', 'server-id.signature');
+      
+      expect(getUserId()).toBe('server-id');
+      expect(getSessionToken()).toBe('server-id.signature');
+      expect(getUserName()).toBe('Test User');
+    });
+
+    test('should persist the session across cache resets', () => {
+      setSession('server-id', 'server-id.signature');
+      resetCache();
+      
+      expect(getSessionToken()).toBe('server-id.signature');
+    });
+  });
+
   describe('getStorageAvailability', () => {
     test('should return availability status for all storage types', () => {
       const availability = getStorageAvailability();
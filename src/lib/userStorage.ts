@@ -5,6 +5,13 @@
  * - Handles storage expiration and cleanup
  */
 
+import { createLogger } from './logger';
+
+/**
+ * Log of storage failures and user ID changes
+ */
+const log = createLogger('userStorage');
+
 /**
  * Storage types supported by the application
  */
@@ -17,6 +24,8 @@ export interface UserData {
   id: string;
   name: string;
   lastUsed: number;
+  // Server-issued proof of the ID; absent until the first connection
+  sessionToken?: string;
 }
 
 /**
@@ -54,7 +63,7 @@ function getUserFromCookie(): UserData | null {
     const decoded = decodeURIComponent(value);
     return JSON.parse(decoded);
   } catch (error) {
-    console.warn('Failed to read user from cookie:', error);
+    log.warn('Failed to read user from cookie', { error });
     return null;
   }
 }
@@ -75,7 +84,7 @@ function setUserInCookie(userData: UserData): void {
     
     document.cookie = `${STORAGE_CONFIG.COOKIE_NAME}=${encoded}; expires=${expires.toUTCString()}; path=/; SameSite=Lax`;
   } catch (error) {
-    console.warn('Failed to set user in cookie:', error);
+    log.warn('Failed to set user in cookie', { error });
   }
 }
 
@@ -92,7 +101,7 @@ function getUserFromLocalStorage(): UserData | null {
     
     return JSON.parse(stored);
   } catch (error) {
-    console.warn('Failed to read user from localStorage:', error);
+    log.warn('Failed to read user from localStorage', { error });
     return null;
   }
 }
@@ -107,7 +116,7 @@ function setUserInLocalStorage(userData: UserData): void {
     
     window.localStorage.setItem(STORAGE_CONFIG.LOCAL_STORAGE_KEY, JSON.stringify(userData));
   } catch (error) {
-    console.warn('Failed to set user in localStorage:', error);
+    log.warn('Failed to set user in localStorage', { error });
   }
 }
 
@@ -124,7 +133,7 @@ function getUserFromSessionStorage(): UserData | null {
     
     return JSON.parse(stored);
   } catch (error) {
-    console.warn('Failed to read user from sessionStorage:', error);
+    log.warn('Failed to read user from sessionStorage', { error });
     return null;
   }
 }
@@ -139,7 +148,7 @@ function setUserInSessionStorage(userData: UserData): void {
     
     window.sessionStorage.setItem(STORAGE_CONFIG.SESSION_STORAGE_KEY, JSON.stringify(userData));
   } catch (error) {
-    console.warn('Failed to set user in sessionStorage:', error);
+    log.warn('Failed to set user in sessionStorage', { error });
   }
 }
 
@@ -148,22 +157,17 @@ function setUserInSessionStorage(userData: UserData): void {
  * @returns User data or null if not found
  */
 export function getUserData(): UserData | null {
-  console.log('=== getUserData Debug ===');
-  
   // Return cached data if available and valid
   if (cacheInitialized && userDataCache && userDataCache.id) {
-    console.log('Returning cached user data:', userDataCache);
     return userDataCache;
   }
   
   // Try to get data from localStorage
   let userData = getUserFromLocalStorage();
-  console.log('User data from localStorage:', userData);
-  
   if (userData) {
     // Check if user data has ID, if not, it's old format
     if (!userData.id) {
-      console.log('Converting old format localStorage data to new format');
+      log.debug('Converting old format user data', { storage: 'localStorage' });
       userData = {
         id: generateUserId(),
         name: userData.name || '',
@@ -175,18 +179,16 @@ export function getUserData(): UserData | null {
     
     userDataCache = userData;
     cacheInitialized = true;
-    console.log('Using localStorage data:', userData);
+    log.debug('Loaded user data', { storage: 'localStorage', userId: userData.id });
     return userData;
   }
   
   // Try to get data from sessionStorage
   userData = getUserFromSessionStorage();
-  console.log('User data from sessionStorage:', userData);
-  
   if (userData) {
     // Check if user data has ID, if not, it's old format
     if (!userData.id) {
-      console.log('Converting old format sessionStorage data to new format');
+      log.debug('Converting old format user data', { storage: 'sessionStorage' });
       userData = {
         id: generateUserId(),
         name: userData.name || '',
@@ -198,18 +200,16 @@ export function getUserData(): UserData | null {
     
     userDataCache = userData;
     cacheInitialized = true;
-    console.log('Using sessionStorage data:', userData);
+    log.debug('Loaded user data', { storage: 'sessionStorage', userId: userData.id });
     return userData;
   }
   
   // Try to get data from cookie
   userData = getUserFromCookie();
-  console.log('User data from cookie:', userData);
-  
   if (userData) {
     // Check if user data has ID, if not, it's old format
     if (!userData.id) {
-      console.log('Converting old format cookie data to new format');
+      log.debug('Converting old format user data', { storage: 'cookie' });
       userData = {
         id: generateUserId(),
         name: userData.name || '',
@@ -221,13 +221,10 @@ export function getUserData(): UserData | null {
     
     userDataCache = userData;
     cacheInitialized = true;
-    console.log('Using cookie data:', userData);
+    log.debug('Loaded user data', { storage: 'cookie', userId: userData.id });
     return userData;
   }
   
-  console.log('No user data found in any storage');
-  console.log('=== End getUserData Debug ===');
-  
   cacheInitialized = true;
   return null;
 }
@@ -254,23 +251,16 @@ function generateUserId(): string {
  * @returns User ID string
  */
 export function getUserId(): string {
-  console.log('=== getUserId Debug ===');
-  console.log('Cache initialized:', cacheInitialized);
-  console.log('User data cache:', userDataCache);
-  
   // Return cached ID if available and valid
   if (cacheInitialized && userDataCache && userDataCache.id) {
-    console.log('Returning cached user ID:', userDataCache.id);
     return userDataCache.id;
   }
   
   let userData = getUserData();
-  console.log('User data from storage:', userData);
-  
   // If no user data exists or user data doesn't have ID, generate new user with ID
   if (!userData || !userData.id) {
     const newId = generateUserId();
-    console.log('Generating new user ID:', newId);
+    log.debug('Generated new user ID', { userId: newId });
     
     // If we have existing user data without ID, preserve the name
     const existingName = userData?.name || '';
@@ -296,8 +286,6 @@ export function getUserId(): string {
       lastUsed: Date.now(),
     };
     
-    console.log('Updating existing user data:', updatedUserData);
-    
     // Update cache
     userDataCache = updatedUserData;
     
@@ -307,8 +295,6 @@ export function getUserId(): string {
     setUserInCookie(updatedUserData);
   }
   
-  console.log('Final user ID to return:', userData.id);
-  console.log('=== End getUserId Debug ===');
   return userData.id;
 }
 
@@ -345,6 +331,37 @@ export function setUserWithId(name: string): void {
   setUserInCookie(userData);
 }
 
+/**
+ * Store the session issued by the server, replacing the local user ID
+ * @param userId - User ID assigned by the server
+ * @param sessionToken - Token proving the user ID on later connections
+ */
+export function setSession(userId: string, sessionToken: string): void {
+  const userData: UserData = {
+    ...(getUserData() ?? { name: '' }),
+    id: userId,
+    sessionToken,
+    lastUsed: Date.now(),
+  };
+  
+  // Update cache
+  userDataCache = userData;
+  cacheInitialized = true;
+  
+  // Store in all available storage types
+  setUserInLocalStorage(userData);
+  setUserInSessionStorage(userData);
+  setUserInCookie(userData);
+}
+
+/**
+ * Get the stored session token
+ * @returns Session token or null if the server has not issued one yet
+ */
+export function getSessionToken(): string | null {
+  return getUserData()?.sessionToken || null;
+}
+
 /**
  * Set user data with fallback mechanism
  * Stores in all available storage types for redundancy
@@ -378,7 +395,7 @@ export function clearUserData(): void {
       document.cookie = `${STORAGE_CONFIG.COOKIE_NAME}=; expires=Thu, 01 Jan 1970 00:00:00 UTC; path=/;`;
     }
   } catch (error) {
-    console.warn('Failed to clear user data:', error);
+    log.warn('Failed to clear user data', { error });
   }
 }
 
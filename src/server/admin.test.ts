@@ -0,0 +1,179 @@
+import { describe, test, expect, beforeEach, vi } from 'vitest';
+import { Readable } from 'stream';
+import type { IncomingMessage, ServerResponse } from 'http';
+import { createAdminHandler } from './admin';
+import { closeRoom, kickUser, broadcastNotice } from './socket';
+import { createRoom, resetRoomState, leaveRoom } from '../lib/roomManager';
+
+vi.mock('./socket', () => ({
+  closeRoom: vi.fn(),
+  kickUser: vi.fn(),
+  broadcastNotice: vi.fn(),
+}));
+
+const SECRET = 'test-secret';
+
+type Response = { status: number; body: Record<string, unknown> };
+
+/**
+ * Send a request through the admin handler
+ * @returns The response once written
+ */
+function request(
+  handler: ReturnType<typeof createAdminHandler>,
+  method: string,
+  url: string,
+  options: { body?: unknown; token?: string | null } = {}
+): Promise<Response> {
+  const { body, token = SECRET } = options;
+  const req = Readable.from(body === undefined ? [] : [JSON.stringify(body)]) as unknown as IncomingMessage;
+  req.method = method;
+  req.url = url;
+  req.headers = token === null ? {} : { authorization: `Bearer ${token}` };
+
+  return new Promise<Response>((resolve) => {
+    let status = 0;
+    const res = {
+      writeHead: (code: number) => {
+        status = code;
+      },
+      end: (text: string) => resolve({ status, body: JSON.parse(text) }),
+    } as unknown as ServerResponse;
+    handler(req, res);
+  });
+}
+
+describe('Admin API', () => {
+  const handler = createAdminHandler(SECRET);
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    resetRoomState();
+  });
+
+  test('should ignore requests outside /admin', async () => {
+    const res = {} as ServerResponse;
+    const req = { url: '/health', method: 'GET', headers: {} } as IncomingMessage;
+
+    expect(handler(req, res)).toBe(false);
+  });
+
+  test('should be disabled without a secret', async () => {
+    const response = await request(createAdminHandler(undefined), 'GET', '/admin/rooms');
+
+    expect(response).toEqual({ status: 404, body: { error: 'Admin API is disabled' } });
+  });
+
+  test('should reject a missing or wrong secret', async () => {
+    expect((await request(handler, 'GET', '/admin/rooms', { token: null })).status).toBe(401);
+    expect((await request(handler, 'GET', '/admin/rooms', { token: 'wrong' })).status).toBe(401);
+  });
+
+  test('should list rooms with their users and state', async () => {
+    const publicRoom = createRoom('Public Room', true, 8, 'Host');
+    const privateRoom = createRoom('Private Room', false, 4, 'Other Host');
+    leaveRoom(privateRoom.id, privateRoom.hostId);
+
+    const { status, body } = await request(handler, 'GET', '/admin/rooms');
+
+    expect(status).toBe(200);
+    const rooms = body.rooms as Array<Record<string, unknown>>;
+    expect(rooms).toHaveLength(2);
+    expect(rooms.find(room => room.id === publicRoom.id)).toMatchObject({
+      name: 'Public Room',
+      isPublic: true,
+      users: [expect.objectContaining({ name: 'Host', isHost: true })],
+      quizCount: 0,
+      phase: 'lobby',
+      scores: [],
+      emptyForMs: null,
+    });
+    expect(rooms.find(room => room.id === privateRoom.id)).toMatchObject({
+      isPublic: false,
+      users: [],
+      emptyForMs: expect.any(Number),
+    });
+  });
+
+  test('should close a room with the given reason', async () => {
+    vi.mocked(closeRoom).mockReturnValueOnce(true);
+
+    const { status, body } = await request(handler, 'DELETE', '/admin/rooms/room-1', {
+      body: { reason: 'Server maintenance' },
+    });
+
+    expect(status).toBe(200);
+    expect(body).toEqual({ closed: 'room-1' });
+    expect(closeRoom).toHaveBeenCalledWith('room-1', 'Server maintenance');
+  });
+
+  test('should answer 404 when closing an unknown room', async () => {
+    vi.mocked(closeRoom).mockReturnValueOnce(false);
+
+    const { status } = await request(handler, 'DELETE', '/admin/rooms/missing');
+
+    expect(status).toBe(404);
+    expect(closeRoom).toHaveBeenCalledWith('missing', 'This room was closed by an operator');
+  });
+
+  test('should kick a user from a room', async () => {
+    vi.mocked(kickUser).mockReturnValueOnce(true);
+
+    const { status, body } = await request(handler, 'DELETE', '/admin/rooms/room-1/users/user%201');
+
+    expect(status).toBe(200);
+    expect(body).toEqual({ kicked: 'user 1', roomId: 'room-1' });
+    expect(kickUser).toHaveBeenCalledWith('room-1', 'user 1', 'You were removed from the room by an operator');
+  });
+
+  test('should answer 404 when the user is not in the room', async () => {
+    vi.mocked(kickUser).mockReturnValueOnce(false);
+
+    const { status } = await request(handler, 'DELETE', '/admin/rooms/room-1/users/nobody');
+
+    expect(status).toBe(404);
+  });
+
+  test('should broadcast a notice', async () => {
+    vi.mocked(broadcastNotice).mockReturnValueOnce(3);
+
+    const { status, body } = await request(handler, 'POST', '/admin/notice', {
+      body: { message: '  Restarting in 5 minutes  ' },
+    });
+
+    expect(status).toBe(200);
+    expect(body).toEqual({ recipients: 3 });
+    expect(broadcastNotice).toHaveBeenCalledWith('Restarting in 5 minutes');
+  });
+
+  test('should reject invalid notices', async () => {
+    expect((await request(handler, 'POST', '/admin/notice', { body: {} })).status).toBe(400);
+    expect((await request(handler, 'POST', '/admin/notice', { body: { message: 'x'.repeat(501) } })).status).toBe(400);
+    expect((await request(handler, 'POST', '/admin/notice', { body: ['message'] })).status).toBe(400);
+    expect(broadcastNotice).not.toHaveBeenCalled();
+  });
+
+  test('should clean up abandoned rooms', async () => {
+    const mockDate = vi.spyOn(Date, 'now').mockReturnValue(1000000);
+    const room = createRoom('Abandoned Room', true, 8, 'Host');
+    leaveRoom(room.id, room.hostId);
+    mockDate.mockReturnValue(1000000 + 60 * 1000);
+
+    const { status, body } = await request(handler, 'POST', '/admin/cleanup', { body: { maxEmptyMs: 30 * 1000 } });
+
+    expect(status).toBe(200);
+    expect(body).toEqual({ cleaned: 1 });
+    mockDate.mockRestore();
+  });
+
+  test('should reject an invalid cleanup age', async () => {
+    const { status } = await request(handler, 'POST', '/admin/cleanup', { body: { maxEmptyMs: -1 } });
+
+    expect(status).toBe(400);
+  });
+
+  test('should answer 404 for unknown endpoints', async () => {
+    expect((await request(handler, 'GET', '/admin/unknown')).status).toBe(404);
+    expect((await request(handler, 'PUT', '/admin/rooms')).status).toBe(404);
+  });
+});
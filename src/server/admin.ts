@@ -0,0 +1,249 @@
+/**
+ * Operator HTTP API for the standalone Socket.io server
+ * - JSON endpoints under /admin for inspecting and managing a running server
+ * - Every request must carry the shared secret as "Authorization: Bearer <ADMIN_SECRET>"
+ * - Disabled (404) unless a secret is configured
+ *
+ * Endpoints:
+ * - GET    /admin/rooms                         Rooms with their users, game phase and scores
+ * - DELETE /admin/rooms/:roomId                 Close a room ({ reason? })
+ * - DELETE /admin/rooms/:roomId/users/:userId   Remove a user from a room ({ reason? })
+ * - POST   /admin/notice                        Send a notice to every connection ({ message })
+ * - POST   /admin/cleanup                       Delete abandoned rooms ({ maxEmptyMs? })
+ */
+
+import type { IncomingMessage, ServerResponse } from 'http';
+import { createHash, timingSafeEqual } from 'crypto';
+import type { Room, User, GamePhase, Score } from '../types';
+import { getAllRooms, getGameSession, getScores, getEmptyRoomsInfo, cleanupAbandonedRooms } from '../lib/roomManager';
+import { closeRoom, kickUser, broadcastNotice } from './socket';
+import { createLogger } from '../lib/logger';
+
+/**
+ * Log of admin API failures
+ */
+const log = createLogger('admin');
+
+/**
+ * Largest request body accepted (bytes)
+ */
+const MAX_BODY_BYTES = 16 * 1024;
+
+/**
+ * Longest notice or reason accepted (characters)
+ */
+const MAX_MESSAGE_LENGTH = 500;
+
+/**
+ * What operators see of a room
+ * @property emptyForMs - How long the room has been empty (null while someone is in it)
+ */
+export type AdminRoomInfo = {
+  id: string;
+  name: string;
+  isPublic: boolean;
+  hostId: string;
+  maxPlayers: number;
+  createdAt: number;
+  users: User[];
+  quizCount: number;
+  phase: GamePhase;
+  scores: Score[];
+  emptyForMs: number | null;
+};
+
+/**
+ * Handles a request if it belongs to the admin API
+ * @returns True if the request was handled
+ */
+export type AdminHandler = (req: IncomingMessage, res: ServerResponse) => boolean;
+
+/**
+ * A request the API refuses, answered with its status code and message
+ */
+class AdminError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+/**
+ * Write a JSON response
+ * @param res - Server response
+ * @param status - HTTP status code
+ * @param body - Response body
+ */
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * Compare a presented secret with the configured one in constant time
+ * @param presented - Secret from the request
+ * @param secret - Configured secret
+ */
+function isSecretValid(presented: string, secret: string): boolean {
+  // Hash both so the comparison doesn't leak the secret's length
+  const expected = createHash('sha256').update(secret).digest();
+  const actual = createHash('sha256').update(presented).digest();
+  return timingSafeEqual(expected, actual);
+}
+
+/**
+ * Read and parse a JSON request body (an empty body reads as {})
+ * @param req - Incoming request
+ * @returns The parsed body
+ */
+async function readJsonBody(req: IncomingMessage): Promise<Record<string, unknown>> {
+  let raw = '';
+  for await (const chunk of req) {
+    raw += chunk;
+    if (raw.length > MAX_BODY_BYTES) {
+      throw new AdminError(413, 'Request body is too large');
+    }
+  }
+  if (!raw.trim()) {
+    return {};
+  }
+
+  let body: unknown;
+  try {
+    body = JSON.parse(raw);
+  } catch {
+    throw new AdminError(400, 'Request body must be JSON');
+  }
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    throw new AdminError(400, 'Request body must be a JSON object');
+  }
+  return body as Record<string, unknown>;
+}
+
+/**
+ * Read an optional text field from a request body
+ * @param body - Parsed body
+ * @param field - Field name
+ * @param fallback - Used when the field is absent
+ */
+function readText(body: Record<string, unknown>, field: string, fallback?: string): string {
+  const value = body[field] ?? fallback;
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new AdminError(400, `${field} is required`);
+  }
+  if (value.length > MAX_MESSAGE_LENGTH) {
+    throw new AdminError(400, `${field} must be at most ${MAX_MESSAGE_LENGTH} characters`);
+  }
+  return value.trim();
+}
+
+/**
+ * Describe a room for operators
+ * @param room - Room to describe
+ * @param emptySince - Empty durations by room ID
+ */
+function describeRoom(room: Room, emptySince: Map<string, number>): AdminRoomInfo {
+  return {
+    id: room.id,
+    name: room.name,
+    isPublic: room.isPublic,
+    hostId: room.hostId,
+    maxPlayers: room.maxPlayers,
+    createdAt: room.createdAt,
+    users: room.users,
+    quizCount: room.quizzes.length,
+    phase: getGameSession(room.id)?.phase ?? 'lobby',
+    scores: getScores(room.id),
+    emptyForMs: emptySince.get(room.id) ?? null,
+  };
+}
+
+/**
+ * Run the endpoint a request is for
+ * @param method - HTTP method
+ * @param pathname - URL path
+ * @param req - Incoming request
+ * @returns Status code and response body
+ */
+async function route(method: string, pathname: string, req: IncomingMessage): Promise<[number, unknown]> {
+  let path: string[];
+  try {
+    path = pathname.split('/').slice(2).filter(Boolean).map(decodeURIComponent);
+  } catch {
+    throw new AdminError(400, 'Malformed URL');
+  }
+  const [resource, roomId, subResource, userId, ...rest] = path;
+
+  if (resource === 'rooms' && path.length === 1 && method === 'GET') {
+    const emptySince = new Map(getEmptyRoomsInfo().map(info => [info.roomId, info.emptyDuration]));
+    return [200, { rooms: getAllRooms().map(room => describeRoom(room, emptySince)) }];
+  }
+
+  if (resource === 'rooms' && roomId && path.length === 2 && method === 'DELETE') {
+    const reason = readText(await readJsonBody(req), 'reason', 'This room was closed by an operator');
+    if (!closeRoom(roomId, reason)) {
+      throw new AdminError(404, 'Room not found');
+    }
+    return [200, { closed: roomId }];
+  }
+
+  if (resource === 'rooms' && roomId && subResource === 'users' && userId && rest.length === 0 && method === 'DELETE') {
+    const reason = readText(await readJsonBody(req), 'reason', 'You were removed from the room by an operator');
+    if (!kickUser(roomId, userId, reason)) {
+      throw new AdminError(404, 'User not found in room');
+    }
+    return [200, { kicked: userId, roomId }];
+  }
+
+  if (resource === 'notice' && path.length === 1 && method === 'POST') {
+    const message = readText(await readJsonBody(req), 'message');
+    return [200, { recipients: broadcastNotice(message) }];
+  }
+
+  if (resource === 'cleanup' && path.length === 1 && method === 'POST') {
+    const { maxEmptyMs } = await readJsonBody(req);
+    if (maxEmptyMs !== undefined && (typeof maxEmptyMs !== 'number' || !Number.isFinite(maxEmptyMs) || maxEmptyMs < 0)) {
+      throw new AdminError(400, 'maxEmptyMs must be a non-negative number');
+    }
+    return [200, { cleaned: cleanupAbandonedRooms(maxEmptyMs) }];
+  }
+
+  throw new AdminError(404, 'Not found');
+}
+
+/**
+ * Create the admin API request handler
+ * @param secret - Shared secret operators must present (the API is disabled when empty)
+ * @returns Handler to call from the HTTP server for every request
+ */
+export function createAdminHandler(secret: string | undefined): AdminHandler {
+  return (req, res) => {
+    const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+    if (pathname !== '/admin' && !pathname.startsWith('/admin/')) {
+      return false;
+    }
+
+    if (!secret) {
+      sendJson(res, 404, { error: 'Admin API is disabled' });
+      return true;
+    }
+
+    const authorization = req.headers.authorization ?? '';
+    const presented = authorization.startsWith('Bearer ') ? authorization.slice('Bearer '.length) : '';
+    if (!isSecretValid(presented, secret)) {
+      sendJson(res, 401, { error: 'Unauthorized' });
+      return true;
+    }
+
+    route(req.method ?? 'GET', pathname, req)
+      .then(([status, body]) => sendJson(res, status, body))
+      .catch((error: unknown) => {
+        if (error instanceof AdminError) {
+          sendJson(res, error.status, { error: error.message });
+          return;
+        }
+        log.error('Admin request failed', { method: req.method, path: pathname, error });
+        sendJson(res, 500, { error: 'Internal server error' });
+      });
+    return true;
+  };
+}
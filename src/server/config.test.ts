@@ -0,0 +1,112 @@
+import { describe, test, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { loadConfig, ConfigError, DEFAULT_CONFIG } from './config';
+
+describe('Server configuration', () => {
+  let tempDir: string;
+  let configFile: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'quiz-world-'));
+    configFile = path.join(tempDir, 'config.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  /**
+   * Load the configuration, returning the problems instead of throwing
+   */
+  function problemsOf(env: Record<string, string>): string[] {
+    try {
+      loadConfig(env);
+      return [];
+    } catch (error) {
+      expect(error).toBeInstanceOf(ConfigError);
+      return (error as ConfigError).problems;
+    }
+  }
+
+  test('should use the defaults when nothing is set', () => {
+    expect(loadConfig({})).toEqual({ ...DEFAULT_CONFIG, log: { level: undefined, format: undefined } });
+    expect(DEFAULT_CONFIG.game).toEqual({
+      defaultMaxPlayers: 8,
+      defaultMaxSpectators: 20,
+      defaultTimeLimitSeconds: 30,
+      correctAnswerScore: 10,
+      reconnectGraceMs: 30000,
+    });
+    expect(DEFAULT_CONFIG.cleanup.maxEmptyMs).toBe(30 * 60 * 1000);
+  });
+
+  test('should read environment variables', () => {
+    const config = loadConfig({
+      PORT: '4000',
+      CORS_ORIGINS: 'https://quiz.example.com, https://www.quiz.example.com',
+      ADMIN_SECRET: 'admin',
+      DEFAULT_MAX_PLAYERS: '6',
+      DEFAULT_TIME_LIMIT_SECONDS: '45',
+      ROOM_MAX_EMPTY_MS: '60000',
+      LOG_LEVEL: 'debug',
+    });
+
+    expect(config.port).toBe(4000);
+    expect(config.corsOrigins).toEqual(['https://quiz.example.com', 'https://www.quiz.example.com']);
+    expect(config.adminSecret).toBe('admin');
+    expect(config.game.defaultMaxPlayers).toBe(6);
+    expect(config.game.defaultTimeLimitSeconds).toBe(45);
+    expect(config.cleanup.maxEmptyMs).toBe(60000);
+    expect(config.log.level).toBe('debug');
+  });
+
+  test('should read a JSON file, with environment variables taking precedence', () => {
+    fs.writeFileSync(configFile, JSON.stringify({
+      port: 5000,
+      corsOrigins: ['https://quiz.example.com'],
+      game: { correctAnswerScore: 20, defaultMaxPlayers: 4 },
+    }));
+
+    const config = loadConfig({ CONFIG_FILE: configFile, DEFAULT_MAX_PLAYERS: '5' });
+
+    expect(config.port).toBe(5000);
+    expect(config.corsOrigins).toEqual(['https://quiz.example.com']);
+    expect(config.game.correctAnswerScore).toBe(20);
+    expect(config.game.defaultMaxPlayers).toBe(5);
+    expect(config.game.defaultTimeLimitSeconds).toBe(30);
+  });
+
+  test('should report every invalid value with where it came from', () => {
+    fs.writeFileSync(configFile, JSON.stringify({ game: { defaultTimeLimitSeconds: 'long' } }));
+
+    const problems = problemsOf({ CONFIG_FILE: configFile, PORT: 'abc', DEFAULT_MAX_PLAYERS: '50', LOG_FORMAT: 'xml' });
+
+    expect(problems).toEqual([
+      'PORT must be a whole number between 1 and 65535 (got "abc")',
+      'DEFAULT_MAX_PLAYERS must be a whole number between 2 and 8 (got "50")',
+      `game.defaultTimeLimitSeconds in ${configFile} must be a whole number between 5 and 600 (got "long")`,
+      'LOG_FORMAT must be one of json, pretty (got "xml")',
+    ]);
+  });
+
+  test('should reject unknown settings in the file', () => {
+    fs.writeFileSync(configFile, JSON.stringify({ game: { maxPlayer: 4 } }));
+
+    expect(problemsOf({ CONFIG_FILE: configFile })).toEqual([`Unknown setting game.maxPlayer in ${configFile}`]);
+  });
+
+  test('should report a config file that cannot be read', () => {
+    fs.writeFileSync(configFile, '{ not json');
+
+    expect(problemsOf({ CONFIG_FILE: configFile })[0]).toMatch(/^Could not read/);
+    expect(problemsOf({ CONFIG_FILE: path.join(tempDir, 'missing.json') })[0]).toMatch(/^Could not read/);
+  });
+
+  test('should require CORS origins in production', () => {
+    expect(problemsOf({ NODE_ENV: 'production' })).toEqual(['CORS_ORIGINS must list the web app origins in production']);
+    expect(problemsOf({ NODE_ENV: 'production', CORS_ORIGINS: 'quiz.example.com' })[0]).toMatch(/^CORS_ORIGINS must list origin URLs/);
+    expect(loadConfig({ NODE_ENV: 'production', CORS_ORIGINS: 'https://quiz.example.com' }).corsOrigins).toEqual(['https://quiz.example.com']);
+  });
+});
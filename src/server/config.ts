@@ -0,0 +1,259 @@
+/**
+ * Configuration of the standalone Socket.io server
+ * - Defaults, overridden by an optional JSON file (CONFIG_FILE), overridden by environment variables
+ * - Every value is validated at startup; all problems are reported together
+ * - The result is passed to the socket server, room manager, cleanup and shutdown
+ *
+ * The JSON file uses the ServerConfig shape, e.g. { "port": 3002, "game": { "defaultMaxPlayers": 6 } }
+ */
+
+import fs from 'fs';
+import { DEFAULT_ROOM_SETTINGS } from '../lib/roomManager';
+import { PAYLOAD_LIMITS } from '../lib/payloadValidation';
+import type { LogFormat, LogLevel } from '../lib/logger';
+
+/**
+ * Server configuration
+ * @property port - Port the HTTP server listens on
+ * @property corsOrigins - Origins allowed to connect (the web app's URLs)
+ * @property adminSecret - Bearer token of the admin API; the API is disabled without one
+ * @property sessionSecret - Session token signing key; a random key is used without one
+ * @property roomStoreFile - JSON file rooms are written through to; rooms live in memory without one
+ * @property roomSnapshotFile - Where in-memory rooms are saved on shutdown and restored from on start
+ * @property deckStoreFile - JSON file user decks are written through to
+ * @property game - Room and game defaults
+ * @property cleanup - Room cleanup schedule and thresholds
+ * @property shutdown - Graceful shutdown timing
+ * @property log - Log level and format (the logger falls back to LOG_LEVEL and LOG_FORMAT)
+ */
+export type ServerConfig = {
+  port: number;
+  corsOrigins: string[];
+  adminSecret?: string;
+  sessionSecret?: string;
+  roomStoreFile?: string;
+  roomSnapshotFile: string;
+  deckStoreFile: string;
+  game: {
+    defaultMaxPlayers: number;
+    defaultMaxSpectators: number;
+    defaultTimeLimitSeconds: number;
+    correctAnswerScore: number;
+    reconnectGraceMs: number;
+  };
+  cleanup: {
+    intervalMs: number;
+    maxEmptyMs: number;
+    maxIdleMs: number;
+  };
+  shutdown: {
+    drainTimeoutMs: number;
+    reconnectAfterMs: number;
+  };
+  log: {
+    level?: LogLevel;
+    format?: LogFormat;
+  };
+};
+
+/**
+ * Configuration used for anything not set (CORS origins must be set in production)
+ */
+export const DEFAULT_CONFIG: ServerConfig = {
+  port: 3002,
+  corsOrigins: ['http://localhost:3000', 'http://localhost:3002'],
+  roomSnapshotFile: './data/rooms-snapshot.json',
+  deckStoreFile: './data/decks.json',
+  game: {
+    defaultMaxPlayers: DEFAULT_ROOM_SETTINGS.defaultMaxPlayers,
+    defaultMaxSpectators: DEFAULT_ROOM_SETTINGS.defaultMaxSpectators,
+    defaultTimeLimitSeconds: 30,
+    correctAnswerScore: DEFAULT_ROOM_SETTINGS.correctAnswerScore,
+    reconnectGraceMs: 30 * 1000,
+  },
+  cleanup: {
+    intervalMs: 60 * 1000,
+    maxEmptyMs: DEFAULT_ROOM_SETTINGS.maxEmptyMs,
+    maxIdleMs: 2 * 60 * 60 * 1000,
+  },
+  shutdown: {
+    drainTimeoutMs: 10 * 1000,
+    reconnectAfterMs: 5 * 1000,
+  },
+  log: {},
+};
+
+/**
+ * Thrown by loadConfig when the configuration can't be used
+ * The message lists every problem found.
+ */
+export class ConfigError extends Error {
+  readonly problems: string[];
+
+  constructor(problems: string[]) {
+    super(`Invalid server configuration:\n${problems.map(problem => `- ${problem}`).join('\n')}`);
+    this.name = 'ConfigError';
+    this.problems = problems;
+  }
+}
+
+/**
+ * Environment variables the configuration is read from
+ */
+type Env = Record<string, string | undefined>;
+
+/**
+ * A configured value and where it came from, for error messages
+ */
+type Setting = { value: unknown; source: string };
+
+/**
+ * Whether a value is a plain JSON object
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Read the JSON configuration file
+ * @param file - Path of the file
+ * @param problems - Problems found so far; read errors are added here
+ * @returns The file's settings, or an empty object if it can't be used
+ */
+function readConfigFile(file: string, problems: string[]): Record<string, unknown> {
+  try {
+    const parsed: unknown = JSON.parse(fs.readFileSync(file, 'utf8'));
+    if (isRecord(parsed)) {
+      return parsed;
+    }
+    problems.push(`${file} must contain a JSON object`);
+  } catch (error) {
+    problems.push(`Could not read ${file}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  return {};
+}
+
+/**
+ * Dotted paths of every value in the configuration file
+ * @param node - Object to walk
+ * @param prefix - Path of the object
+ */
+function leafPaths(node: Record<string, unknown>, prefix = ''): string[] {
+  return Object.entries(node).flatMap(([key, value]) =>
+    isRecord(value) ? leafPaths(value, `${prefix}${key}.`) : [`${prefix}${key}`]
+  );
+}
+
+/**
+ * Load and validate the server configuration
+ * @param env - Environment variables (defaults to process.env)
+ * @returns The configuration
+ * @throws ConfigError listing every invalid or unknown setting
+ */
+export function loadConfig(env: Env = process.env): ServerConfig {
+  const problems: string[] = [];
+  const file = env.CONFIG_FILE ? readConfigFile(env.CONFIG_FILE, problems) : {};
+  const readPaths = new Set<string>();
+
+  /** The environment variable if set, otherwise the file's value at a dotted path */
+  const lookup = (path: string, envName: string): Setting | undefined => {
+    readPaths.add(path);
+    const fromEnv = env[envName];
+    if (fromEnv !== undefined && fromEnv !== '') {
+      return { value: fromEnv, source: envName };
+    }
+    const fromFile = path.split('.').reduce<unknown>((node, key) => (isRecord(node) ? node[key] : undefined), file);
+    return fromFile === undefined ? undefined : { value: fromFile, source: `${path} in ${env.CONFIG_FILE}` };
+  };
+
+  const integer = (path: string, envName: string, fallback: number, min: number, max?: number): number => {
+    const setting = lookup(path, envName);
+    if (!setting) {
+      return fallback;
+    }
+    const value = typeof setting.value === 'string' ? Number(setting.value.trim()) : setting.value;
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < min || (max !== undefined && value > max)) {
+      const range = max === undefined ? `at least ${min}` : `between ${min} and ${max}`;
+      problems.push(`${setting.source} must be a whole number ${range} (got ${JSON.stringify(setting.value)})`);
+      return fallback;
+    }
+    return value;
+  };
+
+  const text = (path: string, envName: string): string | undefined => {
+    const setting = lookup(path, envName);
+    if (setting && (typeof setting.value !== 'string' || setting.value.trim() === '')) {
+      problems.push(`${setting.source} must be a non-empty string`);
+      return undefined;
+    }
+    return setting?.value as string | undefined;
+  };
+
+  const choice = <T extends string>(path: string, envName: string, options: readonly T[]): T | undefined => {
+    const setting = lookup(path, envName);
+    if (setting && !options.includes(setting.value as T)) {
+      problems.push(`${setting.source} must be one of ${options.join(', ')} (got ${JSON.stringify(setting.value)})`);
+      return undefined;
+    }
+    return setting?.value as T | undefined;
+  };
+
+  const origins = (path: string, envName: string): string[] | undefined => {
+    const setting = lookup(path, envName);
+    if (!setting) {
+      return undefined;
+    }
+    const list = typeof setting.value === 'string' ? setting.value.split(',').map(origin => origin.trim()) : setting.value;
+    if (!Array.isArray(list) || list.length === 0 || !list.every(origin => typeof origin === 'string' && URL.canParse(origin))) {
+      problems.push(`${setting.source} must list origin URLs such as https://quiz.example.com (got ${JSON.stringify(setting.value)})`);
+      return undefined;
+    }
+    return list;
+  };
+
+  const corsOrigins = origins('corsOrigins', 'CORS_ORIGINS');
+  if (!corsOrigins && env.NODE_ENV === 'production') {
+    problems.push('CORS_ORIGINS must list the web app origins in production');
+  }
+
+  const defaults = DEFAULT_CONFIG;
+  const config: ServerConfig = {
+    port: integer('port', 'PORT', defaults.port, 1, 65535),
+    corsOrigins: corsOrigins ?? defaults.corsOrigins,
+    adminSecret: text('adminSecret', 'ADMIN_SECRET'),
+    sessionSecret: text('sessionSecret', 'SESSION_SECRET'),
+    roomStoreFile: text('roomStoreFile', 'ROOM_STORE_FILE'),
+    roomSnapshotFile: text('roomSnapshotFile', 'ROOM_SNAPSHOT_FILE') ?? defaults.roomSnapshotFile,
+    deckStoreFile: text('deckStoreFile', 'DECK_STORE_FILE') ?? defaults.deckStoreFile,
+    game: {
+      defaultMaxPlayers: integer('game.defaultMaxPlayers', 'DEFAULT_MAX_PLAYERS', defaults.game.defaultMaxPlayers, PAYLOAD_LIMITS.MIN_PLAYERS, PAYLOAD_LIMITS.MAX_PLAYERS),
+      defaultMaxSpectators: integer('game.defaultMaxSpectators', 'DEFAULT_MAX_SPECTATORS', defaults.game.defaultMaxSpectators, 0),
+      defaultTimeLimitSeconds: integer('game.defaultTimeLimitSeconds', 'DEFAULT_TIME_LIMIT_SECONDS', defaults.game.defaultTimeLimitSeconds, PAYLOAD_LIMITS.TIME_LIMIT_MIN_SECONDS, PAYLOAD_LIMITS.TIME_LIMIT_MAX_SECONDS),
+      correctAnswerScore: integer('game.correctAnswerScore', 'CORRECT_ANSWER_SCORE', defaults.game.correctAnswerScore, 1, PAYLOAD_LIMITS.SCORE_MAX_ABS),
+      reconnectGraceMs: integer('game.reconnectGraceMs', 'RECONNECT_GRACE_MS', defaults.game.reconnectGraceMs, 0),
+    },
+    cleanup: {
+      intervalMs: integer('cleanup.intervalMs', 'ROOM_CLEANUP_INTERVAL_MS', defaults.cleanup.intervalMs, 1000),
+      maxEmptyMs: integer('cleanup.maxEmptyMs', 'ROOM_MAX_EMPTY_MS', defaults.cleanup.maxEmptyMs, 0),
+      maxIdleMs: integer('cleanup.maxIdleMs', 'ROOM_MAX_IDLE_MS', defaults.cleanup.maxIdleMs, 1000),
+    },
+    shutdown: {
+      drainTimeoutMs: integer('shutdown.drainTimeoutMs', 'SHUTDOWN_DRAIN_MS', defaults.shutdown.drainTimeoutMs, 0),
+      reconnectAfterMs: integer('shutdown.reconnectAfterMs', 'SHUTDOWN_RECONNECT_AFTER_MS', defaults.shutdown.reconnectAfterMs, 0),
+    },
+    log: {
+      level: choice('log.level', 'LOG_LEVEL', ['debug', 'info', 'warn', 'error', 'silent'] as const),
+      format: choice('log.format', 'LOG_FORMAT', ['json', 'pretty'] as const),
+    },
+  };
+
+  // Catch typos in the file rather than silently using the default
+  leafPaths(file)
+    .filter(path => !readPaths.has(path))
+    .forEach(path => problems.push(`Unknown setting ${path} in ${env.CONFIG_FILE}`));
+
+  if (problems.length > 0) {
+    throw new ConfigError(problems);
+  }
+  return config;
+}
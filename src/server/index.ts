@@ -6,8 +6,71 @@
 
 import { createServer } from 'http';
 import { initializeSocket } from './socket';
+import { createAdminHandler } from './admin';
+import { metrics } from './metrics';
+import { startRoomCleanup } from './roomCleanup';
+import { restoreRoomSnapshot, shutdownGracefully } from './shutdown';
+import { loadConfig, ConfigError, type ServerConfig } from './config';
+import { configureRooms, setRoomStore } from '../lib/roomManager';
+import { setDeckStore } from '../lib/deckManager';
+import { createFileRoomStore } from '../lib/roomStore';
+import { createFileDeckStore } from '../lib/deckStore';
+import { StoreFileError } from '../lib/recordStore';
+import { setSessionSecret } from '../lib/sessionToken';
+import { PROMETHEUS_CONTENT_TYPE } from '../lib/metrics';
+import { configureLogger, createLogger } from '../lib/logger';
 
-const PORT = process.env.PORT || 3002;
+const log = createLogger('server');
+
+/**
+ * Load the configuration, or stop with the list of problems
+ */
+function readConfig(): ServerConfig {
+  try {
+    return loadConfig();
+  } catch (error) {
+    log.error('Invalid server configuration', error instanceof ConfigError ? { problems: error.problems } : { error });
+    process.exit(1);
+  }
+}
+
+const config = readConfig();
+configureLogger(config.log);
+configureRooms({
+  defaultMaxPlayers: config.game.defaultMaxPlayers,
+  defaultMaxSpectators: config.game.defaultMaxSpectators,
+  correctAnswerScore: config.game.correctAnswerScore,
+  maxEmptyMs: config.cleanup.maxEmptyMs,
+});
+if (config.sessionSecret) {
+  setSessionSecret(config.sessionSecret);
+}
+
+/**
+ * Restore the decks and rooms saved by the previous run, or stop if their files are corrupt
+ * Rooms are kept in a JSON file when configured; otherwise they live in memory only.
+ */
+function restoreState(): void {
+  try {
+    const deckCount = setDeckStore(createFileDeckStore(config.deckStoreFile));
+    log.info('Restored decks', { count: deckCount, file: config.deckStoreFile });
+
+    if (config.roomStoreFile) {
+      const restoredCount = setRoomStore(createFileRoomStore(config.roomStoreFile));
+      log.info('Restored rooms', { count: restoredCount, file: config.roomStoreFile });
+    } else {
+      restoreRoomSnapshot(config.roomSnapshotFile);
+    }
+  } catch (error) {
+    log.error('Could not restore saved state', error instanceof StoreFileError ? { reason: error.message } : { error });
+    process.exit(1);
+  }
+}
+
+restoreState();
+
+// Operator API; disabled unless an admin secret is set
+const handleAdminRequest = createAdminHandler(config.adminSecret);
 
 // Create HTTP server
 const server = createServer((req, res) => {
@@ -17,6 +80,17 @@ const server = createServer((req, res) => {
     res.end(JSON.stringify({ status: 'ok', timestamp: new Date().toISOString() }));
     return;
   }
+
+  // Prometheus scrape endpoint
+  if (req.url === '/metrics') {
+    res.writeHead(200, { 'Content-Type': PROMETHEUS_CONTENT_TYPE });
+    res.end(metrics.render());
+    return;
+  }
+
+  if (handleAdminRequest(req, res)) {
+    return;
+  }
   
   // Default response for other routes
   res.writeHead(404, { 'Content-Type': 'text/plain' });
@@ -24,27 +98,31 @@ const server = createServer((req, res) => {
 });
 
 // Initialize Socket.io
-initializeSocket(server);
+initializeSocket(server, config);
+
+// Delete abandoned rooms and close idle ones
+const stopRoomCleanup = startRoomCleanup(config.cleanup);
 
 // Start server
-server.listen(PORT, () => {
-  console.log(`🚀 Socket.io server running on port ${PORT}`);
-  console.log(`📡 CORS enabled for: ${process.env.NODE_ENV === 'production' ? 'production' : 'http://localhost:3000, http://localhost:3002'}`);
+server.listen(config.port, () => {
+  log.info('Socket.io server running', { port: config.port, cors: config.corsOrigins });
 });
 
-// Handle graceful shutdown
-process.on('SIGTERM', () => {
-  console.log('SIGTERM received, shutting down gracefully');
-  server.close(() => {
-    console.log('Server closed');
-    process.exit(0);
-  });
-});
+// Handle graceful shutdown: notify players, drain sockets, then snapshot rooms
+function handleShutdownSignal(signal: NodeJS.Signals) {
+  log.info(`${signal} received, shutting down gracefully`);
+  stopRoomCleanup();
+  shutdownGracefully(server, {
+    ...config.shutdown,
+    // Rooms kept in a store file are already on disk
+    snapshotFile: config.roomStoreFile ? undefined : config.roomSnapshotFile,
+  })
+    .then(() => process.exit(0))
+    .catch((error: unknown) => {
+      log.error('Graceful shutdown failed', { error });
+      process.exit(1);
+    });
+}
 
-process.on('SIGINT', () => {
-  console.log('SIGINT received, shutting down gracefully');
-  server.close(() => {
-    console.log('Server closed');
-    process.exit(0);
-  });
-}); 
\ No newline at end of file
+process.on('SIGTERM', handleShutdownSignal);
+process.on('SIGINT', handleShutdownSignal); 
\ No newline at end of file
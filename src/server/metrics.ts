@@ -0,0 +1,52 @@
+/**
+ * Server metrics for Quiz World application
+ * - Connection, room and socket handler metrics of this server instance
+ * - Served in the Prometheus text format from /metrics
+ */
+
+import { createMetricsRegistry } from '../lib/metrics';
+import { getAllRooms, getEmptyRoomsCount } from '../lib/roomManager';
+
+/**
+ * Registry holding every server metric
+ */
+export const metrics = createMetricsRegistry();
+
+/**
+ * Sockets currently connected to this instance
+ */
+export const connectedSockets = metrics.gauge(
+  'quizworld_connected_sockets',
+  'Sockets currently connected to this instance'
+);
+
+/**
+ * Client events received, by event name (use rate() for events per second)
+ */
+export const socketEvents = metrics.counter(
+  'quizworld_socket_events_total',
+  'Client events received, by event name',
+  ['event']
+);
+
+/**
+ * Commands that failed, by event name and error code
+ */
+export const handlerErrors = metrics.counter(
+  'quizworld_handler_errors_total',
+  'Client commands that were rejected or failed, by event name and error code',
+  ['event', 'code']
+);
+
+/**
+ * Time spent handling client events, by event name
+ */
+export const handlerDuration = metrics.histogram(
+  'quizworld_handler_duration_seconds',
+  'Time spent handling client events, by event name',
+  ['event']
+);
+
+metrics.gauge('quizworld_active_rooms', 'Rooms currently held by this instance', () => getAllRooms().length);
+
+metrics.gauge('quizworld_empty_rooms', 'Rooms that are empty and awaiting cleanup', () => getEmptyRoomsCount());
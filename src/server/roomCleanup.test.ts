@@ -0,0 +1,71 @@
+import { describe, test, expect, beforeEach, afterEach, vi } from 'vitest';
+import { runRoomCleanup, startRoomCleanup, IDLE_ROOM_CLOSED_REASON } from './roomCleanup';
+import { closeRoom } from './socket';
+import { createRoom, leaveRoom, getRoom, resetRoomState, touchRoom } from '../lib/roomManager';
+
+vi.mock('./socket', () => ({
+  closeRoom: vi.fn(() => true),
+}));
+
+const MINUTE = 60 * 1000;
+const options = { maxEmptyMs: 30 * MINUTE, maxIdleMs: 120 * MINUTE };
+
+describe('Room cleanup', () => {
+  const baseTime = 1000000000000;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    resetRoomState();
+    vi.spyOn(Date, 'now').mockReturnValue(baseTime);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  test('should delete rooms that have been empty too long', () => {
+    const room = createRoom('Abandoned Room', true, 8, 'Host');
+    leaveRoom(room.id, room.hostId);
+    vi.mocked(Date.now).mockReturnValue(baseTime + 31 * MINUTE);
+
+    expect(runRoomCleanup(options)).toEqual({ abandoned: 1, idle: 0 });
+    expect(getRoom(room.id)).toBeNull();
+    expect(closeRoom).not.toHaveBeenCalled();
+  });
+
+  test('should close occupied rooms without activity', () => {
+    const idleRoom = createRoom('Idle Room', true, 8, 'Host');
+    const activeRoom = createRoom('Active Room', true, 8, 'Host');
+    vi.mocked(Date.now).mockReturnValue(baseTime + 100 * MINUTE);
+    touchRoom(activeRoom.id);
+    vi.mocked(Date.now).mockReturnValue(baseTime + 121 * MINUTE);
+
+    expect(runRoomCleanup(options)).toEqual({ abandoned: 0, idle: 1 });
+    expect(closeRoom).toHaveBeenCalledTimes(1);
+    expect(closeRoom).toHaveBeenCalledWith(idleRoom.id, IDLE_ROOM_CLOSED_REASON);
+  });
+
+  test('should leave recently used rooms alone', () => {
+    createRoom('Room', true, 8, 'Host');
+    vi.mocked(Date.now).mockReturnValue(baseTime + 10 * MINUTE);
+
+    expect(runRoomCleanup(options)).toEqual({ abandoned: 0, idle: 0 });
+  });
+
+  test('should run on the given interval until stopped', () => {
+    vi.useFakeTimers({ toFake: ['setInterval', 'clearInterval'] });
+    const room = createRoom('Abandoned Room', true, 8, 'Host');
+    leaveRoom(room.id, room.hostId);
+    vi.mocked(Date.now).mockReturnValue(baseTime + 31 * MINUTE);
+
+    const stop = startRoomCleanup({ ...options, intervalMs: MINUTE });
+    expect(getRoom(room.id)).not.toBeNull();
+
+    vi.advanceTimersByTime(MINUTE);
+    expect(getRoom(room.id)).toBeNull();
+
+    stop();
+    expect(vi.getTimerCount()).toBe(0);
+    vi.useRealTimers();
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * Scheduled room cleanup for the standalone Socket.io server
+ * - Deletes rooms that have been empty for too long
+ * - Closes occupied rooms that have seen no activity for too long, telling members with room:closed
+ * - Deleted rooms leave the lobby through the room change listener
+ */
+
+import { cleanupAbandonedRooms, getIdleRoomIds } from '../lib/roomManager';
+import { createLogger } from '../lib/logger';
+import { closeRoom } from './socket';
+
+/**
+ * Shown to the members of a room closed for inactivity
+ */
+export const IDLE_ROOM_CLOSED_REASON = 'This room was closed after a long period of inactivity';
+
+/**
+ * When and what the cleanup removes
+ * @property intervalMs - Time between cleanup runs
+ * @property maxEmptyMs - How long a room may stay empty
+ * @property maxIdleMs - How long an occupied room may go without activity
+ */
+export type RoomCleanupOptions = {
+  intervalMs: number;
+  maxEmptyMs: number;
+  maxIdleMs: number;
+};
+
+/**
+ * Log of cleanup runs
+ */
+const log = createLogger('roomCleanup');
+
+/**
+ * Run the cleanup once
+ * @param options - Cleanup thresholds
+ * @returns Number of abandoned rooms deleted and idle rooms closed
+ */
+export function runRoomCleanup(options: Omit<RoomCleanupOptions, 'intervalMs'>): { abandoned: number; idle: number } {
+  const abandoned = cleanupAbandonedRooms(options.maxEmptyMs);
+  const idle = getIdleRoomIds(options.maxIdleMs)
+    .filter(roomId => closeRoom(roomId, IDLE_ROOM_CLOSED_REASON))
+    .length;
+
+  if (abandoned > 0 || idle > 0) {
+    log.info('Room cleanup finished', { abandoned, idle });
+  }
+  return { abandoned, idle };
+}
+
+/**
+ * Run the cleanup periodically
+ * @param options - Cleanup interval and thresholds
+ * @returns Function that stops the schedule
+ */
+export function startRoomCleanup(options: RoomCleanupOptions): () => void {
+  const timer = setInterval(() => {
+    try {
+      runRoomCleanup(options);
+    } catch (error) {
+      log.error('Room cleanup failed', { error });
+    }
+  }, options.intervalMs);
+  // The schedule alone shouldn't keep the process running
+  timer.unref();
+
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,98 @@
+import { describe, test, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { Server as HTTPServer } from 'http';
+import { restoreRoomSnapshot, shutdownGracefully, SHUTDOWN_MESSAGE } from './shutdown';
+import { announceShutdown, disconnectAllSockets } from './socket';
+import { createRoom, getRoom, resetRoomState } from '../lib/roomManager';
+import { createFileRoomStore } from '../lib/roomStore';
+
+vi.mock('./socket', () => ({
+  announceShutdown: vi.fn(() => 2),
+  disconnectAllSockets: vi.fn(() => 1),
+}));
+
+describe('Graceful shutdown', () => {
+  let tempDir: string;
+  let snapshotFile: string;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    resetRoomState();
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'quiz-world-'));
+    snapshotFile = path.join(tempDir, 'rooms-snapshot.json');
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('should do nothing on start when there is no snapshot', () => {
+    expect(restoreRoomSnapshot(snapshotFile)).toBe(0);
+  });
+
+  test('should restore rooms from a snapshot once', async () => {
+    const room = createRoom('Saved Room', true, 8, 'Host');
+    const store = createFileRoomStore(snapshotFile);
+    store.save({ room, scores: [] });
+    await store.flush();
+    resetRoomState();
+
+    expect(restoreRoomSnapshot(snapshotFile)).toBe(1);
+    expect(getRoom(room.id)?.name).toBe('Saved Room');
+    expect(fs.existsSync(snapshotFile)).toBe(false);
+  });
+
+  test('should notify clients, then snapshot rooms and disconnect sockets after the drain period', async () => {
+    vi.useFakeTimers();
+    const room = createRoom('Running Room', true, 8, 'Host');
+    let onClosed: () => void = () => {};
+    const server = {
+      close: vi.fn((callback: () => void) => {
+        onClosed = callback;
+      }),
+      closeAllConnections: vi.fn(() => onClosed()),
+    };
+    const options = { drainTimeoutMs: 10000, reconnectAfterMs: 5000, snapshotFile };
+
+    const done = shutdownGracefully(server as unknown as HTTPServer, options);
+
+    expect(announceShutdown).toHaveBeenCalledWith(SHUTDOWN_MESSAGE, 5000);
+    expect(server.close).toHaveBeenCalledTimes(1);
+    expect(shutdownGracefully(server as unknown as HTTPServer, options)).toBe(done);
+
+    vi.advanceTimersByTime(9999);
+    expect(disconnectAllSockets).not.toHaveBeenCalled();
+    expect(fs.existsSync(snapshotFile)).toBe(false);
+
+    vi.advanceTimersByTime(1);
+    expect(disconnectAllSockets).toHaveBeenCalledTimes(1);
+    expect(server.closeAllConnections).toHaveBeenCalledTimes(1);
+    await expect(done).resolves.toBeUndefined();
+    expect(createFileRoomStore(snapshotFile).load().map(record => record.room.id)).toEqual([room.id]);
+  });
+
+  test('should still disconnect sockets and close when the snapshot cannot be written', async () => {
+    vi.useFakeTimers();
+    // shutdownGracefully only runs once per module, so take a fresh copy
+    vi.resetModules();
+    const fresh = await import('./shutdown');
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const server = {
+      close: vi.fn((callback: () => void) => callback()),
+      closeAllConnections: vi.fn(),
+    };
+
+    // A directory where the snapshot file should be makes the write fail
+    const done = fresh.shutdownGracefully(server as unknown as HTTPServer, { drainTimeoutMs: 100, reconnectAfterMs: 0, snapshotFile: tempDir });
+    vi.advanceTimersByTime(100);
+
+    expect(disconnectAllSockets).toHaveBeenCalledTimes(1);
+    expect(server.closeAllConnections).toHaveBeenCalledTimes(1);
+    await expect(done).resolves.toBeUndefined();
+    expect(consoleError).toHaveBeenCalledWith('[shutdown] Failed to save rooms', expect.objectContaining({ file: tempDir }));
+  });
+});
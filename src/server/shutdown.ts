@@ -0,0 +1,120 @@
+/**
+ * Graceful shutdown for the standalone Socket.io server
+ * - Tells players the server is restarting and when to reconnect
+ * - Stops new rooms and new connections
+ * - Saves rooms to disk once the drain period is over, then disconnects the remaining sockets
+ * - Restores the snapshot on the next start
+ */
+
+import fs from 'fs';
+import type { Server as HTTPServer } from 'http';
+import { flushRoomStore, setRoomStore, snapshotRooms } from '../lib/roomManager';
+import { flushDeckStore } from '../lib/deckManager';
+import { createFileRoomStore, createMemoryRoomStore } from '../lib/roomStore';
+import { createLogger } from '../lib/logger';
+import { announceShutdown, disconnectAllSockets } from './socket';
+
+/**
+ * Shown to players when the server goes down
+ */
+export const SHUTDOWN_MESSAGE = 'The server is restarting. You will be reconnected shortly.';
+
+/**
+ * How the server shuts down
+ * @property drainTimeoutMs - How long connected players get before their sockets are closed
+ * @property reconnectAfterMs - How long clients are told to wait before reconnecting
+ * @property snapshotFile - Where rooms are written for the next start (none when rooms are already persisted)
+ */
+export type ShutdownOptions = {
+  drainTimeoutMs: number;
+  reconnectAfterMs: number;
+  snapshotFile?: string;
+};
+
+/**
+ * Log of shutdown and restore steps
+ */
+const log = createLogger('shutdown');
+
+/**
+ * Shutdown in progress, so repeated signals don't start another
+ */
+let shutdown: Promise<void> | null = null;
+
+/**
+ * Restore the rooms a previous shutdown saved, then remove the snapshot so it is only used once
+ * The rooms are kept in memory from then on.
+ * @param snapshotFile - Snapshot written by shutdownGracefully
+ * @returns Number of rooms restored (0 when there is no snapshot)
+ */
+export function restoreRoomSnapshot(snapshotFile: string): number {
+  if (!fs.existsSync(snapshotFile)) {
+    return 0;
+  }
+
+  const store = createMemoryRoomStore();
+  createFileRoomStore(snapshotFile).load().forEach(record => store.save(record));
+  const restoredCount = setRoomStore(store);
+  fs.rmSync(snapshotFile);
+
+  log.info('Restored rooms from snapshot', { count: restoredCount, file: snapshotFile });
+  return restoredCount;
+}
+
+/**
+ * Write every room to disk: to the snapshot file if there is one, and to the room store
+ * Pending deck writes are finished too. A failure is logged rather than thrown so the server still goes down.
+ * @param snapshotFile - File the next start restores from, if rooms aren't already persisted
+ * @returns Resolves once everything is written or has failed
+ */
+async function saveRooms(snapshotFile?: string): Promise<void> {
+  try {
+    if (snapshotFile) {
+      const store = createFileRoomStore(snapshotFile);
+      const count = snapshotRooms(store);
+      await store.flush();
+      log.info('Saved room snapshot', { count, file: snapshotFile });
+    }
+    await Promise.all([flushRoomStore(), flushDeckStore()]);
+  } catch (error) {
+    log.error('Failed to save rooms', { error, file: snapshotFile });
+  }
+}
+
+/**
+ * Shut the server down without dropping games silently
+ * @param server - HTTP server Socket.io is attached to
+ * @param options - Drain period, reconnect hint and snapshot file
+ * @returns Resolves once the server is closed and the rooms are saved
+ */
+export function shutdownGracefully(server: HTTPServer, options: ShutdownOptions): Promise<void> {
+  if (shutdown) {
+    return shutdown;
+  }
+
+  shutdown = new Promise<void>((resolve) => {
+    const notified = announceShutdown(SHUTDOWN_MESSAGE, options.reconnectAfterMs);
+    log.info('Shutting down', { sockets: notified, drainTimeoutMs: options.drainTimeoutMs });
+
+    // Stop accepting connections; the callback runs once the open ones are gone
+    const closed = new Promise<void>((closedResolve) => {
+      server.close(() => {
+        log.info('Server closed');
+        closedResolve();
+      });
+    });
+
+    setTimeout(() => {
+      // Save what the games looked like at the end of the drain, while players are still connected
+      const saved = saveRooms(options.snapshotFile);
+
+      const disconnected = disconnectAllSockets();
+      server.closeAllConnections();
+      log.info('Drain period over, disconnected remaining sockets', { sockets: disconnected });
+
+      void Promise.all([closed, saved]).then(() => resolve());
+    }, options.drainTimeoutMs);
+  });
+
+  return shutdown;
+}
@@ -1,259 +1,582 @@
-import { describe, test, expect, beforeEach, vi } from 'vitest';
-import { initializeSocket } from './socket';
-import type { Quiz } from '../types';
-
-// Mock Socket.io
-vi.mock('socket.io', () => ({
-  Server: vi.fn().mockImplementation(() => ({
-    on: vi.fn(),
-    to: vi.fn().mockReturnThis(),
-    emit: vi.fn(),
-  })),
-}));
+// @vitest-environment node
+import { describe, test, expect, beforeAll, afterAll, beforeEach, afterEach, vi } from 'vitest';
+import { createServer, type Server as HTTPServer } from 'http';
+import type { AddressInfo } from 'net';
+import { io as connectClient, type Socket as ClientSocket } from 'socket.io-client';
+import { initializeSocket, closeRoom, getIO } from './socket';
+import { DEFAULT_CONFIG, type ServerConfig } from './config';
+import { cleanupAbandonedRooms, configureRooms, getAllRooms, resetRoomState, setRoomStore } from '../lib/roomManager';
+import { createMemoryRoomStore } from '../lib/roomStore';
+import { configureLogger } from '../lib/logger';
+import type { Quiz, Room } from '../types';
+import type { ClientToServerEvents, ServerToClientEvents } from '../types/socket';
+import { ErrorCode, RemovalCode } from '../types/socket';
+
+type TestSocket = ClientSocket<ServerToClientEvents, ClientToServerEvents>;
+
+/**
+ * A connected client and the identity the server gave it
+ */
+type TestClient = { socket: TestSocket; userId: string; sessionToken: string };
+
+const capitalQuiz: Quiz = {
+  id: 'quiz-1',
+  type: 'text',
+  question: 'What is the capital of Japan?',
+  answer: 'Tokyo',
+  acceptedAnswers: ['Tōkyō'],
+};
 
 describe('Socket.io Server', () => {
-  let mockServer: any;
-  let mockSocket: any;
-
-
-  beforeEach(() => {
-    // Reset mocks
-    vi.clearAllMocks();
-    
-    // Create mock server
-    mockServer = {};
-    
-    // Create mock socket
-    mockSocket = {
-      id: 'socket-1',
-      data: {},
-      join: vi.fn(),
-      leave: vi.fn(),
-      emit: vi.fn(),
-      to: vi.fn().mockReturnThis(),
-      on: vi.fn(),
-    };
-    
+  let httpServer: HTTPServer;
+  let url: string;
+  const sockets: TestSocket[] = [];
+
+  /**
+   * Start the socket server on a free port
+   */
+  async function startServer(config: ServerConfig = DEFAULT_CONFIG) {
+    httpServer = createServer();
+    initializeSocket(httpServer, config);
+    await new Promise<void>(resolve => httpServer.listen(0, resolve));
+    url = `http://localhost:${(httpServer.address() as AddressInfo).port}`;
+  }
+
+  /**
+   * Replace the running server with one using another configuration
+   */
+  async function restartServer(config: ServerConfig) {
+    await new Promise<void>(resolve => getIO().close(() => resolve()));
+    await startServer(config);
+  }
+
+  /**
+   * Connect a client, optionally presenting an earlier session token
+   */
+  async function connect(sessionToken?: string): Promise<TestClient> {
+    const socket: TestSocket = connectClient(url, {
+      auth: sessionToken ? { sessionToken } : {},
+      transports: ['websocket'],
+      forceNew: true,
+      reconnection: false,
+    });
+    sockets.push(socket);
+    const session = await nextEvent(socket, 'session:established');
+    return { socket, ...session };
+  }
+
+  /**
+   * Disconnect a client and wait until the server has handled the disconnection
+   */
+  async function disconnect(client: TestClient) {
+    const serverSocket = getIO().sockets.sockets.get(client.socket.id!);
+    const handled = new Promise<void>(resolve => serverSocket?.once('disconnect', () => resolve()));
+    client.socket.disconnect();
+    await handled;
+  }
+
+  /**
+   * Resolve with the next payload of a server event
+   */
+  function nextEvent<E extends keyof ServerToClientEvents>(socket: TestSocket, event: E): Promise<Parameters<ServerToClientEvents[E]>[0]> {
+    return new Promise(resolve => {
+      socket.once(event, ((data: Parameters<ServerToClientEvents[E]>[0]) => resolve(data)) as never);
+    });
+  }
 
+  /**
+   * Create a room with a connected host
+   */
+  async function createRoomAsHost(quizzes: Quiz[] = []): Promise<{ host: TestClient; room: Room }> {
+    const host = await connect();
+    const created = await host.socket.emitWithAck('room:create', { name: 'Test Room', isPublic: true, maxPlayers: 4, userName: 'Host' });
+    if (!created.ok) {
+      throw new Error(created.error.message);
+    }
+    for (const quiz of quizzes) {
+      await host.socket.emitWithAck('quiz:add', quiz);
+    }
+    return { host, room: created.data.room };
+  }
+
+  /**
+   * Connect a client and join a room with it
+   */
+  async function joinAs(roomId: string, userName: string, asSpectator?: boolean): Promise<TestClient> {
+    const client = await connect();
+    const joined = await client.socket.emitWithAck('room:join', { roomId, userName, asSpectator });
+    if (!joined.ok) {
+      throw new Error(joined.error.message);
+    }
+    return client;
+  }
+
+  // Rejected commands are expected here, so keep their warnings out of the test output
+  beforeAll(() => configureLogger({ level: 'silent' }));
+  afterAll(() => configureLogger({ level: 'warn' }));
+
+  beforeEach(async () => {
+    resetRoomState();
+    await startServer();
+  });
+
+  afterEach(async () => {
+    // Closing the rooms also clears their question and reconnect timers
+    getAllRooms().forEach(room => closeRoom(room.id, 'Test finished'));
+    sockets.splice(0).forEach(socket => socket.disconnect());
+    await new Promise<void>(resolve => getIO().close(() => resolve()));
   });
 
   describe('initializeSocket', () => {
-    test('should initialize Socket.io server', () => {
-      expect(() => initializeSocket(mockServer)).not.toThrow();
+    test('should bind every connection to a session identity', async () => {
+      const client = await connect();
+
+      expect(client.userId).toEqual(expect.any(String));
+      expect(client.sessionToken).toEqual(expect.any(String));
     });
-  });
 
+    test('should keep the user ID of a client reconnecting with its session token', async () => {
+      const first = await connect();
+      await disconnect(first);
+
+      const second = await connect(first.sessionToken);
+
+      expect(second.userId).toBe(first.userId);
+      expect(second.sessionToken).toBe(first.sessionToken);
+    });
+
+    test('should give a forged session token a new identity', async () => {
+      const victim = await connect();
+      const forgedToken = `${victim.userId}.forged-signature`;
+
+      const attacker = await connect(forgedToken);
+
+      expect(attacker.userId).not.toBe(victim.userId);
+      expect(attacker.sessionToken).not.toBe(forgedToken);
+    });
 
+    test('should bring a host who reconnects with their session token back as host', async () => {
+      const { host, room } = await createRoomAsHost();
+      await disconnect(host);
+
+      const reconnected = await connect(host.sessionToken);
+      const rejoined = await reconnected.socket.emitWithAck('room:join', { roomId: room.id, userName: 'Host' });
+
+      expect(rejoined.ok && rejoined.data.user).toEqual(expect.objectContaining({ id: host.userId, isHost: true }));
+      expect(getAllRooms()[0].users).toHaveLength(1);
+    });
+  });
 
   describe('Socket Event Handlers', () => {
-    beforeEach(() => {
-      // Initialize socket server
-      initializeSocket(mockServer);
-    });
-
-    test('should handle room creation', () => {
-      const createData = {
-        name: 'Test Room',
-        isPublic: true,
-        maxPlayers: 8,
-      };
-      
-      // Simulate room:create event
-      const eventHandlers = mockSocket.on.mock.calls.reduce((acc: any, call: any) => {
-        acc[call[0]] = call[1];
-        return acc;
-      }, {});
-      
-      if (eventHandlers['room:create']) {
-        eventHandlers['room:create'](createData);
-        
-        // Check that socket data was set
-        expect(mockSocket.data.roomId).toBeDefined();
-        expect(mockSocket.data.userId).toBeDefined();
-        expect(mockSocket.data.userName).toBe('Anonymous');
-        
-        // Check that socket joined the room
-        expect(mockSocket.join).toHaveBeenCalledWith(mockSocket.data.roomId);
-        
-        // Check that room:created event was emitted
-        expect(mockSocket.emit).toHaveBeenCalledWith('room:created', expect.objectContaining({
-          room: expect.objectContaining({
-            name: 'Test Room',
-            isPublic: true,
-            maxPlayers: 8,
-          }),
-        }));
-      }
+    test('should handle room creation', async () => {
+      const client = await connect();
+      const created = nextEvent(client.socket, 'room:created');
+      const joined = nextEvent(client.socket, 'room:joined');
+
+      const result = await client.socket.emitWithAck('room:create', { name: 'Test Room', isPublic: true, maxPlayers: 8, userName: 'Host' });
+
+      expect(result).toEqual({ ok: true, data: { room: expect.objectContaining({ name: 'Test Room', isPublic: true, maxPlayers: 8 }) } });
+      expect((await created).room.hostId).toBe(client.userId);
+      expect((await joined).user).toEqual(expect.objectContaining({ id: client.userId, name: 'Host', isHost: true }));
     });
 
-    test('should handle room join', () => {
-      // First create a room
-      const createData = { name: 'Test Room', isPublic: true };
-      const eventHandlers = mockSocket.on.mock.calls.reduce((acc: any, call: any) => {
-        acc[call[0]] = call[1];
-        return acc;
-      }, {});
-      
-      if (eventHandlers['room:create']) {
-        eventHandlers['room:create'](createData);
-        const roomId = mockSocket.data.roomId;
-        
-        // Create a new socket for joining
-        const joinSocket = {
-          ...mockSocket,
-          data: {},
-        };
-        
-        const joinData = {
-          roomId,
-          userName: 'New User',
-        };
-        
-        if (eventHandlers['room:join']) {
-          eventHandlers['room:join'].call(joinSocket, joinData);
-          
-          // Check that socket data was set
-          expect(joinSocket.data.roomId).toBe(roomId);
-          expect(joinSocket.data.userId).toBeDefined();
-          expect(joinSocket.data.userName).toBe('New User');
-          
-          // Check that socket joined the room
-          expect(joinSocket.join).toHaveBeenCalledWith(roomId);
-          
-          // Check that room:joined event was emitted
-          expect(joinSocket.emit).toHaveBeenCalledWith('room:joined', expect.objectContaining({
-            room: expect.objectContaining({ id: roomId }),
-            user: expect.objectContaining({ name: 'New User' }),
-          }));
-        }
-      }
+    test('should handle room join', async () => {
+      const { host, room } = await createRoomAsHost();
+      const userJoined = nextEvent(host.socket, 'room:userJoined');
+      const player = await connect();
+      const joined = nextEvent(player.socket, 'room:joined');
+
+      const result = await player.socket.emitWithAck('room:join', { roomId: room.id, userName: 'New User' });
+
+      expect(result.ok).toBe(true);
+      expect((await joined).user).toEqual(expect.objectContaining({ id: player.userId, name: 'New User', isHost: false }));
+      expect((await userJoined).user.id).toBe(player.userId);
     });
 
-    test('should handle room list request', () => {
-      const eventHandlers = mockSocket.on.mock.calls.reduce((acc: any, call: any) => {
-        acc[call[0]] = call[1];
-        return acc;
-      }, {});
-      
-      if (eventHandlers['room:list']) {
-        eventHandlers['room:list']();
-        
-        // Check that room:list event was emitted
-        expect(mockSocket.emit).toHaveBeenCalledWith('room:list', expect.objectContaining({
-          rooms: expect.any(Array),
-        }));
-      }
+    test('should handle room list request', async () => {
+      const { room } = await createRoomAsHost();
+      const client = await connect();
+
+      const result = await client.socket.emitWithAck('room:list', {});
+
+      expect(result.ok && result.data.rooms.map(summary => summary.id)).toEqual([room.id]);
     });
 
-    test('should handle quiz addition', () => {
-      // First create a room and set up host
-      const createData = { name: 'Test Room', isPublic: true };
-      const eventHandlers = mockSocket.on.mock.calls.reduce((acc: any, call: any) => {
-        acc[call[0]] = call[1];
-        return acc;
-      }, {});
-      
-      if (eventHandlers['room:create']) {
-        eventHandlers['room:create'](createData);
-        
-        const quiz: Quiz = {
-          id: 'quiz-1',
-          type: 'text',
-          question: 'What is 2+2?',
-          answer: '4',
-        };
-        
-        if (eventHandlers['quiz:add']) {
-          eventHandlers['quiz:add'](quiz);
-          
-          // Check that quiz:added event was emitted
-          expect(mockSocket.emit).toHaveBeenCalledWith('quiz:added', expect.objectContaining({
-            quiz: expect.objectContaining({
-              id: 'quiz-1',
-              question: 'What is 2+2?',
-            }),
-          }));
-        }
-      }
+    test('should handle quiz addition', async () => {
+      const { host } = await createRoomAsHost();
+      const added = nextEvent(host.socket, 'quiz:added');
+
+      const result = await host.socket.emitWithAck('quiz:add', capitalQuiz);
+
+      expect(result).toEqual({ ok: true, data: { quiz: capitalQuiz } });
+      expect((await added).quiz).toEqual(capitalQuiz);
     });
 
-    test('should handle quiz answer', () => {
-      // First create a room
-      const createData = { name: 'Test Room', isPublic: true };
-      const eventHandlers = mockSocket.on.mock.calls.reduce((acc: any, call: any) => {
-        acc[call[0]] = call[1];
-        return acc;
-      }, {});
-      
-      if (eventHandlers['room:create']) {
-        eventHandlers['room:create'](createData);
-        
-        const answerData = {
-          quizId: 'quiz-1',
-          answer: '4',
-        };
-        
-        if (eventHandlers['quiz:answer']) {
-          eventHandlers['quiz:answer'](answerData);
-          
-          // Check that quiz:answered event was emitted
-          expect(mockSocket.emit).toHaveBeenCalledWith('quiz:answered', expect.objectContaining({
-            userId: expect.any(String),
-            answer: '4',
-          }));
-        }
-      }
+    test('should handle quiz answer', async () => {
+      const { host, room } = await createRoomAsHost([capitalQuiz]);
+      const player = await joinAs(room.id, 'Player');
+      await host.socket.emitWithAck('quiz:start', { quizId: capitalQuiz.id });
+      const answered = nextEvent(host.socket, 'quiz:answered');
+
+      const result = await player.socket.emitWithAck('quiz:answer', { quizId: capitalQuiz.id, answer: 'Tokyo' });
+
+      expect(result.ok).toBe(true);
+      expect(await answered).toEqual({ userId: player.userId, answer: 'Tokyo' });
     });
 
-    test('should handle game buzz event', () => {
-      // First create a room
-      const createData = { name: 'Test Room', isPublic: true };
-      const eventHandlers = mockSocket.on.mock.calls.reduce((acc: any, call: any) => {
-        acc[call[0]] = call[1];
-        return acc;
-      }, {});
-      
-      if (eventHandlers['room:create']) {
-        eventHandlers['room:create'](createData);
-        
-        const buzzData = {
-          user: {
-            id: 'user-1',
-            name: 'Test User',
-            isHost: false,
-          },
-        };
-        
-        if (eventHandlers['game:buzz']) {
-          eventHandlers['game:buzz'](buzzData);
-          
-          // Check that game:buzz event was emitted to all users in the room
-          expect(mockSocket.to).toHaveBeenCalledWith(mockSocket.data.roomId);
-          expect(mockSocket.emit).toHaveBeenCalledWith('game:buzz', expect.objectContaining({
-            user: expect.objectContaining({
-              id: 'user-1',
-              name: 'Test User',
-            }),
-          }));
-        }
-      }
+    test('should reject answers outside an active quiz', async () => {
+      const { host, room } = await createRoomAsHost([capitalQuiz, { ...capitalQuiz, id: 'quiz-2' }]);
+      const player = await joinAs(room.id, 'Player');
+
+      const inLobby = await player.socket.emitWithAck('quiz:answer', { quizId: capitalQuiz.id, answer: 'Tokyo' });
+      await host.socket.emitWithAck('quiz:start', { quizId: capitalQuiz.id });
+      const wrongQuiz = await player.socket.emitWithAck('quiz:answer', { quizId: 'quiz-2', answer: 'Tokyo' });
+
+      expect(inLobby).toEqual({ ok: false, error: expect.objectContaining({ code: ErrorCode.NoQuizInProgress }) });
+      expect(wrongQuiz).toEqual({ ok: false, error: expect.objectContaining({ code: ErrorCode.NotAccepted }) });
+    });
+
+    test('should award the score the host gives, even zero', async () => {
+      const { host, room } = await createRoomAsHost([capitalQuiz]);
+      const player = await joinAs(room.id, 'Player');
+      await host.socket.emitWithAck('quiz:start', { quizId: capitalQuiz.id });
+      await player.socket.emitWithAck('game:buzz');
+      await player.socket.emitWithAck('game:answer', { answer: 'Kyoto' });
+      const judged = nextEvent(player.socket, 'quiz:judged');
+
+      const result = await host.socket.emitWithAck('quiz:judge', { userId: player.userId, isCorrect: true, score: 0 });
+
+      expect(result.ok).toBe(true);
+      expect(await judged).toEqual(expect.objectContaining({ userId: player.userId, isCorrect: true, score: 0 }));
+    });
+
+    test('should keep the host\'s time limit when advancing to the next quiz', async () => {
+      const { host, room } = await createRoomAsHost([capitalQuiz, { ...capitalQuiz, id: 'quiz-2' }]);
+      const player = await joinAs(room.id, 'Player');
+      await host.socket.emitWithAck('quiz:start', { quizId: capitalQuiz.id, timeLimit: 45 });
+      const started = nextEvent(player.socket, 'quiz:started');
+
+      const result = await host.socket.emitWithAck('quiz:next');
+
+      expect(result.ok).toBe(true);
+      expect(await started).toEqual(expect.objectContaining({ timeLimit: 45 }));
+    });
+
+    test('should handle game buzz event', async () => {
+      const { host, room } = await createRoomAsHost([capitalQuiz]);
+      const player = await joinAs(room.id, 'Player');
+      await host.socket.emitWithAck('quiz:start', { quizId: capitalQuiz.id });
+      const buzzed = nextEvent(host.socket, 'game:buzz');
+
+      const result = await player.socket.emitWithAck('game:buzz');
+
+      expect(result.ok).toBe(true);
+      expect((await buzzed).user.id).toBe(player.userId);
+    });
+
+    test('should handle error cases', async () => {
+      const client = await connect();
+      const errorEvent = nextEvent(client.socket, 'error');
+
+      const result = await client.socket.emitWithAck('room:join', { roomId: 'non-existent', userName: 'User' });
+
+      expect(result).toEqual({ ok: false, error: expect.objectContaining({ code: ErrorCode.RoomNotFound, event: 'room:join' }) });
+      expect((await errorEvent).code).toBe(ErrorCode.RoomNotFound);
+    });
+  });
+
+  describe('Answer visibility', () => {
+    test('should send non-hosts joined rooms without answers', async () => {
+      const { room } = await createRoomAsHost([capitalQuiz]);
+      const player = await connect();
+      const joined = nextEvent(player.socket, 'room:joined');
+
+      await player.socket.emitWithAck('room:join', { roomId: room.id, userName: 'Player' });
+
+      expect((await joined).room.quizzes).toEqual([{ id: 'quiz-1', type: 'text', question: capitalQuiz.question, answer: '' }]);
     });
 
-    test('should handle error cases', () => {
-      const eventHandlers = mockSocket.on.mock.calls.reduce((acc: any, call: any) => {
-        acc[call[0]] = call[1];
-        return acc;
-      }, {});
-      
-      // Test joining non-existent room
-      if (eventHandlers['room:join']) {
-        eventHandlers['room:join']({ roomId: 'non-existent', userName: 'User' });
-        
-        // Check that error event was emitted
-        expect(mockSocket.emit).toHaveBeenCalledWith('error', expect.objectContaining({
-          message: 'Failed to join room',
-        }));
+    test('should send the host added quizzes with answers and players without', async () => {
+      const { host, room } = await createRoomAsHost();
+      const player = await joinAs(room.id, 'Player');
+      const hostAdded = nextEvent(host.socket, 'quiz:added');
+      const playerAdded = nextEvent(player.socket, 'quiz:added');
+
+      await host.socket.emitWithAck('quiz:add', capitalQuiz);
+
+      expect((await hostAdded).quiz).toEqual(capitalQuiz);
+      expect((await playerAdded).quiz).toEqual({ id: 'quiz-1', type: 'text', question: capitalQuiz.question, answer: '' });
+    });
+
+    test('should send updated rooms with answers only to the host', async () => {
+      const { host, room } = await createRoomAsHost([capitalQuiz]);
+      const player = await joinAs(room.id, 'Player');
+      const hostUpdate = nextEvent(host.socket, 'room:updated');
+      const playerUpdate = nextEvent(player.socket, 'room:updated');
+
+      await host.socket.emitWithAck('room:update', { name: 'Renamed Room' });
+
+      expect((await hostUpdate).room.quizzes).toEqual([capitalQuiz]);
+      expect((await playerUpdate).room).toEqual(expect.objectContaining({
+        name: 'Renamed Room',
+        quizzes: [{ id: 'quiz-1', type: 'text', question: capitalQuiz.question, answer: '' }],
+      }));
+    });
+
+    test('should start quizzes with the answer only for the host', async () => {
+      const { host, room } = await createRoomAsHost([capitalQuiz]);
+      const player = await joinAs(room.id, 'Player');
+      const hostStarted = nextEvent(host.socket, 'quiz:started');
+      const playerStarted = nextEvent(player.socket, 'quiz:started');
+
+      await host.socket.emitWithAck('quiz:start', { quizId: capitalQuiz.id });
+
+      expect((await hostStarted).quiz).toEqual(capitalQuiz);
+      expect((await playerStarted).quiz.answer).toBe('');
+      expect((await playerStarted).quiz).not.toHaveProperty('acceptedAnswers');
+    });
+
+    test('should only show players their own choice pick until the quiz is scored', async () => {
+      const choiceQuiz: Quiz = { id: 'quiz-1', type: 'choice', question: 'Capital of Japan?', answer: 'Tokyo', choices: ['Tokyo', 'Kyoto'] };
+      const { host, room } = await createRoomAsHost([choiceQuiz]);
+      const first = await joinAs(room.id, 'First');
+      const second = await joinAs(room.id, 'Second');
+      const started = [first, second].map(player => nextEvent(player.socket, 'game:state'));
+      await host.socket.emitWithAck('quiz:start', { quizId: choiceQuiz.id });
+      await Promise.all(started);
+      const hostState = nextEvent(host.socket, 'game:state');
+      const firstState = nextEvent(first.socket, 'game:state');
+      const secondState = nextEvent(second.socket, 'game:state');
+
+      await first.socket.emitWithAck('game:choice', { choiceIndex: 0 });
+
+      expect((await hostState).session.choiceSubmissions).toEqual([expect.objectContaining({ userId: first.userId, choiceIndex: 0 })]);
+      expect((await firstState).session.choiceSubmissions).toEqual([expect.objectContaining({ userId: first.userId, choiceIndex: 0 })]);
+      expect((await secondState).session.choiceSubmissions).toEqual([]);
+    });
+  });
+
+  describe('Reconnection grace period', () => {
+    test('should keep a disconnected player as away and restore them when they rejoin', async () => {
+      const { host, room } = await createRoomAsHost();
+      const player = await joinAs(room.id, 'Player');
+      const awayUpdate = nextEvent(host.socket, 'room:updated');
+
+      await disconnect(player);
+      expect((await awayUpdate).room.users.find(user => user.id === player.userId)?.isAway).toBe(true);
+
+      const backUpdate = nextEvent(host.socket, 'room:updated');
+      const reconnected = await connect(player.sessionToken);
+      const rejoined = await reconnected.socket.emitWithAck('room:join', { roomId: room.id, userName: 'Player' });
+
+      expect(rejoined.ok && rejoined.data.user.id).toBe(player.userId);
+      expect((await backUpdate).room.users.find(user => user.id === player.userId)?.isAway).toBeUndefined();
+      expect(getAllRooms()[0].users).toHaveLength(2);
+    });
+
+    test('should remove an away player once the grace period runs out', async () => {
+      await restartServer({ ...DEFAULT_CONFIG, game: { ...DEFAULT_CONFIG.game, reconnectGraceMs: 50 } });
+      const { host, room } = await createRoomAsHost();
+      const player = await joinAs(room.id, 'Player');
+      const userLeft = nextEvent(host.socket, 'room:userLeft');
+
+      await disconnect(player);
+
+      expect((await userLeft).userId).toBe(player.userId);
+      expect(getAllRooms()[0].users.map(user => user.id)).toEqual([host.userId]);
+    });
+
+    test('should keep a restored room\'s host role for its host after a restart', async () => {
+      const store = createMemoryRoomStore();
+      setRoomStore(store);
+      const { host, room } = await createRoomAsHost();
+      await disconnect(host);
+
+      // Restart with the room restored from the store
+      resetRoomState();
+      setRoomStore(store);
+      await restartServer(DEFAULT_CONFIG);
+      const stranger = await joinAs(room.id, 'Stranger');
+      const reconnected = await connect(host.sessionToken);
+      const rejoined = await reconnected.socket.emitWithAck('room:join', { roomId: room.id, userName: 'Host' });
+
+      expect(rejoined.ok && rejoined.data.user).toEqual(expect.objectContaining({ id: host.userId, isHost: true }));
+      expect(getAllRooms()[0].hostId).toBe(host.userId);
+      expect(getAllRooms()[0].users.find(user => user.id === stranger.userId)?.isHost).toBe(false);
+    });
+
+    test('should hand a restored room to another player once its host\'s grace period runs out', async () => {
+      const store = createMemoryRoomStore();
+      setRoomStore(store);
+      const { host, room } = await createRoomAsHost();
+      await disconnect(host);
+
+      resetRoomState();
+      setRoomStore(store);
+      await restartServer({ ...DEFAULT_CONFIG, game: { ...DEFAULT_CONFIG.game, reconnectGraceMs: 50 } });
+      const stranger = await joinAs(room.id, 'Stranger');
+      await new Promise(resolve => setTimeout(resolve, 100));
+
+      expect(getAllRooms()[0].hostId).toBe(stranger.userId);
+      expect(getAllRooms()[0].users.map(user => user.id)).toEqual([stranger.userId]);
+    });
+
+    test('should keep a player present while another of their tabs is still connected', async () => {
+      await restartServer({ ...DEFAULT_CONFIG, game: { ...DEFAULT_CONFIG.game, reconnectGraceMs: 50 } });
+      const { room } = await createRoomAsHost();
+      const player = await joinAs(room.id, 'Player');
+      const secondTab = await connect(player.sessionToken);
+      await secondTab.socket.emitWithAck('room:join', { roomId: room.id, userName: 'Player' });
+
+      await disconnect(player);
+      await new Promise(resolve => setTimeout(resolve, 100));
+
+      const stayed = getAllRooms()[0].users.find(user => user.id === player.userId);
+      expect(stayed).toBeDefined();
+      expect(stayed?.isAway).toBeUndefined();
+    });
+  });
+
+  describe('Spectators', () => {
+    test('should turn spectators away once the spectator cap is reached', async () => {
+      configureRooms({ defaultMaxSpectators: 1 });
+      const { room } = await createRoomAsHost();
+      await joinAs(room.id, 'Watcher', true);
+      const late = await connect();
+
+      const result = await late.socket.emitWithAck('room:join', { roomId: room.id, userName: 'Late Watcher', asSpectator: true });
+
+      expect(result).toEqual({ ok: false, error: expect.objectContaining({ code: ErrorCode.RoomFull }) });
+    });
+
+    test('should seat spectators in a full room without taking player slots', async () => {
+      const { room } = await createRoomAsHost();
+      for (const name of ['Player 1', 'Player 2', 'Player 3']) {
+        await joinAs(room.id, name);
       }
+      const player = await connect();
+
+      const asPlayer = await player.socket.emitWithAck('room:join', { roomId: room.id, userName: 'Player 4' });
+      const asSpectator = await player.socket.emitWithAck('room:join', { roomId: room.id, userName: 'Player 4', asSpectator: true });
+
+      expect(asPlayer).toEqual({ ok: false, error: expect.objectContaining({ code: ErrorCode.RoomFull }) });
+      expect(asSpectator.ok && asSpectator.data.user.isSpectator).toBe(true);
+    });
+
+    test('should not let spectators buzz or answer', async () => {
+      const { host, room } = await createRoomAsHost([capitalQuiz]);
+      const spectator = await joinAs(room.id, 'Watcher', true);
+      await host.socket.emitWithAck('quiz:start', { quizId: capitalQuiz.id });
+
+      const buzz = await spectator.socket.emitWithAck('game:buzz');
+      const answer = await spectator.socket.emitWithAck('quiz:answer', { quizId: capitalQuiz.id, answer: 'Tokyo' });
+
+      expect(buzz).toEqual({ ok: false, error: expect.objectContaining({ code: ErrorCode.SpectatorCannotPlay }) });
+      expect(answer).toEqual({ ok: false, error: expect.objectContaining({ code: ErrorCode.SpectatorCannotPlay }) });
+    });
+
+    test('should let the host promote a spectator to player', async () => {
+      const { host, room } = await createRoomAsHost([capitalQuiz]);
+      const spectator = await joinAs(room.id, 'Watcher', true);
+      const updated = nextEvent(spectator.socket, 'room:updated');
+
+      const result = await host.socket.emitWithAck('room:promoteSpectator', { userId: spectator.userId });
+
+      expect(result.ok).toBe(true);
+      expect((await updated).room.users.find(user => user.id === spectator.userId)?.isSpectator).toBeUndefined();
+      await host.socket.emitWithAck('quiz:start', { quizId: capitalQuiz.id });
+      expect((await spectator.socket.emitWithAck('game:buzz')).ok).toBe(true);
+    });
+
+    test('should only let the host promote, and only into a free player slot', async () => {
+      const { host, room } = await createRoomAsHost();
+      const spectator = await joinAs(room.id, 'Watcher', true);
+      const player = await joinAs(room.id, 'Player 1');
+
+      const byPlayer = await player.socket.emitWithAck('room:promoteSpectator', { userId: spectator.userId });
+      expect(byPlayer).toEqual({ ok: false, error: expect.objectContaining({ code: ErrorCode.NotHost }) });
+
+      await joinAs(room.id, 'Player 2');
+      await joinAs(room.id, 'Player 3');
+      const intoFullRoom = await host.socket.emitWithAck('room:promoteSpectator', { userId: spectator.userId });
+      expect(intoFullRoom).toEqual({ ok: false, error: expect.objectContaining({ code: ErrorCode.RoomFull }) });
+    });
+  });
+
+  describe('Removing members', () => {
+    test('should kick a member with a code the client can localize', async () => {
+      const { host, room } = await createRoomAsHost();
+      const player = await joinAs(room.id, 'Player');
+      const kicked = nextEvent(player.socket, 'room:kicked');
+      const userLeft = nextEvent(host.socket, 'room:userLeft');
+
+      const result = await host.socket.emitWithAck('room:kick', { userId: player.userId });
+
+      expect(result.ok).toBe(true);
+      expect(await kicked).toEqual(expect.objectContaining({ roomId: room.id, code: RemovalCode.KickedByHost }));
+      expect((await userLeft).userId).toBe(player.userId);
+    });
+
+    test('should let a kicked member rejoin', async () => {
+      const { host, room } = await createRoomAsHost();
+      const player = await joinAs(room.id, 'Player');
+      await host.socket.emitWithAck('room:kick', { userId: player.userId });
+
+      const rejoined = await player.socket.emitWithAck('room:join', { roomId: room.id, userName: 'Player' });
+
+      expect(rejoined.ok).toBe(true);
+    });
+
+    test('should ban a member and refuse them when they rejoin', async () => {
+      const { host, room } = await createRoomAsHost();
+      const player = await joinAs(room.id, 'Player');
+      const kicked = nextEvent(player.socket, 'room:kicked');
+
+      await host.socket.emitWithAck('room:ban', { userId: player.userId });
+      expect((await kicked).code).toBe(RemovalCode.BannedByHost);
+
+      const rejoined = await player.socket.emitWithAck('room:join', { roomId: room.id, userName: 'Player' });
+      expect(rejoined).toEqual({ ok: false, error: expect.objectContaining({ code: ErrorCode.UserBanned }) });
+
+      // A new connection with the same session is still the banned user
+      const reconnected = await connect(player.sessionToken);
+      const viaNewSocket = await reconnected.socket.emitWithAck('room:join', { roomId: room.id, userName: 'Player' });
+      expect(viaNewSocket).toEqual({ ok: false, error: expect.objectContaining({ code: ErrorCode.UserBanned }) });
+    });
+
+    test('should only let the host kick and ban', async () => {
+      const { host, room } = await createRoomAsHost();
+      const player = await joinAs(room.id, 'Player');
+
+      const kick = await player.socket.emitWithAck('room:kick', { userId: host.userId });
+      const ban = await player.socket.emitWithAck('room:ban', { userId: host.userId });
+
+      expect(kick).toEqual({ ok: false, error: expect.objectContaining({ code: ErrorCode.NotHost }) });
+      expect(ban).toEqual({ ok: false, error: expect.objectContaining({ code: ErrorCode.NotHost }) });
+      expect(getAllRooms()[0].users.map(user => user.id)).toEqual([host.userId, player.userId]);
+    });
+
+    test('should not let the host remove themselves', async () => {
+      const { host } = await createRoomAsHost();
+
+      const result = await host.socket.emitWithAck('room:kick', { userId: host.userId });
+
+      expect(result).toEqual({ ok: false, error: expect.objectContaining({ code: ErrorCode.NotAccepted }) });
+    });
+  });
+
+  describe('Room teardown', () => {
+    test('should stop the quiz countdown of a room removed by the abandoned room cleanup', async () => {
+      const { host } = await createRoomAsHost([capitalQuiz]);
+      await host.socket.emitWithAck('quiz:start', { quizId: capitalQuiz.id, timeLimit: 30 });
+      await host.socket.emitWithAck('room:leave');
+      const clearInterval = vi.spyOn(globalThis, 'clearInterval');
+
+      // Any empty room counts as abandoned with a negative threshold
+      expect(cleanupAbandonedRooms(-1)).toBe(1);
+
+      expect(clearInterval).toHaveBeenCalledTimes(1);
+      clearInterval.mockRestore();
     });
   });
-}); 
\ No newline at end of file
+});
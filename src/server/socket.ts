@@ -6,25 +6,85 @@
 
 import { Server as SocketIOServer } from 'socket.io';
 import type { Server as HTTPServer } from 'http';
-import type { Socket } from 'socket.io';
+import type { Socket, BroadcastOperator } from 'socket.io';
+import { v4 as uuidv4 } from 'uuid';
+import { ErrorCode, RemovalCode } from '../types/socket';
 import type {
   ClientToServerEvents,
   ServerToClientEvents,
   InterServerEvents,
   SocketData,
+  Ack,
+  CommandError,
+  CommandResponse,
 } from '../types/socket';
-import type { User, Quiz } from '../types';
+import type { Room, User, Quiz, QuizDeck, GameSession, AutoJudgeSettings, RoomListQuery, RoomListPage } from '../types';
 import {
-  createRoom,
   createRoomWithHost,
   joinRoom,
   leaveRoom,
+  setUserAway,
   transferHost,
   updateRoom,
+  addQuizToRoom,
+  removeQuizFromRoom,
+  setRoomQuizzes,
   getPublicRooms,
+  getAllRooms,
+  listPublicRooms,
+  toRoomSummary,
   getRoom,
+  setRoomPassword,
+  findRoomByJoinCode,
+  isJoinCodeValid,
+  isRoomPasswordValid,
   getUser,
+  getPlayers,
+  hasRoomFor,
+  promoteSpectator,
+  banUser,
+  isUserBanned,
+  getGameSession,
+  startQuizSession,
+  advanceQuizSession,
+  recordBuzz,
+  recordAnswer,
+  recordChoice,
+  closeChoiceQuiz,
+  expireQuizSession,
+  recordJudgment,
+  overrideJudgment,
+  revealQuizAnswer,
+  endQuizSession,
+  getScores,
+  addScore,
+  setRoomChangeListener,
+  deleteRoom,
+  touchRoom,
 } from '../lib/roomManager';
+import { createLobbyFeed, type LobbyDelta } from '../lib/lobbyFeed';
+import {
+  createDeck,
+  updateDeck,
+  deleteDeck,
+  getDeck,
+  listDecks,
+  copyDeckQuizzes,
+  DEMO_DECK_ID,
+} from '../lib/deckManager';
+import { isAnswerCorrect } from '../lib/answerMatcher';
+import { validatePayload, type EventPayload } from '../lib/payloadValidation';
+import { resolveSession } from '../lib/sessionToken';
+import { createLogger } from '../lib/logger';
+import { connectedSockets, socketEvents, handlerErrors, handlerDuration } from './metrics';
+import { DEFAULT_CONFIG, type ServerConfig } from './config';
+
+/**
+ * A handler's answer to a command; onValidated tags failures with the event and request ID
+ */
+type Reply<T = void> = (
+  result: { ok: true; data: T } | { ok: false; error: Omit<CommandError, 'event' | 'requestId'> }
+) => void;
 
 /**
  * Socket.io server instance
@@ -36,11 +96,56 @@ let io: SocketIOServer<
   SocketData
 >;
 
+/**
+ * Server configuration (CORS origins and game defaults), set by initializeSocket
+ */
+let config: ServerConfig = DEFAULT_CONFIG;
+
+/**
+ * Interval between quiz:tick countdown events (milliseconds)
+ */
+const TICK_INTERVAL_MS = 1000;
+
+/**
+ * Removal timers of away users, keyed by "roomId:userId"
+ */
+const awayTimers = new Map<string, NodeJS.Timeout>();
+
+/**
+ * Countdown timers of the quizzes currently being played, keyed by room ID
+ */
+const questionTimers = new Map<string, { tick: NodeJS.Timeout; expire: NodeJS.Timeout }>();
+
+/**
+ * Socket.io room that lobby subscribers join to receive lobby:* deltas
+ */
+const LOBBY_CHANNEL = 'lobby';
+
+/**
+ * Set once shutdown has been announced; no new rooms are created after that
+ */
+let isShuttingDown = false;
+
+/**
+ * Log of connections, commands and game events
+ */
+const log = createLogger('socket');
+
+/**
+ * Logger that tags entries with a socket's ID and its user and room
+ * @param socket - Socket instance
+ */
+function socketLog(socket: Socket<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>) {
+  return log.child({ socketId: socket.id, userId: socket.data.userId, roomId: socket.data.roomId });
+}
+
 /**
  * Initialize Socket.io server
  * @param server - HTTP server instance
+ * @param serverConfig - Server configuration (defaults for local development)
  */
-export function initializeSocket(server: HTTPServer) {
+export function initializeSocket(server: HTTPServer, serverConfig: ServerConfig = DEFAULT_CONFIG) {
+  config = serverConfig;
   io = new SocketIOServer<
     ClientToServerEvents,
     ServerToClientEvents,
@@ -48,13 +153,29 @@ export function initializeSocket(server: HTTPServer) {
     SocketData
   >(server, {
     cors: {
-      origin: process.env.NODE_ENV === 'production' 
-        ? ['https://your-domain.vercel.app'] 
-        : ['http://localhost:3000', 'http://localhost:3002'],
+      origin: config.corsOrigins,
       methods: ['GET', 'POST'],
     },
   });
 
+  // Push every room change the lobby can see to its subscribers
+  const lobbyFeed = createLobbyFeed(toRoomSummary, getPublicRooms());
+  setRoomChangeListener((change) => {
+    // However a room goes (closed, cleaned up, deleted by an operator), its timers go with it
+    if (change.type === 'deleted') {
+      clearRoomTimers(change.roomId);
+    }
+    const delta = lobbyFeed.apply(change);
+    if (delta) {
+      broadcastLobbyDelta(delta);
+    }
+  });
+
+  // Users restored as away, like hosts after a restart, get the usual grace period to come back
+  for (const room of getAllRooms()) {
+    room.users.filter(user => user.isAway).forEach(user => startAwayTimer(room.id, user.id));
+  }
+
   io.on('connection', handleConnection);
 }
 
@@ -63,75 +184,161 @@ export function initializeSocket(server: HTTPServer) {
  * @param socket - Socket instance
  */
 function handleConnection(socket: Socket<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>) {
-  console.log('User connected:', socket.id);
+  connectedSockets.inc();
+
+  // Bind the socket to the user its session token proves (or a brand new user)
+  const session = resolveSession(socket.handshake.auth?.sessionToken);
+  socket.data.userId = session.userId;
+  socket.emit('session:established', session);
+  socketLog(socket).info('User connected');
 
   // Room management events
-  socket.on('room:create', (data: { name: string; isPublic: boolean; maxPlayers?: number; userName?: string; userId?: string; isDemo?: boolean }) => handleRoomCreate(socket, data));
-  socket.on('room:join', (data: { roomId: string; userId: string; userName: string }) => handleRoomJoin(socket, data));
-  socket.on('room:leave', () => handleRoomLeave(socket));
-  socket.on('room:list', () => handleRoomList(socket));
+  onValidated(socket, 'room:create', (data, ack) => handleRoomCreate(socket, data, ack));
+  onValidated(socket, 'room:join', (data, ack) => handleRoomJoin(socket, data, ack));
+  onValidated(socket, 'room:joinByCode', (data, ack) => handleRoomJoinByCode(socket, data, ack));
+  onValidated(socket, 'room:leave', (_data, ack) => handleRoomLeave(socket, ack));
+  onValidated(socket, 'room:list', (data, ack) => handleRoomList(socket, data, ack));
+  
+  // Lobby feed events
+  onValidated(socket, 'lobby:subscribe', (data, ack) => handleLobbySubscribe(socket, data, ack));
+  onValidated(socket, 'lobby:unsubscribe', (_data, ack) => handleLobbyUnsubscribe(socket, ack));
   
   // Host management events
-  socket.on('host:transfer', (data: { newHostId: string }) => handleHostTransfer(socket, data));
-  socket.on('room:update', (data: { name?: string; isPublic?: boolean }) => handleRoomUpdate(socket, data));
+  onValidated(socket, 'host:transfer', (data, ack) => handleHostTransfer(socket, data, ack));
+  onValidated(socket, 'room:promoteSpectator', (data, ack) => handlePromoteSpectator(socket, data, ack));
+  onValidated(socket, 'room:kick', (data, ack) => handleRemoveMember(socket, data, ack, false));
+  onValidated(socket, 'room:ban', (data, ack) => handleRemoveMember(socket, data, ack, true));
+  onValidated(socket, 'room:update', (data, ack) => handleRoomUpdate(socket, data, ack));
   
   // Quiz management events
-  socket.on('quiz:add', (data: Quiz) => handleQuizAdd(socket, data));
-  socket.on('quiz:remove', (data: { quizId: string }) => handleQuizRemove(socket, data));
-  socket.on('quiz:start', (data: { quizId: string; timeLimit?: number }) => handleQuizStart(socket, data));
-  socket.on('quiz:answer', (data: { quizId: string; answer: string }) => handleQuizAnswer(socket, data));
-  socket.on('quiz:judge', (data: { userId: string; isCorrect: boolean; score?: number }) => handleQuizJudge(socket, data));
+  onValidated(socket, 'quiz:add', (data, ack) => handleQuizAdd(socket, data, ack));
+  onValidated(socket, 'quiz:remove', (data, ack) => handleQuizRemove(socket, data, ack));
+  onValidated(socket, 'quiz:start', (data, ack) => handleQuizStart(socket, data, ack));
+  onValidated(socket, 'quiz:answer', (data, ack) => handleQuizAnswer(socket, data, ack));
+  onValidated(socket, 'quiz:judge', (data, ack) => handleQuizJudge(socket, data, ack));
+  onValidated(socket, 'quiz:next', (_data, ack) => handleQuizNext(socket, ack));
+  onValidated(socket, 'quiz:ended', (_data, ack) => handleQuizEnd(socket, ack));
   
   // Game events
-  socket.on('game:buzz', (data: { user: User }) => handleGameBuzz(socket, data));
-  socket.on('game:answer', (data: { user: User; answer: string }) => handleGameAnswer(socket, data));
+  onValidated(socket, 'game:buzz', (_data, ack) => handleGameBuzz(socket, ack));
+  onValidated(socket, 'game:answer', (data, ack) => handleGameAnswer(socket, data, ack));
+  onValidated(socket, 'game:choice', (data, ack) => handleGameChoice(socket, data, ack));
 
   // Quiz answer reveal sync
-  socket.on('quiz:revealAnswer', () => {
-    const roomId = socket.data.roomId;
-    if (roomId) {
-      io.to(roomId).emit('quiz:revealAnswer');
-    }
-  });
+  onValidated(socket, 'quiz:revealAnswer', (_data, ack) => handleQuizRevealAnswer(socket, ack));
+
+  // Quiz deck events
+  onValidated(socket, 'deck:list', (_data, ack) => handleDeckList(socket, ack));
+  onValidated(socket, 'deck:create', (data, ack) => handleDeckCreate(socket, data, ack));
+  onValidated(socket, 'deck:update', (data, ack) => handleDeckUpdate(socket, data, ack));
+  onValidated(socket, 'deck:delete', (data, ack) => handleDeckDelete(socket, data, ack));
+  onValidated(socket, 'deck:load', (data, ack) => handleDeckLoad(socket, data, ack));
   
   // Chat events
-  socket.on('chat:message', (data: { message: string; userId: string; userName: string }) => handleChatMessage(socket, data));
+  onValidated(socket, 'chat:message', (data, ack) => handleChatMessage(socket, data, ack));
 
   // Handle disconnection
-  socket.on('disconnect', () => handleDisconnect(socket));
+  socket.on('disconnect', () => {
+    connectedSockets.dec();
+    handleDisconnect(socket);
+  });
+}
+
+/**
+ * Register an event handler that only runs for payloads that pass validation
+ * Invalid payloads are answered with an error naming the offending field.
+ * Every event is counted and timed, and every failure counted by error code.
+ * @param socket - Socket instance
+ * @param event - Client-to-server event name
+ * @param handler - Receives the validated, cleaned payload and the command's acknowledgement
+ */
+function onValidated<E extends keyof ClientToServerEvents>(
+  socket: Socket<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>,
+  event: E,
+  handler: (data: EventPayload<E>, reply: Reply<CommandResponse<E>>) => void
+) {
+  const listener = (...args: unknown[]) => {
+    const startedAt = performance.now();
+    socketEvents.inc({ event });
+
+    // The acknowledgement comes last; clients that don't pass one just get no reply
+    const last = args[args.length - 1];
+    const ack: Ack<CommandResponse<E>> = typeof last === 'function' ? (args.pop() as Ack<CommandResponse<E>>) : () => {};
+    const requestId = uuidv4();
+
+    // Failures are tagged with the command they belong to and also sent as an error event
+    const reply: Reply<CommandResponse<E>> = (result) => {
+      if (result.ok) {
+        ack(result);
+        return;
+      }
+      const error: CommandError = { ...result.error, event, requestId };
+      handlerErrors.inc({ event, code: error.code });
+      socketLog(socket).warn('Command rejected', { event, requestId, code: error.code, reason: error.message, field: error.field });
+      socket.emit('error', error);
+      ack({ ok: false, error });
+    };
+    
+    const result = validatePayload(event, args[0]);
+    if (result.ok) {
+      handler(result.value, reply);
+    } else {
+      rejectCommand(reply, ErrorCode.InvalidPayload, result.message, result.field);
+    }
+
+    // Any command from a member keeps their room from being closed as idle
+    if (socket.data.roomId) {
+      touchRoom(socket.data.roomId);
+    }
+    handlerDuration.observe({ event }, (performance.now() - startedAt) / 1000);
+  };
+  // The listener takes unknown input on purpose, which socket.io's typed overloads can't express
+  socket.on(event, listener as never);
+}
+
+/**
+ * Refuse a command; the sender gets the error through its acknowledgement and as an error event
+ * @param reply - Acknowledgement of the failed command
+ * @param code - Machine-readable reason
+ * @param message - Human-readable description
+ * @param field - Invalid payload field, if any
+ */
+function rejectCommand(reply: Reply<never>, code: ErrorCode, message: string, field?: string) {
+  reply({ ok: false, error: field === undefined ? { code, message } : { code, message, field } });
 }
 
 /**
  * Handle room creation
  * @param socket - Socket instance
  * @param data - Room creation data
+ * @param ack - Acknowledgement answered with the command's result
  */
-async function handleRoomCreate(socket: Socket<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>, data: { name: string; isPublic: boolean; maxPlayers?: number; userName?: string; userId?: string; isDemo?: boolean }) {
+function handleRoomCreate(socket: Socket<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>, data: { name: string; isPublic: boolean; maxPlayers?: number; userName?: string; isDemo?: boolean; password?: string }, ack: Reply<{ room: Room }>) {
   try {
-    console.log('Room creation request:', data);
-    
-    const userName = data.userName || socket.data.userName || 'Anonymous';
-    const userId = data.userId;
+    socketLog(socket).debug('Room creation request', { request: data });
     
-    console.log('Creating room with:', { name: data.name, isPublic: data.isPublic, maxPlayers: data.maxPlayers, userName, userId, isDemo: data.isDemo });
+    if (isShuttingDown) {
+      rejectCommand(ack, ErrorCode.ServerShuttingDown, 'The server is shutting down');
+      return;
+    }
     
-    // Create room with the provided user ID if available
-    console.log('About to create room with userId:', userId);
-    const room = userId 
-      ? createRoomWithHost(data.name, data.isPublic, data.maxPlayers, userName, userId)
-      : createRoom(data.name, data.isPublic, data.maxPlayers, userName);
-    console.log('Room creation method used:', userId ? 'createRoomWithHost' : 'createRoom');
+    const userName = data.userName || socket.data.userName || 'Anonymous';
+    const userId = socket.data.userId!;
     
-    // Add demo quizzes if this is a demo room
-    if (data.isDemo) {
-      console.log('Adding demo quiz data to room');
-      const { getRandomQuizzes } = await import('../data/mockQuizzes');
-      const demoQuizzes = getRandomQuizzes(5);
-      room.quizzes = demoQuizzes;
-      console.log(`Added ${demoQuizzes.length} demo quizzes to room ${room.id}`);
+    // The session user becomes the host
+    const room = createRoomWithHost(data.name, data.isPublic, data.maxPlayers, userName, userId);
+
+    // Passwords only guard private rooms; public rooms are open to everyone
+    if (!data.isPublic && data.password) {
+      setRoomPassword(room.id, data.password);
     }
     
-    console.log('Room created successfully:', { roomId: room.id, hostId: room.hostId, hostName: room.users[0].name, quizCount: room.quizzes.length });
+    // Load the demo deck if this is a demo room
+    const demoDeck = data.isDemo ? getDeck(DEMO_DECK_ID) : null;
+    if (demoDeck) {
+      setRoomQuizzes(room.id, copyDeckQuizzes(demoDeck));
+      log.debug('Demo deck loaded', { roomId: room.id, quizCount: demoDeck.quizzes.length });
+    }
     
     // Set socket data
     socket.data.userId = room.users[0].id;
@@ -145,13 +352,13 @@ async function handleRoomCreate(socket: Socket<ClientToServerEvents, ServerToCli
     socket.emit('room:created', { room });
     
     // Notify client that they are joined as host (this is part of room creation)
-    console.log(`Sending room:joined event to host ${userName} (${room.users[0].id})`);
-    socket.emit('room:joined', { room, user: room.users[0] });
+    emitRoomJoined(socket, room, room.users[0]);
     
-    console.log(`Room created: ${room.id} by ${userName}${data.isDemo ? ' (with demo data)' : ''}`);
+    socketLog(socket).info('Room created', { isDemo: Boolean(data.isDemo), quizCount: room.quizzes.length });
+    ack({ ok: true, data: { room } });
   } catch (error) {
-    console.error('Error creating room:', error);
-    socket.emit('error', { message: `Failed to create room: ${error instanceof Error ? error.message : 'Unknown error'}` });
+    socketLog(socket).error('Error creating room', { error });
+    rejectCommand(ack, ErrorCode.Internal, `Failed to create room: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
 }
 
@@ -159,20 +366,20 @@ async function handleRoomCreate(socket: Socket<ClientToServerEvents, ServerToCli
  * Handle room join
  * @param socket - Socket instance
  * @param data - Room join data
+ * @param ack - Acknowledgement answered with the command's result
  */
-function handleRoomJoin(socket: Socket<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>, data: { roomId: string; userId: string; userName: string }) {
+function handleRoomJoin(socket: Socket<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>, data: { roomId: string; userName: string; joinCode?: string; password?: string; asSpectator?: boolean }, ack: Reply<{ room: Room; user: User }>) {
   try {
-    console.log('Join room request:', { roomId: data.roomId, userName: data.userName, userId: data.userId });
+    const userId = socket.data.userId!;
+    socketLog(socket).debug('Join room request', { roomId: data.roomId, userName: data.userName });
     
     // Check if user is already in the room
     const existingRoom = getRoom(data.roomId);
     let existingUser: User | null = null;
     
-    if (existingRoom && data.userId) {
-      existingUser = existingRoom.users.find(user => user.id === data.userId) || null;
+    if (existingRoom) {
+      existingUser = existingRoom.users.find(user => user.id === userId) || null;
       if (existingUser) {
-        console.log(`User ${data.userName} (${data.userId}) is already in room, reconnecting`);
-        
         // Set socket data
         socket.data.userId = existingUser.id;
         socket.data.roomId = existingRoom.id;
@@ -181,49 +388,61 @@ function handleRoomJoin(socket: Socket<ClientToServerEvents, ServerToClientEvent
         // Join socket to room
         socket.join(existingRoom.id);
         
+        // Back within the grace period: keep the place, scores and host role
+        clearAwayTimer(existingRoom.id, existingUser.id);
+        const wasAway = Boolean(existingUser.isAway);
+        if (wasAway) {
+          setUserAway(existingRoom.id, existingUser.id, false);
+        }
+        
         // Notify client
-        socket.emit('room:joined', { room: existingRoom, user: existingUser });
+        const joined = emitRoomJoined(socket, existingRoom, existingUser);
+        if (wasAway) {
+          broadcastRoomUpdated(existingRoom);
+        }
         
-        console.log(`User ${data.userName} reconnected to room: ${existingRoom.id}`);
+        socketLog(socket).info('User reconnected to room');
+        ack({ ok: true, data: joined });
         return;
       }
     }
     
-    // Check if this is a host user trying to join their own room (from room creation)
-    if (existingRoom && existingRoom.hostId === data.userId) {
-      console.log(`Host user ${data.userName} (${data.userId}) is trying to join their own room, allowing reconnection`);
-      
-      // Find the host user in the room
-      const hostUser = existingRoom.users.find(user => user.id === data.userId);
-      if (hostUser) {
-        // Set socket data
-        socket.data.userId = hostUser.id;
-        socket.data.roomId = existingRoom.id;
-        socket.data.userName = data.userName;
-        
-        // Join socket to room
-        socket.join(existingRoom.id);
-        
-        // Notify client
-        socket.emit('room:joined', { room: existingRoom, user: hostUser });
-        
-        console.log(`Host user ${data.userName} reconnected to their room: ${existingRoom.id}`);
+    if (existingRoom && isUserBanned(existingRoom.id, userId)) {
+      rejectCommand(ack, ErrorCode.UserBanned, 'You are banned from this room');
+      return;
+    }
+    
+    // New members of a private room need its join code (and password, if set).
+    // The original host returning to their empty room is exempt.
+    if (existingRoom && existingRoom.hostId !== userId) {
+      if (!isJoinCodeValid(existingRoom.id, data.joinCode)) {
+        rejectCommand(ack, ErrorCode.RoomPrivate, 'This room is private. Join with its code');
+        return;
+      }
+      if (!isRoomPasswordValid(existingRoom.id, data.password)) {
+        rejectCommand(ack, ErrorCode.WrongPassword, 'Incorrect room password');
         return;
       }
     }
     
-    const result = joinRoom(data.roomId, data.userName, data.userId);
+    if (!existingRoom) {
+      rejectCommand(ack, ErrorCode.RoomNotFound, 'Room not found');
+      return;
+    }
+    if (!hasRoomFor(existingRoom, data.asSpectator)) {
+      rejectCommand(ack, ErrorCode.RoomFull, data.asSpectator ? 'No spectator seats left' : 'Room is full');
+      return;
+    }
+    
+    const result = joinRoom(data.roomId, data.userName, userId, data.asSpectator);
     
     if (!result) {
-      socket.emit('error', { message: 'Failed to join room' });
+      rejectCommand(ack, ErrorCode.Internal, 'Failed to join room');
       return;
     }
     
     const { room, user } = result;
     
-    console.log('User joined successfully:', { userId: user.id, userName: user.name, roomId: room.id });
-    console.log(`This was a NEW join (not reconnection) for user ${data.userName}`);
-    
     // Set socket data
     socket.data.userId = user.id;
     socket.data.roomId = room.id;
@@ -233,44 +452,75 @@ function handleRoomJoin(socket: Socket<ClientToServerEvents, ServerToClientEvent
     socket.join(room.id);
     
     // Notify client
-    socket.emit('room:joined', { room, user });
+    const joined = emitRoomJoined(socket, room, user);
     
     // Notify other users in the room (only for new users, not reconnections)
     if (!existingUser) {
       socket.to(room.id).emit('room:userJoined', { user });
     }
     
-    console.log(`User ${data.userName} joined room: ${room.id}`);
+    socketLog(socket).info('User joined room', { userName: data.userName, isSpectator: Boolean(user.isSpectator) });
+    ack({ ok: true, data: joined });
+  } catch (error) {
+    socketLog(socket).error('Error joining room', { error });
+    rejectCommand(ack, ErrorCode.Internal, 'Failed to join room');
+  }
+}
+
+/**
+ * Handle joining a room by its join code
+ * @param socket - Socket instance
+ * @param data - Join code and user data
+ * @param ack - Acknowledgement answered with the command's result
+ */
+function handleRoomJoinByCode(socket: Socket<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>, data: { code: string; userName: string; password?: string; asSpectator?: boolean }, ack: Reply<{ room: Room; user: User }>) {
+  try {
+    const room = findRoomByJoinCode(data.code);
+    if (!room) {
+      rejectCommand(ack, ErrorCode.InvalidJoinCode, 'No room found for that code');
+      return;
+    }
+    
+    handleRoomJoin(socket, {
+      roomId: room.id,
+      userName: data.userName,
+      joinCode: room.joinCode,
+      password: data.password,
+      asSpectator: data.asSpectator,
+    }, ack);
   } catch (error) {
-    console.error('Error joining room:', error);
-    socket.emit('error', { message: 'Failed to join room' });
+    socketLog(socket).error('Error joining room by code', { error });
+    rejectCommand(ack, ErrorCode.Internal, 'Failed to join room');
   }
 }
 
 /**
  * Handle room leave
  * @param socket - Socket instance
+ * @param ack - Acknowledgement answered with the command's result
  */
-function handleRoomLeave(socket: Socket<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>) {
+function handleRoomLeave(socket: Socket<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>, ack: Reply) {
   try {
     const { roomId, userId } = socket.data;
     
     if (!roomId || !userId) {
       // User is not in a room - this is not an error, just ignore silently
       // This can happen when leaveRoom is called multiple times
-      console.log('User tried to leave room but was not in any room');
+      socketLog(socket).debug('Leave requested outside a room');
       socket.emit('room:left'); // Still send confirmation to client
+      ack({ ok: true, data: undefined });
       return;
     }
     
+    clearAwayTimer(roomId, userId);
+    const previousHostId = getRoom(roomId)?.hostId;
     const updatedRoom = leaveRoom(roomId, userId);
     
     // Leave socket room
     socket.leave(roomId);
     
-    // Clear socket data
+    // Clear socket data (the session user stays bound to the socket)
     socket.data.roomId = undefined;
-    socket.data.userId = undefined;
     
     // Notify client
     socket.emit('room:left');
@@ -278,24 +528,63 @@ function handleRoomLeave(socket: Socket<ClientToServerEvents, ServerToClientEven
     // Notify other users if room still exists
     if (updatedRoom) {
       socket.to(roomId).emit('room:userLeft', { userId });
+      if (updatedRoom.hostId !== previousHostId) {
+        broadcastRoomUpdated(updatedRoom);
+      }
+      broadcastGameState(roomId);
     }
     
-    console.log(`User ${socket.data.userName} left room: ${roomId}`);
+    socketLog(socket).info('User left room', { roomId });
+    ack({ ok: true, data: undefined });
   } catch {
-    socket.emit('error', { message: 'Failed to leave room' });
+    rejectCommand(ack, ErrorCode.Internal, 'Failed to leave room');
   }
 }
 
 /**
  * Handle room list request
  * @param socket - Socket instance
+ * @param data - Search, sort and page options
+ * @param ack - Acknowledgement answered with the command's result
+ */
+function handleRoomList(socket: Socket<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>, data: RoomListQuery, ack: Reply<RoomListPage>) {
+  try {
+    const page = listPublicRooms(data);
+    socket.emit('room:list', page);
+    ack({ ok: true, data: page });
+  } catch {
+    rejectCommand(ack, ErrorCode.Internal, 'Failed to get room list');
+  }
+}
+
+/**
+ * Handle lobby subscription: send a page of public rooms, then keep the socket up to date
+ * @param socket - Socket instance
+ * @param data - Search, sort and page options for the first page
+ * @param ack - Acknowledgement answered with the command's result
+ */
+function handleLobbySubscribe(socket: Socket<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>, data: RoomListQuery, ack: Reply<RoomListPage>) {
+  try {
+    socket.join(LOBBY_CHANNEL);
+    const page = listPublicRooms(data);
+    socket.emit('room:list', page);
+    ack({ ok: true, data: page });
+  } catch {
+    rejectCommand(ack, ErrorCode.Internal, 'Failed to subscribe to the lobby');
+  }
+}
+
+/**
+ * Handle lobby unsubscription
+ * @param socket - Socket instance
+ * @param ack - Acknowledgement answered with the command's result
  */
-function handleRoomList(socket: Socket<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>) {
+function handleLobbyUnsubscribe(socket: Socket<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>, ack: Reply) {
   try {
-    const publicRooms = getPublicRooms();
-    socket.emit('room:list', { rooms: publicRooms });
+    socket.leave(LOBBY_CHANNEL);
+    ack({ ok: true, data: undefined });
   } catch {
-    socket.emit('error', { message: 'Failed to get room list' });
+    rejectCommand(ack, ErrorCode.Internal, 'Failed to unsubscribe from the lobby');
   }
 }
 
@@ -303,386 +592,909 @@ function handleRoomList(socket: Socket<ClientToServerEvents, ServerToClientEvent
  * Handle host transfer
  * @param socket - Socket instance
  * @param data - Host transfer data
+ * @param ack - Acknowledgement answered with the command's result
  */
-function handleHostTransfer(socket: Socket<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>, data: { newHostId: string }) {
+function handleHostTransfer(socket: Socket<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>, data: { newHostId: string }, ack: Reply) {
   try {
     const { roomId } = socket.data;
     
     if (!roomId) {
-      socket.emit('error', { message: 'Not in a room' });
+      rejectCommand(ack, ErrorCode.NotInRoom, 'Not in a room');
       return;
     }
     
     const room = getRoom(roomId);
     if (!room) {
-      socket.emit('error', { message: 'Room not found' });
+      rejectCommand(ack, ErrorCode.RoomNotFound, 'Room not found');
       return;
     }
     
     const user = getUser(roomId, socket.data.userId!);
     if (!user || !user.isHost) {
-      socket.emit('error', { message: 'Only host can transfer host role' });
+      rejectCommand(ack, ErrorCode.NotHost, 'Only host can transfer host role');
       return;
     }
     
     const updatedRoom = transferHost(roomId, data.newHostId);
     
     if (!updatedRoom) {
-      socket.emit('error', { message: 'Failed to transfer host role' });
+      rejectCommand(ack, ErrorCode.Internal, 'Failed to transfer host role');
       return;
     }
     
     // Notify all users in the room
     io.to(roomId).emit('host:transferred', { newHostId: data.newHostId });
+    // The new host may now see answers; the old host may not
+    broadcastRoomUpdated(room);
     
-    console.log(`Host transferred to ${data.newHostId} in room: ${roomId}`);
+    socketLog(socket).info('Host transferred', { newHostId: data.newHostId });
+    ack({ ok: true, data: undefined });
   } catch {
-    socket.emit('error', { message: 'Failed to transfer host role' });
+    rejectCommand(ack, ErrorCode.Internal, 'Failed to transfer host role');
   }
 }
 
 /**
- * Handle room update
+ * Handle the host moving a spectator into a free player slot
  * @param socket - Socket instance
- * @param data - Room update data
+ * @param data - Spectator to promote
+ * @param ack - Acknowledgement answered with the command's result
  */
-function handleRoomUpdate(socket: Socket<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>, data: { name?: string; isPublic?: boolean }) {
+function handlePromoteSpectator(socket: Socket<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>, data: { userId: string }, ack: Reply) {
   try {
     const { roomId } = socket.data;
     
     if (!roomId) {
-      socket.emit('error', { message: 'Not in a room' });
+      rejectCommand(ack, ErrorCode.NotInRoom, 'Not in a room');
       return;
     }
     
     const room = getRoom(roomId);
     if (!room) {
-      socket.emit('error', { message: 'Room not found' });
+      rejectCommand(ack, ErrorCode.RoomNotFound, 'Room not found');
       return;
     }
     
     const user = getUser(roomId, socket.data.userId!);
     if (!user || !user.isHost) {
-      socket.emit('error', { message: 'Only host can update room' });
+      rejectCommand(ack, ErrorCode.NotHost, 'Only host can promote spectators');
       return;
     }
     
-    const updatedRoom = updateRoom(roomId, data);
+    if (!getUser(roomId, data.userId)?.isSpectator) {
+      rejectCommand(ack, ErrorCode.UserNotFound, 'Spectator not found in room');
+      return;
+    }
     
-    if (!updatedRoom) {
-      socket.emit('error', { message: 'Failed to update room' });
+    if (!promoteSpectator(roomId, data.userId)) {
+      rejectCommand(ack, ErrorCode.RoomFull, 'Every player slot is taken');
       return;
     }
     
-    // Notify all users in the room
-    io.to(roomId).emit('room:updated', { room: updatedRoom });
+    broadcastRoomUpdated(room);
     
-    console.log(`Room updated: ${roomId}`);
-  } catch {
-    socket.emit('error', { message: 'Failed to update room' });
+    socketLog(socket).info('Spectator promoted', { targetUserId: data.userId });
+    ack({ ok: true, data: undefined });
+  } catch (error) {
+    socketLog(socket).error('Error promoting spectator', { error });
+    rejectCommand(ack, ErrorCode.Internal, 'Failed to promote spectator');
   }
 }
 
 /**
- * Handle quiz addition
+ * Handle the host kicking a member out of the room, optionally banning them from rejoining
  * @param socket - Socket instance
- * @param data - Quiz data
+ * @param data - Member to remove
+ * @param ack - Acknowledgement answered with the command's result
+ * @param ban - Whether the member is also banned
  */
-function handleQuizAdd(socket: Socket<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>, data: Quiz) {
+function handleRemoveMember(socket: Socket<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>, data: { userId: string }, ack: Reply, ban: boolean) {
   try {
     const { roomId } = socket.data;
     
     if (!roomId) {
-      socket.emit('error', { message: 'Not in a room' });
+      rejectCommand(ack, ErrorCode.NotInRoom, 'Not in a room');
+      return;
+    }
+    
+    const user = getUser(roomId, socket.data.userId!);
+    if (!user || !user.isHost) {
+      rejectCommand(ack, ErrorCode.NotHost, ban ? 'Only host can ban users' : 'Only host can kick users');
+      return;
+    }
+    
+    if (data.userId === user.id) {
+      rejectCommand(ack, ErrorCode.NotAccepted, 'The host cannot remove themselves');
+      return;
+    }
+    
+    if (!getUser(roomId, data.userId)) {
+      rejectCommand(ack, ErrorCode.UserNotFound, 'User not found in room');
+      return;
+    }
+    
+    if (ban) {
+      banUser(roomId, data.userId);
+      kickUser(roomId, data.userId, 'The host banned you from the room', RemovalCode.BannedByHost);
+    } else {
+      kickUser(roomId, data.userId, 'The host removed you from the room', RemovalCode.KickedByHost);
+    }
+    
+    socketLog(socket).info(ban ? 'User banned' : 'User kicked', { targetUserId: data.userId });
+    ack({ ok: true, data: undefined });
+  } catch (error) {
+    socketLog(socket).error('Error removing user', { error, ban });
+    rejectCommand(ack, ErrorCode.Internal, ban ? 'Failed to ban user' : 'Failed to kick user');
+  }
+}
+
+/**
+ * Handle room update
+ * @param socket - Socket instance
+ * @param data - Room update data
+ * @param ack - Acknowledgement answered with the command's result
+ */
+function handleRoomUpdate(socket: Socket<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>, data: { name?: string; isPublic?: boolean; autoJudge?: AutoJudgeSettings; tags?: string[] }, ack: Reply<{ room: Room }>) {
+  try {
+    const { roomId } = socket.data;
+    
+    if (!roomId) {
+      rejectCommand(ack, ErrorCode.NotInRoom, 'Not in a room');
       return;
     }
     
     const room = getRoom(roomId);
     if (!room) {
-      socket.emit('error', { message: 'Room not found' });
+      rejectCommand(ack, ErrorCode.RoomNotFound, 'Room not found');
       return;
     }
     
     const user = getUser(roomId, socket.data.userId!);
     if (!user || !user.isHost) {
-      socket.emit('error', { message: 'Only host can add quizzes' });
+      rejectCommand(ack, ErrorCode.NotHost, 'Only host can update room');
       return;
     }
     
-    room.quizzes.push(data);
+    const updatedRoom = updateRoom(roomId, data);
+    
+    if (!updatedRoom) {
+      rejectCommand(ack, ErrorCode.Internal, 'Failed to update room');
+      return;
+    }
     
     // Notify all users in the room
-    io.to(roomId).emit('quiz:added', { quiz: data });
+    broadcastRoomUpdated(updatedRoom);
     
-    console.log(`Quiz added to room: ${roomId}`);
+    socketLog(socket).info('Room updated');
+    ack({ ok: true, data: { room: updatedRoom } });
   } catch {
-    socket.emit('error', { message: 'Failed to add quiz' });
+    rejectCommand(ack, ErrorCode.Internal, 'Failed to update room');
   }
 }
 
 /**
- * Handle quiz removal
+ * Handle quiz addition
  * @param socket - Socket instance
- * @param data - Quiz removal data
+ * @param data - Quiz data
+ * @param ack - Acknowledgement answered with the command's result
  */
-function handleQuizRemove(socket: Socket<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>, data: { quizId: string }) {
+function handleQuizAdd(socket: Socket<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>, data: Quiz, ack: Reply<{ quiz: Quiz }>) {
   try {
     const { roomId } = socket.data;
     
     if (!roomId) {
-      socket.emit('error', { message: 'Not in a room' });
+      rejectCommand(ack, ErrorCode.NotInRoom, 'Not in a room');
       return;
     }
     
     const room = getRoom(roomId);
     if (!room) {
-      socket.emit('error', { message: 'Room not found' });
+      rejectCommand(ack, ErrorCode.RoomNotFound, 'Room not found');
       return;
     }
     
     const user = getUser(roomId, socket.data.userId!);
     if (!user || !user.isHost) {
-      socket.emit('error', { message: 'Only host can remove quizzes' });
+      rejectCommand(ack, ErrorCode.NotHost, 'Only host can add quizzes');
       return;
     }
     
-    const quizIndex = room.quizzes.findIndex(quiz => quiz.id === data.quizId);
-    if (quizIndex === -1) {
-      socket.emit('error', { message: 'Quiz not found' });
+    if (!addQuizToRoom(roomId, data)) {
+      rejectCommand(ack, ErrorCode.Internal, 'Failed to add quiz');
       return;
     }
     
-    room.quizzes.splice(quizIndex, 1);
-    
     // Notify all users in the room
-    io.to(roomId).emit('quiz:removed', { quizId: data.quizId });
+    emitByRole(roomId, (target, canSeeAnswers) =>
+      target.emit('quiz:added', { quiz: canSeeAnswers ? data : redactQuiz(data) })
+    );
     
-    console.log(`Quiz removed from room: ${roomId}`);
+    socketLog(socket).info('Quiz added', { quizId: data.id });
+    ack({ ok: true, data: { quiz: data } });
   } catch {
-    socket.emit('error', { message: 'Failed to remove quiz' });
+    rejectCommand(ack, ErrorCode.Internal, 'Failed to add quiz');
   }
 }
 
 /**
- * Handle quiz start
+ * Handle quiz removal
  * @param socket - Socket instance
- * @param data - Quiz start data
+ * @param data - Quiz removal data
+ * @param ack - Acknowledgement answered with the command's result
  */
-function handleQuizStart(socket: Socket<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>, data: { quizId: string; timeLimit?: number }) {
+function handleQuizRemove(socket: Socket<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>, data: { quizId: string }, ack: Reply) {
   try {
     const { roomId } = socket.data;
     
     if (!roomId) {
-      socket.emit('error', { message: 'Not in a room' });
+      rejectCommand(ack, ErrorCode.NotInRoom, 'Not in a room');
       return;
     }
     
     const room = getRoom(roomId);
     if (!room) {
-      socket.emit('error', { message: 'Room not found' });
+      rejectCommand(ack, ErrorCode.RoomNotFound, 'Room not found');
       return;
     }
     
     const user = getUser(roomId, socket.data.userId!);
     if (!user || !user.isHost) {
-      socket.emit('error', { message: 'Only host can start quizzes' });
+      rejectCommand(ack, ErrorCode.NotHost, 'Only host can remove quizzes');
       return;
     }
     
-    const quiz = room.quizzes.find(q => q.id === data.quizId);
-    if (!quiz) {
-      socket.emit('error', { message: 'Quiz not found' });
+    if (!removeQuizFromRoom(roomId, data.quizId)) {
+      rejectCommand(ack, ErrorCode.QuizNotFound, 'Quiz not found');
       return;
     }
     
-    const timeLimit = data.timeLimit || 30;
-    
     // Notify all users in the room
-    io.to(roomId).emit('quiz:started', { quiz, timeLimit });
+    io.to(roomId).emit('quiz:removed', { quizId: data.quizId });
     
-    console.log(`Quiz started in room: ${roomId}`);
+    socketLog(socket).info('Quiz removed', { quizId: data.quizId });
+    ack({ ok: true, data: undefined });
   } catch {
-    socket.emit('error', { message: 'Failed to start quiz' });
+    rejectCommand(ack, ErrorCode.Internal, 'Failed to remove quiz');
   }
 }
 
 /**
- * Handle quiz answer
+ * Handle deck list request
  * @param socket - Socket instance
- * @param data - Quiz answer data
+ * @param ack - Acknowledgement answered with the command's result
  */
-function handleQuizAnswer(socket: Socket<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>, data: { quizId: string; answer: string }) {
+function handleDeckList(socket: Socket<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>, ack: Reply<{ decks: QuizDeck[] }>) {
   try {
-    const { roomId, userId } = socket.data;
+    const decks = listDecks(socket.data.userId);
+    socket.emit('deck:list', { decks });
+    ack({ ok: true, data: { decks } });
+  } catch {
+    rejectCommand(ack, ErrorCode.Internal, 'Failed to get deck list');
+  }
+}
+
+/**
+ * Handle deck creation
+ * @param socket - Socket instance
+ * @param data - Deck data
+ * @param ack - Acknowledgement answered with the command's result
+ */
+function handleDeckCreate(socket: Socket<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>, data: { title: string; description?: string; tags?: string[]; quizzes: Quiz[] }, ack: Reply<{ deck: QuizDeck }>) {
+  try {
+    const { userId } = socket.data;
     
-    if (!roomId || !userId) {
-      socket.emit('error', { message: 'Not in a room' });
+    if (!userId) {
+      rejectCommand(ack, ErrorCode.NoSession, 'No session identity');
       return;
     }
     
-    // Notify all users in the room
-    io.to(roomId).emit('quiz:answered', { userId, answer: data.answer });
+    if (!data.title?.trim()) {
+      rejectCommand(ack, ErrorCode.InvalidPayload, 'Deck title is required', 'title');
+      return;
+    }
     
-    console.log(`User ${socket.data.userName} answered quiz: ${data.quizId}`);
+    const deck = createDeck(userId, { ...data, title: data.title.trim() });
+    socket.emit('deck:saved', { deck });
+    
+    socketLog(socket).info('Deck created', { deckId: deck.id });
+    ack({ ok: true, data: { deck } });
   } catch {
-    socket.emit('error', { message: 'Failed to submit answer' });
+    rejectCommand(ack, ErrorCode.Internal, 'Failed to create deck');
   }
 }
 
 /**
- * Handle quiz judgment
+ * Handle deck update
  * @param socket - Socket instance
- * @param data - Quiz judgment data
+ * @param data - Deck update data
+ * @param ack - Acknowledgement answered with the command's result
  */
-function handleQuizJudge(socket: Socket<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>, data: { userId: string; isCorrect: boolean; score?: number }) {
+function handleDeckUpdate(socket: Socket<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>, data: { deckId: string; title?: string; description?: string; tags?: string[]; quizzes?: Quiz[] }, ack: Reply<{ deck: QuizDeck }>) {
   try {
-    const { roomId } = socket.data;
+    const { userId } = socket.data;
     
-    if (!roomId) {
-      socket.emit('error', { message: 'Not in a room' });
+    if (!userId) {
+      rejectCommand(ack, ErrorCode.NoSession, 'No session identity');
       return;
     }
     
-    const room = getRoom(roomId);
-    if (!room) {
-      socket.emit('error', { message: 'Room not found' });
-      return;
-    }
+    const { deckId, ...updates } = data;
+    const deck = updateDeck(deckId, userId, updates);
     
-    const user = getUser(roomId, socket.data.userId!);
-    if (!user || !user.isHost) {
-      socket.emit('error', { message: 'Only host can judge answers' });
+    if (!deck) {
+      rejectCommand(ack, ErrorCode.NotDeckOwner, 'Only the deck owner can update it');
       return;
     }
     
-    const score = data.score || (data.isCorrect ? 10 : 0);
-    
-    // Notify all users in the room
-    io.to(roomId).emit('quiz:judged', { 
-      userId: data.userId, 
-      isCorrect: data.isCorrect, 
-      score 
-    });
-    
-    console.log(`Quiz judged for user ${data.userId} in room: ${roomId}`);
+    socket.emit('deck:saved', { deck });
+    ack({ ok: true, data: { deck } });
   } catch {
-    socket.emit('error', { message: 'Failed to judge answer' });
+    rejectCommand(ack, ErrorCode.Internal, 'Failed to update deck');
   }
 }
 
 /**
- * Handle game buzz event
+ * Handle deck deletion
  * @param socket - Socket instance
- * @param data - Buzz event data
+ * @param data - Deck deletion data
+ * @param ack - Acknowledgement answered with the command's result
  */
-function handleGameBuzz(socket: Socket<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>, data: { user: User }) {
+function handleDeckDelete(socket: Socket<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>, data: { deckId: string }, ack: Reply) {
   try {
-    const { roomId } = socket.data;
-    
-    if (!roomId) {
-      socket.emit('error', { message: 'Not in a room' });
-      return;
-    }
+    const { userId } = socket.data;
     
-    const room = getRoom(roomId);
-    if (!room) {
-      socket.emit('error', { message: 'Room not found' });
+    if (!userId) {
+      rejectCommand(ack, ErrorCode.NoSession, 'No session identity');
       return;
     }
     
-    // Verify user is in the room
-    const user = getUser(roomId, data.user.id);
-    if (!user) {
-      socket.emit('error', { message: 'User not found in room' });
+    if (!deleteDeck(data.deckId, userId)) {
+      rejectCommand(ack, ErrorCode.NotDeckOwner, 'Only the deck owner can delete it');
       return;
     }
     
-    // Broadcast buzz event to all users in the room
-    io.to(roomId).emit('game:buzz', { user: data.user });
-    
-    console.log(`User ${data.user.name} (${data.user.id}) buzzed in room ${roomId}`);
-  } catch (error) {
-    console.error('Error handling game buzz:', error);
-    socket.emit('error', { message: 'Failed to process buzz' });
+    socket.emit('deck:deleted', { deckId: data.deckId });
+    ack({ ok: true, data: undefined });
+  } catch {
+    rejectCommand(ack, ErrorCode.Internal, 'Failed to delete deck');
   }
 }
 
 /**
- * Handle game answer event
+ * Handle loading a deck into the current room, replacing its quizzes
  * @param socket - Socket instance
- * @param data - Answer event data
+ * @param data - Deck to load
+ * @param ack - Acknowledgement answered with the command's result
  */
-function handleGameAnswer(socket: Socket<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>, data: { user: User; answer: string }) {
+function handleDeckLoad(socket: Socket<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>, data: { deckId: string }, ack: Reply) {
   try {
     const { roomId } = socket.data;
     
     if (!roomId) {
-      socket.emit('error', { message: 'Not in a room' });
+      rejectCommand(ack, ErrorCode.NotInRoom, 'Not in a room');
       return;
     }
     
     const room = getRoom(roomId);
     if (!room) {
-      socket.emit('error', { message: 'Room not found' });
+      rejectCommand(ack, ErrorCode.RoomNotFound, 'Room not found');
       return;
     }
     
-    // Verify user is in the room
-    const user = getUser(roomId, data.user.id);
-    if (!user) {
-      socket.emit('error', { message: 'User not found in room' });
+    const user = getUser(roomId, socket.data.userId!);
+    if (!user || !user.isHost) {
+      rejectCommand(ack, ErrorCode.NotHost, 'Only host can load decks');
       return;
     }
     
-    // Broadcast answer event to all users in the room
-    io.to(roomId).emit('game:answer', { user: data.user, answer: data.answer });
+    const deck = getDeck(data.deckId);
+    // Other users' decks are private, so report them as missing too
+    if (!deck || (deck.ownerId !== undefined && deck.ownerId !== user.id)) {
+      rejectCommand(ack, ErrorCode.DeckNotFound, 'Deck not found');
+      return;
+    }
     
-    console.log(`User ${data.user.name} (${data.user.id}) answered "${data.answer}" in room ${roomId}`);
-  } catch (error) {
-    console.error('Error handling game answer:', error);
-    socket.emit('error', { message: 'Failed to process answer' });
+    const phase = getGameSession(roomId)?.phase;
+    if (phase !== 'lobby' && phase !== 'quiz-finished') {
+      rejectCommand(ack, ErrorCode.QuizInProgress, 'Cannot load a deck while a quiz is running');
+      return;
+    }
+    
+    const updatedRoom = setRoomQuizzes(roomId, copyDeckQuizzes(deck));
+    if (!updatedRoom) {
+      rejectCommand(ack, ErrorCode.Internal, 'Failed to load deck');
+      return;
+    }
+    
+    // Notify all users in the room
+    broadcastRoomUpdated(updatedRoom);
+    
+    socketLog(socket).info('Deck loaded into room', { deckId: deck.id });
+    ack({ ok: true, data: undefined });
+  } catch {
+    rejectCommand(ack, ErrorCode.Internal, 'Failed to load deck');
   }
 }
 
 /**
- * Handle chat message
+ * Handle quiz start
  * @param socket - Socket instance
- * @param data - Chat message data
+ * @param data - Quiz start data
+ * @param ack - Acknowledgement answered with the command's result
  */
-function handleChatMessage(socket: Socket<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>, data: { message: string; userId: string; userName: string }) {
+function handleQuizStart(socket: Socket<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>, data: { quizId: string; timeLimit?: number }, ack: Reply) {
   try {
     const { roomId } = socket.data;
     
     if (!roomId) {
-      socket.emit('error', { message: 'Not in a room' });
+      rejectCommand(ack, ErrorCode.NotInRoom, 'Not in a room');
       return;
     }
     
     const room = getRoom(roomId);
     if (!room) {
-      socket.emit('error', { message: 'Room not found' });
+      rejectCommand(ack, ErrorCode.RoomNotFound, 'Room not found');
       return;
     }
     
-    // Verify user is in the room
-    const user = getUser(roomId, data.userId);
-    if (!user) {
-      socket.emit('error', { message: 'User not found in room' });
+    const user = getUser(roomId, socket.data.userId!);
+    if (!user || !user.isHost) {
+      rejectCommand(ack, ErrorCode.NotHost, 'Only host can start quizzes');
       return;
     }
     
-    // Broadcast message to all users in the room
-    io.to(roomId).emit('chat:message', {
-      message: data.message.trim(),
-      userId: data.userId,
-      userName: data.userName,
-      timestamp: Date.now()
-    });
+    const quiz = room.quizzes.find(q => q.id === data.quizId);
+    if (!quiz) {
+      rejectCommand(ack, ErrorCode.QuizNotFound, 'Quiz not found');
+      return;
+    }
     
-    console.log(`Chat message from ${data.userName} (${data.userId}) in room ${roomId}: ${data.message}`);
-  } catch (error) {
-    console.error('Error handling chat message:', error);
-    socket.emit('error', { message: 'Failed to send message' });
+    const timeLimit = data.timeLimit || config.game.defaultTimeLimitSeconds;
+    
+    startQuizSession(roomId, quiz.id, timeLimit);
+    scheduleQuestionTimer(roomId);
+    
+    // Notify all users in the room
+    emitByRole(roomId, (target, canSeeAnswers) =>
+      target.emit('quiz:started', { quiz: canSeeAnswers ? quiz : redactQuiz(quiz), timeLimit })
+    );
+    io.to(roomId).emit('game:score', { scores: getScores(roomId) });
+    broadcastGameState(roomId);
+    
+    socketLog(socket).info('Quiz started', { quizId: data.quizId });
+    ack({ ok: true, data: undefined });
+  } catch {
+    rejectCommand(ack, ErrorCode.Internal, 'Failed to start quiz');
+  }
+}
+
+/**
+ * Handle quiz answer
+ * @param socket - Socket instance
+ * @param data - Quiz answer data
+ * @param ack - Acknowledgement answered with the command's result
+ */
+function handleQuizAnswer(socket: Socket<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>, data: { quizId: string; answer: string }, ack: Reply) {
+  try {
+    const { roomId, userId } = socket.data;
+    
+    if (!roomId || !userId) {
+      rejectCommand(ack, ErrorCode.NotInRoom, 'Not in a room');
+      return;
+    }
+    
+    if (getUser(roomId, userId)?.isSpectator) {
+      rejectCommand(ack, ErrorCode.SpectatorCannotPlay, 'Spectators cannot answer');
+      return;
+    }
+    
+    const session = getGameSession(roomId);
+    if (!session || session.phase === 'lobby' || session.phase === 'quiz-finished') {
+      rejectCommand(ack, ErrorCode.NoQuizInProgress, 'No quiz in progress');
+      return;
+    }
+    if (session.phase !== 'quiz-active' || data.quizId !== session.currentQuizId) {
+      rejectCommand(ack, ErrorCode.NotAccepted, 'This quiz is not accepting answers');
+      return;
+    }
+    
+    // Notify all users in the room
+    io.to(roomId).emit('quiz:answered', { userId, answer: data.answer });
+    
+    socketLog(socket).info('Quiz answer submitted', { quizId: data.quizId, answer: data.answer });
+    ack({ ok: true, data: undefined });
+  } catch {
+    rejectCommand(ack, ErrorCode.Internal, 'Failed to submit answer');
+  }
+}
+
+/**
+ * Handle quiz judgment
+ * @param socket - Socket instance
+ * @param data - Quiz judgment data
+ * @param ack - Acknowledgement answered with the command's result
+ */
+function handleQuizJudge(socket: Socket<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>, data: { userId: string; isCorrect: boolean; score?: number }, ack: Reply) {
+  try {
+    const { roomId } = socket.data;
+    
+    if (!roomId) {
+      rejectCommand(ack, ErrorCode.NotInRoom, 'Not in a room');
+      return;
+    }
+    
+    const room = getRoom(roomId);
+    if (!room) {
+      rejectCommand(ack, ErrorCode.RoomNotFound, 'Room not found');
+      return;
+    }
+    
+    const user = getUser(roomId, socket.data.userId!);
+    if (!user || !user.isHost) {
+      rejectCommand(ack, ErrorCode.NotHost, 'Only host can judge answers');
+      return;
+    }
+    
+    const score = data.score ?? (data.isCorrect ? config.game.correctAnswerScore : 0);
+    
+    if (recordJudgment(roomId, data.userId, data.isCorrect, score)) {
+      emitJudgment(roomId, data.userId, data.isCorrect, score, score);
+      socketLog(socket).info('Answer judged', { targetUserId: data.userId, isCorrect: data.isCorrect });
+      ack({ ok: true, data: undefined });
+      return;
+    }
+    
+    // Host overriding an automatic judgment
+    const override = overrideJudgment(roomId, data.userId, data.isCorrect, score);
+    if (!override) {
+      rejectCommand(ack, ErrorCode.NotAccepted, 'No answer from this user is awaiting judgment');
+      return;
+    }
+    
+    emitJudgment(roomId, data.userId, data.isCorrect, score, override.scoreDelta);
+    socketLog(socket).info('Automatic judgment overridden', { targetUserId: data.userId, isCorrect: data.isCorrect });
+    ack({ ok: true, data: undefined });
+  } catch {
+    rejectCommand(ack, ErrorCode.Internal, 'Failed to judge answer');
+  }
+}
+
+/**
+ * Handle advancing to the next quiz
+ * @param socket - Socket instance
+ * @param ack - Acknowledgement answered with the command's result
+ */
+function handleQuizNext(socket: Socket<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>, ack: Reply) {
+  try {
+    const { roomId } = socket.data;
+    
+    if (!roomId) {
+      rejectCommand(ack, ErrorCode.NotInRoom, 'Not in a room');
+      return;
+    }
+    
+    const room = getRoom(roomId);
+    if (!room) {
+      rejectCommand(ack, ErrorCode.RoomNotFound, 'Room not found');
+      return;
+    }
+    
+    const user = getUser(roomId, socket.data.userId!);
+    if (!user || !user.isHost) {
+      rejectCommand(ack, ErrorCode.NotHost, 'Only host can advance quizzes');
+      return;
+    }
+    
+    // The next quiz keeps the time limit the host chose when starting the game
+    const session = advanceQuizSession(roomId);
+    if (!session) {
+      rejectCommand(ack, ErrorCode.NoQuizInProgress, 'No quiz in progress');
+      return;
+    }
+    
+    // Notify all users in the room
+    const quiz = room.quizzes.find(q => q.id === session.currentQuizId);
+    scheduleQuestionTimer(roomId);
+    if (session.phase === 'quiz-active' && quiz) {
+      emitByRole(roomId, (target, canSeeAnswers) =>
+        target.emit('quiz:started', { quiz: canSeeAnswers ? quiz : redactQuiz(quiz), timeLimit: session.timeLimit ?? config.game.defaultTimeLimitSeconds })
+      );
+    }
+    broadcastGameState(roomId);
+    
+    socketLog(socket).info('Quiz advanced', { phase: session.phase });
+    ack({ ok: true, data: undefined });
+  } catch {
+    rejectCommand(ack, ErrorCode.Internal, 'Failed to advance quiz');
+  }
+}
+
+/**
+ * Handle ending the quiz session and returning to the lobby
+ * @param socket - Socket instance
+ * @param ack - Acknowledgement answered with the command's result
+ */
+function handleQuizEnd(socket: Socket<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>, ack: Reply) {
+  try {
+    const { roomId } = socket.data;
+    
+    if (!roomId) {
+      rejectCommand(ack, ErrorCode.NotInRoom, 'Not in a room');
+      return;
+    }
+    
+    const user = getUser(roomId, socket.data.userId!);
+    if (!user || !user.isHost) {
+      rejectCommand(ack, ErrorCode.NotHost, 'Only host can end quizzes');
+      return;
+    }
+    
+    if (!endQuizSession(roomId)) {
+      rejectCommand(ack, ErrorCode.RoomNotFound, 'Room not found');
+      return;
+    }
+    clearQuestionTimer(roomId);
+    
+    // Notify all users in the room
+    broadcastGameState(roomId);
+    
+    socketLog(socket).info('Quiz ended');
+    ack({ ok: true, data: undefined });
+  } catch {
+    rejectCommand(ack, ErrorCode.Internal, 'Failed to end quiz');
+  }
+}
+
+/**
+ * Handle revealing the correct answer of the current quiz
+ * @param socket - Socket instance
+ * @param ack - Acknowledgement answered with the command's result
+ */
+function handleQuizRevealAnswer(socket: Socket<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>, ack: Reply) {
+  try {
+    const { roomId } = socket.data;
+    
+    if (!roomId) {
+      rejectCommand(ack, ErrorCode.NotInRoom, 'Not in a room');
+      return;
+    }
+    
+    const user = getUser(roomId, socket.data.userId!);
+    if (!user || !user.isHost) {
+      rejectCommand(ack, ErrorCode.NotHost, 'Only host can reveal answers');
+      return;
+    }
+    
+    if (!revealQuizAnswer(roomId)) {
+      rejectCommand(ack, ErrorCode.NoQuizInProgress, 'No quiz in progress');
+      return;
+    }
+    
+    // Notify all users in the room
+    emitAnswerReveal(roomId);
+    broadcastGameState(roomId);
+    ack({ ok: true, data: undefined });
+  } catch {
+    rejectCommand(ack, ErrorCode.Internal, 'Failed to reveal answer');
+  }
+}
+
+/**
+ * Handle game buzz event
+ * @param socket - Socket instance
+ * @param ack - Acknowledgement answered with the command's result
+ */
+function handleGameBuzz(socket: Socket<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>, ack: Reply) {
+  // Stamp the buzz before any other work so ordering reflects arrival time
+  const receivedAt = Date.now();
+  
+  try {
+    const { roomId } = socket.data;
+    
+    if (!roomId) {
+      rejectCommand(ack, ErrorCode.NotInRoom, 'Not in a room');
+      return;
+    }
+    
+    const room = getRoom(roomId);
+    if (!room) {
+      rejectCommand(ack, ErrorCode.RoomNotFound, 'Room not found');
+      return;
+    }
+    
+    const user = getUser(roomId, socket.data.userId!);
+    if (!user) {
+      rejectCommand(ack, ErrorCode.UserNotFound, 'User not found in room');
+      return;
+    }
+    if (user.isSpectator) {
+      rejectCommand(ack, ErrorCode.SpectatorCannotPlay, 'Spectators cannot buzz');
+      return;
+    }
+    
+    const currentSession = getGameSession(roomId);
+    if (!currentSession || currentSession.phase !== 'quiz-active') {
+      rejectCommand(ack, ErrorCode.NotAccepted, 'No quiz is accepting buzzes');
+      return;
+    }
+    
+    if (currentSession.buzzQueue.some(entry => entry.userId === user.id)) {
+      rejectCommand(ack, ErrorCode.AlreadyBuzzed, 'Already buzzed for this quiz');
+      return;
+    }
+    
+    const session = recordBuzz(roomId, user.id, receivedAt);
+    if (!session) {
+      rejectCommand(ack, ErrorCode.Internal, 'Failed to process buzz');
+      return;
+    }
+    
+    // Broadcast buzz event and the resolved queue to all users in the room
+    io.to(roomId).emit('game:buzz', { user });
+    io.to(roomId).emit('game:buzzResolved', {
+      winnerId: session.buzzQueue[0].userId,
+      queue: session.buzzQueue,
+    });
+    broadcastGameState(roomId);
+    
+    socketLog(socket).info('User buzzed');
+    ack({ ok: true, data: undefined });
+  } catch (error) {
+    socketLog(socket).error('Error handling game buzz', { error });
+    rejectCommand(ack, ErrorCode.Internal, 'Failed to process buzz');
+  }
+}
+
+/**
+ * Handle game answer event
+ * @param socket - Socket instance
+ * @param data - Answer event data
+ * @param ack - Acknowledgement answered with the command's result
+ */
+function handleGameAnswer(socket: Socket<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>, data: { answer: string }, ack: Reply) {
+  try {
+    const { roomId } = socket.data;
+    
+    if (!roomId) {
+      rejectCommand(ack, ErrorCode.NotInRoom, 'Not in a room');
+      return;
+    }
+    
+    const room = getRoom(roomId);
+    if (!room) {
+      rejectCommand(ack, ErrorCode.RoomNotFound, 'Room not found');
+      return;
+    }
+    
+    const user = getUser(roomId, socket.data.userId!);
+    if (!user) {
+      rejectCommand(ack, ErrorCode.UserNotFound, 'User not found in room');
+      return;
+    }
+    if (user.isSpectator) {
+      rejectCommand(ack, ErrorCode.SpectatorCannotPlay, 'Spectators cannot answer');
+      return;
+    }
+    
+    if (!recordAnswer(roomId, user.id, data.answer)) {
+      rejectCommand(ack, ErrorCode.NotAccepted, 'Only the first player to buzz can answer');
+      return;
+    }
+    
+    // Broadcast answer event to all users in the room
+    io.to(roomId).emit('game:answer', { user, answer: data.answer });
+    
+    socketLog(socket).info('Buzz answer submitted', { answer: data.answer });
+    
+    if (room.autoJudge?.enabled) {
+      autoJudgeAnswer(room, user.id, data.answer);
+      ack({ ok: true, data: undefined });
+      return;
+    }
+    
+    broadcastGameState(roomId);
+    ack({ ok: true, data: undefined });
+  } catch (error) {
+    socketLog(socket).error('Error handling game answer', { error });
+    rejectCommand(ack, ErrorCode.Internal, 'Failed to process answer');
+  }
+}
+
+/**
+ * Handle a player's pick in a multiple-choice quiz
+ * @param socket - Socket instance
+ * @param data - Choice event data
+ * @param ack - Acknowledgement answered with the command's result
+ */
+function handleGameChoice(socket: Socket<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>, data: { choiceIndex: number }, ack: Reply) {
+  try {
+    const { roomId } = socket.data;
+    
+    if (!roomId) {
+      rejectCommand(ack, ErrorCode.NotInRoom, 'Not in a room');
+      return;
+    }
+    
+    const room = getRoom(roomId);
+    if (!room) {
+      rejectCommand(ack, ErrorCode.RoomNotFound, 'Room not found');
+      return;
+    }
+    
+    const user = getUser(roomId, socket.data.userId!);
+    if (!user) {
+      rejectCommand(ack, ErrorCode.UserNotFound, 'User not found in room');
+      return;
+    }
+    if (user.isSpectator) {
+      rejectCommand(ack, ErrorCode.SpectatorCannotPlay, 'Spectators cannot pick choices');
+      return;
+    }
+    
+    const session = recordChoice(roomId, user.id, data.choiceIndex);
+    if (!session) {
+      rejectCommand(ack, ErrorCode.NotAccepted, 'Choice not accepted');
+      return;
+    }
+    
+    socketLog(socket).info('Choice submitted');
+    
+    // Score right away once every player has picked
+    const players = getPlayers(room).filter(u => !u.isHost && !u.isAway);
+    if (players.every(player => session.choiceSubmissions.some(submission => submission.userId === player.id))) {
+      finishChoiceQuiz(roomId);
+      ack({ ok: true, data: undefined });
+      return;
+    }
+    
+    broadcastGameState(roomId);
+    ack({ ok: true, data: undefined });
+  } catch (error) {
+    socketLog(socket).error('Error handling game choice', { error });
+    rejectCommand(ack, ErrorCode.Internal, 'Failed to process choice');
+  }
+}
+
+/**
+ * Handle chat message
+ * @param socket - Socket instance
+ * @param data - Chat message data
+ * @param ack - Acknowledgement answered with the command's result
+ */
+function handleChatMessage(socket: Socket<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>, data: { message: string }, ack: Reply) {
+  try {
+    const { roomId } = socket.data;
+    
+    if (!roomId) {
+      rejectCommand(ack, ErrorCode.NotInRoom, 'Not in a room');
+      return;
+    }
+    
+    const room = getRoom(roomId);
+    if (!room) {
+      rejectCommand(ack, ErrorCode.RoomNotFound, 'Room not found');
+      return;
+    }
+    
+    const user = getUser(roomId, socket.data.userId!);
+    if (!user) {
+      rejectCommand(ack, ErrorCode.UserNotFound, 'User not found in room');
+      return;
+    }
+    
+    // Broadcast message to all users in the room
+    io.to(roomId).emit('chat:message', {
+      message: data.message.trim(),
+      userId: user.id,
+      userName: user.name,
+      timestamp: Date.now()
+    });
+    
+    socketLog(socket).debug('Chat message sent', { chatMessage: data.message });
+    ack({ ok: true, data: undefined });
+  } catch (error) {
+    socketLog(socket).error('Error handling chat message', { error });
+    rejectCommand(ack, ErrorCode.Internal, 'Failed to send message');
   }
 }
 
@@ -694,19 +1506,481 @@ function handleDisconnect(socket: Socket<ClientToServerEvents, ServerToClientEve
   try {
     const { roomId, userId } = socket.data;
     
-    if (roomId && userId) {
-      const updatedRoom = leaveRoom(roomId, userId);
-      
+    // The user is still here if another tab of theirs is connected to the room
+    const stillConnected = roomId && userId && getMemberSockets(roomId, userId).some(other => other.id !== socket.id);
+    if (roomId && userId && !stillConnected) {
+      // Keep the user as away for a while so a brief network drop doesn't cost their place
+      const updatedRoom = setUserAway(roomId, userId, true);
       if (updatedRoom) {
-        // Notify other users in the room
-        socket.to(roomId).emit('room:userLeft', { userId });
+        broadcastRoomUpdated(updatedRoom);
+        startAwayTimer(roomId, userId);
       }
     }
     
-    console.log('User disconnected:', socket.id);
+    socketLog(socket).info('User disconnected');
   } catch (error) {
-    console.error('Error handling disconnect:', error);
+    socketLog(socket).error('Error handling disconnect', { error });
+  }
+}
+
+/**
+ * Remove a user whose reconnection grace period ran out
+ * @param roomId - Room ID
+ * @param userId - User ID
+ */
+function removeAwayUser(roomId: string, userId: string) {
+  awayTimers.delete(`${roomId}:${userId}`);
+  
+  // The user may have come back or left in the meantime
+  if (!getUser(roomId, userId)?.isAway) {
+    return;
+  }
+  
+  const previousHostId = getRoom(roomId)?.hostId;
+  const updatedRoom = leaveRoom(roomId, userId);
+  
+  if (updatedRoom) {
+    // Notify other users in the room
+    io.to(roomId).emit('room:userLeft', { userId });
+    if (updatedRoom.hostId !== previousHostId) {
+      broadcastRoomUpdated(updatedRoom);
+    }
+    broadcastGameState(roomId);
   }
+  
+  log.info('Away user removed after the reconnection grace period', { roomId, userId });
+}
+
+/**
+ * Remove an away user once the reconnection grace period runs out, unless they come back first
+ * @param roomId - Room ID
+ * @param userId - User ID
+ */
+function startAwayTimer(roomId: string, userId: string) {
+  clearAwayTimer(roomId, userId);
+  awayTimers.set(`${roomId}:${userId}`, setTimeout(() => removeAwayUser(roomId, userId), config.game.reconnectGraceMs));
+}
+
+/**
+ * Cancel the pending removal of an away user
+ * @param roomId - Room ID
+ * @param userId - User ID
+ */
+function clearAwayTimer(roomId: string, userId: string) {
+  const key = `${roomId}:${userId}`;
+  const timer = awayTimers.get(key);
+  if (timer) {
+    clearTimeout(timer);
+    awayTimers.delete(key);
+  }
+}
+
+/**
+ * Stop every timer of a room, e.g. once it is deleted
+ * @param roomId - Room ID
+ */
+function clearRoomTimers(roomId: string) {
+  clearQuestionTimer(roomId);
+  for (const [key, timer] of awayTimers) {
+    if (key.startsWith(`${roomId}:`)) {
+      clearTimeout(timer);
+      awayTimers.delete(key);
+    }
+  }
+}
+
+/**
+ * Notify a socket that it joined a room, including the current game session and scoreboard
+ * @param socket - Socket instance
+ * @param room - Joined room
+ * @param user - Joined user
+ * @returns The room and user as sent to the socket
+ */
+function emitRoomJoined(socket: Socket<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>, room: Room, user: User): { room: Room; user: User } {
+  const session = getGameSession(room.id)!;
+  const visibleRoom = user.isHost ? room : redactRoom(room);
+  socket.emit('room:joined', {
+    room: visibleRoom,
+    user,
+    session: user.isHost ? session : redactSession(session, user.id),
+    scores: getScores(room.id),
+  });
+  
+  // Late joiners still need an answer that was already revealed
+  const quiz = room.quizzes.find(q => q.id === session.currentQuizId);
+  if (session.answerRevealed && quiz) {
+    socket.emit('quiz:revealAnswer', { quizId: quiz.id, answer: quiz.answer });
+  }
+  
+  return { room: visibleRoom, user };
+}
+
+/**
+ * Copy an object without some of its keys
+ * @param value - Object to copy
+ * @param keys - Keys to leave out
+ * @returns The copy
+ */
+function omit<T extends object, K extends keyof T>(value: T, ...keys: K[]): Omit<T, K> {
+  const copy = { ...value };
+  keys.forEach(key => delete copy[key]);
+  return copy;
+}
+
+/**
+ * Strip the correct answer from a quiz for players who must not see it yet
+ * @param quiz - Quiz to redact
+ * @returns A copy without accepted answers and with an empty answer
+ */
+function redactQuiz(quiz: Quiz): Quiz {
+  return { ...omit(quiz, 'acceptedAnswers'), answer: '' };
+}
+
+/**
+ * Strip the correct answers from every quiz in a room
+ * @param room - Room to redact
+ * @returns A copy of the room with redacted quizzes
+ */
+function redactRoom(room: Room): Room {
+  return { ...room, quizzes: room.quizzes.map(redactQuiz) };
+}
+
+/**
+ * Hide the other players' picks while the current quiz is still open, so nobody can copy them
+ * @param session - Session to redact
+ * @param userId - User ID of the player receiving the session
+ * @returns A copy that only keeps the player's own pick, or the session itself once the quiz is scored
+ */
+function redactSession(session: GameSession, userId: string | undefined): GameSession {
+  if (session.phase !== 'quiz-active') {
+    return session;
+  }
+  return { ...session, choiceSubmissions: session.choiceSubmissions.filter(submission => submission.userId === userId) };
+}
+
+/**
+ * Find the sockets of a room's host, who may see answers
+ * @param roomId - Room ID
+ * @returns Socket IDs connected as the room's host
+ */
+function getHostSocketIds(roomId: string): string[] {
+  const hostId = getRoom(roomId)?.hostId;
+  const socketIds = io.sockets.adapter.rooms.get(roomId) ?? new Set<string>();
+  return Array.from(socketIds).filter(id => io.sockets.sockets.get(id)?.data.userId === hostId);
+}
+
+/**
+ * Emit to a room with separate payloads for the host and everyone else
+ * @param roomId - Room ID
+ * @param emit - Emits the payload to a target; canSeeAnswers is true only for the host
+ */
+function emitByRole(
+  roomId: string,
+  emit: (target: BroadcastOperator<ServerToClientEvents, SocketData>, canSeeAnswers: boolean) => void
+) {
+  const hostSocketIds = getHostSocketIds(roomId);
+  // An empty target list would broadcast to every socket, so only emit when the host is connected
+  if (hostSocketIds.length > 0) {
+    emit(io.to(hostSocketIds), true);
+  }
+  emit(io.to(roomId).except(hostSocketIds), false);
+}
+
+/**
+ * Broadcast an updated room, with answers only visible to the host
+ * @param room - Updated room
+ */
+function broadcastRoomUpdated(room: Room) {
+  emitByRole(room.id, (target, canSeeAnswers) =>
+    target.emit('room:updated', { room: canSeeAnswers ? room : redactRoom(room) })
+  );
+}
+
+/**
+ * Send a lobby delta to every lobby subscriber
+ * @param delta - Change to the lobby's room list
+ */
+function broadcastLobbyDelta(delta: LobbyDelta) {
+  const lobby = io.to(LOBBY_CHANNEL);
+  switch (delta.type) {
+    case 'added':
+      lobby.emit('lobby:roomAdded', { room: delta.room });
+      break;
+    case 'changed':
+      lobby.emit('lobby:roomChanged', { room: delta.room });
+      break;
+    case 'removed':
+      lobby.emit('lobby:roomRemoved', { roomId: delta.roomId });
+      break;
+  }
+}
+
+/**
+ * Reveal the correct answer of the room's current quiz to every member
+ * @param roomId - Room ID
+ */
+function emitAnswerReveal(roomId: string) {
+  const session = getGameSession(roomId);
+  const quiz = getRoom(roomId)?.quizzes.find(q => q.id === session?.currentQuizId);
+  if (quiz) {
+    io.to(roomId).emit('quiz:revealAnswer', { quizId: quiz.id, answer: quiz.answer });
+  }
+}
+
+/**
+ * Broadcast the room's current game session to every member
+ * Players only see their own choice pick until the quiz is scored, so each socket gets its own copy
+ * @param roomId - Room ID
+ */
+function broadcastGameState(roomId: string) {
+  const session = getGameSession(roomId);
+  if (!session) {
+    return;
+  }
+
+  const hostSocketIds = getHostSocketIds(roomId);
+  for (const socketId of io.sockets.adapter.rooms.get(roomId) ?? []) {
+    const target = io.sockets.sockets.get(socketId);
+    target?.emit('game:state', {
+      session: hostSocketIds.includes(socketId) ? session : redactSession(session, target.data.userId),
+    });
+  }
+}
+
+/**
+ * Broadcast a judgment and the resulting scoreboard to a room
+ * @param roomId - Room ID
+ * @param userId - User ID whose answer was judged
+ * @param isCorrect - Whether the answer is correct
+ * @param score - Points awarded for the answer
+ * @param scoreDelta - Change to apply to the user's total score
+ */
+function emitJudgment(roomId: string, userId: string, isCorrect: boolean, score: number, scoreDelta: number) {
+  // A judged quiz is closed, so its countdown no longer matters
+  clearQuestionTimer(roomId);
+  
+  const scores = addScore(roomId, userId, scoreDelta) || [];
+  
+  io.to(roomId).emit('quiz:judged', { userId, isCorrect, score });
+  io.to(roomId).emit('game:score', { scores });
+  broadcastGameState(roomId);
+}
+
+/**
+ * Judge a submitted answer against the current quiz without waiting for the host
+ * @param room - Room the answer was submitted in
+ * @param userId - User ID who answered
+ * @param answer - Submitted answer
+ */
+function autoJudgeAnswer(room: Room, userId: string, answer: string) {
+  const session = getGameSession(room.id);
+  const quiz = room.quizzes.find(q => q.id === session?.currentQuizId);
+  if (!quiz) {
+    broadcastGameState(room.id);
+    return;
+  }
+  
+  const isCorrect = isAnswerCorrect(quiz, answer, room.autoJudge?.tolerance);
+  const score = isCorrect ? config.game.correctAnswerScore : 0;
+  
+  recordJudgment(room.id, userId, isCorrect, score, true);
+  emitJudgment(room.id, userId, isCorrect, score, score);
+  
+  log.debug('Answer auto-judged', { roomId: room.id, userId, isCorrect });
+}
+
+/**
+ * Start the countdown for the room's current quiz
+ * Emits quiz:tick every TICK_INTERVAL_MS and expires the quiz at its deadline
+ * @param roomId - Room ID
+ */
+function scheduleQuestionTimer(roomId: string) {
+  clearQuestionTimer(roomId);
+  
+  const deadline = getGameSession(roomId)?.deadline;
+  if (!deadline) {
+    return;
+  }
+  
+  const tick = setInterval(() => {
+    io.to(roomId).emit('quiz:tick', { remainingMs: Math.max(0, deadline - Date.now()), deadline });
+  }, TICK_INTERVAL_MS);
+  const expire = setTimeout(() => expireQuestion(roomId), Math.max(0, deadline - Date.now()));
+  questionTimers.set(roomId, { tick, expire });
+}
+
+/**
+ * Stop the countdown of the room's current quiz
+ * @param roomId - Room ID
+ */
+function clearQuestionTimer(roomId: string) {
+  const timer = questionTimers.get(roomId);
+  if (timer) {
+    clearInterval(timer.tick);
+    clearTimeout(timer.expire);
+    questionTimers.delete(roomId);
+  }
+}
+
+/**
+ * Close the room's current quiz when its time runs out
+ * @param roomId - Room ID
+ */
+function expireQuestion(roomId: string) {
+  clearQuestionTimer(roomId);
+  
+  const session = expireQuizSession(roomId);
+  if (!session) {
+    return;
+  }
+  
+  io.to(roomId).emit('quiz:tick', { remainingMs: 0, deadline: session.deadline ?? Date.now() });
+  if (session.answerRevealed) {
+    emitAnswerReveal(roomId);
+  }
+  
+  if (session.choiceDistribution) {
+    awardChoiceScores(roomId, session);
+  } else {
+    broadcastGameState(roomId);
+  }
+  
+  log.info('Quiz time expired', { roomId });
+}
+
+/**
+ * Score every pick of the open choice quiz before its time runs out
+ * @param roomId - Room ID
+ */
+function finishChoiceQuiz(roomId: string) {
+  clearQuestionTimer(roomId);
+  
+  const session = closeChoiceQuiz(roomId);
+  if (session) {
+    emitAnswerReveal(roomId);
+    awardChoiceScores(roomId, session);
+  }
+}
+
+/**
+ * Add points for correct picks of a scored choice quiz and broadcast the results
+ * @param roomId - Room ID
+ * @param session - Session whose choice quiz was just scored
+ */
+function awardChoiceScores(roomId: string, session: GameSession) {
+  session.judgments
+    .filter(judgment => judgment.isCorrect)
+    .forEach(judgment => addScore(roomId, judgment.userId, judgment.score));
+  
+  io.to(roomId).emit('game:score', { scores: getScores(roomId) });
+  broadcastGameState(roomId);
+  
+  log.info('Choice quiz scored', { roomId, distribution: session.choiceDistribution });
+}
+
+/**
+ * Find the connected sockets of a room member
+ * @param roomId - Room ID
+ * @param userId - User ID
+ * @returns Sockets bound to the user that are in the room
+ */
+function getMemberSockets(roomId: string, userId: string) {
+  return Array.from(io.sockets.sockets.values())
+    .filter(socket => socket.data.roomId === roomId && socket.data.userId === userId);
+}
+
+/**
+ * Close a room: tell its members why, send them out and delete it
+ * @param roomId - Room ID
+ * @param reason - Shown to the members
+ * @returns True if the room existed
+ */
+export function closeRoom(roomId: string, reason: string): boolean {
+  const room = getRoom(roomId);
+  if (!room) {
+    return false;
+  }
+
+  io.to(roomId).emit('room:closed', { roomId, reason });
+  for (const socket of io.sockets.sockets.values()) {
+    if (socket.data.roomId === roomId) {
+      socket.leave(roomId);
+      socket.data.roomId = undefined;
+    }
+  }
+
+  deleteRoom(roomId);
+
+  log.info('Room closed', { roomId, reason });
+  return true;
+}
+
+/**
+ * Remove a user from a room and send them back to the lobby
+ * Used by the admin API and by the host's kick and ban commands.
+ * @param roomId - Room ID
+ * @param userId - User ID
+ * @param reason - Shown to the removed user
+ * @param code - Why the host removed the user, for the client to localize (none for operator removals)
+ * @returns True if the user was in the room
+ */
+export function kickUser(roomId: string, userId: string, reason: string, code?: RemovalCode): boolean {
+  if (!getUser(roomId, userId)) {
+    return false;
+  }
+
+  clearAwayTimer(roomId, userId);
+  const previousHostId = getRoom(roomId)?.hostId;
+  const updatedRoom = leaveRoom(roomId, userId);
+
+  for (const socket of getMemberSockets(roomId, userId)) {
+    socket.leave(roomId);
+    socket.data.roomId = undefined;
+    socket.emit('room:kicked', { roomId, reason, code });
+  }
+
+  if (updatedRoom) {
+    io.to(roomId).emit('room:userLeft', { userId });
+    if (updatedRoom.hostId !== previousHostId) {
+      broadcastRoomUpdated(updatedRoom);
+    }
+    broadcastGameState(roomId);
+  }
+
+  log.info('User removed from room', { roomId, userId, reason });
+  return true;
+}
+
+/**
+ * Send a notice to every connected socket
+ * @param message - Notice text
+ * @returns Number of sockets the notice was sent to
+ */
+export function broadcastNotice(message: string): number {
+  io.emit('server:notice', { message });
+  return io.sockets.sockets.size;
+}
+
+/**
+ * Tell every connected socket the server is going down, and stop creating rooms
+ * @param message - Shown to the players
+ * @param reconnectAfterMs - How long clients should wait before reconnecting
+ * @returns Number of sockets told
+ */
+export function announceShutdown(message: string, reconnectAfterMs: number): number {
+  isShuttingDown = true;
+  io.emit('server:shuttingDown', { message, reconnectAfterMs });
+  return io.sockets.sockets.size;
+}
+
+/**
+ * Disconnect every socket, e.g. once the shutdown drain period is over
+ * @returns Number of sockets disconnected
+ */
+export function disconnectAllSockets(): number {
+  const count = io.sockets.sockets.size;
+  io.disconnectSockets(true);
+  return count;
 }
 
 /**
@@ -2,7 +2,7 @@
  * Domain models for Quiz World application
  * - Room (public/private)
  * - User
- * - Quiz (text/image)
+ * - Quiz (text/image/choice)
  * - Score
  * - ImageResource (upload/URL)
  */
@@ -12,11 +12,15 @@
  * @property id - Unique identifier for the user
  * @property name - Display name of the user
  * @property isHost - Whether the user is the host (quiz master)
+ * @property isAway - Whether the user is disconnected and may still reconnect
+ * @property isSpectator - Whether the user only watches: they can chat, but not buzz, answer or score
  */
 export type User = {
   id: string;
   name: string;
   isHost: boolean;
+  isAway?: boolean;
+  isSpectator?: boolean;
 };
 
 /**
@@ -29,23 +33,55 @@ export type ImageResource =
   | { type: 'url'; data: string };
 
 /**
- * Represents a quiz question (text or image)
+ * Kind of quiz question
+ * - text: players buzz in and type an answer
+ * - image: like text, with an image shown alongside the question
+ * - choice: every player picks one of the choices; scored when time runs out
+ */
+export type QuizType = 'text' | 'image' | 'choice';
+
+/**
+ * Represents a quiz question (text, image or multiple choice)
  * @property id - Unique identifier for the quiz
- * @property type - 'text' or 'image'
+ * @property type - Kind of question
  * @property question - The question text
  * @property image - Image resource (for image quiz)
- * @property answer - The correct answer (for reference)
- * @property choices - Optional choices (for future extension)
+ * @property answer - The correct answer (for choice quizzes, one of the choices); empty for non-hosts until revealed
+ * @property acceptedAnswers - Alternate answers also accepted by auto-judge (never sent to non-hosts)
+ * @property choices - Options to pick from (required for choice quizzes)
  */
 export type Quiz = {
   id: string;
-  type: 'text' | 'image';
+  type: QuizType;
   question: string;
   image?: ImageResource;
   answer: string;
+  acceptedAnswers?: string[];
   choices?: string[];
 };
 
+/**
+ * Represents a reusable, ordered set of quizzes that can be loaded into any room
+ * @property id - Unique identifier for the deck
+ * @property title - Deck title
+ * @property description - Short description of the deck
+ * @property tags - Tags for finding the deck
+ * @property quizzes - Quizzes in play order
+ * @property ownerId - Id of the user who created the deck (absent for built-in decks)
+ * @property createdAt - Creation timestamp
+ * @property updatedAt - Last update timestamp
+ */
+export type QuizDeck = {
+  id: string;
+  title: string;
+  description: string;
+  tags: string[];
+  quizzes: Quiz[];
+  ownerId?: string;
+  createdAt: number;
+  updatedAt: number;
+};
+
 /**
  * Represents a score entry for a user
  * @property userId - The user's id
@@ -64,8 +100,14 @@ export type Score = {
  * @property users - Users in the room
  * @property quizzes - Quizzes in the room
  * @property hostId - Current host's user id
- * @property maxPlayers - Maximum number of players
+ * @property maxPlayers - Maximum number of players (spectators not included)
+ * @property maxSpectators - Maximum number of spectators (the server default when absent)
  * @property createdAt - Creation timestamp for accurate chronological sorting
+ * @property autoJudge - Automatic answer checking settings (host judges manually when absent)
+ * @property joinCode - Short code needed to join a private room (absent for public rooms)
+ * @property hasPassword - Whether joining also requires the room password
+ * @property tags - Tags shown in the lobby and matched by lobby search
+ * @property bannedUserIds - Users the host has banned from joining again
  */
 export type Room = {
   id: string;
@@ -75,5 +117,163 @@ export type Room = {
   quizzes: Quiz[];
   hostId: string;
   maxPlayers: number;
+  maxSpectators?: number;
   createdAt: number;
-}; 
\ No newline at end of file
+  autoJudge?: AutoJudgeSettings;
+  joinCode?: string;
+  hasPassword?: boolean;
+  tags?: string[];
+  bannedUserIds?: string[];
+};
+
+/**
+ * Whether a room is playing, as shown in the lobby
+ * - waiting: no quiz is being played
+ * - playing: a quiz is being played
+ * - finished: every quiz in the room has been played
+ */
+export type RoomStatus = 'waiting' | 'playing' | 'finished';
+
+/**
+ * What the lobby shows of a room
+ * @property id - Room id
+ * @property name - Room name
+ * @property hostName - Current host's name (null while the host is not in the room)
+ * @property playerCount - Number of players in the room (spectators not included)
+ * @property maxPlayers - Maximum number of players
+ * @property quizCount - Number of quizzes in the room
+ * @property status - Whether the room is playing
+ * @property tags - Room tags
+ */
+export type RoomSummary = {
+  id: string;
+  name: string;
+  hostName: string | null;
+  playerCount: number;
+  maxPlayers: number;
+  quizCount: number;
+  status: RoomStatus;
+  tags: string[];
+};
+
+/**
+ * Fields the lobby can sort rooms by
+ */
+export type RoomSortKey = 'name' | 'playerCount' | 'createdAt';
+
+/**
+ * Search, sort and page options for the lobby's room list
+ * @property search - Matched case-insensitively against room name, host name and tags
+ * @property sortBy - Sort field (default: createdAt)
+ * @property sortOrder - Sort direction (default: asc)
+ * @property page - 1-based page number (default: 1)
+ * @property pageSize - Rooms per page (default: 12)
+ */
+export type RoomListQuery = {
+  search?: string;
+  sortBy?: RoomSortKey;
+  sortOrder?: 'asc' | 'desc';
+  page?: number;
+  pageSize?: number;
+};
+
+/**
+ * One page of the lobby's room list
+ * @property rooms - Rooms on this page
+ * @property total - Number of rooms matching the search across all pages
+ * @property page - Page number
+ * @property pageSize - Rooms per page
+ */
+export type RoomListPage = {
+  rooms: RoomSummary[];
+  total: number;
+  page: number;
+  pageSize: number;
+};
+
+/**
+ * Settings for judging answers automatically on the server
+ * @property enabled - Whether answers are judged as soon as they are submitted
+ * @property tolerance - Maximum Levenshtein distance still accepted as correct
+ */
+export type AutoJudgeSettings = {
+  enabled: boolean;
+  tolerance: number;
+};
+
+/**
+ * Phase of a room's quiz session
+ * - lobby: no quiz is being played
+ * - quiz-active: a question is open for buzzing and answering
+ * - quiz-answered: the current question has been judged and is closed
+ * - quiz-finished: every quiz in the room has been played
+ */
+export type GamePhase = 'lobby' | 'quiz-active' | 'quiz-answered' | 'quiz-finished';
+
+/**
+ * Represents a judged answer in a quiz session
+ * @property userId - The answering user's id
+ * @property answer - The submitted answer
+ * @property isCorrect - Whether the answer was judged correct
+ * @property score - Points awarded for the answer
+ * @property timestamp - When the judgment was recorded
+ * @property isAuto - Whether the server judged the answer (host may still override)
+ */
+export type Judgment = {
+  userId: string;
+  answer: string;
+  isCorrect: boolean;
+  score: number;
+  timestamp: number;
+  isAuto?: boolean;
+};
+
+/**
+ * Represents a buzz accepted by the server
+ * @property userId - The buzzing user's id
+ * @property receivedAt - Server timestamp when the buzz was received
+ */
+export type BuzzEntry = {
+  userId: string;
+  receivedAt: number;
+};
+
+/**
+ * Represents a player's pick in a multiple-choice quiz
+ * @property userId - The picking user's id
+ * @property choiceIndex - Index into the quiz's choices
+ * @property receivedAt - Server timestamp when the pick was received
+ */
+export type ChoiceSubmission = {
+  userId: string;
+  choiceIndex: number;
+  receivedAt: number;
+};
+
+/**
+ * Server-authoritative state of the quiz being played in a room
+ * @property phase - Current phase of the session
+ * @property currentQuizIndex - Index of the current quiz in the room (-1 in lobby)
+ * @property currentQuizId - Id of the current quiz (null in lobby)
+ * @property buzzQueue - Buzzes for the current quiz in server receive order
+ * @property pendingAnswer - Answer submitted by the buzz winner, awaiting judgment
+ * @property judgments - Judgments made for the current quiz
+ * @property answerRevealed - Whether the correct answer has been revealed
+ * @property choiceSubmissions - Picks for the current choice quiz
+ * @property choiceDistribution - Number of picks per choice, set once a choice quiz is scored
+ * @property deadline - Server timestamp when the current quiz stops accepting buzzes and answers (null if untimed)
+ * @property timeLimit - Seconds each quiz of this game gets, as chosen when the game started (null if untimed)
+ */
+export type GameSession = {
+  phase: GamePhase;
+  currentQuizIndex: number;
+  currentQuizId: string | null;
+  buzzQueue: BuzzEntry[];
+  pendingAnswer: { userId: string; answer: string } | null;
+  judgments: Judgment[];
+  answerRevealed: boolean;
+  choiceSubmissions: ChoiceSubmission[];
+  choiceDistribution: number[] | null;
+  deadline: number | null;
+  timeLimit: number | null;
+};
@@ -1,6 +1,7 @@
 import { describe, test, expect } from 'vitest';
-import type { ClientToServerEvents, ServerToClientEvents, SocketData } from './socket';
-import type { Room, User, Quiz } from './index';
+import { ErrorCode } from './socket';
+import type { ClientToServerEvents, ServerToClientEvents, SocketData, CommandResult, CommandResponse } from './socket';
+import type { Room, RoomSummary, User, Quiz } from './index';
 
 describe('Socket.io Event Types', () => {
   test('ClientToServerEvents type usage', () => {
@@ -13,11 +14,26 @@ describe('Socket.io Event Types', () => {
         expect(data.roomId).toBe('room1');
         expect(data.userName).toBe('Alice');
       },
+      'room:joinByCode': (data) => {
+        expect(data.code).toBe('ABC234');
+        expect(data.userName).toBe('Alice');
+      },
       'room:leave': () => {},
+      'lobby:subscribe': () => {},
+      'lobby:unsubscribe': () => {},
       'room:list': () => {},
       'host:transfer': (data) => {
         expect(data.newHostId).toBe('user2');
       },
+      'room:promoteSpectator': (data) => {
+        expect(data.userId).toBe('user3');
+      },
+      'room:kick': (data) => {
+        expect(data.userId).toBe('user2');
+      },
+      'room:ban': (data) => {
+        expect(data.userId).toBe('user2');
+      },
       'room:update': (data) => {
         expect(data.name).toBe('Updated Room');
         expect(data.isPublic).toBe(false);
@@ -43,29 +59,57 @@ describe('Socket.io Event Types', () => {
         expect(data.score).toBe(10);
       },
 
+      'quiz:next': () => {},
       'quiz:ended': () => {},
       'chat:message': (data) => {
-        expect(data.userId).toBeDefined();
         expect(data.message).toBeDefined();
       },
       'game:buzz': () => {},
       'game:answer': (data) => {
         expect(data.answer).toBe('4');
       },
+      'game:choice': (data) => {
+        expect(data.choiceIndex).toBe(2);
+      },
       'quiz:revealAnswer': () => {},
+      'deck:list': () => {},
+      'deck:create': (data) => {
+        expect(data.title).toBe('My Deck');
+      },
+      'deck:update': (data) => {
+        expect(data.deckId).toBe('deck1');
+      },
+      'deck:delete': (data) => {
+        expect(data.deckId).toBe('deck1');
+      },
+      'deck:load': (data) => {
+        expect(data.deckId).toBe('deck1');
+      },
     };
 
+    const ack = () => {};
+
     // Test room:create event
-    events['room:create']({ name: 'Test Room', isPublic: true });
+    events['room:create']({ name: 'Test Room', isPublic: true }, ack);
     
     // Test room:join event
-    events['room:join']({ roomId: 'room1', userId: 'user1', userName: 'Alice' });
+    events['room:join']({ roomId: 'room1', userName: 'Alice' }, ack);
+
+    // Test room:joinByCode event
+    events['room:joinByCode']({ code: 'ABC234', userName: 'Alice' }, ack);
     
     // Test host:transfer event
-    events['host:transfer']({ newHostId: 'user2' });
+    events['host:transfer']({ newHostId: 'user2' }, ack);
+    
+    // Test room:promoteSpectator event
+    events['room:promoteSpectator']({ userId: 'user3' }, ack);
+    
+    // Test room:kick and room:ban events
+    events['room:kick']({ userId: 'user2' }, ack);
+    events['room:ban']({ userId: 'user2' }, ack);
     
     // Test room:update event
-    events['room:update']({ name: 'Updated Room', isPublic: false });
+    events['room:update']({ name: 'Updated Room', isPublic: false }, ack);
     
     // Test quiz:add event
     const quiz: Quiz = {
@@ -74,23 +118,27 @@ describe('Socket.io Event Types', () => {
       question: 'What is 2+2?',
       answer: '4',
     };
-    events['quiz:add'](quiz);
+    events['quiz:add'](quiz, ack);
     
     // Test quiz:remove event
-    events['quiz:remove']({ quizId: 'quiz1' });
+    events['quiz:remove']({ quizId: 'quiz1' }, ack);
     
     // Test quiz:start event
-    events['quiz:start']({ quizId: 'quiz1', timeLimit: 30 });
+    events['quiz:start']({ quizId: 'quiz1', timeLimit: 30 }, ack);
     
     // Test quiz:answer event
-    events['quiz:answer']({ quizId: 'quiz1', answer: '4' });
+    events['quiz:answer']({ quizId: 'quiz1', answer: '4' }, ack);
     
     // Test quiz:judge event
-    events['quiz:judge']({ userId: 'user1', isCorrect: true, score: 10 });
+    events['quiz:judge']({ userId: 'user1', isCorrect: true, score: 10 }, ack);
   });
 
   test('ServerToClientEvents type usage', () => {
     const events: ServerToClientEvents = {
+      'session:established': (data) => {
+        expect(data.userId).toBe('user1');
+        expect(data.sessionToken).toBeDefined();
+      },
       'room:created': (data) => {
         expect(data.room.id).toBe('room1');
         expect(data.room.name).toBe('Test Room');
@@ -98,6 +146,8 @@ describe('Socket.io Event Types', () => {
       'room:joined': (data) => {
         expect(data.room.id).toBe('room1');
         expect(data.user.id).toBe('user1');
+        expect(data.session.phase).toBe('lobby');
+        expect(data.scores).toHaveLength(1);
       },
       'room:left': () => {},
       'room:list': (data) => {
@@ -112,6 +162,15 @@ describe('Socket.io Event Types', () => {
       'room:userLeft': (data) => {
         expect(data.userId).toBe('user1');
       },
+      'lobby:roomAdded': (data) => {
+        expect(data.room.id).toBe('room1');
+      },
+      'lobby:roomChanged': (data) => {
+        expect(data.room.id).toBe('room1');
+      },
+      'lobby:roomRemoved': (data) => {
+        expect(data.roomId).toBe('room1');
+      },
       'host:transferred': (data) => {
         expect(data.newHostId).toBe('user2');
       },
@@ -144,12 +203,30 @@ describe('Socket.io Event Types', () => {
         expect(data.user.id).toBe('user1');
       },
       'room:notFound': () => {},
+      'room:closed': (data) => {
+        expect(data.reason).toBe('Closed by an operator');
+      },
+      'room:kicked': (data) => {
+        expect(data.roomId).toBe('room1');
+      },
+      'server:notice': (data) => {
+        expect(data.message).toBe('Maintenance in 5 minutes');
+      },
+      'server:shuttingDown': (data) => {
+        expect(data.reconnectAfterMs).toBe(5000);
+      },
       'error': (data) => {
         expect(data.message).toBe('Error message');
+        expect(data.code).toBe(ErrorCode.RoomFull);
+        expect(data.event).toBe('room:join');
       },
       'game:buzz': (data) => {
         expect(data.user.id).toBe('user1');
       },
+      'game:buzzResolved': (data) => {
+        expect(data.winnerId).toBe('user1');
+        expect(data.queue[0].receivedAt).toBe(1000);
+      },
       'game:answer': (data) => {
         expect(data.user.id).toBe('user1');
         expect(data.answer).toBe('4');
@@ -159,7 +236,25 @@ describe('Socket.io Event Types', () => {
         expect(data.scores[0].userId).toBe('user1');
         expect(data.scores[0].score).toBe(10);
       },
-      'quiz:revealAnswer': () => {},
+      'game:state': (data) => {
+        expect(data.session.phase).toBe('quiz-active');
+        expect(data.session.buzzQueue).toEqual([{ userId: 'user1', receivedAt: 1000 }]);
+      },
+      'quiz:revealAnswer': (data) => {
+        expect(data.answer).toBe('4');
+      },
+      'quiz:tick': (data) => {
+        expect(data.remainingMs).toBeGreaterThanOrEqual(0);
+      },
+      'deck:list': (data) => {
+        expect(Array.isArray(data.decks)).toBe(true);
+      },
+      'deck:saved': (data) => {
+        expect(data.deck.title).toBe('My Deck');
+      },
+      'deck:deleted': (data) => {
+        expect(data.deckId).toBe('deck1');
+      },
       'chat:message': (data) => {
         expect(data.userId).toBeDefined();
         expect(data.message).toBeDefined();
@@ -185,10 +280,40 @@ describe('Socket.io Event Types', () => {
       name: 'Alice',
       isHost: true,
     };
-    events['room:joined']({ room, user });
+    events['room:joined']({
+      room,
+      user,
+      session: {
+        phase: 'lobby',
+        currentQuizIndex: -1,
+        currentQuizId: null,
+        buzzQueue: [],
+        pendingAnswer: null,
+        judgments: [],
+        answerRevealed: false,
+        choiceSubmissions: [],
+        choiceDistribution: null,
+        deadline: null,
+        timeLimit: null,
+      },
+      scores: [{ userId: 'user1', score: 10 }],
+    });
     
     // Test room:list event
-    events['room:list']({ rooms: [room] });
+    const summary: RoomSummary = {
+      id: 'room1',
+      name: 'Test Room',
+      hostName: 'Alice',
+      playerCount: 1,
+      maxPlayers: 8,
+      quizCount: 0,
+      status: 'waiting',
+      tags: [],
+    };
+    events['room:list']({ rooms: [summary], total: 1, page: 1, pageSize: 12 });
+    events['lobby:roomAdded']({ room: summary });
+    events['lobby:roomChanged']({ room: summary });
+    events['lobby:roomRemoved']({ roomId: 'room1' });
     
     // Test room:updated event
     const updatedRoom: Room = { ...room, name: 'Updated Room' };
@@ -232,9 +357,41 @@ describe('Socket.io Event Types', () => {
     
     // Test room:notFound event
     events['room:notFound']();
+    events['room:closed']({ roomId: 'room1', reason: 'Closed by an operator' });
+    events['room:kicked']({ roomId: 'room1', reason: 'Removed by an operator' });
+    events['server:notice']({ message: 'Maintenance in 5 minutes' });
+    events['server:shuttingDown']({ message: 'The server is restarting', reconnectAfterMs: 5000 });
     
     // Test error event
-    events['error']({ message: 'Error message' });
+    events['error']({ code: ErrorCode.RoomFull, message: 'Error message', event: 'room:join', requestId: 'request-1' });
+
+    // Test game:state event
+    events['game:state']({
+      session: {
+        phase: 'quiz-active',
+        currentQuizIndex: 0,
+        currentQuizId: 'quiz1',
+        buzzQueue: [{ userId: 'user1', receivedAt: 1000 }],
+        pendingAnswer: null,
+        judgments: [],
+        answerRevealed: false,
+        choiceSubmissions: [],
+        choiceDistribution: null,
+        deadline: null,
+        timeLimit: null,
+      },
+    });
+  });
+
+  test('CommandResult type usage', () => {
+    const success: CommandResult<CommandResponse<'room:list'>> = { ok: true, data: { rooms: [], total: 0, page: 1, pageSize: 12 } };
+    const failure: CommandResult = {
+      ok: false,
+      error: { code: ErrorCode.InvalidPayload, message: 'Invalid name', field: 'name', event: 'room:update', requestId: 'request-1' },
+    };
+
+    expect(success.ok && success.data.rooms).toEqual([]);
+    expect(!failure.ok && failure.error.field).toBe('name');
   });
 
   test('SocketData type usage', () => {
@@ -5,52 +5,160 @@
  * - Room management events
  */
 
-import type { Room, User, Quiz } from './index';
+import type { Room, RoomSummary, RoomListQuery, RoomListPage, User, Quiz, QuizDeck, GameSession, Score, BuzzEntry, AutoJudgeSettings } from './index';
+
+/**
+ * Machine-readable reason a client command failed
+ */
+export enum ErrorCode {
+  /** The payload failed validation (see CommandError.field) */
+  InvalidPayload = 'INVALID_PAYLOAD',
+  /** The sender has not joined a room */
+  NotInRoom = 'NOT_IN_ROOM',
+  /** The sender's connection has no session identity */
+  NoSession = 'NO_SESSION',
+  RoomNotFound = 'ROOM_NOT_FOUND',
+  RoomFull = 'ROOM_FULL',
+  /** The room is private and the sender did not present its join code */
+  RoomPrivate = 'ROOM_PRIVATE',
+  InvalidJoinCode = 'INVALID_JOIN_CODE',
+  WrongPassword = 'WRONG_PASSWORD',
+  /** The host has banned the sender from the room */
+  UserBanned = 'USER_BANNED',
+  /** The command is reserved for the room's host */
+  NotHost = 'NOT_HOST',
+  /** The command is reserved for the deck's owner */
+  NotDeckOwner = 'NOT_DECK_OWNER',
+  UserNotFound = 'USER_NOT_FOUND',
+  QuizNotFound = 'QUIZ_NOT_FOUND',
+  DeckNotFound = 'DECK_NOT_FOUND',
+  /** A quiz is running, so the room's quizzes can't change */
+  QuizInProgress = 'QUIZ_IN_PROGRESS',
+  NoQuizInProgress = 'NO_QUIZ_IN_PROGRESS',
+  /** The current quiz phase doesn't accept this buzz, answer, choice or judgment */
+  NotAccepted = 'NOT_ACCEPTED',
+  AlreadyBuzzed = 'ALREADY_BUZZED',
+  /** Spectators can watch and chat, but not buzz, answer or pick choices */
+  SpectatorCannotPlay = 'SPECTATOR_CANNOT_PLAY',
+  /** The server is shutting down and no longer accepts new rooms */
+  ServerShuttingDown = 'SERVER_SHUTTING_DOWN',
+  /** Something went wrong on the server */
+  Internal = 'INTERNAL',
+}
+
+/**
+ * Why the host removed a member from a room, so the client can explain it in its own language
+ */
+export enum RemovalCode {
+  /** The host removed the member */
+  KickedByHost = 'KICKED_BY_HOST',
+  /** The host removed the member and banned them from rejoining */
+  BannedByHost = 'BANNED_BY_HOST',
+}
+
+/**
+ * Why a client command failed
+ * @property code - Machine-readable reason
+ * @property message - Human-readable description (English)
+ * @property field - Dotted path of the invalid payload field, when validation failed
+ * @property event - Client-to-server event that failed
+ * @property requestId - Server-issued ID of the failed command, also written to the server log
+ */
+export type CommandError = {
+  code: ErrorCode;
+  message: string;
+  field?: string;
+  event: keyof ClientToServerEvents;
+  requestId: string;
+};
+
+/**
+ * Server response to a client command, delivered through its acknowledgement
+ */
+export type CommandResult<T = void> = { ok: true; data: T } | { ok: false; error: CommandError };
+
+/**
+ * Acknowledgement callback passed as the last argument of every client command
+ */
+export type Ack<T = void> = (result: CommandResult<T>) => void;
 
 /**
  * Client to Server events
+ * Every command ends with an acknowledgement the server answers with a CommandResult.
  */
 export interface ClientToServerEvents {
   // Room management
-  'room:create': (data: { name: string; isPublic: boolean; maxPlayers?: number; userName?: string; userId?: string; isDemo?: boolean }) => void;
-  'room:join': (data: { roomId: string; userId: string; userName: string }) => void;
-  'room:leave': () => void;
-  'room:list': () => void;
+  'room:create': (data: { name: string; isPublic: boolean; maxPlayers?: number; userName?: string; isDemo?: boolean; password?: string }, ack: Ack<{ room: Room }>) => void;
+  'room:join': (data: { roomId: string; userName: string; joinCode?: string; password?: string; asSpectator?: boolean }, ack: Ack<{ room: Room; user: User }>) => void;
+  'room:joinByCode': (data: { code: string; userName: string; password?: string; asSpectator?: boolean }, ack: Ack<{ room: Room; user: User }>) => void;
+  'room:leave': (ack: Ack) => void;
+  'room:list': (data: RoomListQuery, ack: Ack<RoomListPage>) => void;
+  
+  // Lobby feed: subscribing answers with a page of public rooms, then pushes lobby:* deltas
+  'lobby:subscribe': (data: RoomListQuery, ack: Ack<RoomListPage>) => void;
+  'lobby:unsubscribe': (ack: Ack) => void;
   
   // Host management
-  'host:transfer': (data: { newHostId: string }) => void;
-  'room:update': (data: { name?: string; isPublic?: boolean }) => void;
+  'host:transfer': (data: { newHostId: string }, ack: Ack) => void;
+  'room:promoteSpectator': (data: { userId: string }, ack: Ack) => void;
+  'room:kick': (data: { userId: string }, ack: Ack) => void;
+  'room:ban': (data: { userId: string }, ack: Ack) => void;
+  'room:update': (data: { name?: string; isPublic?: boolean; autoJudge?: AutoJudgeSettings; tags?: string[] }, ack: Ack<{ room: Room }>) => void;
   
   // Quiz management
-  'quiz:add': (data: Quiz) => void;
-  'quiz:remove': (data: { quizId: string }) => void;
-  'quiz:start': (data: { quizId: string; timeLimit?: number }) => void;
-  'quiz:answer': (data: { quizId: string; answer: string }) => void;
-  'quiz:judge': (data: { userId: string; isCorrect: boolean; score?: number }) => void;
-  'quiz:ended': () => void;
-  'quiz:revealAnswer': () => void;
+  'quiz:add': (data: Quiz, ack: Ack<{ quiz: Quiz }>) => void;
+  'quiz:remove': (data: { quizId: string }, ack: Ack) => void;
+  'quiz:start': (data: { quizId: string; timeLimit?: number }, ack: Ack) => void;
+  'quiz:answer': (data: { quizId: string; answer: string }, ack: Ack) => void;
+  'quiz:judge': (data: { userId: string; isCorrect: boolean; score?: number }, ack: Ack) => void;
+  'quiz:next': (ack: Ack) => void;
+  'quiz:ended': (ack: Ack) => void;
+  'quiz:revealAnswer': (ack: Ack) => void;
+  
+  // Quiz deck events
+  'deck:list': (ack: Ack<{ decks: QuizDeck[] }>) => void;
+  'deck:create': (data: { title: string; description?: string; tags?: string[]; quizzes: Quiz[] }, ack: Ack<{ deck: QuizDeck }>) => void;
+  'deck:update': (data: { deckId: string; title?: string; description?: string; tags?: string[]; quizzes?: Quiz[] }, ack: Ack<{ deck: QuizDeck }>) => void;
+  'deck:delete': (data: { deckId: string }, ack: Ack) => void;
+  'deck:load': (data: { deckId: string }, ack: Ack) => void;
   
   // Game events
-  'game:buzz': (data: { user: User }) => void;
-  'game:answer': (data: { user: User; answer: string }) => void;
+  // The acting player is always the socket's own session user
+  'game:buzz': (ack: Ack) => void;
+  'game:answer': (data: { answer: string }, ack: Ack) => void;
+  'game:choice': (data: { choiceIndex: number }, ack: Ack) => void;
   
   // Chat events
-  'chat:message': (data: { message: string; userId: string; userName: string }) => void;
+  'chat:message': (data: { message: string }, ack: Ack) => void;
 }
 
+/**
+ * Data a client command resolves with once the server acknowledges it
+ */
+export type CommandResponse<E extends keyof ClientToServerEvents> =
+  Parameters<ClientToServerEvents[E]> extends [...unknown[], Ack<infer T>] ? T : never;
+
 /**
  * Server to Client events
  */
 export interface ServerToClientEvents {
+  // Session
+  'session:established': (data: { userId: string; sessionToken: string }) => void;
+  
   // Room management
   'room:created': (data: { room: Room }) => void;
-  'room:joined': (data: { room: Room; user: User }) => void;
+  'room:joined': (data: { room: Room; user: User; session: GameSession; scores: Score[] }) => void;
   'room:left': () => void;
-  'room:list': (data: { rooms: Room[] }) => void;
+  'room:list': (data: RoomListPage) => void;
   'room:updated': (data: { room: Room }) => void;
   'room:userJoined': (data: { user: User }) => void;
   'room:userLeft': (data: { userId: string }) => void;
   
+  // Lobby feed (only sent to lobby subscribers)
+  'lobby:roomAdded': (data: { room: RoomSummary }) => void;
+  'lobby:roomChanged': (data: { room: RoomSummary }) => void;
+  'lobby:roomRemoved': (data: { roomId: string }) => void;
+  
   // Host management
   'host:transferred': (data: { newHostId: string }) => void;
   
@@ -61,22 +169,40 @@ export interface ServerToClientEvents {
   'quiz:answered': (data: { userId: string; answer: string }) => void;
   'quiz:judged': (data: { userId: string; isCorrect: boolean; score: number }) => void;
   'quiz:ended': (data: { results: Array<{ userId: string; score: number }> }) => void;
-  'quiz:revealAnswer': () => void;
+  'quiz:revealAnswer': (data: { quizId: string; answer: string }) => void;
+  'quiz:tick': (data: { remainingMs: number; deadline: number }) => void;
+  
+  // Quiz deck events
+  'deck:list': (data: { decks: QuizDeck[] }) => void;
+  'deck:saved': (data: { deck: QuizDeck }) => void;
+  'deck:deleted': (data: { deckId: string }) => void;
   
   // Game events
   'game:buzz': (data: { user: User }) => void;
+  'game:buzzResolved': (data: { winnerId: string; queue: BuzzEntry[] }) => void;
   'game:answer': (data: { user: User; answer: string }) => void;
   'game:score': (data: { scores: Array<{ userId: string; score: number }> }) => void;
+  'game:state': (data: { session: GameSession }) => void;
   
   // Chat events
   'chat:message': (data: { message: string; userId: string; userName: string; timestamp: number }) => void;
   
   // Error events
-  'error': (data: { message: string }) => void;
+  // field is set when a payload failed validation
+  'error': (data: CommandError) => void;
   
   // Room events
   'room:alreadyJoined': (data: { room: Room; user: User }) => void;
   'room:notFound': () => void;
+  // Sent to the members of a room that was closed, and to a user removed from a room
+  'room:closed': (data: { roomId: string; reason: string }) => void;
+  // code is set when the host removed the user; without it, reason is an operator's own words
+  'room:kicked': (data: { roomId: string; reason: string; code?: RemovalCode }) => void;
+  
+  // Operator announcements sent to every connection
+  'server:notice': (data: { message: string }) => void;
+  // The server is about to restart; reconnect after reconnectAfterMs
+  'server:shuttingDown': (data: { message: string; reconnectAfterMs: number }) => void;
 }
 
 /**
@@ -90,6 +216,7 @@ export interface InterServerEvents {
  * Socket data attached to each socket
  */
 export interface SocketData {
+  // Bound on connection from the server-issued session token
   userId?: string;
   roomId?: string;
   userName?: string;